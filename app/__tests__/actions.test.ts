@@ -0,0 +1,2858 @@
+/**
+ * Unit tests for server actions
+ * Tests that every action is scoped to the signed-in user
+ */
+
+import { asc, eq, sql } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "@/db";
+import type { NewProgressBar, ProgressBar } from "@/db/schema";
+import {
+  achievements,
+  categories,
+  progressBars,
+  progressHistory,
+  tags,
+  userPreferences,
+  xpEvents,
+} from "@/db/schema";
+import { MAX_PINNED_BARS } from "@/lib/dashboard";
+import { UnauthenticatedError } from "@/lib/errors";
+import { MAX_MILESTONES_PER_BAR } from "@/lib/milestones";
+import { timeBasedManager } from "@/lib/services/TimeBasedManager";
+import {
+  COMPLETION_BONUS_XP,
+  XP_PER_TARGET,
+} from "@/lib/services/XpCalculator";
+import { UNDO_DEPTH, UNDO_WINDOW_MS } from "@/lib/undo";
+import {
+  archiveProgressBar,
+  createCategory,
+  createMilestone,
+  createProgressBar,
+  deleteCategory,
+  deleteMilestone,
+  deleteProgressBar,
+  editProgressBar,
+  getAchievements,
+  getBarPeriods,
+  getCategories,
+  getCelebrationsEnabled,
+  getDashboardPreferences,
+  getPinnedBars,
+  getProgressBars,
+  getProgressHistory,
+  getSoundPreferences,
+  getStreakSummary,
+  getTags,
+  getTimeZone,
+  getXpSummary,
+  pinProgressBar,
+  renameCategory,
+  reopenProgressBar,
+  reorderCategories,
+  reorderProgressBars,
+  restoreProgressBar,
+  searchProgressBars,
+  unarchiveProgressBar,
+  undoProgressUpdate,
+  unpinProgressBar,
+  updateCelebrationsEnabled,
+  updateDashboardPreferences,
+  updateProgress,
+  updateSoundPreferences,
+  updateTimeZone,
+} from "../actions";
+
+const { authMock } = vi.hoisted(() => ({ authMock: vi.fn() }));
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: authMock,
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}));
+
+const TEST_USER_ID = "actions-test-user";
+const OTHER_USER_ID = "actions-other-user";
+
+function signInAs(userId: string | null) {
+  authMock.mockResolvedValue({ userId });
+}
+
+async function insertBar(
+  userId: string,
+  title: string,
+  overrides: Partial<NewProgressBar> = {},
+) {
+  const id = crypto.randomUUID();
+  const now = new Date();
+  await db.insert(progressBars).values({
+    id,
+    userId,
+    title,
+    currentValue: 1,
+    targetValue: 10,
+    barType: "manual",
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+  return id;
+}
+
+async function insertCategory(userId: string, name: string, position = 0) {
+  const id = crypto.randomUUID();
+  const now = new Date();
+  await db.insert(categories).values({
+    id,
+    userId,
+    name,
+    position,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return id;
+}
+
+function createCategoryForm(name: string) {
+  const formData = new FormData();
+  formData.set("name", name);
+  return formData;
+}
+
+async function findBar(id: string) {
+  return db.select().from(progressBars).where(eq(progressBars.id, id)).get();
+}
+
+async function loadHistory(barId: string, page?: number) {
+  const result = await getProgressHistory(barId, page);
+  if (!result.success) {
+    throw new Error(`Expected history to load: ${result.errors[0].message}`);
+  }
+  return result.data;
+}
+
+function createManualForm(fields: Record<string, string>) {
+  const formData = new FormData();
+  formData.set("barType", "manual");
+  for (const [name, value] of Object.entries(fields)) {
+    formData.set(name, value);
+  }
+  return formData;
+}
+
+function createTimeBasedForm(fields: Record<string, string>) {
+  const formData = new FormData();
+  formData.set("barType", "time-based");
+  for (const [name, value] of Object.entries(fields)) {
+    formData.set(name, value);
+  }
+  return formData;
+}
+
+describe("server actions", () => {
+  beforeEach(() => {
+    signInAs(TEST_USER_ID);
+  });
+
+  afterEach(async () => {
+    await db.delete(progressBars).where(eq(progressBars.userId, TEST_USER_ID));
+    await db.delete(progressBars).where(eq(progressBars.userId, OTHER_USER_ID));
+    await db.delete(categories).where(eq(categories.userId, TEST_USER_ID));
+    await db.delete(categories).where(eq(categories.userId, OTHER_USER_ID));
+    await db.delete(tags).where(eq(tags.userId, TEST_USER_ID));
+    await db.delete(tags).where(eq(tags.userId, OTHER_USER_ID));
+    await db
+      .delete(userPreferences)
+      .where(eq(userPreferences.userId, TEST_USER_ID));
+    await db
+      .delete(userPreferences)
+      .where(eq(userPreferences.userId, OTHER_USER_ID));
+    await db.delete(xpEvents).where(eq(xpEvents.userId, TEST_USER_ID));
+    await db.delete(xpEvents).where(eq(xpEvents.userId, OTHER_USER_ID));
+    await db.delete(achievements).where(eq(achievements.userId, TEST_USER_ID));
+    await db.delete(achievements).where(eq(achievements.userId, OTHER_USER_ID));
+    vi.clearAllMocks();
+  });
+
+  describe("when signed out", () => {
+    beforeEach(() => {
+      signInAs(null);
+    });
+
+    it("should reject every action with UnauthenticatedError", async () => {
+      const formData = new FormData();
+      formData.set("title", "Anonymous");
+      formData.set("targetValue", "10");
+
+      await expect(getProgressBars()).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(createProgressBar(formData)).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(updateProgress("any-id", 1)).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(reopenProgressBar("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(archiveProgressBar("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(unarchiveProgressBar("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(deleteProgressBar("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(restoreProgressBar("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(undoProgressUpdate("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(getTags()).rejects.toBeInstanceOf(UnauthenticatedError);
+      await expect(getDashboardPreferences()).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(
+        updateDashboardPreferences({ view: "grid" }),
+      ).rejects.toBeInstanceOf(UnauthenticatedError);
+      await expect(getCategories()).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(
+        createCategory(createCategoryForm("Health")),
+      ).rejects.toBeInstanceOf(UnauthenticatedError);
+      await expect(deleteCategory("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(searchProgressBars("run")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(getBarPeriods("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(getPinnedBars()).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(pinProgressBar("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(unpinProgressBar("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(
+        createMilestone("any-id", new FormData()),
+      ).rejects.toBeInstanceOf(UnauthenticatedError);
+      await expect(deleteMilestone("any-id")).rejects.toBeInstanceOf(
+        UnauthenticatedError,
+      );
+      await expect(getXpSummary()).rejects.toBeInstanceOf(UnauthenticatedError);
+    });
+  });
+
+  describe("getProgressBars", () => {
+    it("should only return bars owned by the signed-in user", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs");
+
+      const bars = await getProgressBars();
+      const ids = bars.map((bar) => bar.id);
+
+      expect(ids).toContain(ownId);
+      expect(ids).not.toContain(otherId);
+    });
+
+    it("should leave out archived bars unless they are asked for", async () => {
+      const activeId = await insertBar(TEST_USER_ID, "Active");
+      const archivedId = await insertBar(TEST_USER_ID, "Archived", {
+        archivedAt: new Date(),
+      });
+
+      const active = await getProgressBars();
+      const archived = await getProgressBars({ archived: true });
+
+      expect(active.map((bar) => bar.id)).toEqual([activeId]);
+      expect(archived.map((bar) => bar.id)).toEqual([archivedId]);
+    });
+  });
+
+  describe("createProgressBar", () => {
+    it("should assign the new bar to the signed-in user", async () => {
+      const formData = new FormData();
+      formData.set("title", "Owned Bar");
+      formData.set("targetValue", "5");
+
+      const result = await createProgressBar(formData);
+
+      expect(result).toEqual({ success: true, data: undefined });
+      const bars = await getProgressBars();
+      expect(bars).toHaveLength(1);
+      expect(bars[0].userId).toBe(TEST_USER_ID);
+      expect(bars[0].stepSize).toBe(1);
+    });
+
+    it("should start burn-down bars at their starting value", async () => {
+      const formData = new FormData();
+      formData.set("title", "Debt");
+      formData.set("direction", "down");
+      formData.set("startValue", "12000");
+      formData.set("targetValue", "0");
+
+      await createProgressBar(formData);
+
+      const [bar] = await getProgressBars();
+      expect(bar).toMatchObject({
+        direction: "down",
+        startValue: 12000,
+        currentValue: 12000,
+        targetValue: 0,
+      });
+    });
+
+    it("should reject missing titles and invalid targets field by field", async () => {
+      const result = await createProgressBar(
+        createManualForm({ title: "   ", targetValue: "NaN" }),
+      );
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: "title", code: "REQUIRED_FIELD" }),
+          expect.objectContaining({
+            field: "targetValue",
+            code: "INVALID_VALUE",
+          }),
+        ]),
+      );
+      expect(await getProgressBars()).toHaveLength(0);
+    });
+
+    it("should reject an unknown bar type", async () => {
+      const formData = createManualForm({ title: "Odd", targetValue: "1" });
+      formData.set("barType", "mystery");
+
+      const result = await createProgressBar(formData);
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors[0].field).toBe("barType");
+    });
+
+    it("should reject an unknown time-based type", async () => {
+      const result = await createProgressBar(
+        createTimeBasedForm({
+          title: "Odd",
+          timeBasedType: "sideways",
+          startDate: "2024-01-01",
+          targetDate: "2030-01-01",
+        }),
+      );
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          field: "timeBasedType",
+          code: "INVALID_VALUE",
+        }),
+      ]);
+    });
+
+    it("should apply the date rules for time-based bars on the server", async () => {
+      const result = await createProgressBar(
+        createTimeBasedForm({
+          title: "Future count-up",
+          timeBasedType: "count-up",
+          startDate: "2099-01-01",
+          targetDate: "2099-06-01",
+        }),
+      );
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            field: "startDate",
+            code: "FUTURE_START_DATE",
+          }),
+        ]),
+      );
+      expect(await getProgressBars()).toHaveLength(0);
+    });
+
+    it("should report malformed dates", async () => {
+      const result = await createProgressBar(
+        createTimeBasedForm({
+          title: "Bad dates",
+          timeBasedType: "arrival-date",
+          startDate: "yesterday",
+          targetDate: "",
+        }),
+      );
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            field: "startDate",
+            code: "INVALID_DATE_FORMAT",
+          }),
+          expect.objectContaining({
+            field: "targetDate",
+            code: "REQUIRED_FIELD",
+          }),
+        ]),
+      );
+    });
+  });
+
+  describe("time-based creation paths", () => {
+    const now = new Date("2025-06-01T12:00:00");
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    // Fields that legitimately differ between two otherwise identical bars
+    function comparableFields(bar: ProgressBar | undefined) {
+      if (!bar) return bar;
+      const { id: _id, title: _title, ...rest } = bar;
+      return rest;
+    }
+
+    it.each([
+      {
+        timeBasedType: "count-up",
+        startDate: "2024-01-01",
+        targetDate: "2027-12-31",
+      },
+      {
+        timeBasedType: "count-down",
+        startDate: "",
+        targetDate: "2026-03-15",
+      },
+      {
+        timeBasedType: "arrival-date",
+        startDate: "2020-01-01",
+        targetDate: "2021-01-01",
+      },
+    ] as const)(
+      "should store identical $timeBasedType rows from the action and the manager",
+      async ({ timeBasedType, startDate, targetDate }) => {
+        const result = await createProgressBar(
+          createTimeBasedForm({
+            title: "From action",
+            description: "Same input",
+            timeBasedType,
+            startDate,
+            targetDate,
+          }),
+        );
+        expect(result.success).toBe(true);
+
+        const managerBar = await timeBasedManager.createTimeBasedBar(
+          {
+            title: "From manager",
+            description: "Same input",
+            timeBasedType,
+            startDate:
+              timeBasedType === "count-down"
+                ? now
+                : new Date(`${startDate}T00:00:00`),
+            targetDate: new Date(`${targetDate}T00:00:00`),
+          },
+          TEST_USER_ID,
+        );
+
+        const bars = await getProgressBars();
+        const actionBar = bars.find((bar) => bar.title === "From action");
+        const actionRow = actionBar && (await findBar(actionBar.id));
+        const managerRow = await findBar(managerBar.id);
+
+        expect(actionRow).toBeDefined();
+        expect(comparableFields(actionRow)).toEqual(
+          comparableFields(managerRow),
+        );
+        // Day counts are stored rather than a placeholder percentage
+        expect(actionRow?.targetValue).not.toBe(100);
+      },
+    );
+
+    it("should store completion status computed at creation", async () => {
+      const result = await createProgressBar(
+        createTimeBasedForm({
+          title: "Already arrived",
+          timeBasedType: "arrival-date",
+          startDate: "2020-01-01",
+          targetDate: "2021-01-01",
+        }),
+      );
+      expect(result.success).toBe(true);
+
+      const [bar] = await getProgressBars();
+      expect(bar).toMatchObject({
+        isCompleted: true,
+        isOverdue: true,
+        targetValue: 366,
+      });
+    });
+  });
+
+  describe("editProgressBar", () => {
+    it("should update a manual bar's details", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+      const formData = new FormData();
+      formData.set("title", "Savings");
+      formData.set("description", "Emergency fund");
+      formData.set("targetValue", "500");
+      formData.set("unit", "$");
+      formData.set("unitPosition", "prefix");
+      formData.set("stepSize", "25");
+
+      const result = await editProgressBar(ownId, formData);
+
+      expect(result.success).toBe(true);
+      expect(await findBar(ownId)).toMatchObject({
+        title: "Savings",
+        description: "Emergency fund",
+        targetValue: 500,
+        unit: "$",
+        unitPosition: "prefix",
+        stepSize: 25,
+        currentValue: 1,
+      });
+    });
+
+    it("should clear the reached date when the target is raised past the value", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 10,
+        targetReachedAt: new Date("2025-03-01T12:00:00Z"),
+      });
+      const formData = new FormData();
+      formData.set("title", "Books");
+      formData.set("targetValue", "20");
+
+      await editProgressBar(ownId, formData);
+      expect((await findBar(ownId))?.targetReachedAt).toBeNull();
+
+      formData.set("targetValue", "5");
+      await editProgressBar(ownId, formData);
+      expect((await findBar(ownId))?.targetReachedAt).toBeInstanceOf(Date);
+    });
+
+    it("should clamp the value into a bar's new range", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 8,
+      });
+      const formData = new FormData();
+      formData.set("title", "Books");
+      formData.set("targetValue", "5");
+
+      await editProgressBar(ownId, formData);
+      expect(await findBar(ownId)).toMatchObject({
+        currentValue: 5,
+        isCompleted: true,
+      });
+
+      // Turned into a burn-down from 4 to 1
+      formData.set("direction", "down");
+      formData.set("startValue", "4");
+      formData.set("targetValue", "1");
+      await editProgressBar(ownId, formData);
+      expect(await findBar(ownId)).toMatchObject({
+        currentValue: 4,
+        isCompleted: false,
+      });
+    });
+
+    it("should keep a value past the target when the bar allows overflow", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 8,
+      });
+      const formData = new FormData();
+      formData.set("title", "Books");
+      formData.set("targetValue", "5");
+      formData.set("allowOverflow", "on");
+
+      await editProgressBar(ownId, formData);
+      expect((await findBar(ownId))?.currentValue).toBe(8);
+    });
+
+    it("should reject an invalid target value", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+      const formData = new FormData();
+      formData.set("title", "Mine");
+      formData.set("targetValue", "abc");
+
+      const result = await editProgressBar(ownId, formData);
+
+      expect(result).toEqual({
+        success: false,
+        errors: [
+          {
+            field: "targetValue",
+            message: "Target value must be a positive number",
+            code: "INVALID_VALUE",
+          },
+        ],
+      });
+      expect((await findBar(ownId))?.targetValue).toBe(10);
+    });
+
+    it("should validate and recompute time-based bars", async () => {
+      const id = crypto.randomUUID();
+      const now = new Date();
+      await db.insert(progressBars).values({
+        id,
+        userId: TEST_USER_ID,
+        title: "Trip",
+        currentValue: 0,
+        targetValue: 100,
+        barType: "time-based",
+        startDate: new Date("2025-01-01T00:00:00").toISOString(),
+        targetDate: new Date("2030-01-01T00:00:00").toISOString(),
+        timeBasedType: "arrival-date",
+        createdAt: now,
+        updatedAt: now,
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+      });
+
+      const formData = new FormData();
+      formData.set("title", "Trip");
+      formData.set("timeBasedType", "arrival-date");
+      formData.set("startDate", "2020-01-01");
+      formData.set("targetDate", "2021-01-01");
+
+      expect((await editProgressBar(id, formData)).success).toBe(true);
+      expect(await findBar(id)).toMatchObject({
+        startDate: new Date("2020-01-01T00:00:00").toISOString(),
+        targetDate: new Date("2021-01-01T00:00:00").toISOString(),
+        isCompleted: true,
+        isOverdue: true,
+      });
+
+      formData.set("targetDate", "2019-01-01");
+      const result = await editProgressBar(id, formData);
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            field: "targetDate",
+            code: "INVALID_DATE_RANGE",
+          }),
+        ]),
+      );
+    });
+
+    it("should not edit another user's bar", async () => {
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs");
+      const formData = new FormData();
+      formData.set("title", "Hijacked");
+      formData.set("targetValue", "5");
+
+      const result = await editProgressBar(otherId, formData);
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors[0].code).toBe("NOT_FOUND");
+      expect((await findBar(otherId))?.title).toBe("Theirs");
+    });
+  });
+
+  describe("updateProgress", () => {
+    it("should not update another user's bar", async () => {
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs");
+
+      const result = await updateProgress(otherId, 9);
+
+      expect(result.success).toBe(false);
+      expect((await findBar(otherId))?.currentValue).toBe(1);
+    });
+
+    it("should reject values that are not finite numbers", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      for (const value of [Number.NaN, Number.POSITIVE_INFINITY, -1]) {
+        const result = await updateProgress(ownId, value);
+        expect(result.success).toBe(false);
+      }
+
+      expect((await findBar(ownId))?.currentValue).toBe(1);
+    });
+
+    it("should update the signed-in user's bar", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      await updateProgress(ownId, 9);
+
+      expect((await findBar(ownId))?.currentValue).toBe(9);
+    });
+
+    it("should record each change in the bar's history", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      await updateProgress(ownId, 4);
+      await updateProgress(ownId, 3);
+
+      const entries = await db
+        .select()
+        .from(progressHistory)
+        .where(eq(progressHistory.barId, ownId))
+        .all();
+
+      expect(entries).toHaveLength(2);
+      expect(entries).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            previousValue: 1,
+            newValue: 4,
+            delta: 3,
+            source: "manual",
+          }),
+          expect.objectContaining({
+            previousValue: 4,
+            newValue: 3,
+            delta: -1,
+            source: "manual",
+          }),
+        ]),
+      );
+    });
+
+    it("should chain the history of updates made at the same time", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      await Promise.all([updateProgress(ownId, 4), updateProgress(ownId, 7)]);
+
+      const entries = await db
+        .select()
+        .from(progressHistory)
+        .where(eq(progressHistory.barId, ownId))
+        .orderBy(asc(sql`rowid`))
+        .all();
+      expect(
+        entries.map((entry) => [entry.previousValue, entry.newValue]),
+      ).toEqual([
+        [1, 4],
+        [4, 7],
+      ]);
+      expect((await findBar(ownId))?.currentValue).toBe(7);
+    });
+
+    it("should record a change as manual whatever the client sends", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      // Only resets and undos record other sources; clients cannot pass one
+      await (updateProgress as (...args: unknown[]) => unknown)(
+        ownId,
+        4,
+        "undo",
+      );
+
+      const entry = await db
+        .select()
+        .from(progressHistory)
+        .where(eq(progressHistory.barId, ownId))
+        .get();
+      expect(entry?.source).toBe("manual");
+    });
+
+    it("should not go past the target unless the bar allows overflow", async () => {
+      const cappedId = await insertBar(TEST_USER_ID, "Capped");
+      const overflowId = await insertBar(TEST_USER_ID, "Overflow", {
+        allowOverflow: true,
+      });
+
+      const capped = await updateProgress(cappedId, 12);
+      const overflow = await updateProgress(overflowId, 12);
+
+      expect(capped.success).toBe(false);
+      expect((await findBar(cappedId))?.currentValue).toBe(1);
+      expect(overflow.success).toBe(true);
+      expect((await findBar(overflowId))?.currentValue).toBe(12);
+    });
+
+    it("should not go back past the start of a burn-down bar", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Debt", {
+        direction: "down",
+        startValue: 100,
+        targetValue: 0,
+        currentValue: 80,
+      });
+
+      const result = await updateProgress(ownId, 120);
+
+      expect(result).toMatchObject({
+        success: false,
+        errors: [
+          {
+            field: "currentValue",
+            message: "Progress cannot go back past the start of this bar",
+          },
+        ],
+      });
+      expect((await findBar(ownId))?.currentValue).toBe(80);
+      expect((await updateProgress(ownId, 100)).success).toBe(true);
+    });
+
+    it("should record when the target is first reached", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books", {
+        allowOverflow: true,
+      });
+
+      await updateProgress(ownId, 9);
+      expect((await findBar(ownId))?.targetReachedAt).toBeNull();
+
+      await updateProgress(ownId, 10);
+      const reachedAt = (await findBar(ownId))?.targetReachedAt;
+      expect(reachedAt).toBeInstanceOf(Date);
+
+      // Overshooting, dipping below and crossing again keep the first date
+      await updateProgress(ownId, 12);
+      await updateProgress(ownId, 8);
+      await updateProgress(ownId, 11);
+      expect((await findBar(ownId))?.targetReachedAt).toEqual(reachedAt);
+    });
+
+    it("should apply the target in a burn-down bar's direction", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Weight", {
+        direction: "down",
+        startValue: 95,
+        currentValue: 95,
+        targetValue: 80,
+      });
+
+      expect((await updateProgress(ownId, 79)).success).toBe(false);
+
+      await updateProgress(ownId, 85);
+      expect((await findBar(ownId))?.targetReachedAt).toBeNull();
+
+      await updateProgress(ownId, 80);
+      expect((await findBar(ownId))?.targetReachedAt).toBeInstanceOf(Date);
+    });
+
+    it("should not record history when the value is unchanged", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      await updateProgress(ownId, 1);
+
+      const history = await loadHistory(ownId);
+      expect(history.entries).toHaveLength(0);
+    });
+  });
+
+  describe("completion", () => {
+    it("should complete a manual bar when it reaches its target", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books");
+
+      await updateProgress(ownId, 10);
+
+      const bar = await findBar(ownId);
+      expect(bar?.isCompleted).toBe(true);
+      expect(bar?.completedAt).toBeInstanceOf(Date);
+    });
+
+    it("should clear completion when a bar drops below its target", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books");
+
+      await updateProgress(ownId, 10);
+      await updateProgress(ownId, 9);
+
+      expect(await findBar(ownId)).toMatchObject({
+        isCompleted: false,
+        completedAt: null,
+      });
+    });
+
+    it("should complete burn-down bars at their lower target", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Debt", {
+        direction: "down",
+        startValue: 500,
+        currentValue: 500,
+        targetValue: 0,
+      });
+
+      await updateProgress(ownId, 100);
+      expect((await findBar(ownId))?.isCompleted).toBe(false);
+
+      await updateProgress(ownId, 0);
+      expect((await findBar(ownId))?.isCompleted).toBe(true);
+    });
+
+    it("should recompute completion when the target is edited", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 8,
+      });
+      const formData = new FormData();
+      formData.set("title", "Books");
+      formData.set("targetValue", "8");
+
+      await editProgressBar(ownId, formData);
+      expect((await findBar(ownId))?.isCompleted).toBe(true);
+
+      formData.set("targetValue", "12");
+      await editProgressBar(ownId, formData);
+      expect(await findBar(ownId)).toMatchObject({
+        isCompleted: false,
+        completedAt: null,
+      });
+    });
+
+    it("should keep a reopened bar open while it stays at its target", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books", {
+        allowOverflow: true,
+      });
+      await updateProgress(ownId, 10);
+
+      const result = await reopenProgressBar(ownId);
+      await updateProgress(ownId, 11);
+
+      expect(result).toEqual({ success: true, data: undefined });
+      expect(await findBar(ownId)).toMatchObject({
+        isCompleted: false,
+        completedAt: null,
+      });
+
+      // Falling short and reaching the target again completes it anew
+      await updateProgress(ownId, 9);
+      await updateProgress(ownId, 10);
+      expect((await findBar(ownId))?.isCompleted).toBe(true);
+    });
+
+    it("should only reopen the signed-in user's manual bars", async () => {
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs", {
+        isCompleted: true,
+      });
+      const timeBased = await timeBasedManager.createTimeBasedBar(
+        {
+          title: "Past",
+          timeBasedType: "arrival-date",
+          startDate: new Date("2020-01-01T00:00:00"),
+          targetDate: new Date("2021-01-01T00:00:00"),
+        },
+        TEST_USER_ID,
+      );
+
+      const other = await reopenProgressBar(otherId);
+      const time = await reopenProgressBar(timeBased.id);
+
+      expect(other.success).toBe(false);
+      expect(time.success).toBe(false);
+      expect((await findBar(otherId))?.isCompleted).toBe(true);
+      expect((await findBar(timeBased.id))?.isCompleted).toBe(true);
+    });
+  });
+
+  describe("getProgressHistory", () => {
+    it("should page through history newest first", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine", { targetValue: 100 });
+
+      for (let value = 2; value <= 26; value++) {
+        await updateProgress(ownId, value);
+      }
+
+      const firstPage = await loadHistory(ownId);
+      expect(firstPage.entries).toHaveLength(20);
+      expect(firstPage.hasMore).toBe(true);
+      expect(firstPage.entries[0].newValue).toBe(26);
+
+      const secondPage = await loadHistory(ownId, 1);
+      expect(secondPage.page).toBe(1);
+      expect(secondPage.entries).toHaveLength(5);
+      expect(secondPage.hasMore).toBe(false);
+      expect(secondPage.entries[4].newValue).toBe(2);
+    });
+
+    it("should not expose another user's history", async () => {
+      signInAs(OTHER_USER_ID);
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs");
+      await updateProgress(otherId, 5);
+
+      signInAs(TEST_USER_ID);
+      const history = await loadHistory(otherId);
+
+      expect(history.entries).toHaveLength(0);
+      expect(history.hasMore).toBe(false);
+    });
+
+    it("should reject invalid page numbers", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      expect((await getProgressHistory(ownId, -1)).success).toBe(false);
+      expect((await getProgressHistory(ownId, 1.5)).success).toBe(false);
+    });
+  });
+
+  describe("archiveProgressBar", () => {
+    it("should archive and restore a bar, keeping its history", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+      await updateProgress(ownId, 5);
+
+      const archived = await archiveProgressBar(ownId);
+      expect(archived.success).toBe(true);
+      expect((await findBar(ownId))?.archivedAt).toBeInstanceOf(Date);
+      expect(await getProgressBars()).toHaveLength(0);
+
+      const restored = await unarchiveProgressBar(ownId);
+      expect(restored.success).toBe(true);
+      expect((await findBar(ownId))?.archivedAt).toBeNull();
+      expect((await loadHistory(ownId)).entries).toHaveLength(1);
+    });
+
+    it("should not archive or restore another user's bar", async () => {
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs");
+      const otherArchivedId = await insertBar(OTHER_USER_ID, "Old", {
+        archivedAt: new Date(),
+      });
+
+      expect((await archiveProgressBar(otherId)).success).toBe(false);
+      expect((await unarchiveProgressBar(otherArchivedId)).success).toBe(false);
+      expect((await findBar(otherId))?.archivedAt).toBeNull();
+      expect((await findBar(otherArchivedId))?.archivedAt).toBeInstanceOf(Date);
+    });
+
+    it("should report bars that are already in the requested state", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      expect(await unarchiveProgressBar(ownId)).toEqual({
+        success: false,
+        errors: [expect.objectContaining({ code: "NOT_FOUND" })],
+      });
+    });
+  });
+
+  describe("deleteProgressBar", () => {
+    it("should not delete another user's bar", async () => {
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs");
+
+      const result = await deleteProgressBar(otherId);
+
+      expect(result.success).toBe(false);
+      expect(await findBar(otherId)).toBeDefined();
+    });
+
+    it("should delete the signed-in user's bar", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+
+      const result = await deleteProgressBar(ownId);
+
+      expect(result.success).toBe(true);
+      expect(await getProgressBars()).toHaveLength(0);
+      expect((await updateProgress(ownId, 5)).success).toBe(false);
+    });
+
+    it("should say until when the bar can be restored", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+      const before = Date.now();
+
+      const result = await deleteProgressBar(ownId);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      const restorableUntil = result.data.restorableUntil.getTime();
+      expect(restorableUntil).toBeGreaterThanOrEqual(before + UNDO_WINDOW_MS);
+      expect(restorableUntil).toBeLessThanOrEqual(Date.now() + UNDO_WINDOW_MS);
+    });
+
+    it("should restore a deleted bar within the undo window", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+      await deleteProgressBar(ownId);
+
+      const result = await restoreProgressBar(ownId);
+
+      expect(result).toEqual({ success: true, data: undefined });
+      expect((await getProgressBars()).map((bar) => bar.id)).toEqual([ownId]);
+    });
+
+    it("should remove deleted bars for good once the window has passed", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine", {
+        deletedAt: new Date(Date.now() - UNDO_WINDOW_MS - 1000),
+      });
+
+      expect((await restoreProgressBar(ownId)).success).toBe(false);
+
+      await getProgressBars();
+      expect(await findBar(ownId)).toBeUndefined();
+    });
+
+    it("should not restore another user's bar", async () => {
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs", {
+        deletedAt: new Date(),
+      });
+
+      expect((await restoreProgressBar(otherId)).success).toBe(false);
+      expect((await findBar(otherId))?.deletedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("undoProgressUpdate", () => {
+    it("should step back through recent changes", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+      await updateProgress(ownId, 4);
+      await updateProgress(ownId, 7);
+
+      await undoProgressUpdate(ownId);
+      expect((await findBar(ownId))?.currentValue).toBe(4);
+
+      await undoProgressUpdate(ownId);
+      expect((await findBar(ownId))?.currentValue).toBe(1);
+
+      const result = await undoProgressUpdate(ownId);
+      expect(result.success).toBe(false);
+      expect((await findBar(ownId))?.currentValue).toBe(1);
+    });
+
+    it("should record undos in history and undo them as a stack", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine");
+      await updateProgress(ownId, 3);
+      await undoProgressUpdate(ownId);
+      await updateProgress(ownId, 6);
+      await undoProgressUpdate(ownId);
+
+      const history = await loadHistory(ownId);
+      expect(history.entries.map((entry) => entry.source)).toEqual([
+        "undo",
+        "manual",
+        "undo",
+        "manual",
+      ]);
+      expect(
+        history.entries.every(
+          (entry) => entry.source === "undo" || entry.undoneAt !== null,
+        ),
+      ).toBe(true);
+      expect((await findBar(ownId))?.currentValue).toBe(1);
+    });
+
+    it("should restore completion along with the value", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books");
+      await updateProgress(ownId, 10);
+
+      await undoProgressUpdate(ownId);
+
+      expect(await findBar(ownId)).toMatchObject({
+        currentValue: 1,
+        isCompleted: false,
+        completedAt: null,
+      });
+    });
+
+    it("should only undo the most recent changes", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Mine", {
+        targetValue: 100,
+      });
+      for (let value = 2; value <= UNDO_DEPTH + 3; value++) {
+        await updateProgress(ownId, value);
+      }
+
+      let undone = 0;
+      while ((await undoProgressUpdate(ownId)).success) {
+        undone++;
+      }
+
+      expect(undone).toBe(UNDO_DEPTH);
+      expect((await findBar(ownId))?.currentValue).toBe(3);
+    });
+
+    it("should not undo another user's changes", async () => {
+      signInAs(OTHER_USER_ID);
+      const otherId = await insertBar(OTHER_USER_ID, "Theirs");
+      await updateProgress(otherId, 5);
+
+      signInAs(TEST_USER_ID);
+      const result = await undoProgressUpdate(otherId);
+
+      expect(result.success).toBe(false);
+      expect((await findBar(otherId))?.currentValue).toBe(5);
+    });
+  });
+
+  describe("categories", () => {
+    it("should add new categories at the end", async () => {
+      await createCategory(createCategoryForm("Health"));
+      await createCategory(createCategoryForm("  Money  "));
+
+      const result = await getCategories();
+
+      expect(result.map((c) => [c.name, c.position])).toEqual([
+        ["Health", 0],
+        ["Money", 1],
+      ]);
+    });
+
+    it("should reject blank and duplicate names", async () => {
+      await insertCategory(TEST_USER_ID, "Health");
+      const blank = await createCategory(createCategoryForm("  "));
+      const duplicate = await createCategory(createCategoryForm("Health"));
+
+      expect(!blank.success && blank.errors[0].code).toBe("REQUIRED_FIELD");
+      expect(!duplicate.success && duplicate.errors[0].field).toBe("name");
+    });
+
+    it("should only list and rename the user's own categories", async () => {
+      const ownId = await insertCategory(TEST_USER_ID, "Health");
+      const otherId = await insertCategory(OTHER_USER_ID, "Theirs");
+
+      const renamed = await renameCategory(
+        ownId,
+        createCategoryForm("Fitness"),
+      );
+      const hijacked = await renameCategory(
+        otherId,
+        createCategoryForm("Mine now"),
+      );
+
+      expect(renamed.success).toBe(true);
+      expect(!hijacked.success && hijacked.errors[0].code).toBe("NOT_FOUND");
+      expect((await getCategories()).map((c) => c.name)).toEqual(["Fitness"]);
+    });
+
+    it("should reorder categories", async () => {
+      const a = await insertCategory(TEST_USER_ID, "A", 0);
+      const b = await insertCategory(TEST_USER_ID, "B", 1);
+      const c = await insertCategory(TEST_USER_ID, "C", 2);
+
+      const result = await reorderCategories([c, a, b]);
+
+      expect(result.success).toBe(true);
+      expect((await getCategories()).map((cat) => cat.name)).toEqual([
+        "C",
+        "A",
+        "B",
+      ]);
+    });
+
+    it("should reject incomplete or foreign orderings", async () => {
+      const a = await insertCategory(TEST_USER_ID, "A", 0);
+      const b = await insertCategory(TEST_USER_ID, "B", 1);
+      const foreign = await insertCategory(OTHER_USER_ID, "X", 0);
+
+      for (const ids of [[b], [b, a, a], [b, foreign]]) {
+        const result = await reorderCategories(ids);
+        expect(result.success).toBe(false);
+      }
+      expect((await getCategories()).map((cat) => cat.id)).toEqual([a, b]);
+    });
+
+    it("should store the picked category on new and edited bars", async () => {
+      const health = await insertCategory(TEST_USER_ID, "Health");
+      const money = await insertCategory(TEST_USER_ID, "Money");
+
+      await createProgressBar(
+        createManualForm({
+          title: "Run",
+          targetValue: "5",
+          categoryId: health,
+        }),
+      );
+      const [bar] = await getProgressBars();
+      expect(bar.categoryId).toBe(health);
+
+      await editProgressBar(
+        bar.id,
+        createManualForm({ title: "Run", targetValue: "5", categoryId: money }),
+      );
+      expect((await findBar(bar.id))?.categoryId).toBe(money);
+
+      // Forms without a picker leave the category alone
+      await editProgressBar(
+        bar.id,
+        createManualForm({ title: "Walk", targetValue: "5" }),
+      );
+      expect((await findBar(bar.id))?.categoryId).toBe(money);
+
+      await editProgressBar(
+        bar.id,
+        createManualForm({ title: "Run", targetValue: "5", categoryId: "" }),
+      );
+      expect((await findBar(bar.id))?.categoryId).toBeNull();
+    });
+
+    it("should store the category of time-based bars", async () => {
+      const health = await insertCategory(TEST_USER_ID, "Health");
+
+      const result = await createProgressBar(
+        createTimeBasedForm({
+          title: "Trip",
+          timeBasedType: "arrival-date",
+          startDate: "2025-01-01",
+          targetDate: "2060-01-01",
+          categoryId: health,
+        }),
+      );
+
+      expect(result.success).toBe(true);
+      const [bar] = await getProgressBars();
+      expect(bar.categoryId).toBe(health);
+    });
+
+    it("should not file bars under another user's category", async () => {
+      const foreign = await insertCategory(OTHER_USER_ID, "Theirs");
+
+      const result = await createProgressBar(
+        createManualForm({
+          title: "Run",
+          targetValue: "5",
+          categoryId: foreign,
+        }),
+      );
+
+      expect(!result.success && result.errors[0].field).toBe("categoryId");
+      expect(await getProgressBars()).toHaveLength(0);
+    });
+
+    it("should move bars to Uncategorized when their category is deleted", async () => {
+      const health = await insertCategory(TEST_USER_ID, "Health");
+      const barId = await insertBar(TEST_USER_ID, "Run", {
+        categoryId: health,
+      });
+
+      const result = await deleteCategory(health);
+
+      expect(result.success).toBe(true);
+      expect(await getCategories()).toHaveLength(0);
+      expect((await findBar(barId))?.categoryId).toBeNull();
+    });
+
+    it("should not delete another user's category", async () => {
+      const foreign = await insertCategory(OTHER_USER_ID, "Theirs");
+
+      const result = await deleteCategory(foreign);
+
+      expect(!result.success && result.errors[0].code).toBe("NOT_FOUND");
+      signInAs(OTHER_USER_ID);
+      expect(await getCategories()).toHaveLength(1);
+    });
+  });
+
+  describe("tags", () => {
+    async function createTaggedBar(title: string, tagList: string) {
+      await createProgressBar(
+        createManualForm({ title, targetValue: "10", tags: tagList }),
+      );
+    }
+
+    async function titlesMatching(tagFilter: {
+      tags: string[];
+      match: "all" | "any";
+    }) {
+      const bars = await getProgressBars({ tagFilter });
+      return bars.map((bar) => bar.title).sort();
+    }
+
+    it("should store normalized tags and return them with each bar", async () => {
+      await createTaggedBar("Run", "Health, Daily Habit");
+
+      const [bar] = await getProgressBars();
+
+      expect(bar.tags).toEqual(["daily-habit", "health"]);
+      expect(await getTags()).toEqual(["daily-habit", "health"]);
+    });
+
+    it("should replace tags on edit and keep them without a tags field", async () => {
+      await createTaggedBar("Run", "health");
+      const [bar] = await getProgressBars();
+
+      await editProgressBar(
+        bar.id,
+        createManualForm({ title: "Run", targetValue: "10" }),
+      );
+      expect((await getProgressBars())[0].tags).toEqual(["health"]);
+
+      await editProgressBar(
+        bar.id,
+        createManualForm({ title: "Run", targetValue: "10", tags: "fitness" }),
+      );
+      expect((await getProgressBars())[0].tags).toEqual(["fitness"]);
+    });
+
+    it("should filter on any or all of the given tags", async () => {
+      await createTaggedBar("Run", "health, daily");
+      await createTaggedBar("Read", "daily");
+      await createTaggedBar("Save", "money");
+
+      expect(
+        await titlesMatching({ tags: ["health", "daily"], match: "any" }),
+      ).toEqual(["Read", "Run"]);
+      expect(
+        await titlesMatching({ tags: ["health", "daily"], match: "all" }),
+      ).toEqual(["Run"]);
+      expect(
+        await titlesMatching({ tags: ["daily", "daily"], match: "all" }),
+      ).toEqual(["Read", "Run"]);
+      expect(await titlesMatching({ tags: ["unknown"], match: "any" })).toEqual(
+        [],
+      );
+      expect(await titlesMatching({ tags: [], match: "all" })).toEqual([
+        "Read",
+        "Run",
+        "Save",
+      ]);
+    });
+
+    it("should keep each user's tags separate", async () => {
+      signInAs(OTHER_USER_ID);
+      await createTaggedBar("Theirs", "health");
+
+      signInAs(TEST_USER_ID);
+      await createTaggedBar("Mine", "health");
+
+      expect(await getTags()).toEqual(["health"]);
+      expect(await titlesMatching({ tags: ["health"], match: "any" })).toEqual([
+        "Mine",
+      ]);
+    });
+
+    it("should reject invalid tags", async () => {
+      const result = await createProgressBar(
+        createManualForm({
+          title: "Run",
+          targetValue: "10",
+          tags: "x".repeat(40),
+        }),
+      );
+
+      expect(!result.success && result.errors[0].field).toBe("tags");
+      expect(await getProgressBars()).toHaveLength(0);
+    });
+  });
+
+  describe("dashboard preferences", () => {
+    it("should default to a list in creation order", async () => {
+      expect(await getDashboardPreferences()).toEqual({
+        sort: "created",
+        view: "list",
+      });
+    });
+
+    it("should save each choice without resetting the other", async () => {
+      await updateDashboardPreferences({ view: "grid" });
+      await updateDashboardPreferences({ sort: "deadline" });
+
+      expect(await getDashboardPreferences()).toEqual({
+        sort: "deadline",
+        view: "grid",
+      });
+    });
+
+    it("should keep preferences per user", async () => {
+      await updateDashboardPreferences({ view: "compact" });
+
+      signInAs(OTHER_USER_ID);
+      expect((await getDashboardPreferences()).view).toBe("list");
+    });
+
+    it("should reject unknown options", async () => {
+      const result = await updateDashboardPreferences({
+        sort: "random" as "title",
+      });
+
+      expect(!result.success && result.errors[0].field).toBe("sort");
+      expect((await getDashboardPreferences()).sort).toBe("created");
+    });
+  });
+
+  describe("reorderProgressBars", () => {
+    async function customOrder() {
+      const bars = await getProgressBars({ sort: "custom" });
+      return bars.map((bar) => bar.title);
+    }
+
+    it("should add new bars to the end of the custom order", async () => {
+      await createProgressBar(
+        createManualForm({ title: "A", targetValue: "5" }),
+      );
+      await createProgressBar(
+        createTimeBasedForm({
+          title: "B",
+          timeBasedType: "arrival-date",
+          startDate: "2025-01-01",
+          targetDate: "2060-01-01",
+        }),
+      );
+      await createProgressBar(
+        createManualForm({ title: "C", targetValue: "5" }),
+      );
+
+      const bars = await getProgressBars({ sort: "custom" });
+      expect(bars.map((bar) => [bar.title, bar.position])).toEqual([
+        ["A", 0],
+        ["B", 1],
+        ["C", 2],
+      ]);
+    });
+
+    it("should store the new order", async () => {
+      const a = await insertBar(TEST_USER_ID, "A", { position: 0 });
+      const b = await insertBar(TEST_USER_ID, "B", { position: 1 });
+      const c = await insertBar(TEST_USER_ID, "C", { position: 2 });
+
+      const result = await reorderProgressBars([c, a, b]);
+
+      expect(result.success).toBe(true);
+      expect(await customOrder()).toEqual(["C", "A", "B"]);
+    });
+
+    it("should keep the place of bars left out of a partial order", async () => {
+      const a = await insertBar(TEST_USER_ID, "A", { position: 0 });
+      await insertBar(TEST_USER_ID, "B", { position: 1 });
+      const c = await insertBar(TEST_USER_ID, "C", { position: 2 });
+
+      await reorderProgressBars([c, a]);
+
+      expect(await customOrder()).toEqual(["C", "B", "A"]);
+    });
+
+    it("should only reorder the user's own bars", async () => {
+      await insertBar(TEST_USER_ID, "A", { position: 0 });
+      const b = await insertBar(TEST_USER_ID, "B", { position: 1 });
+      const foreign = await insertBar(OTHER_USER_ID, "Theirs");
+
+      for (const ids of [
+        [b, foreign],
+        [b, b],
+        [b, "missing"],
+      ]) {
+        const result = await reorderProgressBars(ids);
+        expect(result.success).toBe(false);
+      }
+      expect(await customOrder()).toEqual(["A", "B"]);
+    });
+  });
+
+  describe("pinned bars", () => {
+    async function pinnedTitles() {
+      const bars = await getPinnedBars();
+      return bars.map((bar) => bar.title);
+    }
+
+    it("should pin and unpin a bar, oldest pin first", async () => {
+      const a = await insertBar(TEST_USER_ID, "A");
+      const b = await insertBar(TEST_USER_ID, "B");
+
+      expect((await pinProgressBar(b)).success).toBe(true);
+      expect((await pinProgressBar(a)).success).toBe(true);
+      expect(await pinnedTitles()).toEqual(["B", "A"]);
+
+      expect((await unpinProgressBar(b)).success).toBe(true);
+      expect(await pinnedTitles()).toEqual(["A"]);
+    });
+
+    it("should keep pinned bars whatever the tag filter", async () => {
+      const a = await insertBar(TEST_USER_ID, "A");
+      await pinProgressBar(a);
+
+      const filtered = await getProgressBars({
+        tagFilter: { tags: ["missing"], match: "any" },
+      });
+
+      expect(filtered).toEqual([]);
+      expect(await pinnedTitles()).toEqual(["A"]);
+    });
+
+    it(`should allow at most ${MAX_PINNED_BARS} pins`, async () => {
+      for (let i = 0; i < MAX_PINNED_BARS; i++) {
+        const id = await insertBar(TEST_USER_ID, `Bar ${i}`);
+        expect((await pinProgressBar(id)).success).toBe(true);
+      }
+      const extra = await insertBar(TEST_USER_ID, "Extra");
+
+      const result = await pinProgressBar(extra);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errors[0].field).toBe("pinnedAt");
+      }
+      expect(await getPinnedBars()).toHaveLength(MAX_PINNED_BARS);
+    });
+
+    it("should drop the pin when a bar is archived", async () => {
+      const a = await insertBar(TEST_USER_ID, "A");
+      await pinProgressBar(a);
+
+      await archiveProgressBar(a);
+
+      expect(await pinnedTitles()).toEqual([]);
+      expect((await pinProgressBar(a)).success).toBe(false);
+    });
+
+    it("should not pin or list another user's bars", async () => {
+      const foreign = await insertBar(OTHER_USER_ID, "Theirs", {
+        pinnedAt: new Date(),
+      });
+
+      expect((await pinProgressBar(foreign)).success).toBe(false);
+      expect((await unpinProgressBar(foreign)).success).toBe(false);
+      expect(await pinnedTitles()).toEqual([]);
+    });
+  });
+
+  describe("searchProgressBars", () => {
+    async function searchTitles(query: string) {
+      const results = await searchProgressBars(query);
+      return results.map((result) => result.bar.title);
+    }
+
+    it("should rank title matches above description matches", async () => {
+      await insertBar(TEST_USER_ID, "Read books", {
+        description: "Finish the running guide",
+      });
+      await insertBar(TEST_USER_ID, "Running", { description: "Couch to 5k" });
+      await insertBar(TEST_USER_ID, "Savings");
+
+      expect(await searchTitles("run")).toEqual(["Running", "Read books"]);
+    });
+
+    it("should highlight matches in titles and descriptions", async () => {
+      await insertBar(TEST_USER_ID, "Morning run", {
+        description: "Run before work",
+      });
+
+      const [result] = await searchProgressBars("run");
+
+      expect(result.title).toEqual([
+        { text: "Morning ", isMatch: false },
+        { text: "run", isMatch: true },
+      ]);
+      expect(result.description).toEqual([
+        { text: "Run", isMatch: true },
+        { text: " before work", isMatch: false },
+      ]);
+    });
+
+    it("should need every word and ignore accents and punctuation", async () => {
+      await insertBar(TEST_USER_ID, "Café savings");
+      await insertBar(TEST_USER_ID, "Café visits");
+
+      expect(await searchTitles("cafe sav")).toEqual(["Café savings"]);
+      expect(await searchTitles('"sav OR (')).toEqual([]);
+      expect(await searchTitles("   ")).toEqual([]);
+    });
+
+    it("should follow renames and leave out archived and deleted bars", async () => {
+      const id = await insertBar(TEST_USER_ID, "Swim");
+      await insertBar(TEST_USER_ID, "Swim laps", { archivedAt: new Date() });
+      await insertBar(TEST_USER_ID, "Swim more", { deletedAt: new Date() });
+
+      await db
+        .update(progressBars)
+        .set({ title: "Cycle" })
+        .where(eq(progressBars.id, id));
+
+      expect(await searchTitles("swim")).toEqual([]);
+      expect(await searchTitles("cycle")).toEqual(["Cycle"]);
+    });
+
+    it("should only search the user's own bars", async () => {
+      await insertBar(OTHER_USER_ID, "Their run");
+
+      expect(await searchTitles("run")).toEqual([]);
+    });
+  });
+
+  describe("recurring bars", () => {
+    // A Wednesday afternoon
+    const createdAt = new Date("2025-06-11T15:00:00");
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(createdAt);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function createRecurringBar(fields: Record<string, string>) {
+      await createProgressBar(
+        createManualForm({ title: "Workouts", targetValue: "3", ...fields }),
+      );
+      const bars = await getProgressBars();
+      return bars[bars.length - 1];
+    }
+
+    async function loadPeriods(barId: string) {
+      const result = await getBarPeriods(barId);
+      return result.success
+        ? result.data.map((period) => ({
+            startsAt: period.startsAt,
+            endsAt: period.endsAt,
+            finalValue: period.finalValue,
+            isCompleted: period.isCompleted,
+          }))
+        : [];
+    }
+
+    it("should start the first period at the start of the calendar period", async () => {
+      const weekly = await createRecurringBar({ recurrence: "weekly" });
+      const custom = await createRecurringBar({
+        recurrence: "custom",
+        recurrenceDays: "10",
+      });
+      const once = await createRecurringBar({});
+
+      expect(weekly.periodStart).toEqual(new Date("2025-06-09T00:00:00"));
+      expect(custom.periodStart).toEqual(new Date("2025-06-11T00:00:00"));
+      expect(once.periodStart).toBeNull();
+    });
+
+    it("should reset at the period boundary and keep the final value", async () => {
+      const bar = await createRecurringBar({ recurrence: "weekly" });
+      await updateProgress(bar.id, 3);
+
+      vi.setSystemTime(new Date("2025-06-15T23:59:00"));
+      expect((await getProgressBars())[0].currentValue).toBe(3);
+
+      vi.setSystemTime(new Date("2025-06-16T00:00:00"));
+      const [reset] = await getProgressBars();
+
+      expect(reset).toMatchObject({
+        currentValue: 0,
+        isCompleted: false,
+        completedAt: null,
+        targetReachedAt: null,
+        periodStart: new Date("2025-06-16T00:00:00"),
+      });
+      expect(await loadPeriods(bar.id)).toEqual([
+        {
+          startsAt: new Date("2025-06-09T00:00:00"),
+          endsAt: new Date("2025-06-16T00:00:00"),
+          finalValue: 3,
+          isCompleted: true,
+        },
+      ]);
+
+      const history = await loadHistory(bar.id);
+      expect(history.entries[0]).toMatchObject({
+        source: "reset",
+        previousValue: 3,
+        newValue: 0,
+        createdAt: new Date("2025-06-16T00:00:00"),
+      });
+    });
+
+    it("should record periods that passed without any updates", async () => {
+      const bar = await createRecurringBar({ recurrence: "daily" });
+      await updateProgress(bar.id, 2);
+
+      vi.setSystemTime(new Date("2025-06-14T08:00:00"));
+      await updateProgress(bar.id, 1);
+
+      expect(
+        (await loadPeriods(bar.id)).map((period) => period.finalValue),
+      ).toEqual([0, 0, 2]);
+      expect((await findBar(bar.id))?.currentValue).toBe(1);
+    });
+
+    it("should not undo changes from an ended period", async () => {
+      const bar = await createRecurringBar({ recurrence: "daily" });
+      await updateProgress(bar.id, 2);
+      await updateProgress(bar.id, 0);
+
+      vi.setSystemTime(new Date("2025-06-12T09:00:00"));
+
+      expect((await undoProgressUpdate(bar.id)).success).toBe(false);
+      expect((await findBar(bar.id))?.currentValue).toBe(0);
+    });
+
+    it("should start a new period when the recurrence changes", async () => {
+      const bar = await createRecurringBar({ recurrence: "monthly" });
+
+      vi.setSystemTime(new Date("2025-06-20T10:00:00"));
+      await editProgressBar(
+        bar.id,
+        createManualForm({
+          title: "Workouts",
+          targetValue: "3",
+          recurrence: "monthly",
+        }),
+      );
+      expect((await findBar(bar.id))?.periodStart).toEqual(
+        new Date("2025-06-01T00:00:00"),
+      );
+
+      await editProgressBar(
+        bar.id,
+        createManualForm({
+          title: "Workouts",
+          targetValue: "3",
+          recurrence: "weekly",
+        }),
+      );
+      expect((await findBar(bar.id))?.periodStart).toEqual(
+        new Date("2025-06-16T00:00:00"),
+      );
+
+      await editProgressBar(
+        bar.id,
+        createManualForm({ title: "Workouts", targetValue: "3" }),
+      );
+      expect(await findBar(bar.id)).toMatchObject({
+        recurrence: null,
+        periodStart: null,
+      });
+    });
+
+    it("should not expose another user's periods", async () => {
+      const bar = await createRecurringBar({ recurrence: "daily" });
+      vi.setSystemTime(new Date("2025-06-12T09:00:00"));
+      await getProgressBars();
+
+      signInAs(OTHER_USER_ID);
+
+      expect(await loadPeriods(bar.id)).toEqual([]);
+    });
+
+    it("should not expose the periods of a deleted bar", async () => {
+      const bar = await createRecurringBar({ recurrence: "daily" });
+      vi.setSystemTime(new Date("2025-06-12T09:00:00"));
+      await getProgressBars();
+      await deleteProgressBar(bar.id);
+
+      expect(await loadPeriods(bar.id)).toEqual([]);
+
+      await restoreProgressBar(bar.id);
+      expect(await loadPeriods(bar.id)).toHaveLength(1);
+    });
+  });
+
+  describe("milestones", () => {
+    function createMilestoneForm(fields: Record<string, string>) {
+      const formData = new FormData();
+      for (const [name, value] of Object.entries(fields)) {
+        formData.set(name, value);
+      }
+      return formData;
+    }
+
+    async function loadMilestones(barId: string) {
+      const bar = (await getProgressBars()).find((b) => b.id === barId);
+      return bar?.milestones ?? [];
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should add value and percentage milestones to a manual bar", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Savings", {
+        currentValue: 0,
+        targetValue: 5000,
+      });
+
+      await createMilestone(
+        barId,
+        createMilestoneForm({ label: "First $1,000", threshold: "1000" }),
+      );
+      await createMilestone(barId, createMilestoneForm({ threshold: "50%" }));
+
+      expect(await loadMilestones(barId)).toMatchObject([
+        { label: "First $1,000", kind: "value", value: 1000, reachedAt: null },
+        { label: null, kind: "percentage", value: 50, reachedAt: null },
+      ]);
+    });
+
+    it("should reject milestones outside the bar's range", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Savings", {
+        targetValue: 100,
+      });
+
+      const tooHigh = await createMilestone(
+        barId,
+        createMilestoneForm({ threshold: "100" }),
+      );
+      const badPercentage = await createMilestone(
+        barId,
+        createMilestoneForm({ threshold: "120%" }),
+      );
+
+      expect(tooHigh.success).toBe(false);
+      expect(badPercentage.success).toBe(false);
+      expect(await loadMilestones(barId)).toEqual([]);
+    });
+
+    it("should reject milestones on composite bars", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Fitness", {
+        barType: "composite",
+        aggregation: "average",
+      });
+
+      const result = await createMilestone(
+        barId,
+        createMilestoneForm({ threshold: "50%" }),
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        errors: [{ field: "barId", code: "INVALID_VALUE" }],
+      });
+      expect(await loadMilestones(barId)).toEqual([]);
+    });
+
+    it("should record when each milestone is first reached", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-06-01T10:00:00"));
+      const barId = await insertBar(TEST_USER_ID, "Savings", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      await createMilestone(barId, createMilestoneForm({ threshold: "25%" }));
+      await createMilestone(barId, createMilestoneForm({ threshold: "60" }));
+
+      vi.setSystemTime(new Date("2025-06-02T10:00:00"));
+      await updateProgress(barId, 30);
+      vi.setSystemTime(new Date("2025-06-03T10:00:00"));
+      await updateProgress(barId, 10);
+      vi.setSystemTime(new Date("2025-06-04T10:00:00"));
+      await updateProgress(barId, 70);
+
+      expect(
+        (await loadMilestones(barId)).map((milestone) => milestone.reachedAt),
+      ).toEqual([
+        new Date("2025-06-02T10:00:00"),
+        new Date("2025-06-04T10:00:00"),
+      ]);
+    });
+
+    it("should reach value milestones of burn-down bars on the way down", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Debt", {
+        direction: "down",
+        startValue: 1000,
+        currentValue: 1000,
+        targetValue: 0,
+      });
+      await createMilestone(barId, createMilestoneForm({ threshold: "500" }));
+
+      await updateProgress(barId, 600);
+      expect((await loadMilestones(barId))[0].reachedAt).toBeNull();
+
+      await updateProgress(barId, 400);
+      expect((await loadMilestones(barId))[0].reachedAt).not.toBeNull();
+    });
+
+    it("should count milestones the bar has already passed as reached", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Savings", {
+        currentValue: 8,
+      });
+
+      await createMilestone(barId, createMilestoneForm({ threshold: "5" }));
+
+      expect((await loadMilestones(barId))[0].reachedAt).not.toBeNull();
+    });
+
+    it("should reach date milestones of time-based bars on their day", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-01-10T12:00:00"));
+      await createProgressBar(
+        createTimeBasedForm({
+          title: "Trip",
+          timeBasedType: "arrival-date",
+          startDate: "2025-01-01",
+          targetDate: "2025-03-01",
+        }),
+      );
+      const [bar] = await getProgressBars();
+
+      const outside = await createMilestone(
+        bar.id,
+        createMilestoneForm({ date: "2025-03-02" }),
+      );
+      await createMilestone(
+        bar.id,
+        createMilestoneForm({ label: "Book hotel", date: "2025-02-01" }),
+      );
+      expect(outside.success).toBe(false);
+      expect(await loadMilestones(bar.id)).toMatchObject([
+        { label: "Book hotel", kind: "date", reachedAt: null },
+      ]);
+
+      vi.setSystemTime(new Date("2025-02-20T08:00:00"));
+
+      expect((await loadMilestones(bar.id))[0].reachedAt).toEqual(
+        new Date("2025-02-01T00:00:00"),
+      );
+    });
+
+    it("should not move a bar's range past its value milestones", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Savings", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      await createMilestone(barId, createMilestoneForm({ threshold: "80" }));
+      await createMilestone(barId, createMilestoneForm({ threshold: "50%" }));
+
+      const shrunk = await editProgressBar(
+        barId,
+        createManualForm({ title: "Savings", targetValue: "60" }),
+      );
+      const reversed = await editProgressBar(
+        barId,
+        createManualForm({
+          title: "Savings",
+          startValue: "50",
+          targetValue: "0",
+          direction: "down",
+        }),
+      );
+
+      expect(shrunk).toEqual({
+        success: false,
+        errors: [expect.objectContaining({ field: "targetValue" })],
+      });
+      expect(reversed.success).toBe(false);
+      expect((await findBar(barId))?.targetValue).toBe(100);
+
+      const grown = await editProgressBar(
+        barId,
+        createManualForm({ title: "Savings", targetValue: "200" }),
+      );
+      expect(grown.success).toBe(true);
+      expect(await loadMilestones(barId)).toHaveLength(2);
+    });
+
+    it("should not move a bar's dates past its date milestones", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-01-10T12:00:00"));
+      const fields = {
+        title: "Trip",
+        timeBasedType: "arrival-date",
+        startDate: "2025-01-01",
+        targetDate: "2025-03-01",
+      };
+      await createProgressBar(createTimeBasedForm(fields));
+      const [bar] = await getProgressBars();
+      await createMilestone(
+        bar.id,
+        createMilestoneForm({ date: "2025-02-01" }),
+      );
+
+      const result = await editProgressBar(
+        bar.id,
+        createTimeBasedForm({ ...fields, targetDate: "2025-01-20" }),
+      );
+
+      expect(result).toEqual({
+        success: false,
+        errors: [expect.objectContaining({ field: "targetDate" })],
+      });
+      expect((await findBar(bar.id))?.targetDate).toBe(
+        new Date("2025-03-01T00:00:00").toISOString(),
+      );
+      expect(
+        (
+          await editProgressBar(
+            bar.id,
+            createTimeBasedForm({ ...fields, startDate: "2024-12-01" }),
+          )
+        ).success,
+      ).toBe(true);
+    });
+
+    it("should clear reached milestones when a recurring bar resets", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-06-11T15:00:00"));
+      await createProgressBar(
+        createManualForm({
+          title: "Workouts",
+          targetValue: "4",
+          recurrence: "weekly",
+        }),
+      );
+      const [bar] = await getProgressBars();
+      await createMilestone(bar.id, createMilestoneForm({ threshold: "2" }));
+      await updateProgress(bar.id, 3);
+
+      vi.setSystemTime(new Date("2025-06-16T09:00:00"));
+
+      expect((await loadMilestones(bar.id))[0].reachedAt).toBeNull();
+    });
+
+    it("should limit the number of milestones on a bar", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Pages", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      for (let i = 1; i <= MAX_MILESTONES_PER_BAR; i++) {
+        await createMilestone(
+          barId,
+          createMilestoneForm({ threshold: String(i) }),
+        );
+      }
+
+      const result = await createMilestone(
+        barId,
+        createMilestoneForm({ threshold: "50" }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(await loadMilestones(barId)).toHaveLength(MAX_MILESTONES_PER_BAR);
+    });
+
+    it("should only let the owner add and remove milestones", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Savings", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      await createMilestone(barId, createMilestoneForm({ threshold: "50" }));
+      const [milestone] = await loadMilestones(barId);
+
+      signInAs(OTHER_USER_ID);
+      const created = await createMilestone(
+        barId,
+        createMilestoneForm({ threshold: "25" }),
+      );
+      const deleted = await deleteMilestone(milestone.id);
+
+      expect(created.success).toBe(false);
+      expect(deleted.success).toBe(false);
+
+      signInAs(TEST_USER_ID);
+      expect(await loadMilestones(barId)).toHaveLength(1);
+      expect((await deleteMilestone(milestone.id)).success).toBe(true);
+      expect(await loadMilestones(barId)).toEqual([]);
+    });
+
+    it("should not remove milestones from a deleted bar", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Savings", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      await createMilestone(barId, createMilestoneForm({ threshold: "50" }));
+      const [milestone] = await loadMilestones(barId);
+      await deleteProgressBar(barId);
+
+      expect((await deleteMilestone(milestone.id)).success).toBe(false);
+
+      await restoreProgressBar(barId);
+      expect(await loadMilestones(barId)).toHaveLength(1);
+    });
+  });
+
+  describe("composite bars", () => {
+    function createCompositeForm(fields: Record<string, string>) {
+      const formData = new FormData();
+      formData.set("barType", "composite");
+      for (const [name, value] of Object.entries(fields)) {
+        formData.set(name, value);
+      }
+      return formData;
+    }
+
+    async function createComposite(title: string, aggregation = "average") {
+      await createProgressBar(createCompositeForm({ title, aggregation }));
+      const bars = await db
+        .select()
+        .from(progressBars)
+        .where(eq(progressBars.title, title))
+        .all();
+      return bars[0].id;
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should create an empty composite bar", async () => {
+      const result = await createProgressBar(
+        createCompositeForm({ title: "Q4 goals" }),
+      );
+
+      expect(result.success).toBe(true);
+      const [bar] = await getProgressBars();
+      expect(bar).toMatchObject({
+        title: "Q4 goals",
+        barType: "composite",
+        aggregation: "average",
+        currentValue: 0,
+        targetValue: 100,
+      });
+    });
+
+    it("should average its children by weight as they progress", async () => {
+      const parentId = await createComposite("Q4 goals");
+      await createProgressBar(
+        createManualForm({
+          title: "Books",
+          targetValue: "10",
+          parentId,
+          weight: "3",
+        }),
+      );
+      await createProgressBar(
+        createManualForm({ title: "Runs", targetValue: "4", parentId }),
+      );
+      const books = (await getProgressBars()).find((b) => b.title === "Books");
+
+      await updateProgress(books?.id ?? "", 5);
+
+      expect((await findBar(parentId))?.currentValue).toBe(37.5);
+    });
+
+    it("should add up its children and complete with them", async () => {
+      const parentId = await createComposite("Savings", "sum");
+      const emergency = await insertBar(TEST_USER_ID, "Emergency", {
+        currentValue: 0,
+        targetValue: 1000,
+      });
+      const holiday = await insertBar(TEST_USER_ID, "Holiday", {
+        currentValue: 0,
+        targetValue: 500,
+      });
+      for (const id of [emergency, holiday]) {
+        await editProgressBar(
+          id,
+          createManualForm({
+            title: id === emergency ? "Emergency" : "Holiday",
+            targetValue: id === emergency ? "1000" : "500",
+            parentId,
+          }),
+        );
+      }
+
+      await updateProgress(emergency, 1000);
+      expect(await findBar(parentId)).toMatchObject({
+        currentValue: 1000,
+        targetValue: 1500,
+        isCompleted: false,
+      });
+
+      await updateProgress(holiday, 500);
+      expect(await findBar(parentId)).toMatchObject({
+        currentValue: 1500,
+        isCompleted: true,
+      });
+    });
+
+    it("should follow time-based children as time passes", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-06-01T12:00:00"));
+      const yearId = await createComposite("2025");
+      const tripsId = await createComposite("Trips");
+      await editProgressBar(
+        tripsId,
+        createCompositeForm({
+          title: "Trips",
+          aggregation: "average",
+          parentId: yearId,
+        }),
+      );
+      await createProgressBar(
+        createTimeBasedForm({
+          title: "Holiday",
+          timeBasedType: "arrival-date",
+          startDate: "2025-06-01",
+          targetDate: "2025-06-21",
+          parentId: tripsId,
+        }),
+      );
+      expect((await findBar(yearId))?.currentValue).toBe(0);
+      const updatedAt = (await findBar(yearId))?.updatedAt;
+
+      // 10 of 20 days later, with no bar written in between
+      vi.setSystemTime(new Date("2025-06-11T12:00:00"));
+      await getProgressBars();
+
+      expect(await findBar(tripsId)).toMatchObject({ currentValue: 50 });
+      expect(await findBar(yearId)).toMatchObject({
+        currentValue: 50,
+        updatedAt,
+      });
+    });
+
+    it("should roll changes up through nested composites", async () => {
+      const yearId = await createComposite("2025");
+      const quarterId = await createComposite("Q4");
+      await editProgressBar(
+        quarterId,
+        createCompositeForm({ title: "Q4", parentId: yearId }),
+      );
+      const childId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 0,
+        targetValue: 10,
+        parentId: quarterId,
+      });
+
+      await updateProgress(childId, 5);
+
+      expect((await findBar(quarterId))?.currentValue).toBe(50);
+      expect((await findBar(yearId))?.currentValue).toBe(50);
+    });
+
+    it("should not put a composite inside itself or its children", async () => {
+      const yearId = await createComposite("2025");
+      const quarterId = await createComposite("Q4");
+      await editProgressBar(
+        quarterId,
+        createCompositeForm({ title: "Q4", parentId: yearId }),
+      );
+
+      const itself = await editProgressBar(
+        yearId,
+        createCompositeForm({ title: "2025", parentId: yearId }),
+      );
+      const child = await editProgressBar(
+        yearId,
+        createCompositeForm({ title: "2025", parentId: quarterId }),
+      );
+
+      expect(itself.success).toBe(false);
+      expect(child.success).toBe(false);
+      expect((await findBar(yearId))?.parentId).toBeNull();
+    });
+
+    it("should only accept the user's own composite bars as parents", async () => {
+      const manualId = await insertBar(TEST_USER_ID, "Books");
+      const othersId = await insertBar(OTHER_USER_ID, "Theirs", {
+        barType: "composite",
+        aggregation: "average",
+      });
+
+      for (const parentId of [manualId, othersId]) {
+        const result = await createProgressBar(
+          createManualForm({ title: "Runs", targetValue: "4", parentId }),
+        );
+        expect(result).toMatchObject({
+          success: false,
+          errors: [{ field: "parentId", code: "NOT_FOUND" }],
+        });
+      }
+    });
+
+    it("should not take progress updates on a composite bar", async () => {
+      const parentId = await createComposite("Q4 goals");
+
+      const result = await updateProgress(parentId, 50);
+
+      expect(result.success).toBe(false);
+      expect((await findBar(parentId))?.currentValue).toBe(0);
+    });
+
+    it("should leave archived and deleted children out", async () => {
+      const parentId = await createComposite("Q4 goals");
+      const doneId = await insertBar(TEST_USER_ID, "Done", {
+        currentValue: 0,
+        targetValue: 10,
+        parentId,
+      });
+      const idleId = await insertBar(TEST_USER_ID, "Idle", {
+        currentValue: 0,
+        targetValue: 10,
+        parentId,
+      });
+      await updateProgress(doneId, 10);
+      expect((await findBar(parentId))?.currentValue).toBe(50);
+
+      await archiveProgressBar(idleId);
+      expect((await findBar(parentId))?.currentValue).toBe(100);
+
+      await unarchiveProgressBar(idleId);
+      await deleteProgressBar(doneId);
+      expect((await findBar(parentId))?.currentValue).toBe(0);
+    });
+  });
+
+  describe("XP", () => {
+    async function totalXp() {
+      return (await getXpSummary()).totalXp;
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should start at level 1 without XP", async () => {
+      expect(await getXpSummary()).toEqual({
+        level: 1,
+        totalXp: 0,
+        levelXp: 0,
+        levelSpan: 100,
+      });
+    });
+
+    it("should award XP by the fraction of the target covered, not by units", async () => {
+      const dollars = await insertBar(TEST_USER_ID, "Savings", {
+        currentValue: 0,
+        targetValue: 10000,
+      });
+      const books = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 0,
+        targetValue: 4,
+      });
+
+      await updateProgress(dollars, 2500);
+      expect(await totalXp()).toBe(XP_PER_TARGET / 4);
+
+      await updateProgress(books, 1);
+      expect(await totalXp()).toBe(XP_PER_TARGET / 2);
+    });
+
+    it("should not award XP twice for the same stretch of a bar", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Savings", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+
+      await updateProgress(barId, 50);
+      await updateProgress(barId, 0);
+      await updateProgress(barId, 50);
+      await undoProgressUpdate(barId);
+      await updateProgress(barId, 60);
+
+      expect(await totalXp()).toBe(60);
+    });
+
+    it("should give the completion bonus once per bar", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 0,
+        targetValue: 10,
+        allowOverflow: true,
+      });
+
+      await updateProgress(barId, 10);
+      await updateProgress(barId, 15);
+      await reopenProgressBar(barId);
+      await updateProgress(barId, 5);
+      await updateProgress(barId, 10);
+
+      expect(await totalXp()).toBe(XP_PER_TARGET + COMPLETION_BONUS_XP);
+    });
+
+    it("should award burn-down bars for coming down", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Debt", {
+        direction: "down",
+        startValue: 1000,
+        currentValue: 1000,
+        targetValue: 0,
+      });
+
+      await updateProgress(barId, 1200);
+      expect(await totalXp()).toBe(0);
+
+      await updateProgress(barId, 800);
+      expect(await totalXp()).toBe(20);
+    });
+
+    it("should let a recurring bar earn XP again each period", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-06-11T15:00:00"));
+      await createProgressBar(
+        createManualForm({
+          title: "Workouts",
+          targetValue: "4",
+          recurrence: "weekly",
+        }),
+      );
+      const [bar] = await getProgressBars();
+      await updateProgress(bar.id, 4);
+
+      vi.setSystemTime(new Date("2025-06-16T09:00:00"));
+      await updateProgress(bar.id, 2);
+
+      expect(await totalXp()).toBe(
+        XP_PER_TARGET + COMPLETION_BONUS_XP + XP_PER_TARGET / 2,
+      );
+    });
+
+    it("should keep XP when the bar that earned it is deleted", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 0,
+        targetValue: 10,
+      });
+      await updateProgress(barId, 5);
+
+      await db.delete(progressBars).where(eq(progressBars.id, barId));
+
+      expect(await totalXp()).toBe(50);
+    });
+
+    it("should keep XP to the user who earned it", async () => {
+      const ownId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 0,
+        targetValue: 10,
+      });
+      await updateProgress(ownId, 10);
+
+      signInAs(OTHER_USER_ID);
+      expect(await totalXp()).toBe(0);
+      expect((await updateProgress(ownId, 5)).success).toBe(false);
+
+      signInAs(TEST_USER_ID);
+      expect(await getXpSummary()).toMatchObject({
+        level: 2,
+        totalXp: XP_PER_TARGET + COMPLETION_BONUS_XP,
+        levelXp: 50,
+        levelSpan: 200,
+      });
+    });
+  });
+
+  describe("achievements", () => {
+    async function unlockedIds() {
+      return (await getAchievements())
+        .filter((achievement) => achievement.unlockedAt)
+        .map((achievement) => achievement.id);
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should list every achievement as locked at first", async () => {
+      const list = await getAchievements();
+
+      expect(list.length).toBeGreaterThan(0);
+      expect(list.every((achievement) => achievement.unlockedAt === null)).toBe(
+        true,
+      );
+    });
+
+    it("should unlock an achievement once, when it is first earned", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-06-01T10:00:00"));
+      await createProgressBar(
+        createManualForm({ title: "Books", targetValue: "10" }),
+      );
+
+      vi.setSystemTime(new Date("2025-06-05T10:00:00"));
+      await createProgressBar(
+        createManualForm({ title: "Runs", targetValue: "10" }),
+      );
+
+      const firstBar = (await getAchievements()).find(
+        (achievement) => achievement.id === "first-bar",
+      );
+      expect(firstBar?.unlockedAt).toEqual(new Date("2025-06-01T10:00:00"));
+      expect(
+        await db
+          .select()
+          .from(achievements)
+          .where(eq(achievements.userId, TEST_USER_ID))
+          .all(),
+      ).toHaveLength(1);
+    });
+
+    it("should unlock completion achievements as bars are completed", async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < 10; i++) {
+        ids.push(
+          await insertBar(TEST_USER_ID, `Bar ${i}`, {
+            currentValue: 0,
+            targetValue: 1,
+          }),
+        );
+      }
+
+      await updateProgress(ids[0], 1);
+      expect(await unlockedIds()).toContain("first-completion");
+      expect(await unlockedIds()).not.toContain("ten-completions");
+
+      for (const id of ids.slice(1)) {
+        await updateProgress(id, 1);
+      }
+      expect(await unlockedIds()).toContain("ten-completions");
+    });
+
+    it("should keep achievements when the bars behind them are gone", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Books", {
+        currentValue: 0,
+        targetValue: 1,
+      });
+      await updateProgress(barId, 1);
+
+      await db.delete(progressBars).where(eq(progressBars.id, barId));
+
+      expect(await unlockedIds()).toEqual(["first-bar", "first-completion"]);
+    });
+
+    it("should unlock a 30-day streak of updates", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Pages", {
+        currentValue: 0,
+        targetValue: 1000,
+      });
+      vi.useFakeTimers({ toFake: ["Date"] });
+
+      for (let day = 1; day <= 30; day++) {
+        vi.setSystemTime(new Date(2025, 5, day, 20, 0, 0));
+        await updateProgress(barId, day);
+        if (day === 29) {
+          expect(await unlockedIds()).not.toContain("thirty-day-streak");
+        }
+      }
+
+      expect(await unlockedIds()).toContain("thirty-day-streak");
+    });
+
+    it("should unlock when a count-down bar reaches zero", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-06-01T12:00:00"));
+      const bar = await timeBasedManager.createTimeBasedBar(
+        {
+          title: "Launch",
+          timeBasedType: "count-down",
+          startDate: new Date("2025-06-01T12:00:00"),
+          targetDate: new Date("2025-06-10T00:00:00"),
+        },
+        TEST_USER_ID,
+      );
+      const stored = await findBar(bar.id);
+
+      vi.setSystemTime(new Date("2025-06-10T08:00:00"));
+      if (stored) {
+        await timeBasedManager.updateCompletionStatus(stored);
+      }
+
+      expect(
+        await db
+          .select()
+          .from(achievements)
+          .where(eq(achievements.userId, TEST_USER_ID))
+          .all(),
+      ).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ achievementId: "count-down-zero" }),
+        ]),
+      );
+    });
+
+    it("should unlock a count-down that ran out while nobody was looking", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-06-01T12:00:00"));
+      await timeBasedManager.createTimeBasedBar(
+        {
+          title: "Launch",
+          timeBasedType: "count-down",
+          startDate: new Date("2025-06-01T12:00:00"),
+          targetDate: new Date("2025-06-10T00:00:00"),
+        },
+        TEST_USER_ID,
+      );
+      expect(await unlockedIds()).not.toContain("count-down-zero");
+
+      // The stored bar is never refreshed after its target date
+      vi.setSystemTime(new Date("2025-06-10T08:00:00"));
+
+      expect(await unlockedIds()).toContain("count-down-zero");
+    });
+
+    it("should unlock a count-up bar spanning ten years", async () => {
+      await createProgressBar(
+        createTimeBasedForm({
+          title: "Decade",
+          timeBasedType: "count-up",
+          startDate: "2020-01-01",
+          targetDate: "2030-01-01",
+        }),
+      );
+
+      expect(await unlockedIds()).toContain("ten-year-count-up");
+    });
+
+    it("should keep each user's achievements apart", async () => {
+      await insertBar(OTHER_USER_ID, "Theirs");
+
+      expect(await unlockedIds()).toEqual([]);
+    });
+  });
+
+  describe("streaks", () => {
+    async function loadStreak(barId: string) {
+      const bar = (await getProgressBars()).find((b) => b.id === barId);
+      return bar?.streak;
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should count the days in a row each bar was updated", async () => {
+      const pagesId = await insertBar(TEST_USER_ID, "Pages", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      const runsId = await insertBar(TEST_USER_ID, "Runs", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      for (const day of [1, 2, 3, 5, 6]) {
+        vi.setSystemTime(new Date(Date.UTC(2025, 5, day, 12)));
+        await updateProgress(pagesId, day);
+      }
+      await updateProgress(runsId, 1);
+
+      expect(await loadStreak(pagesId)).toEqual({ current: 2, longest: 3 });
+      expect(await loadStreak(runsId)).toEqual({ current: 1, longest: 1 });
+      expect(await getStreakSummary()).toEqual({ current: 2, longest: 3 });
+    });
+
+    it("should combine every bar in the overall streak", async () => {
+      const pagesId = await insertBar(TEST_USER_ID, "Pages", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      const runsId = await insertBar(TEST_USER_ID, "Runs", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      for (const day of [1, 2, 3, 4]) {
+        vi.setSystemTime(new Date(Date.UTC(2025, 5, day, 12)));
+        await updateProgress(day % 2 === 0 ? pagesId : runsId, day);
+      }
+
+      expect(await loadStreak(pagesId)).toEqual({ current: 1, longest: 1 });
+      expect(await getStreakSummary()).toEqual({ current: 4, longest: 4 });
+    });
+
+    it("should not count undone updates", async () => {
+      vi.setSystemTime(new Date("2025-06-01T12:00:00Z"));
+      const barId = await insertBar(TEST_USER_ID, "Pages", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      await updateProgress(barId, 5);
+      await undoProgressUpdate(barId);
+
+      expect(await loadStreak(barId)).toEqual({ current: 0, longest: 0 });
+    });
+
+    it("should count days in the timezone the browser reported", async () => {
+      const barId = await insertBar(TEST_USER_ID, "Pages", {
+        currentValue: 0,
+        targetValue: 100,
+      });
+      // The same evening in New York, on two days in UTC
+      vi.setSystemTime(new Date("2025-06-10T23:30:00Z"));
+      await updateProgress(barId, 1);
+      vi.setSystemTime(new Date("2025-06-11T00:30:00Z"));
+      await updateProgress(barId, 2);
+
+      expect(await getTimeZone()).toBeNull();
+      expect((await loadStreak(barId))?.longest).toBe(2);
+
+      expect((await updateTimeZone("America/New_York")).success).toBe(true);
+      expect(await getTimeZone()).toBe("America/New_York");
+      expect((await loadStreak(barId))?.longest).toBe(1);
+    });
+
+    it("should reject unknown timezones", async () => {
+      const result = await updateTimeZone("Mars/Olympus_Mons");
+
+      expect(result).toMatchObject({
+        success: false,
+        errors: [{ field: "timeZone", code: "INVALID_VALUE" }],
+      });
+      expect(await getTimeZone()).toBeNull();
+    });
+
+    it("should keep the timezone apart from the dashboard preferences", async () => {
+      await updateDashboardPreferences({ view: "grid" });
+      await updateTimeZone("Asia/Tokyo");
+      await updateDashboardPreferences({ sort: "title" });
+
+      expect(await getTimeZone()).toBe("Asia/Tokyo");
+      expect(await getDashboardPreferences()).toEqual({
+        sort: "title",
+        view: "grid",
+      });
+    });
+  });
+
+  describe("celebrations", () => {
+    it("should be on until the user turns them off", async () => {
+      expect(await getCelebrationsEnabled()).toBe(true);
+
+      expect((await updateCelebrationsEnabled(false)).success).toBe(true);
+      expect(await getCelebrationsEnabled()).toBe(false);
+
+      await updateCelebrationsEnabled(true);
+      expect(await getCelebrationsEnabled()).toBe(true);
+    });
+
+    it("should keep the setting per user and apart from the other preferences", async () => {
+      await updateDashboardPreferences({ view: "grid" });
+      await updateCelebrationsEnabled(false);
+
+      expect(await getDashboardPreferences()).toEqual({
+        sort: "created",
+        view: "grid",
+      });
+      signInAs(OTHER_USER_ID);
+      expect(await getCelebrationsEnabled()).toBe(true);
+    });
+
+    it("should reject anything but on or off", async () => {
+      const result = await updateCelebrationsEnabled("no" as never);
+
+      expect(!result.success && result.errors[0].field).toBe(
+        "celebrationsEnabled",
+      );
+      expect(await getCelebrationsEnabled()).toBe(true);
+    });
+  });
+
+  describe("sound preferences", () => {
+    it("should start muted at half volume", async () => {
+      expect(await getSoundPreferences()).toEqual({ muted: true, volume: 0.5 });
+    });
+
+    it("should save mute and volume without resetting the other", async () => {
+      await updateSoundPreferences({ muted: false });
+      await updateSoundPreferences({ volume: 0.25 });
+
+      expect(await getSoundPreferences()).toEqual({
+        muted: false,
+        volume: 0.25,
+      });
+      signInAs(OTHER_USER_ID);
+      expect(await getSoundPreferences()).toEqual({ muted: true, volume: 0.5 });
+    });
+
+    it("should keep the other preferences as they were", async () => {
+      await updateCelebrationsEnabled(false);
+      await updateDashboardPreferences({ view: "compact" });
+      await updateSoundPreferences({ volume: 1 });
+
+      expect(await getCelebrationsEnabled()).toBe(false);
+      expect((await getDashboardPreferences()).view).toBe("compact");
+    });
+
+    it("should reject volumes outside 0 to 1", async () => {
+      const result = await updateSoundPreferences({ volume: 1.5 });
+
+      expect(result).toMatchObject({
+        success: false,
+        errors: [{ field: "volume", code: "INVALID_VALUE" }],
+      });
+      expect((await getSoundPreferences()).volume).toBe(0.5);
+    });
+
+    it("should reject preferences that are not an object", async () => {
+      const result = await updateSoundPreferences(null as never);
+
+      expect(result).toMatchObject({
+        success: false,
+        errors: [{ field: "sound", code: "INVALID_VALUE" }],
+      });
+    });
+  });
+});
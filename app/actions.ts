@@ -1,96 +1,2182 @@
 "use server";
 
-import { eq } from "drizzle-orm";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  ne,
+  notInArray,
+  type SQL,
+  sql,
+} from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { db } from "@/db";
-import { progressBars } from "@/db/schema";
+import type { BarPeriod, Milestone, ProgressBar } from "@/db/schema";
+import {
+  barPeriods,
+  barTags,
+  categories,
+  milestones,
+  progressBars,
+  progressHistory,
+  tags,
+  userPreferences,
+  xpEvents,
+} from "@/db/schema";
+import { ACHIEVEMENTS, type AchievementStatus } from "@/lib/achievements";
+import { requireUserId } from "@/lib/auth";
+import { getBarPercentage } from "@/lib/categories";
+import {
+  getCompositeValues,
+  isAggregation,
+  wouldCreateCycle,
+} from "@/lib/composite";
+import {
+  applyPartialOrder,
+  type DashboardPreferences,
+  type DashboardSort,
+  DEFAULT_DASHBOARD_PREFERENCES,
+  isDashboardSort,
+  isDashboardView,
+  MAX_PINNED_BARS,
+} from "@/lib/dashboard";
+import { BarValidationError } from "@/lib/errors";
+import {
+  clampManualValue,
+  getCompletionChange,
+  getManualValueRange,
+  hasReachedTarget,
+  isPastTarget,
+} from "@/lib/manualProgress";
+import {
+  isMilestoneInRange,
+  isMilestoneReached,
+  MAX_MILESTONES_PER_BAR,
+  type MilestoneRange,
+} from "@/lib/milestones";
+import {
+  getPeriodRollover,
+  getPeriodStart,
+  getRecurrenceRule,
+} from "@/lib/recurrence";
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  parseHighlight,
+  type SearchResult,
+  toSearchQuery,
+} from "@/lib/search";
+import { achievementEngine } from "@/lib/services/AchievementEngine";
+import { timeBasedManager } from "@/lib/services/TimeBasedManager";
+import { type LevelProgress, xpCalculator } from "@/lib/services/XpCalculator";
+import {
+  DEFAULT_SOUND_PREFERENCES,
+  isSoundVolume,
+  type SoundPreferences,
+} from "@/lib/sounds";
+import {
+  DEFAULT_TIME_ZONE,
+  getStreak,
+  isTimeZone,
+  type Streak,
+} from "@/lib/streaks";
+import { normalizeTagName, type TagFilter } from "@/lib/tags";
+import type {
+  ActionResult,
+  ManualBarInput,
+  ParentInput,
+  ParsedInput,
+  ProgressHistoryPage,
+  ProgressUpdateSource,
+  ValidationError,
+} from "@/lib/types";
+import { UNDO_DEPTH, UNDO_WINDOW_MS } from "@/lib/undo";
+import {
+  parseCategoryForm,
+  parseCompositeBarForm,
+  parseManualBarForm,
+  parseMilestoneForm,
+  parseParentFields,
+  parseTagList,
+  parseTimeBasedBarForm,
+} from "@/lib/validation";
+
+const HISTORY_PAGE_SIZE = 20;
+const SEARCH_RESULT_LIMIT = 20;
+const PAST_PERIOD_LIMIT = 12;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type DashboardBar = ProgressBar & {
+  tags: string[];
+  milestones: Milestone[];
+  streak: Streak;
+};
+
+// Changes made by hand that have not been undone; these are what streaks
+// count
+const standingManualUpdate = and(
+  eq(progressHistory.source, "manual"),
+  isNull(progressHistory.undoneAt),
+);
+
+// Insertion order breaks ties between changes made in the same millisecond
+const newestHistoryFirst = [
+  desc(progressHistory.createdAt),
+  desc(sql`${progressHistory}.rowid`),
+];
 
 function generateId() {
   return crypto.randomUUID();
 }
 
-export async function getProgressBars() {
-  return db.select().from(progressBars).all();
+function failure(...errors: ValidationError[]): ActionResult<never> {
+  return { success: false, errors };
+}
+
+function barNotFound(): ActionResult<never> {
+  return failure({
+    field: "id",
+    message: "Progress bar not found",
+    code: "NOT_FOUND",
+  });
 }
 
-export async function createProgressBar(formData: FormData) {
-  const title = formData.get("title") as string;
-  const description = (formData.get("description") as string) || null;
-  const barType = (formData.get("barType") as string) || "manual";
+function categoryNotFound(): ActionResult<never> {
+  return failure({
+    field: "id",
+    message: "Category not found",
+    code: "NOT_FOUND",
+  });
+}
+
+function duplicateCategoryName(): ActionResult<never> {
+  return failure({
+    field: "name",
+    message: "A category with this name already exists",
+    code: "INVALID_VALUE",
+  });
+}
+
+function ownedCategory(id: string, userId: string): SQL | undefined {
+  return and(eq(categories.id, id), eq(categories.userId, userId));
+}
+
+async function isCategoryNameTaken(
+  userId: string,
+  name: string,
+  exceptId?: string,
+) {
+  const existing = await db
+    .select({ id: categories.id })
+    .from(categories)
+    .where(
+      and(
+        eq(categories.userId, userId),
+        eq(categories.name, name),
+        exceptId ? ne(categories.id, exceptId) : undefined,
+      ),
+    )
+    .get();
+  return existing !== undefined;
+}
+
+// Read the category picked in a bar form; an empty choice means
+// Uncategorized, a form without a picker leaves the category as it is and
+// another user's category is treated as missing
+async function parseCategoryChoice(
+  formData: FormData,
+  userId: string,
+): Promise<ParsedInput<string | null | undefined>> {
+  const categoryId = formData.get("categoryId");
+  if (categoryId === null) {
+    return { isValid: true, input: undefined };
+  }
+  if (typeof categoryId !== "string" || !categoryId) {
+    return { isValid: true, input: null };
+  }
+
+  const category = await db
+    .select({ id: categories.id })
+    .from(categories)
+    .where(ownedCategory(categoryId, userId))
+    .get();
+  if (!category) {
+    return {
+      isValid: false,
+      errors: [
+        {
+          field: "categoryId",
+          message: "Category not found",
+          code: "NOT_FOUND",
+        },
+      ],
+    };
+  }
+
+  return { isValid: true, input: category.id };
+}
+
+// Read the composite bar picked in a bar form; an empty choice takes the bar
+// out of its parent and a form without a picker leaves it where it is. Only
+// the user's own composite bars can be parents, and never the bar itself or
+// one of the bars inside it
+async function parseParentChoice(
+  formData: FormData,
+  userId: string,
+  barId: string | null,
+): Promise<ParsedInput<ParentInput | undefined>> {
+  const parsed = parseParentFields(formData);
+  if (!parsed.isValid || !parsed.input?.parentId) {
+    return parsed;
+  }
+
+  const parent = await db
+    .select({ id: progressBars.id, barType: progressBars.barType })
+    .from(progressBars)
+    .where(ownedBar(parsed.input.parentId, userId))
+    .get();
+  if (!parent || parent.barType !== "composite") {
+    return {
+      isValid: false,
+      errors: [
+        {
+          field: "parentId",
+          message: "Composite bar not found",
+          code: "NOT_FOUND",
+        },
+      ],
+    };
+  }
+
+  if (barId !== null) {
+    const rows = await db
+      .select({ id: progressBars.id, parentId: progressBars.parentId })
+      .from(progressBars)
+      .where(eq(progressBars.userId, userId))
+      .all();
+    const parentIds = new Map(rows.map((row) => [row.id, row.parentId]));
+    if (wouldCreateCycle(barId, parent.id, parentIds)) {
+      return {
+        isValid: false,
+        errors: [
+          {
+            field: "parentId",
+            message: "A bar cannot be part of itself",
+            code: "INVALID_VALUE",
+          },
+        ],
+      };
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Recompute a composite bar from its active children, then every composite
+ * above it, so a change anywhere in the tree reaches the top
+ * A refresh for time passing leaves the composites' updated time as it was
+ */
+function recomputeComposites(
+  tx: Transaction,
+  compositeId: string | null,
+  { now = new Date(), isRefresh = false } = {},
+) {
+  const visited = new Set<string>();
+  let currentId = compositeId;
+
+  while (currentId !== null && !visited.has(currentId)) {
+    visited.add(currentId);
+    const composite = tx
+      .select()
+      .from(progressBars)
+      .where(eq(progressBars.id, currentId))
+      .get();
+    if (!composite || !isAggregation(composite.aggregation)) {
+      return;
+    }
+
+    const children = tx
+      .select()
+      .from(progressBars)
+      .where(
+        and(
+          eq(progressBars.parentId, composite.id),
+          isNull(progressBars.archivedAt),
+          isNull(progressBars.deletedAt),
+        ),
+      )
+      .all();
+    const values = getCompositeValues(composite.aggregation, children, now);
+
+    tx.update(progressBars)
+      .set({
+        ...values,
+        ...getCompletionChange(
+          getBarPercentage(composite) >= 100,
+          getBarPercentage({ ...composite, ...values }) >= 100,
+          now,
+        ),
+        ...(!isRefresh && { updatedAt: now }),
+      })
+      .where(eq(progressBars.id, composite.id))
+      .run();
+
+    currentId = composite.parentId;
+  }
+}
+
+// Recompute the composite a bar counts towards after the bar is archived,
+// deleted or brought back
+function recomputeParentOf(barId: string) {
+  db.transaction((tx) => {
+    const bar = tx
+      .select({ parentId: progressBars.parentId })
+      .from(progressBars)
+      .where(eq(progressBars.id, barId))
+      .get();
+    recomputeComposites(tx, bar?.parentId ?? null);
+  });
+}
+
+// Move a bar into a composite, or out of one, and update both sides
+function writeParent(tx: Transaction, bar: ProgressBar, input: ParentInput) {
+  tx.update(progressBars).set(input).where(eq(progressBars.id, bar.id)).run();
+  if (bar.parentId !== input.parentId) {
+    recomputeComposites(tx, bar.parentId);
+  }
+  recomputeComposites(tx, input.parentId);
+}
+
+// Replace the tags of a bar, creating tags the user hasn't used before
+function writeBarTags(
+  tx: Transaction,
+  userId: string,
+  barId: string,
+  names: string[],
+) {
+  tx.delete(barTags).where(eq(barTags.barId, barId)).run();
+  if (names.length === 0) {
+    return;
+  }
 
   const now = new Date();
+  tx.insert(tags)
+    .values(
+      names.map((name) => ({ id: generateId(), userId, name, createdAt: now })),
+    )
+    .onConflictDoNothing()
+    .run();
+  const tagIds = tx
+    .select({ id: tags.id })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), inArray(tags.name, names)))
+    .all();
+  tx.insert(barTags)
+    .values(tagIds.map((tag) => ({ barId, tagId: tag.id })))
+    .run();
+}
 
-  if (barType === "manual") {
-    // Handle manual progress bar
-    const targetValue = Number.parseFloat(
-      formData.get("targetValue") as string,
+// Matches bars carrying the filtered tags; with "all" a bar must carry
+// every one of them
+function matchesTagFilter(userId: string, filter: TagFilter): SQL | undefined {
+  const names = [...new Set(filter.tags.map(normalizeTagName))];
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  const tagged = db
+    .select({ barId: barTags.barId })
+    .from(barTags)
+    .innerJoin(tags, eq(barTags.tagId, tags.id))
+    .where(and(eq(tags.userId, userId), inArray(tags.name, names)))
+    .groupBy(barTags.barId);
+
+  return inArray(
+    progressBars.id,
+    filter.match === "all"
+      ? tagged.having(sql`count(*) = ${names.length}`)
+      : tagged,
+  );
+}
+
+// Matches a bar owned by the user that has not been deleted
+function ownedBar(id: string, userId: string): SQL | undefined {
+  return and(
+    eq(progressBars.id, id),
+    eq(progressBars.userId, userId),
+    isNull(progressBars.deletedAt),
+  );
+}
+
+async function findOwnedBar(id: string, userId: string) {
+  return db.select().from(progressBars).where(ownedBar(id, userId)).get();
+}
+
+// New bars go to the end of the custom order
+async function nextBarPosition(userId: string) {
+  const last = await db
+    .select({ position: sql<number | null>`max(${progressBars.position})` })
+    .from(progressBars)
+    .where(eq(progressBars.userId, userId))
+    .get();
+  return (last?.position ?? -1) + 1;
+}
+
+// Start of the first period of a bar that starts repeating now, or null for
+// bars that never reset
+function getFirstPeriodStart(input: ManualBarInput, now: Date) {
+  const rule = getRecurrenceRule(input);
+  return rule && getPeriodStart(rule, now);
+}
+
+// Record the date milestones of time-based bars that have passed; each is
+// reached on its own day, however late the dashboard is opened
+async function recordPassedDateMilestones(userId: string) {
+  await db
+    .update(milestones)
+    .set({ reachedAt: sql`${milestones.date}` })
+    .where(
+      and(
+        eq(milestones.kind, "date"),
+        isNull(milestones.reachedAt),
+        lte(milestones.date, new Date()),
+        inArray(
+          milestones.barId,
+          db
+            .select({ id: progressBars.id })
+            .from(progressBars)
+            .where(eq(progressBars.userId, userId)),
+        ),
+      ),
     );
-    const unit = (formData.get("unit") as string) || null;
-    const unitPosition = (formData.get("unitPosition") as string) || null;
+}
 
-    await db.insert(progressBars).values({
+// Bring composites with time-based children up to date; those children
+// move with the clock without ever being written
+async function refreshTimeBasedComposites(userId: string) {
+  const now = new Date();
+
+  db.transaction((tx) => {
+    const parents = tx
+      .selectDistinct({ parentId: progressBars.parentId })
+      .from(progressBars)
+      .where(
+        and(
+          eq(progressBars.userId, userId),
+          eq(progressBars.barType, "time-based"),
+          isNotNull(progressBars.parentId),
+          isNull(progressBars.archivedAt),
+          isNull(progressBars.deletedAt),
+        ),
+      )
+      .all();
+
+    for (const { parentId } of parents) {
+      recomputeComposites(tx, parentId, { now, isRefresh: true });
+    }
+  });
+}
+
+// Record the milestones of a manual bar that a new value reaches for the
+// first time
+function recordReachedMilestones(
+  tx: Transaction,
+  bar: ProgressBar,
+  value: number,
+  now: Date,
+) {
+  const reachedIds = tx
+    .select()
+    .from(milestones)
+    .where(and(eq(milestones.barId, bar.id), isNull(milestones.reachedAt)))
+    .all()
+    .filter((milestone) => isMilestoneReached(bar, milestone, value, now))
+    .map((milestone) => milestone.id);
+  if (reachedIds.length === 0) {
+    return;
+  }
+
+  tx.update(milestones)
+    .set({ reachedAt: now })
+    .where(inArray(milestones.id, reachedIds))
+    .run();
+}
+
+// Whether new start and target values or dates would leave one of a bar's
+// milestones outside them
+async function hasMilestoneOutsideRange(barId: string, range: MilestoneRange) {
+  const barMilestones = await db
+    .select()
+    .from(milestones)
+    .where(eq(milestones.barId, barId));
+  return barMilestones.some(
+    (milestone) => !isMilestoneInRange(range, milestone),
+  );
+}
+
+// Award the XP a manual bar earns by moving to a new value
+// Awards are counted per period, so a recurring bar can earn them again
+// after it resets
+function awardProgressXp(
+  tx: Transaction,
+  bar: ProgressBar,
+  value: number,
+  now: Date,
+) {
+  const awarded = tx
+    .select({ reason: xpEvents.reason, amount: xpEvents.amount })
+    .from(xpEvents)
+    .where(
+      and(
+        eq(xpEvents.barId, bar.id),
+        bar.periodStart ? gte(xpEvents.createdAt, bar.periodStart) : undefined,
+      ),
+    )
+    .all();
+  const awardedXp = awarded
+    .filter((award) => award.reason === "progress")
+    .reduce((sum, award) => sum + award.amount, 0);
+  const isBonusAwarded = awarded.some((award) => award.reason === "completion");
+
+  const awards = [
+    {
+      reason: "progress",
+      amount: xpCalculator.getProgressXp(bar, value, awardedXp),
+    },
+    {
+      reason: "completion",
+      amount: xpCalculator.getCompletionXp(bar, value, isBonusAwarded),
+    },
+  ].filter((award) => award.amount > 0);
+  if (awards.length === 0) {
+    return;
+  }
+
+  tx.insert(xpEvents)
+    .values(
+      awards.map((award) => ({
+        id: generateId(),
+        userId: bar.userId,
+        barId: bar.id,
+        ...award,
+        createdAt: now,
+      })),
+    )
+    .run();
+}
+
+// Timezone the user's streak days are counted in
+async function getUserTimeZone(userId: string) {
+  return (await findTimeZone(userId)) ?? DEFAULT_TIME_ZONE;
+}
+
+// Timezone the user's browser last reported, if any
+async function findTimeZone(userId: string) {
+  const stored = await db
+    .select({ timeZone: userPreferences.timeZone })
+    .from(userPreferences)
+    .where(eq(userPreferences.userId, userId))
+    .get();
+  return stored?.timeZone ?? null;
+}
+
+// Remove deleted bars whose undo window has passed
+async function purgeExpiredDeletions(userId: string) {
+  await db
+    .delete(progressBars)
+    .where(
+      and(
+        eq(progressBars.userId, userId),
+        lte(progressBars.deletedAt, new Date(Date.now() - UNDO_WINDOW_MS)),
+      ),
+    );
+}
+
+/**
+ * Reset recurring bars whose period has ended
+ * The final value of every ended period is kept; periods that passed without
+ * the dashboard being opened ended at the start value. The reset is recorded
+ * in history at the period boundary so the timeline stays continuous
+ */
+async function rollOverRecurringBars(userId: string) {
+  const now = new Date();
+
+  db.transaction((tx) => {
+    const recurring = tx
+      .select()
+      .from(progressBars)
+      .where(
+        and(
+          eq(progressBars.userId, userId),
+          isNotNull(progressBars.periodStart),
+          isNull(progressBars.deletedAt),
+        ),
+      )
+      .all();
+
+    for (const bar of recurring) {
+      const rule = getRecurrenceRule(bar);
+      if (!rule || !bar.periodStart) {
+        continue;
+      }
+
+      const { ended, currentStart } = getPeriodRollover(
+        rule,
+        bar.periodStart,
+        now,
+      );
+      if (ended.length === 0) {
+        continue;
+      }
+
+      ended.forEach((period, index) => {
+        const finalValue = index === 0 ? bar.currentValue : bar.startValue;
+        tx.insert(barPeriods)
+          .values({
+            id: generateId(),
+            barId: bar.id,
+            startsAt: period.start,
+            endsAt: period.end,
+            finalValue,
+            targetValue: bar.targetValue,
+            isCompleted: hasReachedTarget(bar, finalValue),
+          })
+          .run();
+      });
+
+      if (bar.currentValue !== bar.startValue) {
+        writeProgressChange(tx, bar, bar.startValue, "reset", ended[0].end);
+      }
+      // Each period has its own date the target and milestones were reached
+      tx.update(progressBars)
+        .set({ periodStart: currentStart, targetReachedAt: null })
+        .where(eq(progressBars.id, bar.id))
+        .run();
+      tx.update(milestones)
+        .set({ reachedAt: null })
+        .where(eq(milestones.barId, bar.id))
+        .run();
+    }
+  });
+}
+
+/**
+ * Store a new value for a bar together with its history entry
+ * Completion and the dates the target and milestones were first reached
+ * follow the value
+ */
+function writeProgressChange(
+  tx: Transaction,
+  bar: ProgressBar,
+  newValue: number,
+  source: ProgressUpdateSource,
+  now: Date,
+) {
+  // Only the first crossing is recorded; dropping back below the target
+  // and reaching it again keeps the original date
+  const isManual = bar.barType === "manual";
+  const isReached = isManual && hasReachedTarget(bar, newValue);
+  const reachesTarget = isReached && bar.targetReachedAt === null;
+  const completion =
+    isManual &&
+    getCompletionChange(
+      hasReachedTarget(bar, bar.currentValue),
+      isReached,
+      now,
+    );
+
+  tx.update(progressBars)
+    .set({
+      currentValue: newValue,
+      ...(reachesTarget && { targetReachedAt: now }),
+      ...completion,
+      updatedAt: now,
+    })
+    .where(eq(progressBars.id, bar.id))
+    .run();
+
+  if (isManual) {
+    recordReachedMilestones(tx, bar, newValue, now);
+  }
+  recomputeComposites(tx, bar.parentId);
+
+  tx.insert(progressHistory)
+    .values({
       id: generateId(),
-      title,
-      description,
-      currentValue: 0,
-      targetValue,
-      unit,
-      unitPosition,
+      barId: bar.id,
+      previousValue: bar.currentValue,
+      newValue,
+      delta: newValue - bar.currentValue,
+      source,
+      createdAt: now,
+    })
+    .run();
+}
+
+export async function getProgressBars({
+  archived = false,
+  tagFilter = { tags: [], match: "any" },
+  sort,
+}: {
+  archived?: boolean;
+  tagFilter?: TagFilter;
+  sort?: DashboardSort;
+} = {}): Promise<DashboardBar[]> {
+  const userId = await requireUserId();
+  await purgeExpiredDeletions(userId);
+  await rollOverRecurringBars(userId);
+  await recordPassedDateMilestones(userId);
+  await refreshTimeBasedComposites(userId);
+
+  const bars = await db
+    .select()
+    .from(progressBars)
+    .where(
+      and(
+        eq(progressBars.userId, userId),
+        isNull(progressBars.deletedAt),
+        archived
+          ? isNotNull(progressBars.archivedAt)
+          : isNull(progressBars.archivedAt),
+        matchesTagFilter(userId, tagFilter),
+      ),
+    )
+    .orderBy(
+      ...(sort === "custom" ? [asc(progressBars.position)] : []),
+      asc(progressBars.createdAt),
+      asc(sql`${progressBars}.rowid`),
+    )
+    .all();
+
+  const barIds = bars.map((bar) => bar.id);
+  const barTagRows =
+    bars.length === 0
+      ? []
+      : await db
+          .select({ barId: barTags.barId, name: tags.name })
+          .from(barTags)
+          .innerJoin(tags, eq(barTags.tagId, tags.id))
+          .where(inArray(barTags.barId, barIds))
+          .orderBy(asc(tags.name))
+          .all();
+  const milestoneRows =
+    bars.length === 0
+      ? []
+      : await db
+          .select()
+          .from(milestones)
+          .where(inArray(milestones.barId, barIds))
+          .orderBy(asc(milestones.createdAt))
+          .all();
+  const updateRows =
+    bars.length === 0
+      ? []
+      : await db
+          .select({
+            barId: progressHistory.barId,
+            createdAt: progressHistory.createdAt,
+          })
+          .from(progressHistory)
+          .where(
+            and(inArray(progressHistory.barId, barIds), standingManualUpdate),
+          )
+          .all();
+  const timeZone = await getUserTimeZone(userId);
+  const now = new Date();
+
+  return bars.map((bar) => ({
+    ...bar,
+    tags: barTagRows
+      .filter((row) => row.barId === bar.id)
+      .map((row) => row.name),
+    milestones: milestoneRows.filter((milestone) => milestone.barId === bar.id),
+    streak: getStreak(
+      updateRows
+        .filter((row) => row.barId === bar.id)
+        .map((row) => row.createdAt),
+      timeZone,
+      now,
+    ),
+  }));
+}
+
+/**
+ * Names of the tags on the user's bars, alphabetically
+ */
+export async function getTags(): Promise<string[]> {
+  const userId = await requireUserId();
+
+  const rows = await db
+    .selectDistinct({ name: tags.name })
+    .from(tags)
+    .innerJoin(barTags, eq(barTags.tagId, tags.id))
+    .innerJoin(progressBars, eq(barTags.barId, progressBars.id))
+    .where(and(eq(tags.userId, userId), isNull(progressBars.deletedAt)))
+    .orderBy(asc(tags.name))
+    .all();
+
+  return rows.map((row) => row.name);
+}
+
+/**
+ * Search the titles and descriptions of the user's active bars
+ * Results are ranked best match first, with title matches counting for more
+ * than description matches
+ *
+ * @param query - Words to search for, as typed into the search box
+ */
+export async function searchProgressBars(
+  query: string,
+): Promise<SearchResult[]> {
+  const userId = await requireUserId();
+  const match = typeof query === "string" ? toSearchQuery(query) : null;
+  if (match === null) {
+    return [];
+  }
+  await rollOverRecurringBars(userId);
+
+  // The bar_id column is only there to join on, so it gets no weight
+  const rows = await db
+    .select({
+      bar: progressBars,
+      title: sql<string>`highlight(progress_bars_fts, 1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END})`,
+      description: sql<
+        string | null
+      >`highlight(progress_bars_fts, 2, ${HIGHLIGHT_START}, ${HIGHLIGHT_END})`,
+    })
+    .from(progressBars)
+    .innerJoin(
+      sql`progress_bars_fts`,
+      sql`progress_bars_fts.bar_id = ${progressBars.id}`,
+    )
+    .where(
+      and(
+        sql`progress_bars_fts match ${match}`,
+        eq(progressBars.userId, userId),
+        isNull(progressBars.archivedAt),
+        isNull(progressBars.deletedAt),
+      ),
+    )
+    .orderBy(
+      sql`bm25(progress_bars_fts, 0, 10, 1)`,
+      asc(progressBars.createdAt),
+    )
+    .limit(SEARCH_RESULT_LIMIT)
+    .all();
+
+  return rows.map((row) => ({
+    bar: row.bar,
+    title: parseHighlight(row.title),
+    description:
+      row.description === null ? null : parseHighlight(row.description),
+  }));
+}
+
+export async function createProgressBar(
+  formData: FormData,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+  const barType = formData.get("barType") || "manual";
+  const now = new Date();
+
+  const category = await parseCategoryChoice(formData, userId);
+  if (!category.isValid) {
+    return failure(...category.errors);
+  }
+
+  const tagList = parseTagList(formData);
+  if (!tagList.isValid) {
+    return failure(...tagList.errors);
+  }
+
+  const parent = await parseParentChoice(formData, userId, null);
+  if (!parent.isValid) {
+    return failure(...parent.errors);
+  }
+
+  let barId: string;
+  if (barType === "manual") {
+    const parsed = parseManualBarForm(formData);
+    if (!parsed.isValid) {
+      return failure(...parsed.errors);
+    }
+
+    barId = generateId();
+    await db.insert(progressBars).values({
+      id: barId,
+      userId,
+      position: await nextBarPosition(userId),
+      categoryId: category.input,
+      ...parsed.input,
+      // Burn-down bars begin at their starting value
+      currentValue: parsed.input.startValue,
+      periodStart: getFirstPeriodStart(parsed.input, now),
       barType: "manual",
       createdAt: now,
       updatedAt: now,
     });
-  } else {
-    // Handle time-based progress bar
-    const timeBasedType = formData.get("timeBasedType") as string;
-    let startDate: string;
-    const targetDate = formData.get("targetDate") as string;
-
+  } else if (barType === "time-based") {
     // For count-down bars, use current date as start date
-    if (timeBasedType === "count-down") {
-      startDate = now.toISOString();
-    } else {
-      startDate = new Date(
-        `${formData.get("startDate") as string}T00:00:00`,
-      ).toISOString();
+    const parsed = parseTimeBasedBarForm(formData, () => now);
+    if (!parsed.isValid) {
+      return failure(...parsed.errors);
     }
 
+    // The manager validates the dates and stores the real day counts and
+    // completion status, same as any other entry point
+    try {
+      const bar = await timeBasedManager.createTimeBasedBar(
+        {
+          ...parsed.input,
+          categoryId: category.input,
+          position: await nextBarPosition(userId),
+        },
+        userId,
+      );
+      barId = bar.id;
+    } catch (error) {
+      if (error instanceof BarValidationError) {
+        return failure(...error.errors);
+      }
+      throw error;
+    }
+  } else if (barType === "composite") {
+    const parsed = parseCompositeBarForm(formData);
+    if (!parsed.isValid) {
+      return failure(...parsed.errors);
+    }
+
+    // A composite without children has nothing to count yet
+    barId = generateId();
     await db.insert(progressBars).values({
-      id: generateId(),
-      title,
-      description,
-      currentValue: 0, // Will be calculated dynamically for time-based bars
-      targetValue: 100, // Percentage-based for time-based bars
-      barType: "time-based",
-      startDate,
-      targetDate: new Date(`${targetDate}T00:00:00`).toISOString(),
-      timeBasedType: timeBasedType as
-        | "count-up"
-        | "count-down"
-        | "arrival-date",
-      isCompleted: false,
-      isOverdue: false,
+      id: barId,
+      userId,
+      position: await nextBarPosition(userId),
+      categoryId: category.input,
+      ...parsed.input,
+      ...getCompositeValues(parsed.input.aggregation, [], now),
+      barType: "composite",
       createdAt: now,
       updatedAt: now,
     });
+  } else {
+    return failure({
+      field: "barType",
+      message: "Choose manual, time-based or composite progress",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const tagNames = tagList.input;
+  if (tagNames) {
+    db.transaction((tx) => writeBarTags(tx, userId, barId, tagNames));
+  }
+
+  const parentInput = parent.input;
+  if (parentInput?.parentId) {
+    db.transaction((tx) => {
+      const bar = tx
+        .select()
+        .from(progressBars)
+        .where(eq(progressBars.id, barId))
+        .get();
+      if (bar) {
+        writeParent(tx, bar, parentInput);
+      }
+    });
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function editProgressBar(
+  id: string,
+  formData: FormData,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+  await rollOverRecurringBars(userId);
+  const bar = await findOwnedBar(id, userId);
+
+  if (!bar) {
+    return barNotFound();
+  }
+
+  const category = await parseCategoryChoice(formData, userId);
+  if (!category.isValid) {
+    return failure(...category.errors);
+  }
+
+  const tagList = parseTagList(formData);
+  if (!tagList.isValid) {
+    return failure(...tagList.errors);
+  }
+
+  const parent = await parseParentChoice(formData, userId, id);
+  if (!parent.isValid) {
+    return failure(...parent.errors);
+  }
+
+  if (bar.barType === "manual") {
+    const parsed = parseManualBarForm(formData);
+    if (!parsed.isValid) {
+      return failure(...parsed.errors);
+    }
+
+    if (await hasMilestoneOutsideRange(id, { ...bar, ...parsed.input })) {
+      return failure({
+        field: "targetValue",
+        message:
+          "Move or remove the milestones outside the new start and target first",
+        code: "INVALID_VALUE",
+      });
+    }
+
+    // A new start, target or direction can leave the current value outside
+    // the range the bar allows, so it is clamped back into it
+    const currentValue = clampManualValue(parsed.input, bar.currentValue);
+    // A new target keeps the original date it was reached only if the
+    // current value still meets it
+    const now = new Date();
+    const isReached = hasReachedTarget(parsed.input, currentValue);
+    const targetReachedAt = isReached ? (bar.targetReachedAt ?? now) : null;
+    // Changing how often the bar resets starts a new period now
+    const isSameRecurrence =
+      parsed.input.recurrence === bar.recurrence &&
+      parsed.input.recurrenceDays === bar.recurrenceDays;
+
+    await db
+      .update(progressBars)
+      .set({
+        ...parsed.input,
+        currentValue,
+        categoryId: category.input,
+        targetReachedAt,
+        periodStart: isSameRecurrence
+          ? bar.periodStart
+          : getFirstPeriodStart(parsed.input, now),
+        ...getCompletionChange(
+          hasReachedTarget(bar, bar.currentValue),
+          isReached,
+          now,
+        ),
+        updatedAt: now,
+      })
+      .where(ownedBar(id, userId));
+  } else if (bar.barType === "composite") {
+    const parsed = parseCompositeBarForm(formData);
+    if (!parsed.isValid) {
+      return failure(...parsed.errors);
+    }
+
+    await db
+      .update(progressBars)
+      .set({
+        ...parsed.input,
+        categoryId: category.input,
+        updatedAt: new Date(),
+      })
+      .where(ownedBar(id, userId));
+  } else {
+    // Count-down bars start when they are created; keep the stored start
+    // unless the bar is being converted to a count-down now
+    const parsed = parseTimeBasedBarForm(formData, () =>
+      bar.timeBasedType === "count-down" && bar.startDate
+        ? new Date(bar.startDate)
+        : new Date(),
+    );
+    if (!parsed.isValid) {
+      return failure(...parsed.errors);
+    }
+
+    if (
+      await hasMilestoneOutsideRange(id, {
+        ...bar,
+        startDate: parsed.input.startDate.toISOString(),
+        targetDate: parsed.input.targetDate.toISOString(),
+      })
+    ) {
+      return failure({
+        field: "targetDate",
+        message: "Move or remove the milestones outside the new dates first",
+        code: "INVALID_DATE_RANGE",
+      });
+    }
+
+    try {
+      await timeBasedManager.updateTimeBasedBar(bar, {
+        ...parsed.input,
+        categoryId: category.input,
+      });
+    } catch (error) {
+      if (error instanceof BarValidationError) {
+        return failure(...error.errors);
+      }
+      throw error;
+    }
+  }
+
+  const tagNames = tagList.input;
+  if (tagNames) {
+    db.transaction((tx) => writeBarTags(tx, userId, id, tagNames));
   }
 
+  // A new target or way of combining children changes the composites the
+  // bar counts towards
+  const parentInput = parent.input;
+  db.transaction((tx) => {
+    const edited = tx
+      .select()
+      .from(progressBars)
+      .where(eq(progressBars.id, id))
+      .get();
+    if (!edited) {
+      return;
+    }
+    if (edited.barType === "composite") {
+      recomputeComposites(tx, edited.id);
+    }
+    if (parentInput) {
+      writeParent(tx, edited, parentInput);
+    } else {
+      recomputeComposites(tx, edited.parentId);
+    }
+  });
+
+  await achievementEngine.evaluate(userId);
   revalidatePath("/");
+  return { success: true, data: undefined };
 }
 
-export async function updateProgress(id: string, newValue: number) {
+export async function updateProgress(
+  id: string,
+  newValue: number,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  if (typeof newValue !== "number" || !Number.isFinite(newValue)) {
+    return failure({
+      field: "currentValue",
+      message: "Progress must be a finite number",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  if (newValue < 0) {
+    return failure({
+      field: "currentValue",
+      message: "Progress cannot be negative",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  // A value set after a period ended belongs to the new period
+  await rollOverRecurringBars(userId);
+
+  // Read inside the transaction so the checks, the history entry and the XP
+  // award all see the value the write replaces
+  const result = db.transaction((tx): ActionResult<boolean> => {
+    const bar = tx
+      .select()
+      .from(progressBars)
+      .where(ownedBar(id, userId))
+      .get();
+
+    if (!bar) {
+      return barNotFound();
+    }
+
+    if (bar.barType === "composite") {
+      return failure({
+        field: "currentValue",
+        message: "Composite bars follow the bars they are made of",
+        code: "INVALID_VALUE",
+      });
+    }
+
+    // The same range the card's buttons and the edit form clamp values to
+    if (bar.barType === "manual") {
+      const { min, max } = getManualValueRange(bar);
+      if (newValue < min || newValue > max) {
+        return failure({
+          field: "currentValue",
+          message: isPastTarget(bar, newValue)
+            ? "Progress cannot go past the target for this bar"
+            : "Progress cannot go back past the start of this bar",
+          code: "INVALID_VALUE",
+        });
+      }
+    }
+
+    if (bar.currentValue === newValue) {
+      return { success: true, data: false };
+    }
+
+    // Record the change alongside the new value so history never drifts
+    const now = new Date();
+    writeProgressChange(tx, bar, newValue, "manual", now);
+    if (bar.barType === "manual") {
+      awardProgressXp(tx, bar, newValue, now);
+    }
+    return { success: true, data: true };
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  if (result.data) {
+    await achievementEngine.evaluate(userId);
+    revalidatePath("/");
+  }
+  return { success: true, data: undefined };
+}
+
+/**
+ * Total XP of the signed-in user and where it puts them on the level curve
+ */
+export async function getXpSummary(): Promise<LevelProgress> {
+  const userId = await requireUserId();
+
+  const total = await db
+    .select({ xp: sql<number | null>`sum(${xpEvents.amount})` })
+    .from(xpEvents)
+    .where(eq(xpEvents.userId, userId))
+    .get();
+
+  return xpCalculator.getLevelProgress(total?.xp ?? 0);
+}
+
+/**
+ * Current and longest streak of days on which the signed-in user updated
+ * any of their bars
+ */
+export async function getStreakSummary(): Promise<Streak> {
+  const userId = await requireUserId();
+
+  const updates = await db
+    .select({ createdAt: progressHistory.createdAt })
+    .from(progressHistory)
+    .innerJoin(progressBars, eq(progressHistory.barId, progressBars.id))
+    .where(and(eq(progressBars.userId, userId), standingManualUpdate))
+    .all();
+
+  return getStreak(
+    updates.map((update) => update.createdAt),
+    await getUserTimeZone(userId),
+    new Date(),
+  );
+}
+
+/**
+ * Every achievement, with when the signed-in user unlocked it
+ */
+export async function getAchievements(): Promise<AchievementStatus[]> {
+  const userId = await requireUserId();
+  // Count-downs run out as time passes, with no action to unlock Liftoff
+  await achievementEngine.evaluate(userId);
+
+  const unlockedAt = new Map(
+    (await achievementEngine.getUnlocked(userId)).map((unlock) => [
+      unlock.achievementId,
+      unlock.unlockedAt,
+    ]),
+  );
+
+  return ACHIEVEMENTS.map((rule) => ({
+    ...rule,
+    unlockedAt: unlockedAt.get(rule.id) ?? null,
+  }));
+}
+
+export async function reopenProgressBar(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+  const bar = await findOwnedBar(id, userId);
+
+  if (!bar) {
+    return barNotFound();
+  }
+
+  // Time-based bars complete on their target date, so only manual bars
+  // can be reopened
+  if (bar.barType !== "manual") {
+    return failure({
+      field: "id",
+      message: "Only manual progress bars can be reopened",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  if (!bar.isCompleted) {
+    return { success: true, data: undefined };
+  }
+
   await db
     .update(progressBars)
-    .set({
-      currentValue: newValue,
-      updatedAt: new Date(),
+    .set({ isCompleted: false, completedAt: null, updatedAt: new Date() })
+    .where(ownedBar(id, userId));
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+/**
+ * Revert the most recent value change of a bar that has not been undone
+ * Only the last UNDO_DEPTH changes made by hand can be undone; the undo is
+ * itself recorded in the bar's history
+ */
+export async function undoProgressUpdate(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+  await rollOverRecurringBars(userId);
+
+  if (!(await findOwnedBar(id, userId))) {
+    return barNotFound();
+  }
+
+  const isUndone = db.transaction((tx) => {
+    // Read inside the transaction so the check and the write can't race
+    const bar = tx
+      .select()
+      .from(progressBars)
+      .where(eq(progressBars.id, id))
+      .get();
+    const recent = tx
+      .select()
+      .from(progressHistory)
+      .where(
+        and(
+          eq(progressHistory.barId, id),
+          notInArray(progressHistory.source, ["undo", "reset"]),
+          // Changes from a period that has ended can't be undone
+          bar?.periodStart
+            ? gte(progressHistory.createdAt, bar.periodStart)
+            : undefined,
+        ),
+      )
+      .orderBy(...newestHistoryFirst)
+      .limit(UNDO_DEPTH)
+      .all();
+    const entry = recent.find((candidate) => candidate.undoneAt === null);
+
+    // The bar must still hold the value the change left it at
+    if (!bar || !entry || entry.newValue !== bar.currentValue) {
+      return false;
+    }
+
+    const now = new Date();
+    writeProgressChange(tx, bar, entry.previousValue, "undo", now);
+    tx.update(progressHistory)
+      .set({ undoneAt: now })
+      .where(eq(progressHistory.id, entry.id))
+      .run();
+    return true;
+  });
+
+  if (!isUndone) {
+    return failure({
+      field: "currentValue",
+      message: "There is no change to undo",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+/**
+ * Put bars in a new custom order
+ * The list may hold only some of the user's bars, e.g. one category or a
+ * filtered view; those bars swap places among themselves and the rest keep
+ * theirs
+ *
+ * @param orderedIds - Ids of the reordered bars, in their new order
+ */
+export async function reorderProgressBars(
+  orderedIds: string[],
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  const isReordered = db.transaction((tx) => {
+    const current = tx
+      .select({ id: progressBars.id })
+      .from(progressBars)
+      .where(
+        and(eq(progressBars.userId, userId), isNull(progressBars.deletedAt)),
+      )
+      .orderBy(
+        asc(progressBars.position),
+        asc(progressBars.createdAt),
+        asc(sql`${progressBars}.rowid`),
+      )
+      .all()
+      .map((bar) => bar.id);
+    const currentIds = new Set(current);
+
+    if (
+      !Array.isArray(orderedIds) ||
+      new Set(orderedIds).size !== orderedIds.length ||
+      !orderedIds.every((id) => currentIds.has(id))
+    ) {
+      return false;
+    }
+
+    applyPartialOrder(current, orderedIds).forEach((id, position) => {
+      tx.update(progressBars)
+        .set({ position })
+        .where(eq(progressBars.id, id))
+        .run();
+    });
+    return true;
+  });
+
+  if (!isReordered) {
+    return failure({
+      field: "barIds",
+      message: "The list of progress bars is out of date",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+/**
+ * Bars pinned to the top of the dashboard, oldest pin first
+ * The strip shows them whatever sort or tag filter is active
+ */
+export async function getPinnedBars(): Promise<ProgressBar[]> {
+  const userId = await requireUserId();
+  await rollOverRecurringBars(userId);
+
+  return db
+    .select()
+    .from(progressBars)
+    .where(
+      and(
+        eq(progressBars.userId, userId),
+        isNotNull(progressBars.pinnedAt),
+        isNull(progressBars.archivedAt),
+        isNull(progressBars.deletedAt),
+      ),
+    )
+    .orderBy(asc(progressBars.pinnedAt))
+    .all();
+}
+
+/**
+ * Pin a bar to the top of the dashboard
+ * Only MAX_PINNED_BARS bars can be pinned at a time; archived bars cannot be
+ * pinned
+ */
+export async function pinProgressBar(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  const outcome = db.transaction((tx) => {
+    const bar = tx
+      .select({
+        pinnedAt: progressBars.pinnedAt,
+        archivedAt: progressBars.archivedAt,
+      })
+      .from(progressBars)
+      .where(ownedBar(id, userId))
+      .get();
+    if (!bar || bar.archivedAt !== null) {
+      return "not-found";
+    }
+    if (bar.pinnedAt !== null) {
+      return "pinned";
+    }
+
+    const pinned = tx
+      .select({ count: sql<number>`count(*)` })
+      .from(progressBars)
+      .where(
+        and(
+          eq(progressBars.userId, userId),
+          isNotNull(progressBars.pinnedAt),
+          isNull(progressBars.archivedAt),
+          isNull(progressBars.deletedAt),
+        ),
+      )
+      .get();
+    if ((pinned?.count ?? 0) >= MAX_PINNED_BARS) {
+      return "full";
+    }
+
+    tx.update(progressBars)
+      .set({ pinnedAt: new Date() })
+      .where(eq(progressBars.id, id))
+      .run();
+    return "pinned";
+  });
+
+  if (outcome === "not-found") {
+    return barNotFound();
+  }
+  if (outcome === "full") {
+    return failure({
+      field: "pinnedAt",
+      message: `You can pin at most ${MAX_PINNED_BARS} progress bars`,
+      code: "INVALID_VALUE",
+    });
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function unpinProgressBar(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  const result = await db
+    .update(progressBars)
+    .set({ pinnedAt: null })
+    .where(ownedBar(id, userId));
+
+  if (result.changes === 0) {
+    return barNotFound();
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function getProgressHistory(
+  barId: string,
+  page = 0,
+): Promise<ActionResult<ProgressHistoryPage>> {
+  const userId = await requireUserId();
+
+  if (!Number.isInteger(page) || page < 0) {
+    return failure({
+      field: "page",
+      message: "Page must be a non-negative whole number",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select({ entry: progressHistory })
+    .from(progressHistory)
+    .innerJoin(progressBars, eq(progressHistory.barId, progressBars.id))
+    .where(
+      and(
+        eq(progressHistory.barId, barId),
+        eq(progressBars.userId, userId),
+        isNull(progressBars.deletedAt),
+      ),
+    )
+    .orderBy(...newestHistoryFirst)
+    .limit(HISTORY_PAGE_SIZE + 1)
+    .offset(page * HISTORY_PAGE_SIZE)
+    .all();
+
+  return {
+    success: true,
+    data: {
+      entries: rows.slice(0, HISTORY_PAGE_SIZE).map((row) => row.entry),
+      page,
+      hasMore: rows.length > HISTORY_PAGE_SIZE,
+    },
+  };
+}
+
+/**
+ * Most recent ended periods of a recurring bar, newest first
+ */
+export async function getBarPeriods(
+  barId: string,
+): Promise<ActionResult<BarPeriod[]>> {
+  const userId = await requireUserId();
+  await rollOverRecurringBars(userId);
+
+  const rows = await db
+    .select({ period: barPeriods })
+    .from(barPeriods)
+    .innerJoin(progressBars, eq(barPeriods.barId, progressBars.id))
+    .where(ownedBar(barId, userId))
+    .orderBy(desc(barPeriods.startsAt))
+    .limit(PAST_PERIOD_LIMIT)
+    .all();
+
+  return { success: true, data: rows.map((row) => row.period) };
+}
+
+/**
+ * Add a milestone to a bar
+ * Only MAX_MILESTONES_PER_BAR milestones fit on a bar; a milestone the bar
+ * has already passed counts as reached when it is added, or on its own day
+ * for date milestones
+ */
+export async function createMilestone(
+  barId: string,
+  formData: FormData,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+  const bar = await findOwnedBar(barId, userId);
+
+  if (!bar) {
+    return barNotFound();
+  }
+
+  if (bar.barType !== "manual" && bar.barType !== "time-based") {
+    return failure({
+      field: "barId",
+      message: "Only manual and time-based bars can have milestones",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const parsed = parseMilestoneForm(formData, bar);
+  if (!parsed.isValid) {
+    return failure(...parsed.errors);
+  }
+
+  const now = new Date();
+  const isReached = isMilestoneReached(
+    bar,
+    parsed.input,
+    bar.currentValue,
+    now,
+  );
+
+  const isFull = db.transaction((tx) => {
+    const existing = tx
+      .select({ count: sql<number>`count(*)` })
+      .from(milestones)
+      .where(eq(milestones.barId, bar.id))
+      .get();
+    if ((existing?.count ?? 0) >= MAX_MILESTONES_PER_BAR) {
+      return true;
+    }
+
+    tx.insert(milestones)
+      .values({
+        id: generateId(),
+        barId: bar.id,
+        ...parsed.input,
+        reachedAt: isReached ? (parsed.input.date ?? now) : null,
+        createdAt: now,
+      })
+      .run();
+    return false;
+  });
+
+  if (isFull) {
+    return failure({
+      field: bar.barType === "time-based" ? "date" : "threshold",
+      message: `A bar can have at most ${MAX_MILESTONES_PER_BAR} milestones`,
+      code: "INVALID_VALUE",
+    });
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function deleteMilestone(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  const result = await db.delete(milestones).where(
+    and(
+      eq(milestones.id, id),
+      inArray(
+        milestones.barId,
+        // A deleted bar waiting for undo can't be changed
+        db
+          .select({ id: progressBars.id })
+          .from(progressBars)
+          .where(
+            and(
+              eq(progressBars.userId, userId),
+              isNull(progressBars.deletedAt),
+            ),
+          ),
+      ),
+    ),
+  );
+
+  if (result.changes === 0) {
+    return failure({
+      field: "id",
+      message: "Milestone not found",
+      code: "NOT_FOUND",
+    });
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function archiveProgressBar(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  // History is kept so a restored bar picks up where it left off; the pin
+  // is dropped so the bar does not hold a place in the pinned strip
+  const result = await db
+    .update(progressBars)
+    .set({ archivedAt: new Date(), pinnedAt: null })
+    .where(and(ownedBar(id, userId), isNull(progressBars.archivedAt)));
+
+  if (result.changes === 0) {
+    return barNotFound();
+  }
+
+  recomputeParentOf(id);
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function unarchiveProgressBar(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  const result = await db
+    .update(progressBars)
+    .set({ archivedAt: null })
+    .where(and(ownedBar(id, userId), isNotNull(progressBars.archivedAt)));
+
+  if (result.changes === 0) {
+    return barNotFound();
+  }
+
+  recomputeParentOf(id);
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+/**
+ * Delete a bar, keeping it restorable for UNDO_WINDOW_MS
+ * Bars past the window are removed for good the next time bars are loaded
+ *
+ * @returns When the bar stops being restorable, so an undo toast can be
+ * hidden then rather than a full window after the response arrives
+ */
+export async function deleteProgressBar(
+  id: string,
+): Promise<ActionResult<{ restorableUntil: Date }>> {
+  const userId = await requireUserId();
+
+  const deletedAt = new Date();
+  const result = await db
+    .update(progressBars)
+    .set({ deletedAt })
+    .where(ownedBar(id, userId));
+
+  if (result.changes === 0) {
+    return barNotFound();
+  }
+
+  recomputeParentOf(id);
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return {
+    success: true,
+    data: {
+      restorableUntil: new Date(deletedAt.getTime() + UNDO_WINDOW_MS),
+    },
+  };
+}
+
+export async function restoreProgressBar(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  const result = await db
+    .update(progressBars)
+    .set({ deletedAt: null })
+    .where(
+      and(
+        eq(progressBars.id, id),
+        eq(progressBars.userId, userId),
+        gt(progressBars.deletedAt, new Date(Date.now() - UNDO_WINDOW_MS)),
+      ),
+    );
+
+  if (result.changes === 0) {
+    return barNotFound();
+  }
+
+  recomputeParentOf(id);
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function getCategories() {
+  const userId = await requireUserId();
+
+  return db
+    .select()
+    .from(categories)
+    .where(eq(categories.userId, userId))
+    .orderBy(asc(categories.position), asc(categories.createdAt))
+    .all();
+}
+
+export async function createCategory(
+  formData: FormData,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+  const parsed = parseCategoryForm(formData);
+
+  if (!parsed.isValid) {
+    return failure(...parsed.errors);
+  }
+
+  if (await isCategoryNameTaken(userId, parsed.input.name)) {
+    return duplicateCategoryName();
+  }
+
+  // New categories go to the end of the dashboard
+  const last = await db
+    .select({ position: sql<number | null>`max(${categories.position})` })
+    .from(categories)
+    .where(eq(categories.userId, userId))
+    .get();
+  const now = new Date();
+
+  await db.insert(categories).values({
+    id: generateId(),
+    userId,
+    name: parsed.input.name,
+    position: (last?.position ?? -1) + 1,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function renameCategory(
+  id: string,
+  formData: FormData,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+  const parsed = parseCategoryForm(formData);
+
+  if (!parsed.isValid) {
+    return failure(...parsed.errors);
+  }
+
+  if (await isCategoryNameTaken(userId, parsed.input.name, id)) {
+    return duplicateCategoryName();
+  }
+
+  const result = await db
+    .update(categories)
+    .set({ name: parsed.input.name, updatedAt: new Date() })
+    .where(ownedCategory(id, userId));
+
+  if (result.changes === 0) {
+    return categoryNotFound();
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+/**
+ * Put the user's categories in a new order
+ *
+ * @param orderedIds - Every one of the user's category ids, in the new order
+ */
+export async function reorderCategories(
+  orderedIds: string[],
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  const isReordered = db.transaction((tx) => {
+    const existing = tx
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.userId, userId))
+      .all();
+    const existingIds = new Set(existing.map((category) => category.id));
+
+    // A partial or stale list would leave positions ambiguous
+    if (
+      !Array.isArray(orderedIds) ||
+      orderedIds.length !== existingIds.size ||
+      new Set(orderedIds).size !== orderedIds.length ||
+      !orderedIds.every((id) => existingIds.has(id))
+    ) {
+      return false;
+    }
+
+    const now = new Date();
+    orderedIds.forEach((id, position) => {
+      tx.update(categories)
+        .set({ position, updatedAt: now })
+        .where(ownedCategory(id, userId))
+        .run();
+    });
+    return true;
+  });
+
+  if (!isReordered) {
+    return failure({
+      field: "categoryIds",
+      message: "The list of categories is out of date",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+/**
+ * Delete a category, moving its bars to Uncategorized
+ */
+export async function deleteCategory(id: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  const deleted = db.transaction((tx) => {
+    tx.update(progressBars)
+      .set({ categoryId: null })
+      .where(
+        and(eq(progressBars.userId, userId), eq(progressBars.categoryId, id)),
+      )
+      .run();
+    return tx.delete(categories).where(ownedCategory(id, userId)).run().changes;
+  });
+
+  if (deleted === 0) {
+    return categoryNotFound();
+  }
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+export async function getDashboardPreferences(): Promise<DashboardPreferences> {
+  const userId = await requireUserId();
+
+  const stored = await db
+    .select()
+    .from(userPreferences)
+    .where(eq(userPreferences.userId, userId))
+    .get();
+
+  // Values written by an older version fall back to the defaults
+  return {
+    sort: isDashboardSort(stored?.dashboardSort)
+      ? stored.dashboardSort
+      : DEFAULT_DASHBOARD_PREFERENCES.sort,
+    view: isDashboardView(stored?.dashboardView)
+      ? stored.dashboardView
+      : DEFAULT_DASHBOARD_PREFERENCES.view,
+  };
+}
+
+/**
+ * Timezone the signed-in user's browser last reported, or null before it
+ * has reported one
+ */
+export async function getTimeZone(): Promise<string | null> {
+  const userId = await requireUserId();
+  return findTimeZone(userId);
+}
+
+/**
+ * Count the signed-in user's streak days in a timezone from now on
+ *
+ * @param timeZone - IANA timezone name, e.g. "Europe/Berlin"
+ */
+export async function updateTimeZone(timeZone: string): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  if (!isTimeZone(timeZone)) {
+    return failure({
+      field: "timeZone",
+      message: "Unknown timezone",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const changes = { timeZone, updatedAt: new Date() };
+  await db
+    .insert(userPreferences)
+    .values({ userId, ...changes })
+    .onConflictDoUpdate({ target: userPreferences.userId, set: changes });
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+/**
+ * Whether the signed-in user sees confetti when their bars cross a
+ * threshold or are completed; on until they turn it off
+ */
+export async function getCelebrationsEnabled(): Promise<boolean> {
+  const userId = await requireUserId();
+
+  const stored = await db
+    .select({ celebrationsEnabled: userPreferences.celebrationsEnabled })
+    .from(userPreferences)
+    .where(eq(userPreferences.userId, userId))
+    .get();
+
+  return stored?.celebrationsEnabled ?? true;
+}
+
+/**
+ * Turn celebrations on or off for the signed-in user
+ */
+export async function updateCelebrationsEnabled(
+  enabled: boolean,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  if (typeof enabled !== "boolean") {
+    return failure({
+      field: "celebrationsEnabled",
+      message: "Celebrations must be turned on or off",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const changes = { celebrationsEnabled: enabled, updatedAt: new Date() };
+  await db
+    .insert(userPreferences)
+    .values({ userId, ...changes })
+    .onConflictDoUpdate({ target: userPreferences.userId, set: changes });
+
+  await achievementEngine.evaluate(userId);
+  revalidatePath("/");
+  return { success: true, data: undefined };
+}
+
+/**
+ * The signed-in user's master mute and volume for sound effects
+ */
+export async function getSoundPreferences(): Promise<SoundPreferences> {
+  const userId = await requireUserId();
+
+  const stored = await db
+    .select({
+      soundMuted: userPreferences.soundMuted,
+      soundVolume: userPreferences.soundVolume,
     })
-    .where(eq(progressBars.id, id));
+    .from(userPreferences)
+    .where(eq(userPreferences.userId, userId))
+    .get();
+
+  return {
+    muted: stored?.soundMuted ?? DEFAULT_SOUND_PREFERENCES.muted,
+    volume: isSoundVolume(stored?.soundVolume)
+      ? stored.soundVolume
+      : DEFAULT_SOUND_PREFERENCES.volume,
+  };
+}
+
+export async function updateSoundPreferences(
+  changes: Partial<SoundPreferences>,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  if (typeof changes !== "object" || changes === null) {
+    return failure({
+      field: "sound",
+      message: "Sound preferences are required",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  if (changes.muted !== undefined && typeof changes.muted !== "boolean") {
+    return failure({
+      field: "muted",
+      message: "Sounds must be muted or unmuted",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  if (changes.volume !== undefined && !isSoundVolume(changes.volume)) {
+    return failure({
+      field: "volume",
+      message: "Volume must be between 0 and 1",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const current = await getSoundPreferences();
+  const preferences = {
+    soundMuted: changes.muted ?? current.muted,
+    soundVolume: changes.volume ?? current.volume,
+    updatedAt: new Date(),
+  };
+
+  await db
+    .insert(userPreferences)
+    .values({ userId, ...preferences })
+    .onConflictDoUpdate({ target: userPreferences.userId, set: preferences });
 
+  await achievementEngine.evaluate(userId);
   revalidatePath("/");
+  return { success: true, data: undefined };
 }
 
-export async function deleteProgressBar(id: string) {
-  await db.delete(progressBars).where(eq(progressBars.id, id));
+export async function updateDashboardPreferences(
+  changes: Partial<DashboardPreferences>,
+): Promise<ActionResult> {
+  const userId = await requireUserId();
+
+  if (changes.sort !== undefined && !isDashboardSort(changes.sort)) {
+    return failure({
+      field: "sort",
+      message: "Unknown sort option",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  if (changes.view !== undefined && !isDashboardView(changes.view)) {
+    return failure({
+      field: "view",
+      message: "Unknown view mode",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const current = await getDashboardPreferences();
+  const preferences = {
+    dashboardSort: changes.sort ?? current.sort,
+    dashboardView: changes.view ?? current.view,
+    updatedAt: new Date(),
+  };
+
+  await db
+    .insert(userPreferences)
+    .values({ userId, ...preferences })
+    .onConflictDoUpdate({ target: userPreferences.userId, set: preferences });
+
+  await achievementEngine.evaluate(userId);
   revalidatePath("/");
+  return { success: true, data: undefined };
 }
@@ -0,0 +1,43 @@
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+import { getAchievements, getStreakSummary, getXpSummary } from "@/app/actions";
+import { BadgeGrid } from "@/app/components/BadgeGrid";
+import { ProfileSummary } from "@/app/components/ProfileSummary";
+
+export default async function Badges() {
+  const { userId } = await auth();
+
+  return (
+    <div className="flex min-h-screen items-start justify-center bg-zinc-50 py-12 font-sans dark:bg-black">
+      <main className="w-full max-w-xl px-4">
+        <h1 className="mb-8 text-center text-3xl font-bold tracking-tight text-zinc-900 dark:text-zinc-100">
+          Badges
+        </h1>
+
+        {userId ? (
+          <>
+            <nav className="mb-4 flex justify-center">
+              <Link
+                href="/"
+                className="rounded-lg px-3 py-1 text-sm font-medium text-zinc-600 transition-colors hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+              >
+                ← Back to your bars
+              </Link>
+            </nav>
+            <div className="flex flex-col gap-6">
+              <ProfileSummary
+                level={await getXpSummary()}
+                streak={await getStreakSummary()}
+              />
+              <BadgeGrid achievements={await getAchievements()} />
+            </div>
+          </>
+        ) : (
+          <p className="text-center text-zinc-500 dark:text-zinc-400">
+            Sign in to see your badges.
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
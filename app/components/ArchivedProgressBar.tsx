@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+  deleteProgressBar,
+  restoreProgressBar,
+  unarchiveProgressBar,
+} from "@/app/actions";
+import type { ProgressBar as ProgressBarType } from "@/db/schema";
+import { useUndoToast } from "./UndoToast";
+
+function formatArchivedDate(date: Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function ArchivedProgressBar({ bar }: { bar: ProgressBarType }) {
+  const [isPending, startTransition] = useTransition();
+  // Permanent deletion takes a second click to confirm
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const showUndoToast = useUndoToast();
+
+  const handleRestore = () => {
+    startTransition(() => {
+      unarchiveProgressBar(bar.id);
+    });
+  };
+
+  const handleDelete = () => {
+    if (!isConfirmingDelete) {
+      setIsConfirmingDelete(true);
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await deleteProgressBar(bar.id);
+      if (result.success) {
+        showUndoToast({
+          message: `Deleted "${bar.title}"`,
+          onUndo: () => restoreProgressBar(bar.id),
+          expiresAt: result.data.restorableUntil,
+        });
+      }
+    });
+  };
+
+  return (
+    <div
+      className={`flex items-center justify-between rounded-xl border border-zinc-200 bg-white p-4 shadow-sm transition-opacity dark:border-zinc-800 dark:bg-zinc-900 ${isPending ? "opacity-50" : ""}`}
+    >
+      <div>
+        <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">
+          {bar.title}
+        </h3>
+        {bar.archivedAt && (
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            Archived {formatArchivedDate(bar.archivedAt)}
+          </p>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleRestore}
+          disabled={isPending}
+          className="rounded-lg border border-zinc-300 px-3 py-1 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-800"
+        >
+          Restore
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          onBlur={() => setIsConfirmingDelete(false)}
+          disabled={isPending}
+          className="rounded-lg px-3 py-1 text-xs font-medium text-red-600 transition-colors hover:bg-red-50 disabled:opacity-50 dark:text-red-400 dark:hover:bg-red-950"
+        >
+          {isConfirmingDelete ? "Confirm delete" : "Delete permanently"}
+        </button>
+      </div>
+    </div>
+  );
+}
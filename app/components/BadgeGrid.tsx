@@ -0,0 +1,54 @@
+import type { AchievementStatus } from "@/lib/achievements";
+
+function formatDay(date: Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Every achievement as a badge, unlocked ones in colour with the day they
+ * were unlocked
+ */
+export function BadgeGrid({
+  achievements,
+}: {
+  achievements: AchievementStatus[];
+}) {
+  const unlockedCount = achievements.filter(
+    (achievement) => achievement.unlockedAt,
+  ).length;
+
+  return (
+    <section aria-label="Badges" className="flex flex-col gap-4">
+      <p className="text-center text-sm text-zinc-500 dark:text-zinc-400">
+        {unlockedCount} of {achievements.length} badges unlocked
+      </p>
+      <ul className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+        {achievements.map((achievement) => (
+          <li
+            key={achievement.id}
+            className={`flex flex-col items-center gap-1 rounded-lg border p-4 text-center ${achievement.unlockedAt ? "border-amber-300 bg-white dark:border-amber-700 dark:bg-zinc-900" : "border-zinc-200 bg-zinc-100 opacity-60 grayscale dark:border-zinc-800 dark:bg-zinc-900"}`}
+          >
+            <span aria-hidden="true" className="text-3xl">
+              {achievement.icon}
+            </span>
+            <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">
+              {achievement.name}
+            </h2>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              {achievement.description}
+            </p>
+            <p className="text-xs font-medium text-zinc-600 dark:text-zinc-300">
+              {achievement.unlockedAt
+                ? `Unlocked ${formatDay(achievement.unlockedAt)}`
+                : "Locked"}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import {
+  useEffect,
+  useId,
+  useOptimistic,
+  useRef,
+  useState,
+  useTransition,
+} from "react";
+import { reorderProgressBars } from "@/app/actions";
+import type {
+  Category,
+  Milestone,
+  ProgressBar as ProgressBarType,
+} from "@/db/schema";
+import {
+  type DashboardSort,
+  type DashboardView,
+  getLivePercentage,
+  type LiveProgress,
+  moveItem,
+  sortBars,
+} from "@/lib/dashboard";
+import { useLiveProgress } from "@/lib/hooks/useLiveProgress";
+import type { Streak } from "@/lib/streaks";
+import { useCelebrations } from "./Celebrations";
+import { ProgressBar } from "./ProgressBar";
+
+type BarWithDetails = ProgressBarType & {
+  tags: string[];
+  milestones?: Milestone[];
+  streak?: Streak;
+};
+
+const layoutClassNames: Record<DashboardView, string> = {
+  list: "flex flex-col gap-4",
+  grid: "grid grid-cols-1 gap-4 sm:grid-cols-2",
+  compact:
+    "flex flex-col divide-y divide-zinc-200 rounded-xl border border-zinc-200 bg-white dark:divide-zinc-800 dark:border-zinc-800 dark:bg-zinc-900",
+};
+
+function CompactRow({
+  bar,
+  liveProgress,
+}: {
+  bar: ProgressBarType;
+  liveProgress: LiveProgress;
+}) {
+  const percentage = getLivePercentage(bar, liveProgress);
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="flex-1 truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">
+        {bar.title}
+      </span>
+      <div className="h-1.5 w-24 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+        <div
+          className="h-full rounded-full bg-zinc-500 dark:bg-zinc-400"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+      <span className="w-10 text-right text-xs text-zinc-500 dark:text-zinc-400">
+        {Math.round(percentage)}%
+      </span>
+    </div>
+  );
+}
+
+function DragHandle({
+  title,
+  index,
+  hintId,
+  hasKeyboardFocus,
+  onMoveBy,
+  onDragStart,
+  onDragEnd,
+}: {
+  title: string;
+  index: number;
+  hintId: string;
+  hasKeyboardFocus: boolean;
+  onMoveBy: (offset: number) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Moving the card in the DOM drops focus, so take it back after a
+  // keyboard move
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refocus whenever the card lands somewhere new
+  useEffect(() => {
+    if (hasKeyboardFocus) {
+      buttonRef.current?.focus();
+    }
+  }, [hasKeyboardFocus, index]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      e.preventDefault();
+      onMoveBy(e.key === "ArrowUp" ? -1 : 1);
+    }
+  };
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      draggable
+      aria-label={`Reorder ${title}`}
+      aria-describedby={hintId}
+      onKeyDown={handleKeyDown}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      className="cursor-grab self-center rounded px-1 py-2 text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-zinc-700 active:cursor-grabbing dark:hover:bg-zinc-800 dark:hover:text-zinc-200"
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="h-4 w-4"
+        viewBox="0 0 24 24"
+        fill="currentColor"
+        aria-hidden="true"
+      >
+        <circle cx="9" cy="6" r="1.5" />
+        <circle cx="15" cy="6" r="1.5" />
+        <circle cx="9" cy="12" r="1.5" />
+        <circle cx="15" cy="12" r="1.5" />
+        <circle cx="9" cy="18" r="1.5" />
+        <circle cx="15" cy="18" r="1.5" />
+      </svg>
+    </button>
+  );
+}
+
+/**
+ * Bars laid out and sorted the way the user picked
+ * Time-based bars are re-sorted as their live progress is recomputed; in
+ * the custom order bars can be dragged, or moved with the arrow keys on
+ * their handle. Bars inside a composite bar in the same list are nested
+ * under it, sorted the same way
+ */
+export function BarList({
+  bars,
+  sort,
+  view,
+  categories = [],
+  parents = [],
+  canPin = true,
+}: {
+  bars: BarWithDetails[];
+  sort: DashboardSort;
+  view: DashboardView;
+  categories?: Category[];
+  // Composite bars that bars can be moved into
+  parents?: ProgressBarType[];
+  // False once the user has pinned as many bars as allowed
+  canPin?: boolean;
+}) {
+  const progressMap = useLiveProgress(bars);
+  useCelebrations(bars, progressMap);
+  const sorted = sortBars(bars, sort, progressMap);
+  const isCustomOrder = sort === "custom";
+  const shownIds = new Set(sorted.map((bar) => bar.id));
+  const topLevel = sorted.filter(
+    (bar) => bar.parentId === null || !shownIds.has(bar.parentId),
+  );
+  const getChildren = (bar: ProgressBarType) =>
+    sorted.filter((child) => child.parentId === bar.id);
+
+  // Moves show straight away and settle once the server has saved them
+  const [, startTransition] = useTransition();
+  const [orderedIds, setOrderedIds] = useOptimistic(
+    topLevel.map((bar) => bar.id),
+  );
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [keyboardMovedId, setKeyboardMovedId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const hintId = useId();
+
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const barsById = new Map(topLevel.map((bar) => [bar.id, bar]));
+  const ordered = orderedIds.flatMap((id) => barsById.get(id) ?? []);
+
+  const moveTo = (id: string, toIndex: number) => {
+    const fromIndex = orderedIds.indexOf(id);
+    if (
+      fromIndex === -1 ||
+      toIndex === fromIndex ||
+      toIndex < 0 ||
+      toIndex >= orderedIds.length
+    ) {
+      return;
+    }
+
+    const nextIds = moveItem(orderedIds, fromIndex, toIndex);
+    setAnnouncement(
+      `Moved ${barsById.get(id)?.title} to position ${toIndex + 1} of ${nextIds.length}`,
+    );
+    startTransition(async () => {
+      setOrderedIds(nextIds);
+      await reorderProgressBars(nextIds);
+    });
+  };
+
+  const ItemTag = view === "compact" ? "li" : "div";
+  const ListTag = view === "compact" ? "ul" : "div";
+
+  const renderCompact = (bar: BarWithDetails): React.ReactNode => {
+    const children = getChildren(bar);
+    return (
+      <>
+        <CompactRow bar={bar} liveProgress={progressMap} />
+        {children.length > 0 && (
+          <ul aria-label={`Bars in ${bar.title}`} className="mt-2 pl-4">
+            {children.map((child) => (
+              <li key={child.id} id={`bar-${child.id}`} className="py-1">
+                {renderCompact(child)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </>
+    );
+  };
+
+  const renderCard = (bar: BarWithDetails): React.ReactNode => {
+    const children = getChildren(bar);
+    return (
+      <ProgressBar
+        bar={bar}
+        tags={bar.tags}
+        milestones={bar.milestones}
+        streak={bar.streak}
+        categories={categories}
+        parents={parents}
+        canPin={canPin}
+        childCount={children.length}
+      >
+        {children.length > 0 && (
+          <ul
+            aria-label={`Bars in ${bar.title}`}
+            className="mt-3 flex flex-col gap-3 border-l-2 border-zinc-200 pl-3 dark:border-zinc-700"
+          >
+            {children.map((child) => (
+              <li key={child.id} id={`bar-${child.id}`} className="scroll-mt-4">
+                {renderCard(child)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </ProgressBar>
+    );
+  };
+
+  return (
+    <>
+      <ListTag className={layoutClassNames[view]}>
+        {ordered.map((bar, index) => (
+          <ItemTag
+            key={bar.id}
+            id={`bar-${bar.id}`}
+            onDragOver={(e) => {
+              if (draggedId) {
+                e.preventDefault();
+              }
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (draggedId) {
+                moveTo(draggedId, index);
+              }
+              setDraggedId(null);
+            }}
+            className={`flex scroll-mt-4 items-start gap-1 ${view === "compact" ? "px-4 py-2" : ""} ${draggedId === bar.id ? "opacity-50" : ""}`}
+          >
+            {isCustomOrder && (
+              <DragHandle
+                title={bar.title}
+                index={index}
+                hintId={hintId}
+                hasKeyboardFocus={keyboardMovedId === bar.id}
+                onMoveBy={(offset) => {
+                  setKeyboardMovedId(bar.id);
+                  moveTo(bar.id, index + offset);
+                }}
+                onDragStart={() => setDraggedId(bar.id)}
+                onDragEnd={() => setDraggedId(null)}
+              />
+            )}
+            <div className="min-w-0 flex-1">
+              {view === "compact" ? renderCompact(bar) : renderCard(bar)}
+            </div>
+          </ItemTag>
+        ))}
+      </ListTag>
+      {isCustomOrder && (
+        <>
+          <p id={hintId} className="sr-only">
+            Drag to reorder, or use the up and down arrow keys.
+          </p>
+          <output aria-live="polite" className="sr-only">
+            {announcement}
+          </output>
+        </>
+      )}
+    </>
+  );
+}
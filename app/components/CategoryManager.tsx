@@ -0,0 +1,199 @@
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import {
+  createCategory,
+  deleteCategory,
+  renameCategory,
+  reorderCategories,
+} from "@/app/actions";
+import type { Category } from "@/db/schema";
+import { groupErrorsByField } from "@/lib/validation";
+
+const inputClassName =
+  "rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500";
+
+const smallButtonClassName =
+  "rounded px-2 py-1 text-xs text-zinc-500 transition-colors hover:bg-zinc-100 hover:text-zinc-900 disabled:opacity-30 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-100";
+
+function CategoryRow({
+  category,
+  isFirst,
+  isLast,
+  onMove,
+}: {
+  category: Category;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (offset: -1 | 1) => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRename = (formData: FormData) => {
+    startTransition(async () => {
+      const result = await renameCategory(category.id, formData);
+
+      if (!result.success) {
+        setError(groupErrorsByField(result.errors).name ?? null);
+        return;
+      }
+
+      setError(null);
+      setIsRenaming(false);
+    });
+  };
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      await deleteCategory(category.id);
+    });
+  };
+
+  if (isRenaming) {
+    return (
+      <li className="flex flex-col gap-1">
+        <form action={handleRename} className="flex gap-2">
+          <input
+            type="text"
+            name="name"
+            aria-label={`Rename ${category.name}`}
+            defaultValue={category.name}
+            required
+            className={`flex-1 ${inputClassName}`}
+          />
+          <button
+            type="submit"
+            disabled={isPending}
+            className={smallButtonClassName}
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsRenaming(false)}
+            className={smallButtonClassName}
+          >
+            Cancel
+          </button>
+        </form>
+        {error && <span className="text-xs text-red-500">{error}</span>}
+      </li>
+    );
+  }
+
+  return (
+    <li
+      className={`flex items-center gap-1 transition-opacity ${isPending ? "opacity-50" : ""}`}
+    >
+      <span className="flex-1 text-sm text-zinc-700 dark:text-zinc-300">
+        {category.name}
+      </span>
+      <button
+        type="button"
+        onClick={() => onMove(-1)}
+        disabled={isFirst}
+        aria-label={`Move ${category.name} up`}
+        className={smallButtonClassName}
+      >
+        ↑
+      </button>
+      <button
+        type="button"
+        onClick={() => onMove(1)}
+        disabled={isLast}
+        aria-label={`Move ${category.name} down`}
+        className={smallButtonClassName}
+      >
+        ↓
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsRenaming(true)}
+        aria-label={`Rename ${category.name}`}
+        className={smallButtonClassName}
+      >
+        Rename
+      </button>
+      <button
+        type="button"
+        onClick={handleDelete}
+        disabled={isPending}
+        aria-label={`Delete ${category.name}`}
+        className={`${smallButtonClassName} text-red-600 dark:text-red-400`}
+      >
+        Delete
+      </button>
+    </li>
+  );
+}
+
+export function CategoryManager({ categories }: { categories: Category[] }) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (formData: FormData) => {
+    const result = await createCategory(formData);
+
+    if (!result.success) {
+      setError(groupErrorsByField(result.errors).name ?? null);
+      return;
+    }
+
+    formRef.current?.reset();
+    setError(null);
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ids = categories.map((category) => category.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    startTransition(async () => {
+      await reorderCategories(ids);
+    });
+  };
+
+  return (
+    <details className="rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <summary className="cursor-pointer text-sm font-medium text-zinc-700 dark:text-zinc-300">
+        Categories
+      </summary>
+      <div className="mt-3 flex flex-col gap-3">
+        {categories.length > 0 && (
+          <ul className="flex flex-col gap-1">
+            {categories.map((category, index) => (
+              <CategoryRow
+                key={category.id}
+                category={category}
+                isFirst={index === 0}
+                isLast={index === categories.length - 1}
+                onMove={(offset) => handleMove(index, offset)}
+              />
+            ))}
+          </ul>
+        )}
+        <form ref={formRef} action={handleCreate} className="flex gap-2">
+          <input
+            type="text"
+            name="name"
+            aria-label="New category"
+            placeholder="New category"
+            required
+            className={`flex-1 ${inputClassName}`}
+          />
+          <button
+            type="submit"
+            className="rounded-lg bg-zinc-900 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-zinc-700 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-300"
+          >
+            Add
+          </button>
+        </form>
+        {error && <span className="text-xs text-red-500">{error}</span>}
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Deleting a category moves its bars to Uncategorized.
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useId, useState } from "react";
+
+export function CategorySection({
+  name,
+  barCount,
+  aggregateProgress,
+  children,
+}: {
+  name: string;
+  barCount: number;
+  aggregateProgress: number | null;
+  children: React.ReactNode;
+}) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const contentId = useId();
+
+  return (
+    <section aria-label={name} className="flex flex-col gap-3">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        aria-expanded={isExpanded}
+        aria-controls={contentId}
+        className="flex items-center gap-2 text-left"
+      >
+        <span
+          aria-hidden="true"
+          className={`text-xs text-zinc-400 transition-transform ${isExpanded ? "rotate-90" : ""}`}
+        >
+          ▶
+        </span>
+        <span className="font-semibold text-zinc-900 dark:text-zinc-100">
+          {name}
+        </span>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          {barCount} {barCount === 1 ? "bar" : "bars"}
+        </span>
+        {aggregateProgress !== null && (
+          <span className="ml-auto text-sm font-medium text-zinc-600 dark:text-zinc-300">
+            {Math.round(aggregateProgress)}%
+          </span>
+        )}
+      </button>
+      {aggregateProgress !== null && (
+        <div className="h-1.5 overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800">
+          <div
+            className="h-full rounded-full bg-zinc-500 transition-all duration-500 dark:bg-zinc-400"
+            style={{ width: `${aggregateProgress}%` }}
+          />
+        </div>
+      )}
+      <div id={contentId} hidden={!isExpanded} className="flex flex-col gap-4">
+        {children}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,33 @@
+import type { Category } from "@/db/schema";
+
+export function CategorySelect({
+  categories,
+  defaultValue,
+  className,
+}: {
+  categories: Category[];
+  defaultValue?: string | null;
+  className: string;
+}) {
+  // Without categories there is nothing to pick; leaving the field out keeps
+  // a bar's category as it is
+  if (categories.length === 0) {
+    return null;
+  }
+
+  return (
+    <select
+      name="categoryId"
+      aria-label="Category"
+      defaultValue={defaultValue ?? ""}
+      className={className}
+    >
+      <option value="">Uncategorized</option>
+      {categories.map((category) => (
+        <option key={category.id} value={category.id}>
+          {category.name}
+        </option>
+      ))}
+    </select>
+  );
+}
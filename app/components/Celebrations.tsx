@@ -0,0 +1,203 @@
+"use client";
+
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import type { ProgressBar } from "@/db/schema";
+import { getBarPercentage } from "@/lib/categories";
+import {
+  CELEBRATION_DURATION_MS,
+  type Celebration,
+  type CelebrationProgress,
+  CelebrationTracker,
+  createConfetti,
+  formatCelebration,
+  stepConfetti,
+} from "@/lib/celebrations";
+import type { LiveProgress } from "@/lib/dashboard";
+import { usePrefersReducedMotion } from "@/lib/hooks/usePrefersReducedMotion";
+import { useSound } from "./Sounds";
+
+const CONFETTI_COUNT = 150;
+
+type SeenBar = CelebrationProgress & { title: string };
+
+type ObserveBars = (bars: SeenBar[]) => void;
+
+const CelebrationContext = createContext<ObserveBars | null>(null);
+
+/**
+ * Celebrate bars in a list as their progress crosses a threshold or they
+ * are completed
+ * Time-based bars are left out until their live progress is known, so the
+ * values stored when they were last updated don't count as a jump on load.
+ * Outside a CelebrationProvider nothing is celebrated
+ *
+ * @param bars - Bars of any type as loaded from the database
+ * @param liveProgress - Live progress of the time-based bars by id
+ */
+export function useCelebrations(
+  bars: ProgressBar[],
+  liveProgress: LiveProgress,
+) {
+  const observe = useContext(CelebrationContext);
+  const seen = bars.flatMap((bar): SeenBar[] => {
+    const live = liveProgress.get(bar.id);
+    if (bar.barType === "time-based" && !live) {
+      return [];
+    }
+
+    return [
+      {
+        barId: bar.id,
+        title: bar.title,
+        percentage: live?.percentage ?? getBarPercentage(bar),
+        isCompleted: live?.isCompleted ?? bar.isCompleted,
+      },
+    ];
+  });
+  const seenKey = seen
+    .map((bar) => `${bar.barId}:${bar.percentage}:${bar.isCompleted}`)
+    .join(",");
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: only observe when a bar's progress changes
+  useEffect(() => {
+    observe?.(seen);
+  }, [observe, seenKey]);
+}
+
+function ConfettiCanvas() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) {
+      return;
+    }
+
+    canvas.width = window.innerWidth;
+    canvas.height = window.innerHeight;
+    let particles = createConfetti(
+      CONFETTI_COUNT,
+      canvas.width / 2,
+      canvas.height * 0.6,
+      Math.random,
+    );
+    let lastFrame = performance.now();
+    let frame = requestAnimationFrame(function draw(now) {
+      particles = stepConfetti(particles, now - lastFrame);
+      lastFrame = now;
+
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      for (const particle of particles) {
+        context.save();
+        context.translate(particle.x, particle.y);
+        context.rotate(particle.rotation);
+        context.fillStyle = particle.color;
+        context.fillRect(
+          -particle.size / 2,
+          -particle.size / 4,
+          particle.size,
+          particle.size / 2,
+        );
+        context.restore();
+      }
+      frame = requestAnimationFrame(draw);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="pointer-events-none fixed inset-0 z-50 h-full w-full"
+    />
+  );
+}
+
+/**
+ * Shows confetti when a bar below it crosses a threshold or is completed
+ * Users who prefer reduced motion get a short message instead; screen
+ * readers announce the message either way. The milestone or completion
+ * sound plays whether or not celebrations are shown; it has its own mute
+ *
+ * @param enabled - False when the user turned celebrations off
+ */
+export function CelebrationProvider({
+  enabled,
+  children,
+}: {
+  enabled: boolean;
+  children: ReactNode;
+}) {
+  const [tracker] = useState(() => new CelebrationTracker());
+  const [shown, setShown] = useState<{ id: number; message: string } | null>(
+    null,
+  );
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const playSound = useSound();
+
+  // Bars are still tracked while celebrations are off, so turning them
+  // back on doesn't celebrate what happened in the meantime
+  const observe = useCallback<ObserveBars>(
+    (bars) => {
+      let latest: { celebration: Celebration; title: string } | null = null;
+      for (const bar of bars) {
+        const celebration = tracker.observe(bar);
+        if (celebration) {
+          latest = { celebration, title: bar.title };
+        }
+      }
+
+      if (!latest) {
+        return;
+      }
+
+      playSound(
+        latest.celebration.kind === "completion" ? "completion" : "milestone",
+      );
+      if (enabled) {
+        setShown({
+          id: Date.now(),
+          message: formatCelebration(latest.celebration, latest.title),
+        });
+      }
+    },
+    [tracker, enabled, playSound],
+  );
+
+  useEffect(() => {
+    if (!shown) {
+      return;
+    }
+
+    const timeout = setTimeout(() => setShown(null), CELEBRATION_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [shown]);
+
+  return (
+    <CelebrationContext.Provider value={observe}>
+      {children}
+      {shown && !prefersReducedMotion && <ConfettiCanvas key={shown.id} />}
+      {shown && (
+        <output
+          className={
+            prefersReducedMotion
+              ? "fixed top-4 left-1/2 z-50 -translate-x-1/2 rounded-lg bg-zinc-900 px-4 py-2 text-sm text-white shadow-lg dark:bg-zinc-100 dark:text-zinc-900"
+              : "sr-only"
+          }
+        >
+          🎉 {shown.message}
+        </output>
+      )}
+    </CelebrationContext.Provider>
+  );
+}
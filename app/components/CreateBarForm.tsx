@@ -2,85 +2,52 @@
 
 import { useRef, useState } from "react";
 import { createProgressBar } from "@/app/actions";
+import type { Category, ProgressBar } from "@/db/schema";
+import { groupErrorsByField } from "@/lib/validation";
+import { CategorySelect } from "./CategorySelect";
+import { ParentSelect } from "./ParentSelect";
+import { RecurrenceFields } from "./RecurrenceFields";
 
 const CURRENCY_SYMBOLS = /^[$€£¥₹]/;
 
-type BarType = "manual" | "time-based";
+type BarType = "manual" | "time-based" | "composite";
 type TimeBasedType = "count-up" | "count-down" | "arrival-date";
+type Direction = "up" | "down";
 
-interface ValidationErrors {
-  dateRange?: string;
-  startDate?: string;
-  targetDate?: string;
-}
-
-export function CreateBarForm() {
+export function CreateBarForm({
+  categories = [],
+  parents = [],
+}: {
+  categories?: Category[];
+  // Composite bars the new bar can count towards
+  parents?: ProgressBar[];
+}) {
   const formRef = useRef<HTMLFormElement>(null);
   const [unitPosition, setUnitPosition] = useState<"prefix" | "suffix">(
     "suffix",
   );
   const [barType, setBarType] = useState<BarType>("manual");
   const [timeBasedType, setTimeBasedType] = useState<TimeBasedType>("count-up");
-  const [validationErrors, setValidationErrors] = useState<ValidationErrors>(
-    {},
-  );
-
-  const validateDates = (
-    startDate: string,
-    targetDate: string,
-    timeBasedType: TimeBasedType,
-  ): ValidationErrors => {
-    const errors: ValidationErrors = {};
-    const now = new Date();
-    const start = new Date(`${startDate}T00:00:00`);
-    const target = new Date(`${targetDate}T00:00:00`);
-
-    // Validate date range
-    if (start >= target) {
-      errors.dateRange = "Target date must be after start date";
-    }
-
-    // Validate historical start date (up to 10 years in past)
-    const tenYearsAgo = new Date();
-    tenYearsAgo.setFullYear(tenYearsAgo.getFullYear() - 10);
-
-    if (timeBasedType === "count-up" && start < tenYearsAgo) {
-      errors.startDate = "Start date cannot be more than 10 years in the past";
-    }
-
-    // Validate future dates
-    if (timeBasedType === "count-up" && start > now) {
-      errors.startDate = "Start date must be in the past for count-up bars";
-    }
-
-    if (
-      target <= now &&
-      (timeBasedType === "count-down" || timeBasedType === "arrival-date")
-    ) {
-      errors.targetDate = "Target date must be in the future";
-    }
-
-    return errors;
-  };
+  const [direction, setDirection] = useState<Direction>("up");
+  const [validationErrors, setValidationErrors] = useState<
+    Record<string, string>
+  >({});
 
   const handleSubmit = async (formData: FormData) => {
-    if (barType === "time-based") {
-      const startDate = formData.get("startDate") as string;
-      const targetDate = formData.get("targetDate") as string;
+    // All rules, including the date rules for each bar type, are enforced
+    // on the server; the form only displays the errors it reports
+    const result = await createProgressBar(formData);
 
-      const errors = validateDates(startDate, targetDate, timeBasedType);
-      setValidationErrors(errors);
-
-      if (Object.keys(errors).length > 0) {
-        return;
-      }
+    if (!result.success) {
+      setValidationErrors(groupErrorsByField(result.errors));
+      return;
     }
 
-    await createProgressBar(formData);
     formRef.current?.reset();
     setUnitPosition("suffix");
     setBarType("manual");
     setTimeBasedType("count-up");
+    setDirection("up");
     setValidationErrors({});
   };
 
@@ -113,6 +80,9 @@ export function CreateBarForm() {
           required
           className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
         />
+        {validationErrors.title && (
+          <span className="text-xs text-red-500">{validationErrors.title}</span>
+        )}
 
         {/* Bar Type Selection */}
         <div className="flex flex-col gap-2">
@@ -146,9 +116,47 @@ export function CreateBarForm() {
                 Time-Based Progress
               </span>
             </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="barType"
+                value="composite"
+                checked={barType === "composite"}
+                onChange={() => setBarType("composite")}
+                className="accent-zinc-900 dark:accent-zinc-100"
+              />
+              <span className="text-sm text-zinc-600 dark:text-zinc-400">
+                Composite
+              </span>
+            </label>
           </div>
         </div>
 
+        {/* How a composite bar combines the bars inside it */}
+        {barType === "composite" && (
+          <div className="flex flex-col gap-1">
+            <select
+              name="aggregation"
+              aria-label="Combine bars by"
+              defaultValue="average"
+              className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
+            >
+              <option value="average">
+                Weighted average of their progress
+              </option>
+              <option value="sum">Sum of their values</option>
+            </select>
+            <span className="text-xs text-zinc-500 dark:text-zinc-500">
+              Add bars to it by picking it as the composite they are part of
+            </span>
+            {validationErrors.aggregation && (
+              <span className="text-xs text-red-500">
+                {validationErrors.aggregation}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Time-Based Type Selection */}
         {barType === "time-based" && (
           <div className="flex flex-col gap-2">
@@ -215,14 +223,52 @@ export function CreateBarForm() {
         )}
 
         {/* Manual Progress Fields */}
+        {barType === "manual" && (
+          <div className="flex items-center gap-4 text-sm text-zinc-600 dark:text-zinc-400">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="radio"
+                name="direction"
+                value="up"
+                checked={direction === "up"}
+                onChange={() => setDirection("up")}
+                className="accent-zinc-900 dark:accent-zinc-100"
+              />
+              Count up
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="radio"
+                name="direction"
+                value="down"
+                checked={direction === "down"}
+                onChange={() => setDirection("down")}
+                className="accent-zinc-900 dark:accent-zinc-100"
+              />
+              Burn down (debt, weight)
+            </label>
+          </div>
+        )}
+
         {barType === "manual" && (
           <div className="flex gap-2">
+            {direction === "down" && (
+              <input
+                type="number"
+                name="startValue"
+                placeholder="Start"
+                aria-label="Start"
+                required
+                step="any"
+                className="flex-1 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
+              />
+            )}
             <input
               type="number"
               name="targetValue"
               placeholder="Target"
               required
-              min="0.01"
+              min={direction === "down" ? "0" : "0.01"}
               step="any"
               className="flex-1 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
             />
@@ -233,9 +279,37 @@ export function CreateBarForm() {
               onChange={handleUnitChange}
               className="w-24 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
             />
+            <input
+              type="number"
+              name="stepSize"
+              placeholder="Step"
+              aria-label="Step"
+              min="0.01"
+              step="any"
+              className="w-20 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
+            />
           </div>
         )}
 
+        {barType === "manual" && validationErrors.startValue && (
+          <span className="text-xs text-red-500">
+            {validationErrors.startValue}
+          </span>
+        )}
+        {barType === "manual" && validationErrors.targetValue && (
+          <span className="text-xs text-red-500">
+            {validationErrors.targetValue}
+          </span>
+        )}
+        {barType === "manual" && validationErrors.unit && (
+          <span className="text-xs text-red-500">{validationErrors.unit}</span>
+        )}
+        {barType === "manual" && validationErrors.stepSize && (
+          <span className="text-xs text-red-500">
+            {validationErrors.stepSize}
+          </span>
+        )}
+
         {/* Unit Position for Manual Progress */}
         {barType === "manual" && (
           <div className="flex items-center gap-4 text-sm text-zinc-600 dark:text-zinc-400">
@@ -265,6 +339,19 @@ export function CreateBarForm() {
           </div>
         )}
 
+        {barType === "manual" && (
+          <label className="flex items-center gap-1.5 cursor-pointer text-sm text-zinc-600 dark:text-zinc-400">
+            <input
+              type="checkbox"
+              name="allowOverflow"
+              className="accent-zinc-900 dark:accent-zinc-100"
+            />
+            Allow going past the target
+          </label>
+        )}
+
+        {barType === "manual" && <RecurrenceFields errors={validationErrors} />}
+
         {/* Date Fields for Time-Based Progress */}
         {barType === "time-based" && (
           <div className="flex flex-col gap-3">
@@ -334,6 +421,44 @@ export function CreateBarForm() {
           placeholder="Description (optional)"
           className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
         />
+        {validationErrors.description && (
+          <span className="text-xs text-red-500">
+            {validationErrors.description}
+          </span>
+        )}
+        <CategorySelect
+          categories={categories}
+          className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
+        />
+        {validationErrors.categoryId && (
+          <span className="text-xs text-red-500">
+            {validationErrors.categoryId}
+          </span>
+        )}
+        <ParentSelect
+          parents={parents}
+          className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
+        />
+        {validationErrors.parentId && (
+          <span className="text-xs text-red-500">
+            {validationErrors.parentId}
+          </span>
+        )}
+        {validationErrors.weight && (
+          <span className="text-xs text-red-500">
+            {validationErrors.weight}
+          </span>
+        )}
+        <input
+          type="text"
+          name="tags"
+          aria-label="Tags"
+          placeholder="Tags, separated by commas (optional)"
+          className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
+        />
+        {validationErrors.tags && (
+          <span className="text-xs text-red-500">{validationErrors.tags}</span>
+        )}
         <button
           type="submit"
           className="rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-700 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-300"
@@ -0,0 +1,83 @@
+"use client";
+
+import { useTransition } from "react";
+import { updateDashboardPreferences } from "@/app/actions";
+import {
+  DASHBOARD_SORTS,
+  DASHBOARD_VIEWS,
+  type DashboardPreferences,
+  type DashboardSort,
+  type DashboardView,
+  isDashboardSort,
+} from "@/lib/dashboard";
+
+const sortLabels: Record<DashboardSort, string> = {
+  created: "Date created",
+  custom: "Custom order",
+  progress: "Progress",
+  updated: "Recently updated",
+  title: "Alphabetical",
+  deadline: "Nearest deadline",
+};
+
+const viewLabels: Record<DashboardView, string> = {
+  list: "List",
+  grid: "Grid",
+  compact: "Compact",
+};
+
+/**
+ * Sort and layout pickers; choices are saved for the signed-in user
+ */
+export function DashboardControls({
+  preferences,
+}: {
+  preferences: DashboardPreferences;
+}) {
+  const [isPending, startTransition] = useTransition();
+
+  const save = (changes: Partial<DashboardPreferences>) => {
+    startTransition(async () => {
+      await updateDashboardPreferences(changes);
+    });
+  };
+
+  return (
+    <div
+      className={`flex items-center justify-between gap-2 transition-opacity ${isPending ? "opacity-50" : ""}`}
+    >
+      <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+        Sort by
+        <select
+          value={preferences.sort}
+          onChange={(e) => {
+            if (isDashboardSort(e.target.value)) {
+              save({ sort: e.target.value });
+            }
+          }}
+          className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-sm outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+        >
+          {DASHBOARD_SORTS.map((sort) => (
+            <option key={sort} value={sort}>
+              {sortLabels[sort]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <fieldset className="flex gap-1">
+        <legend className="sr-only">Layout</legend>
+        {DASHBOARD_VIEWS.map((view) => (
+          <button
+            key={view}
+            type="button"
+            onClick={() => save({ view })}
+            aria-pressed={preferences.view === view}
+            className={`rounded-lg px-2.5 py-1 text-xs font-medium transition-colors ${preferences.view === view ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900" : "text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"}`}
+          >
+            {viewLabels[view]}
+          </button>
+        ))}
+      </fieldset>
+    </div>
+  );
+}
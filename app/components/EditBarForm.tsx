@@ -0,0 +1,365 @@
+"use client";
+
+import { format } from "date-fns";
+import { useState, useTransition } from "react";
+import { editProgressBar } from "@/app/actions";
+import type { Category, ProgressBar as ProgressBarType } from "@/db/schema";
+import { groupErrorsByField } from "@/lib/validation";
+import { CategorySelect } from "./CategorySelect";
+import { ParentSelect } from "./ParentSelect";
+import { RecurrenceFields } from "./RecurrenceFields";
+
+type TimeBasedType = "count-up" | "count-down" | "arrival-date";
+
+const inputClassName =
+  "rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500";
+
+function toDateInputValue(isoString: string | null): string {
+  return isoString ? format(new Date(isoString), "yyyy-MM-dd") : "";
+}
+
+export function EditBarForm({
+  bar,
+  tags = [],
+  categories = [],
+  parents = [],
+  onDone,
+}: {
+  bar: ProgressBarType;
+  tags?: string[];
+  categories?: Category[];
+  // Composite bars this bar can count towards
+  parents?: ProgressBarType[];
+  onDone: () => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [unitPosition, setUnitPosition] = useState(
+    bar.unitPosition ?? "suffix",
+  );
+  const [direction, setDirection] = useState(bar.direction);
+  const [timeBasedType, setTimeBasedType] = useState<TimeBasedType>(
+    (bar.timeBasedType as TimeBasedType | null) ?? "count-up",
+  );
+  const isTimeBased = bar.barType === "time-based";
+  const isComposite = bar.barType === "composite";
+
+  const handleSubmit = (formData: FormData) => {
+    startTransition(async () => {
+      const result = await editProgressBar(bar.id, formData);
+
+      if (!result.success) {
+        setErrors(groupErrorsByField(result.errors));
+        return;
+      }
+
+      setErrors({});
+      onDone();
+    });
+  };
+
+  return (
+    <form
+      action={handleSubmit}
+      className={`rounded-xl border border-zinc-200 bg-white p-4 shadow-sm transition-opacity dark:border-zinc-800 dark:bg-zinc-900 ${isPending ? "opacity-50" : ""}`}
+    >
+      <h3 className="mb-3 font-semibold text-zinc-900 dark:text-zinc-100">
+        Edit Progress Bar
+      </h3>
+      <div className="flex flex-col gap-3">
+        <input
+          type="text"
+          name="title"
+          aria-label="Title"
+          defaultValue={bar.title}
+          required
+          className={inputClassName}
+        />
+        {errors.title && (
+          <span className="text-xs text-red-500">{errors.title}</span>
+        )}
+        <input
+          type="text"
+          name="description"
+          aria-label="Description"
+          placeholder="Description (optional)"
+          defaultValue={bar.description ?? ""}
+          className={inputClassName}
+        />
+        {errors.description && (
+          <span className="text-xs text-red-500">{errors.description}</span>
+        )}
+        <CategorySelect
+          categories={categories}
+          defaultValue={bar.categoryId}
+          className={inputClassName}
+        />
+        {errors.categoryId && (
+          <span className="text-xs text-red-500">{errors.categoryId}</span>
+        )}
+        <ParentSelect
+          parents={parents}
+          barId={bar.id}
+          defaultParentId={bar.parentId}
+          defaultWeight={bar.weight}
+          className={inputClassName}
+        />
+        {errors.parentId && (
+          <span className="text-xs text-red-500">{errors.parentId}</span>
+        )}
+        {errors.weight && (
+          <span className="text-xs text-red-500">{errors.weight}</span>
+        )}
+        <input
+          type="text"
+          name="tags"
+          aria-label="Tags"
+          placeholder="Tags, separated by commas"
+          defaultValue={tags.join(", ")}
+          className={inputClassName}
+        />
+        {errors.tags && (
+          <span className="text-xs text-red-500">{errors.tags}</span>
+        )}
+
+        {isComposite && (
+          <>
+            <select
+              name="aggregation"
+              aria-label="Combine bars by"
+              defaultValue={bar.aggregation ?? "average"}
+              className={inputClassName}
+            >
+              <option value="average">
+                Weighted average of their progress
+              </option>
+              <option value="sum">Sum of their values</option>
+            </select>
+            {errors.aggregation && (
+              <span className="text-xs text-red-500">{errors.aggregation}</span>
+            )}
+          </>
+        )}
+
+        {!isTimeBased && !isComposite && (
+          <>
+            <div className="flex items-center gap-4 text-sm text-zinc-600 dark:text-zinc-400">
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="radio"
+                  name="direction"
+                  value="up"
+                  checked={direction === "up"}
+                  onChange={() => setDirection("up")}
+                  className="accent-zinc-900 dark:accent-zinc-100"
+                />
+                Count up
+              </label>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="radio"
+                  name="direction"
+                  value="down"
+                  checked={direction === "down"}
+                  onChange={() => setDirection("down")}
+                  className="accent-zinc-900 dark:accent-zinc-100"
+                />
+                Burn down
+              </label>
+            </div>
+            <div className="flex gap-2">
+              {direction === "down" && (
+                <input
+                  type="number"
+                  name="startValue"
+                  aria-label="Start"
+                  defaultValue={bar.direction === "down" ? bar.startValue : ""}
+                  required
+                  step="any"
+                  className={`flex-1 ${inputClassName}`}
+                />
+              )}
+              <input
+                type="number"
+                name="targetValue"
+                aria-label="Target"
+                defaultValue={bar.targetValue}
+                required
+                min={direction === "down" ? "0" : "0.01"}
+                step="any"
+                className={`flex-1 ${inputClassName}`}
+              />
+              <input
+                type="text"
+                name="unit"
+                aria-label="Unit"
+                placeholder="Unit"
+                defaultValue={bar.unit ?? ""}
+                className={`w-24 ${inputClassName}`}
+              />
+              <input
+                type="number"
+                name="stepSize"
+                aria-label="Step"
+                defaultValue={bar.stepSize}
+                min="0.01"
+                step="any"
+                className={`w-20 ${inputClassName}`}
+              />
+            </div>
+            {errors.startValue && (
+              <span className="text-xs text-red-500">{errors.startValue}</span>
+            )}
+            {errors.targetValue && (
+              <span className="text-xs text-red-500">{errors.targetValue}</span>
+            )}
+            {errors.unit && (
+              <span className="text-xs text-red-500">{errors.unit}</span>
+            )}
+            {errors.stepSize && (
+              <span className="text-xs text-red-500">{errors.stepSize}</span>
+            )}
+            <div className="flex items-center gap-4 text-sm text-zinc-600 dark:text-zinc-400">
+              <span>Position:</span>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="radio"
+                  name="unitPosition"
+                  value="prefix"
+                  checked={unitPosition === "prefix"}
+                  onChange={() => setUnitPosition("prefix")}
+                  className="accent-zinc-900 dark:accent-zinc-100"
+                />
+                Before ($10)
+              </label>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="radio"
+                  name="unitPosition"
+                  value="suffix"
+                  checked={unitPosition === "suffix"}
+                  onChange={() => setUnitPosition("suffix")}
+                  className="accent-zinc-900 dark:accent-zinc-100"
+                />
+                After (10 books)
+              </label>
+            </div>
+            <label className="flex items-center gap-1.5 cursor-pointer text-sm text-zinc-600 dark:text-zinc-400">
+              <input
+                type="checkbox"
+                name="allowOverflow"
+                defaultChecked={bar.allowOverflow}
+                className="accent-zinc-900 dark:accent-zinc-100"
+              />
+              Allow going past the target
+            </label>
+            <RecurrenceFields
+              defaultRecurrence={bar.recurrence}
+              defaultDays={bar.recurrenceDays}
+              errors={errors}
+            />
+          </>
+        )}
+
+        {isTimeBased && (
+          <>
+            <div className="flex gap-4 text-sm text-zinc-600 dark:text-zinc-400">
+              {(
+                [
+                  ["count-up", "Count-Up"],
+                  ["count-down", "Count-Down"],
+                  ["arrival-date", "Arrival Date"],
+                ] as const
+              ).map(([value, label]) => (
+                <label
+                  key={value}
+                  className="flex items-center gap-1.5 cursor-pointer"
+                >
+                  <input
+                    type="radio"
+                    name="timeBasedType"
+                    value={value}
+                    checked={timeBasedType === value}
+                    onChange={() => setTimeBasedType(value)}
+                    className="accent-zinc-900 dark:accent-zinc-100"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+
+            {timeBasedType !== "count-down" && (
+              <div className="flex flex-col gap-1">
+                <label
+                  htmlFor={`startDate-${bar.id}`}
+                  className="text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Start Date:
+                </label>
+                <input
+                  id={`startDate-${bar.id}`}
+                  type="date"
+                  name="startDate"
+                  defaultValue={toDateInputValue(bar.startDate)}
+                  required
+                  className={inputClassName}
+                />
+                {errors.startDate && (
+                  <span className="text-xs text-red-500">
+                    {errors.startDate}
+                  </span>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-col gap-1">
+              <label
+                htmlFor={`targetDate-${bar.id}`}
+                className="text-sm font-medium text-zinc-700 dark:text-zinc-300"
+              >
+                {timeBasedType === "arrival-date"
+                  ? "Arrival Date:"
+                  : "Target Date:"}
+              </label>
+              <input
+                id={`targetDate-${bar.id}`}
+                type="date"
+                name="targetDate"
+                defaultValue={toDateInputValue(bar.targetDate)}
+                required
+                className={inputClassName}
+              />
+              {errors.targetDate && (
+                <span className="text-xs text-red-500">
+                  {errors.targetDate}
+                </span>
+              )}
+            </div>
+          </>
+        )}
+
+        {errors.dateRange && (
+          <span className="text-xs text-red-500">{errors.dateRange}</span>
+        )}
+        {errors.id && <span className="text-xs text-red-500">{errors.id}</span>}
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isPending}
+            className="flex-1 rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-700 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-300"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={onDone}
+            className="flex-1 rounded-lg border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-900 transition-colors hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+  updateCelebrationsEnabled,
+  updateSoundPreferences,
+} from "@/app/actions";
+import { audioEngine } from "@/lib/services/AudioEngine";
+import type { SoundPreferences } from "@/lib/sounds";
+
+/**
+ * Switches for the effects that play as bars make progress; choices are
+ * saved for the signed-in user
+ */
+export function EffectSettings({
+  celebrationsEnabled,
+  sound,
+}: {
+  celebrationsEnabled: boolean;
+  sound: SoundPreferences;
+}) {
+  const [isPending, startTransition] = useTransition();
+  // The slider follows the pointer; the volume is saved once it is let go
+  const [volume, setVolume] = useState(sound.volume);
+
+  const saveSound = (changes: Partial<SoundPreferences>) => {
+    startTransition(async () => {
+      await updateSoundPreferences(changes);
+    });
+  };
+
+  const saveVolume = () => {
+    if (volume !== sound.volume) {
+      saveSound({ volume });
+    }
+  };
+
+  return (
+    <div
+      className={`flex items-center justify-end gap-4 transition-opacity ${isPending ? "opacity-50" : ""}`}
+    >
+      <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+        <input
+          type="checkbox"
+          checked={celebrationsEnabled}
+          onChange={(e) => {
+            const enabled = e.target.checked;
+            startTransition(async () => {
+              await updateCelebrationsEnabled(enabled);
+            });
+          }}
+          className="h-4 w-4 rounded border-zinc-300 dark:border-zinc-700"
+        />
+        Celebrations
+      </label>
+      <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+        <input
+          type="checkbox"
+          checked={!sound.muted}
+          onChange={(e) => {
+            const muted = !e.target.checked;
+            // Unmuting is a click, which lets the browser start audio
+            audioEngine.setMuted(muted);
+            if (!muted) {
+              audioEngine.play("increment");
+            }
+            saveSound({ muted });
+          }}
+          className="h-4 w-4 rounded border-zinc-300 dark:border-zinc-700"
+        />
+        Sounds
+      </label>
+      <input
+        type="range"
+        aria-label="Volume"
+        min={0}
+        max={1}
+        step={0.05}
+        value={volume}
+        disabled={sound.muted}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          setVolume(next);
+          audioEngine.setVolume(next);
+        }}
+        onPointerUp={saveVolume}
+        onKeyUp={saveVolume}
+        className="w-24 disabled:opacity-50"
+      />
+    </div>
+  );
+}
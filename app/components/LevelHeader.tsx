@@ -0,0 +1,37 @@
+import type { LevelProgress } from "@/lib/services/XpCalculator";
+
+/**
+ * The signed-in user's level and their XP towards the next one, shown in
+ * the page header
+ */
+export function LevelHeader({ progress }: { progress: LevelProgress }) {
+  const { level, totalXp, levelXp, levelSpan } = progress;
+  const percentage = levelSpan > 0 ? (levelXp / levelSpan) * 100 : 0;
+
+  return (
+    <div
+      title={`${totalXp.toLocaleString()} XP in total`}
+      className="flex items-center gap-2 rounded-full border border-zinc-200 bg-white py-1 pr-3 pl-1 dark:border-zinc-800 dark:bg-zinc-900"
+    >
+      <span className="rounded-full bg-amber-500 px-2 py-0.5 text-xs font-semibold text-white">
+        Level {level}
+      </span>
+      <div
+        role="progressbar"
+        aria-label="XP to next level"
+        aria-valuemin={0}
+        aria-valuemax={levelSpan}
+        aria-valuenow={levelXp}
+        className="h-1.5 w-20 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800"
+      >
+        <div
+          className="h-full rounded-full bg-amber-500"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+      <span className="text-xs text-zinc-500 dark:text-zinc-400">
+        {levelXp.toLocaleString()} / {levelSpan.toLocaleString()} XP
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import { createMilestone, deleteMilestone } from "@/app/actions";
+import type { Milestone, ProgressBar } from "@/db/schema";
+import {
+  formatMilestoneThreshold,
+  getMilestoneName,
+  getMilestoneTicks,
+  MAX_MILESTONES_PER_BAR,
+} from "@/lib/milestones";
+
+const inputClassName =
+  "rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500";
+
+function formatDay(date: Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Tick marks for a bar's milestones, drawn inside its progress track
+ * The track has to be positioned; the list in Milestones describes the
+ * same milestones to screen readers
+ */
+export function MilestoneTicks({
+  bar,
+  milestones,
+}: {
+  bar: ProgressBar;
+  milestones: Milestone[];
+}) {
+  return getMilestoneTicks(bar, milestones).map(({ milestone, position }) => (
+    <span
+      key={milestone.id}
+      aria-hidden="true"
+      title={getMilestoneName(bar, milestone)}
+      className={`absolute inset-y-0 w-0.5 -translate-x-1/2 ${milestone.reachedAt ? "bg-white/90" : "bg-zinc-400 dark:bg-zinc-500"}`}
+      style={{ left: `${position}%` }}
+    />
+  ));
+}
+
+function MilestoneRow({
+  bar,
+  milestone,
+}: {
+  bar: ProgressBar;
+  milestone: Milestone;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const name = getMilestoneName(bar, milestone);
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      await deleteMilestone(milestone.id);
+    });
+  };
+
+  return (
+    <li
+      className={`flex items-center gap-2 text-xs text-zinc-500 transition-opacity dark:text-zinc-400 ${isPending ? "opacity-50" : ""}`}
+    >
+      <span
+        className={`flex-1 ${milestone.reachedAt ? "font-medium text-green-600 dark:text-green-400" : ""}`}
+      >
+        {milestone.reachedAt && "✓ "}
+        {name}
+        {milestone.label && ` (${formatMilestoneThreshold(bar, milestone)})`}
+      </span>
+      <span>
+        {milestone.reachedAt
+          ? `Reached ${formatDay(milestone.reachedAt)}`
+          : "Not reached yet"}
+      </span>
+      <button
+        type="button"
+        onClick={handleDelete}
+        disabled={isPending}
+        aria-label={`Remove milestone ${name}`}
+        className="rounded px-1 transition-colors hover:bg-zinc-100 hover:text-zinc-900 dark:hover:bg-zinc-800 dark:hover:text-zinc-100"
+      >
+        ✕
+      </button>
+    </li>
+  );
+}
+
+/**
+ * A bar's milestones in the order they are reached, with a form to add more
+ * Manual bars take a value or a percentage such as "50%"; time-based bars
+ * take a date
+ */
+export function Milestones({
+  bar,
+  milestones,
+}: {
+  bar: ProgressBar;
+  milestones: Milestone[];
+}) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isTimeBased = bar.barType === "time-based";
+  const isFull = milestones.length >= MAX_MILESTONES_PER_BAR;
+
+  const handleCreate = async (formData: FormData) => {
+    const result = await createMilestone(bar.id, formData);
+
+    if (!result.success) {
+      setError(result.errors[0]?.message ?? null);
+      return;
+    }
+
+    formRef.current?.reset();
+    setError(null);
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="text-xs font-medium text-zinc-500 transition-colors hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+      >
+        {isOpen
+          ? "Hide milestones"
+          : milestones.length > 0
+            ? `Show milestones (${milestones.length})`
+            : "Add milestones"}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 flex flex-col gap-2">
+          {milestones.length > 0 && (
+            <ol aria-label="Milestones" className="space-y-1">
+              {getMilestoneTicks(bar, milestones).map(({ milestone }) => (
+                <MilestoneRow
+                  key={milestone.id}
+                  bar={bar}
+                  milestone={milestone}
+                />
+              ))}
+            </ol>
+          )}
+
+          {isFull ? (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              A bar can have at most {MAX_MILESTONES_PER_BAR} milestones.
+            </p>
+          ) : (
+            <form ref={formRef} action={handleCreate} className="flex gap-2">
+              <input
+                type="text"
+                name="label"
+                aria-label="Milestone label"
+                placeholder="Label (optional)"
+                className={`min-w-0 flex-1 ${inputClassName}`}
+              />
+              {isTimeBased ? (
+                <input
+                  type="date"
+                  name="date"
+                  aria-label="Milestone date"
+                  required
+                  className={inputClassName}
+                />
+              ) : (
+                <input
+                  type="text"
+                  name="threshold"
+                  aria-label="Milestone value"
+                  placeholder="e.g. 500 or 50%"
+                  required
+                  className={`w-28 ${inputClassName}`}
+                />
+              )}
+              <button
+                type="submit"
+                className="rounded-lg border border-zinc-300 px-3 py-1 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-800"
+              >
+                Add
+              </button>
+            </form>
+          )}
+          {error && <span className="text-xs text-red-500">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
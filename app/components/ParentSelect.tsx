@@ -0,0 +1,58 @@
+import type { ProgressBar } from "@/db/schema";
+import { MAX_WEIGHT } from "@/lib/composite";
+
+/**
+ * Composite bar a bar counts towards, and how much it counts there
+ * The weight only matters to composites that take a weighted average
+ */
+export function ParentSelect({
+  parents,
+  barId,
+  defaultParentId,
+  defaultWeight,
+  className,
+}: {
+  parents: ProgressBar[];
+  // Bar being edited, which cannot be its own parent
+  barId?: string;
+  defaultParentId?: string | null;
+  defaultWeight?: number;
+  className: string;
+}) {
+  const choices = parents.filter((parent) => parent.id !== barId);
+
+  // Without composites there is nothing to pick; leaving the fields out
+  // keeps a bar's parent as it is
+  if (choices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex gap-2">
+      <select
+        name="parentId"
+        aria-label="Part of"
+        defaultValue={defaultParentId ?? ""}
+        className={`flex-1 ${className}`}
+      >
+        <option value="">Not part of a composite bar</option>
+        {choices.map((parent) => (
+          <option key={parent.id} value={parent.id}>
+            {parent.title}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        name="weight"
+        aria-label="Weight"
+        placeholder="Weight"
+        defaultValue={defaultWeight ?? 1}
+        min="0.01"
+        max={MAX_WEIGHT}
+        step="any"
+        className={`w-24 ${className}`}
+      />
+    </div>
+  );
+}
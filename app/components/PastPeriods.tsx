@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { getBarPeriods } from "@/app/actions";
+import type { BarPeriod } from "@/db/schema";
+import { formatValue } from "@/lib/format";
+
+interface PastPeriodsProps {
+  barId: string;
+  unit?: string | null;
+  unitPosition?: string | null;
+  // Changes whenever the bar is updated so an open list reloads
+  refreshKey: number;
+}
+
+function formatDay(date: Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// A period ends where the next one starts, so its last day is the day before
+function formatPeriod(period: BarPeriod): string {
+  const lastDay = new Date(new Date(period.endsAt).getTime() - 1);
+  const first = formatDay(period.startsAt);
+  const last = formatDay(lastDay);
+  return first === last ? first : `${first} – ${last}`;
+}
+
+export function PastPeriods({
+  barId,
+  unit,
+  unitPosition,
+  refreshKey,
+}: PastPeriodsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [periods, setPeriods] = useState<BarPeriod[]>([]);
+  const [isLoading, startTransition] = useTransition();
+
+  // Reload when opened or when the bar changes
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload only on open/refresh
+  useEffect(() => {
+    if (isOpen) {
+      startTransition(async () => {
+        const result = await getBarPeriods(barId);
+        setPeriods(result.success ? result.data : []);
+      });
+    }
+  }, [isOpen, refreshKey]);
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="text-xs font-medium text-zinc-500 transition-colors hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+      >
+        {isOpen ? "Hide past periods" : "Show past periods"}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2">
+          {periods.length === 0 && !isLoading && (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              No periods have ended yet.
+            </p>
+          )}
+
+          <ol className="space-y-1">
+            {periods.map((period) => (
+              <li
+                key={period.id}
+                className="flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400"
+              >
+                <span>{formatPeriod(period)}</span>
+                <span
+                  className={
+                    period.isCompleted
+                      ? "font-medium text-green-600 dark:text-green-400"
+                      : undefined
+                  }
+                >
+                  {formatValue(period.finalValue, unit, unitPosition)} /{" "}
+                  {formatValue(period.targetValue, unit, unitPosition)}
+                  {period.isCompleted && " ✓"}
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          {isLoading && (
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Loading past periods...
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useTransition } from "react";
+import { unpinProgressBar } from "@/app/actions";
+import type { ProgressBar } from "@/db/schema";
+import { getLivePercentage, type LiveProgress } from "@/lib/dashboard";
+import { useLiveProgress } from "@/lib/hooks/useLiveProgress";
+import { useCelebrations } from "./Celebrations";
+
+function PinnedItem({
+  bar,
+  liveProgress,
+}: {
+  bar: ProgressBar;
+  liveProgress: LiveProgress;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const percentage = getLivePercentage(bar, liveProgress);
+
+  const handleUnpin = () => {
+    startTransition(async () => {
+      await unpinProgressBar(bar.id);
+    });
+  };
+
+  return (
+    <li
+      className={`flex w-40 shrink-0 flex-col gap-1.5 rounded-lg border border-zinc-200 bg-white px-3 py-2 transition-opacity dark:border-zinc-800 dark:bg-zinc-900 ${isPending ? "opacity-50" : ""}`}
+    >
+      <div className="flex items-center gap-1">
+        <span className="flex-1 truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">
+          {bar.title}
+        </span>
+        <button
+          type="button"
+          onClick={handleUnpin}
+          disabled={isPending}
+          aria-label={`Unpin ${bar.title}`}
+          className="rounded px-1 text-xs text-zinc-400 transition-colors hover:text-zinc-700 dark:hover:text-zinc-200"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+          <div
+            className="h-full rounded-full bg-amber-500"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+        <span className="w-9 text-right text-xs text-zinc-500 dark:text-zinc-400">
+          {Math.round(percentage)}%
+        </span>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Pinned bars in compact form at the top of the dashboard
+ * The strip is not affected by the sort or tag filter of the list below it
+ */
+export function PinnedStrip({ bars }: { bars: ProgressBar[] }) {
+  const liveProgress = useLiveProgress(bars);
+  useCelebrations(bars, liveProgress);
+
+  if (bars.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-label="Pinned" className="flex flex-col gap-2">
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+        Pinned
+      </h2>
+      <ul className="flex gap-2 overflow-x-auto pb-1">
+        {bars.map((bar) => (
+          <PinnedItem key={bar.id} bar={bar} liveProgress={liveProgress} />
+        ))}
+      </ul>
+    </section>
+  );
+}
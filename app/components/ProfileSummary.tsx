@@ -0,0 +1,57 @@
+import type { LevelProgress } from "@/lib/services/XpCalculator";
+import type { Streak } from "@/lib/streaks";
+
+function formatDays(days: number): string {
+  return days === 1 ? "day" : "days";
+}
+
+function SummaryItem({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: string;
+  detail: string;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-0.5 rounded-lg border border-zinc-200 bg-white p-3 text-center dark:border-zinc-800 dark:bg-zinc-900">
+      <dt className="text-xs text-zinc-500 dark:text-zinc-400">{label}</dt>
+      <dd className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">
+        {value}
+      </dd>
+      <dd className="text-xs text-zinc-500 dark:text-zinc-400">{detail}</dd>
+    </div>
+  );
+}
+
+/**
+ * The signed-in user's level and update streaks across all of their bars
+ */
+export function ProfileSummary({
+  level,
+  streak,
+}: {
+  level: LevelProgress;
+  streak: Streak;
+}) {
+  return (
+    <dl aria-label="Profile summary" className="grid grid-cols-3 gap-3">
+      <SummaryItem
+        label="Level"
+        value={String(level.level)}
+        detail={`${level.totalXp.toLocaleString()} XP`}
+      />
+      <SummaryItem
+        label="Current streak"
+        value={streak.current > 0 ? `🔥 ${streak.current}` : "0"}
+        detail={formatDays(streak.current)}
+      />
+      <SummaryItem
+        label="Longest streak"
+        value={String(streak.longest)}
+        detail={formatDays(streak.longest)}
+      />
+    </dl>
+  );
+}
@@ -1,12 +1,47 @@
 "use client";
 
-import { useTransition } from "react";
-import { deleteProgressBar, updateProgress } from "@/app/actions";
-import type { ProgressBar as ProgressBarType } from "@/db/schema";
+import Link from "next/link";
+import { useState, useTransition } from "react";
+import {
+  archiveProgressBar,
+  pinProgressBar,
+  reopenProgressBar,
+  unarchiveProgressBar,
+  undoProgressUpdate,
+  unpinProgressBar,
+  updateProgress,
+} from "@/app/actions";
+import type {
+  Category,
+  Milestone,
+  ProgressBar as ProgressBarType,
+} from "@/db/schema";
+import { getBarPercentage } from "@/lib/categories";
+import { formatAggregation, isAggregation } from "@/lib/composite";
+import { MAX_PINNED_BARS } from "@/lib/dashboard";
+import { formatValue } from "@/lib/format";
 import { useTimeBasedProgress } from "@/lib/hooks/useTimeBasedProgress";
+import {
+  clampManualValue,
+  getManualPercentage,
+  getManualValueRange,
+  hasReachedTarget,
+  isBurnDown,
+  isPastTarget,
+} from "@/lib/manualProgress";
+import { formatRecurrence, getRecurrenceRule } from "@/lib/recurrence";
 import { dateCalculator } from "@/lib/services/DateCalculator";
+import { formatStreak, type Streak } from "@/lib/streaks";
+import { getTagFilterHref } from "@/lib/tags";
 import type { TimeBasedProgressBar } from "@/lib/types";
+import { groupErrorsByField } from "@/lib/validation";
+import { EditBarForm } from "./EditBarForm";
+import { Milestones, MilestoneTicks } from "./Milestones";
+import { PastPeriods } from "./PastPeriods";
+import { ProgressHistory } from "./ProgressHistory";
 import { ProgressStatistics } from "./ProgressStatistics";
+import { useSound } from "./Sounds";
+import { useUndoToast } from "./UndoToast";
 
 const colors = [
   "from-pink-500 to-rose-500",
@@ -17,21 +52,14 @@ const colors = [
   "from-red-500 to-pink-500",
 ];
 
+// Quick-add buttons move a manual bar by these multiples of its step size
+const QUICK_ADD_MULTIPLES = [5, 10];
+
 function getColorFromId(id: string) {
   const hash = id.split("").reduce((acc, char) => acc + char.charCodeAt(0), 0);
   return colors[hash % colors.length];
 }
 
-function formatValue(
-  value: number,
-  unit?: string | null,
-  position?: string | null,
-) {
-  const num = value.toLocaleString();
-  if (!unit) return num;
-  return position === "prefix" ? `${unit}${num}` : `${num} ${unit}`;
-}
-
 function isTimeBasedBar(bar: ProgressBarType): bar is ProgressBarType & {
   barType: "time-based";
   startDate: string;
@@ -61,7 +89,128 @@ function TimeBasedBadge({ type }: { type: string }) {
   );
 }
 
-function formatDate(dateString: string): string {
+function EditButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="text-zinc-400 transition-colors hover:text-zinc-700 dark:hover:text-zinc-200"
+      aria-label="Edit"
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="h-5 w-5"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z"
+        />
+      </svg>
+    </button>
+  );
+}
+
+function ArchiveButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="text-zinc-400 transition-colors hover:text-zinc-700 dark:hover:text-zinc-200"
+      aria-label="Archive"
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="h-5 w-5"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"
+        />
+      </svg>
+    </button>
+  );
+}
+
+function PinButton({
+  isPinned,
+  canPin,
+  onClick,
+}: {
+  isPinned: boolean;
+  canPin: boolean;
+  onClick: () => void;
+}) {
+  // A pinned bar can always be unpinned, even when the strip is full
+  const isDisabled = !isPinned && !canPin;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={isDisabled}
+      className={`transition-colors disabled:opacity-40 ${isPinned ? "text-amber-500 hover:text-amber-600" : "text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200"}`}
+      aria-label="Pin"
+      aria-pressed={isPinned}
+      title={
+        isDisabled
+          ? `You can pin at most ${MAX_PINNED_BARS} progress bars`
+          : undefined
+      }
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="h-5 w-5"
+        fill={isPinned ? "currentColor" : "none"}
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M11.48 3.5a.56.56 0 011.04 0l2.13 5.11 5.52.44c.5.04.7.66.32.99l-4.2 3.6 1.28 5.38a.56.56 0 01-.84.61L12 16.75l-4.73 2.88a.56.56 0 01-.84-.61l1.28-5.38-4.2-3.6a.56.56 0 01.32-.99l5.52-.44 2.13-5.11z"
+        />
+      </svg>
+    </button>
+  );
+}
+
+// Each chip links to the dashboard filtered on its tag
+function TagChips({ tags }: { tags: string[] }) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul aria-label="Tags" className="mt-1 flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Link
+            href={getTagFilterHref({ tags: [tag], match: "any" })}
+            className="inline-flex items-center rounded-full bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600 transition-colors hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+          >
+            #{tag}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function formatDate(dateString: string | Date): string {
   const date = new Date(dateString);
   return date.toLocaleDateString("en-US", {
     year: "numeric",
@@ -79,14 +228,24 @@ type TimeBasedBar = ProgressBarType & {
 
 function TimeBasedProgressBarCard({
   bar,
+  tags,
+  milestones,
   colorClass,
   isPending,
-  onDelete,
+  canPin,
+  onEdit,
+  onTogglePin,
+  onArchive,
 }: {
   bar: TimeBasedBar;
+  tags: string[];
+  milestones: Milestone[];
   colorClass: string;
   isPending: boolean;
-  onDelete: () => void;
+  canPin: boolean;
+  onEdit: () => void;
+  onTogglePin: () => void;
+  onArchive: () => void;
 }) {
   const timeBasedBar: TimeBasedProgressBar = {
     ...bar,
@@ -122,28 +281,15 @@ function TimeBasedProgressBarCard({
               </p>
             )}
           </div>
-          <button
-            type="button"
-            onClick={onDelete}
-            className="text-zinc-400 transition-colors hover:text-red-500"
-            aria-label="Delete"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="h-5 w-5"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-              aria-hidden="true"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M6 18L18 6M6 6l12 12"
-              />
-            </svg>
-          </button>
+          <div className="flex gap-2">
+            <PinButton
+              isPinned={bar.pinnedAt !== null}
+              canPin={canPin}
+              onClick={onTogglePin}
+            />
+            <EditButton onClick={onEdit} />
+            <ArchiveButton onClick={onArchive} />
+          </div>
         </div>
 
         <div className="mb-2 h-4 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
@@ -188,6 +334,7 @@ function TimeBasedProgressBarCard({
               {bar.description}
             </p>
           )}
+          <TagChips tags={tags} />
           {/* Show start date for historical dates */}
           {new Date(bar.startDate) < new Date() && (
             <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">
@@ -195,35 +342,23 @@ function TimeBasedProgressBarCard({
             </p>
           )}
         </div>
-        <button
-          type="button"
-          onClick={onDelete}
-          className="text-zinc-400 transition-colors hover:text-red-500"
-          aria-label="Delete"
-        >
-          <svg
-            xmlns="http://www.w3.org/2000/svg"
-            className="h-5 w-5"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-            aria-hidden="true"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M6 18L18 6M6 6l12 12"
-            />
-          </svg>
-        </button>
+        <div className="flex gap-2">
+          <PinButton
+            isPinned={bar.pinnedAt !== null}
+            canPin={canPin}
+            onClick={onTogglePin}
+          />
+          <EditButton onClick={onEdit} />
+          <ArchiveButton onClick={onArchive} />
+        </div>
       </div>
 
-      <div className="mb-2 h-4 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+      <div className="relative mb-2 h-4 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
         <div
           className={`h-full rounded-full bg-gradient-to-r transition-all duration-500 ease-out ${colorClass}`}
           style={{ width: `${Math.min(percentage, 100)}%` }}
         />
+        <MilestoneTicks bar={bar} milestones={milestones} />
       </div>
 
       {/* Time-based statistics */}
@@ -269,52 +404,252 @@ function TimeBasedProgressBarCard({
           }
         />
       </div>
+      <Milestones bar={bar} milestones={milestones} />
+    </div>
+  );
+}
+
+function CompositeProgressBarCard({
+  bar,
+  tags,
+  childCount,
+  colorClass,
+  isPending,
+  canPin,
+  onEdit,
+  onTogglePin,
+  onArchive,
+  children,
+}: {
+  bar: ProgressBarType;
+  tags: string[];
+  childCount: number;
+  colorClass: string;
+  isPending: boolean;
+  canPin: boolean;
+  onEdit: () => void;
+  onTogglePin: () => void;
+  onArchive: () => void;
+  children?: React.ReactNode;
+}) {
+  const percentage = getBarPercentage(bar);
+  const aggregation = isAggregation(bar.aggregation)
+    ? bar.aggregation
+    : "average";
+
+  return (
+    <div
+      className={`rounded-xl border border-zinc-200 bg-white p-4 shadow-sm transition-opacity dark:border-zinc-800 dark:bg-zinc-900 ${isPending ? "opacity-50" : ""}`}
+    >
+      <div className="mb-2 flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">
+              {bar.title}
+            </h3>
+            <span className="inline-flex items-center rounded-full bg-teal-100 px-2 py-1 text-xs font-medium text-teal-800 dark:bg-teal-900 dark:text-teal-200">
+              Composite
+            </span>
+            {bar.isCompleted && (
+              <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-1 text-xs font-medium text-green-800 dark:bg-green-900 dark:text-green-200">
+                Completed
+              </span>
+            )}
+          </div>
+          {bar.description && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              {bar.description}
+            </p>
+          )}
+          <TagChips tags={tags} />
+        </div>
+        <div className="flex gap-2">
+          <PinButton
+            isPinned={bar.pinnedAt !== null}
+            canPin={canPin}
+            onClick={onTogglePin}
+          />
+          <EditButton onClick={onEdit} />
+          <ArchiveButton onClick={onArchive} />
+        </div>
+      </div>
+
+      <div className="mb-2 h-4 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+        <div
+          className={`h-full rounded-full bg-gradient-to-r transition-all duration-500 ease-out ${colorClass}`}
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-zinc-600 dark:text-zinc-300">
+          {Math.round(percentage)}% Complete
+        </span>
+        <span className="text-zinc-500 dark:text-zinc-400">
+          {aggregation === "sum"
+            ? `${formatValue(bar.currentValue)} / ${formatValue(bar.targetValue)}`
+            : formatAggregation(aggregation, childCount)}
+        </span>
+      </div>
+
+      {children}
     </div>
   );
 }
 
-export function ProgressBar({ bar }: { bar: ProgressBarType }) {
+export function ProgressBar({
+  bar,
+  tags = [],
+  milestones = [],
+  streak,
+  categories = [],
+  parents = [],
+  canPin = true,
+  childCount = 0,
+  children,
+}: {
+  bar: ProgressBarType;
+  tags?: string[];
+  milestones?: Milestone[];
+  // Days in a row the bar was updated; only manual bars show it
+  streak?: Streak;
+  categories?: Category[];
+  // Composite bars this bar can be moved into
+  parents?: ProgressBarType[];
+  // False once the user has pinned as many bars as allowed
+  canPin?: boolean;
+  // Bars shown inside a composite bar
+  childCount?: number;
+  children?: React.ReactNode;
+}) {
   const [isPending, startTransition] = useTransition();
+  const [isEditing, setIsEditing] = useState(false);
+  const [valueError, setValueError] = useState<string | null>(null);
+  const showUndoToast = useUndoToast();
+  const playSound = useSound();
   const colorClass = getColorFromId(bar.id);
 
+  if (isEditing) {
+    return (
+      <EditBarForm
+        bar={bar}
+        tags={tags}
+        categories={categories}
+        parents={parents}
+        onDone={() => setIsEditing(false)}
+      />
+    );
+  }
+
+  const handleArchive = () => {
+    startTransition(async () => {
+      const result = await archiveProgressBar(bar.id);
+      if (result.success) {
+        showUndoToast({
+          message: `Archived "${bar.title}"`,
+          onUndo: () => unarchiveProgressBar(bar.id),
+        });
+      }
+    });
+  };
+
+  const handleTogglePin = () => {
+    startTransition(async () => {
+      await (bar.pinnedAt === null
+        ? pinProgressBar(bar.id)
+        : unpinProgressBar(bar.id));
+    });
+  };
+
+  if (bar.barType === "composite") {
+    return (
+      <CompositeProgressBarCard
+        bar={bar}
+        tags={tags}
+        childCount={childCount}
+        colorClass={colorClass}
+        isPending={isPending}
+        canPin={canPin}
+        onEdit={() => setIsEditing(true)}
+        onTogglePin={handleTogglePin}
+        onArchive={handleArchive}
+      >
+        {children}
+      </CompositeProgressBarCard>
+    );
+  }
+
   // Handle time-based progress bars
   if (isTimeBasedBar(bar)) {
-    const handleDelete = () => {
-      startTransition(() => {
-        deleteProgressBar(bar.id);
-      });
-    };
-
     return (
       <TimeBasedProgressBarCard
         bar={bar}
+        tags={tags}
+        milestones={milestones}
         colorClass={colorClass}
         isPending={isPending}
-        onDelete={handleDelete}
+        canPin={canPin}
+        onEdit={() => setIsEditing(true)}
+        onTogglePin={handleTogglePin}
+        onArchive={handleArchive}
       />
     );
   }
 
   // Handle manual progress bars (existing functionality)
-  const percentage = Math.min((bar.currentValue / bar.targetValue) * 100, 100);
+  const rawPercentage = getManualPercentage(bar, bar.currentValue);
+  const percentage = Math.min(rawPercentage, 100);
   const displayUnit = bar.unit ?? "items";
   const displayUnitPosition = bar.unitPosition ?? "suffix";
 
-  const handleIncrement = () => {
+  const stepSize = bar.stepSize;
+  // Quick-add buttons move toward the target: down for burn-down bars
+  const towardTarget = isBurnDown(bar) ? -stepSize : stepSize;
+  const { min: minValue, max: maxValue } = getManualValueRange(bar);
+  const isAtMin = bar.currentValue <= minValue;
+  const isAtMax = bar.currentValue >= maxValue;
+  const isOverTarget = isPastTarget(bar, bar.currentValue);
+  const targetReachedAt = hasReachedTarget(bar, bar.currentValue)
+    ? bar.targetReachedAt
+    : null;
+  const recurrenceRule = getRecurrenceRule(bar);
+
+  const handleStep = (delta: number) => {
+    playSound(delta > 0 ? "increment" : "decrement");
     startTransition(() => {
-      updateProgress(bar.id, Math.min(bar.currentValue + 1, bar.targetValue));
+      updateProgress(bar.id, clampManualValue(bar, bar.currentValue + delta));
     });
   };
 
-  const handleDecrement = () => {
-    startTransition(() => {
-      updateProgress(bar.id, Math.max(bar.currentValue - 1, 0));
+  const handleSetValue = (formData: FormData) => {
+    const value = Number(formData.get("currentValue"));
+    if (Number.isFinite(value) && value !== bar.currentValue) {
+      playSound(value > bar.currentValue ? "increment" : "decrement");
+    }
+
+    startTransition(async () => {
+      const result = await updateProgress(
+        bar.id,
+        Number.isFinite(value) ? clampManualValue(bar, value) : value,
+      );
+      setValueError(
+        result.success ? null : groupErrorsByField(result.errors).currentValue,
+      );
     });
   };
 
-  const handleDelete = () => {
+  const handleReopen = () => {
     startTransition(() => {
-      deleteProgressBar(bar.id);
+      reopenProgressBar(bar.id);
+    });
+  };
+
+  const handleUndo = () => {
+    startTransition(async () => {
+      const result = await undoProgressUpdate(bar.id);
+      setValueError(
+        result.success ? null : groupErrorsByField(result.errors).currentValue,
+      );
     });
   };
 
@@ -331,68 +666,183 @@ export function ProgressBar({ bar }: { bar: ProgressBarType }) {
             <span className="inline-flex items-center rounded-full bg-gray-100 px-2 py-1 text-xs font-medium text-gray-800 dark:bg-gray-800 dark:text-gray-200">
               Manual
             </span>
+            {bar.isCompleted && (
+              <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-1 text-xs font-medium text-green-800 dark:bg-green-900 dark:text-green-200">
+                Completed
+              </span>
+            )}
+            {isOverTarget && (
+              <span className="inline-flex items-center rounded-full bg-amber-100 px-2 py-1 text-xs font-medium text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                {Math.round(rawPercentage)}%
+              </span>
+            )}
+            {recurrenceRule && (
+              <span className="inline-flex items-center rounded-full bg-violet-100 px-2 py-1 text-xs font-medium text-violet-800 dark:bg-violet-900 dark:text-violet-200">
+                {formatRecurrence(recurrenceRule)}
+              </span>
+            )}
           </div>
           {bar.description && (
             <p className="text-sm text-zinc-500 dark:text-zinc-400">
               {bar.description}
             </p>
           )}
+          <TagChips tags={tags} />
+        </div>
+        <div className="flex gap-2">
+          <PinButton
+            isPinned={bar.pinnedAt !== null}
+            canPin={canPin}
+            onClick={handleTogglePin}
+          />
+          <EditButton onClick={() => setIsEditing(true)} />
+          <ArchiveButton onClick={handleArchive} />
         </div>
-        <button
-          type="button"
-          onClick={handleDelete}
-          className="text-zinc-400 transition-colors hover:text-red-500"
-          aria-label="Delete"
-        >
-          <svg
-            xmlns="http://www.w3.org/2000/svg"
-            className="h-5 w-5"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-            aria-hidden="true"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M6 18L18 6M6 6l12 12"
-            />
-          </svg>
-        </button>
       </div>
 
-      <div className="mb-2 h-4 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+      <div
+        className={`relative mb-2 h-4 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800 ${isOverTarget ? "ring-2 ring-amber-400 dark:ring-amber-500" : ""}`}
+      >
         <div
           className={`h-full rounded-full bg-gradient-to-r transition-all duration-500 ease-out ${colorClass}`}
           style={{ width: `${percentage}%` }}
         />
+        <MilestoneTicks bar={bar} milestones={milestones} />
       </div>
 
+      {bar.isCompleted && bar.completedAt && (
+        <div className="mb-2 flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
+          <span>Completed {formatDate(bar.completedAt)}</span>
+          <button
+            type="button"
+            onClick={handleReopen}
+            className="font-medium transition-colors hover:text-zinc-700 dark:hover:text-zinc-200"
+          >
+            Reopen
+          </button>
+        </div>
+      )}
+
+      {targetReachedAt && (
+        <p className="mb-2 text-xs text-zinc-500 dark:text-zinc-400">
+          Target reached {formatDate(targetReachedAt)}
+          {isOverTarget &&
+            ` · ${formatValue(
+              Math.round(Math.abs(bar.currentValue - bar.targetValue) * 1e6) /
+                1e6,
+              displayUnit,
+              displayUnitPosition,
+            )} over`}
+        </p>
+      )}
+
+      {streak && streak.longest > 0 && (
+        <p className="mb-2 text-xs text-zinc-500 dark:text-zinc-400">
+          {streak.current > 0 && (
+            <span className="font-medium text-orange-600 dark:text-orange-400">
+              🔥 {formatStreak(streak.current)} ·{" "}
+            </span>
+          )}
+          Longest {formatStreak(streak.longest)}
+        </p>
+      )}
+
       <div className="flex items-center justify-between">
         <span className="text-sm font-medium text-zinc-600 dark:text-zinc-300">
-          {formatValue(bar.currentValue, displayUnit, displayUnitPosition)} /{" "}
+          {formatValue(bar.currentValue, displayUnit, displayUnitPosition)}{" "}
+          {isBurnDown(bar) ? "→" : "/"}{" "}
           {formatValue(bar.targetValue, displayUnit, displayUnitPosition)}
         </span>
         <div className="flex gap-2">
           <button
             type="button"
-            onClick={handleDecrement}
-            disabled={bar.currentValue <= 0}
+            onClick={() => handleStep(-stepSize)}
+            disabled={isAtMin}
+            aria-label={`Subtract ${formatValue(stepSize, displayUnit, displayUnitPosition)}`}
             className="flex h-8 w-8 items-center justify-center rounded-full bg-zinc-100 font-bold text-zinc-600 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
           >
             -
           </button>
           <button
             type="button"
-            onClick={handleIncrement}
-            disabled={bar.currentValue >= bar.targetValue}
+            onClick={() => handleStep(stepSize)}
+            disabled={isAtMax}
+            aria-label={`Add ${formatValue(stepSize, displayUnit, displayUnitPosition)}`}
             className="flex h-8 w-8 items-center justify-center rounded-full bg-zinc-100 font-bold text-zinc-600 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
           >
             +
           </button>
         </div>
       </div>
+
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {QUICK_ADD_MULTIPLES.map((multiple) => (
+            <button
+              key={multiple}
+              type="button"
+              onClick={() => handleStep(towardTarget * multiple)}
+              disabled={isBurnDown(bar) ? isAtMin : isAtMax}
+              className="rounded-full bg-zinc-100 px-3 py-1 text-xs font-medium text-zinc-600 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+            >
+              {towardTarget > 0 && "+"}
+              {formatValue(
+                towardTarget * multiple,
+                displayUnit,
+                displayUnitPosition,
+              )}
+            </button>
+          ))}
+        </div>
+        <form action={handleSetValue} className="flex gap-2">
+          <input
+            key={bar.currentValue}
+            type="number"
+            name="currentValue"
+            aria-label="Set value"
+            defaultValue={bar.currentValue}
+            required
+            min={minValue}
+            max={Number.isFinite(maxValue) ? maxValue : undefined}
+            step="any"
+            className="w-24 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
+          />
+          <button
+            type="submit"
+            disabled={isPending}
+            className="rounded-lg border border-zinc-300 px-3 py-1 text-xs font-medium text-zinc-900 transition-colors hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-800"
+          >
+            Set
+          </button>
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={isPending}
+            aria-label="Undo last change"
+            className="rounded-lg px-2 py-1 text-xs font-medium text-zinc-500 transition-colors hover:bg-zinc-100 hover:text-zinc-700 disabled:opacity-50 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-200"
+          >
+            Undo
+          </button>
+        </form>
+      </div>
+      {valueError && <span className="text-xs text-red-500">{valueError}</span>}
+
+      <Milestones bar={bar} milestones={milestones} />
+
+      <ProgressHistory
+        barId={bar.id}
+        unit={displayUnit}
+        unitPosition={displayUnitPosition}
+        refreshKey={new Date(bar.updatedAt).getTime()}
+      />
+      {recurrenceRule && (
+        <PastPeriods
+          barId={bar.id}
+          unit={displayUnit}
+          unitPosition={displayUnitPosition}
+          refreshKey={new Date(bar.periodStart ?? 0).getTime()}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { getProgressHistory } from "@/app/actions";
+import type { ProgressHistoryEntry } from "@/db/schema";
+import { formatValue } from "@/lib/format";
+
+interface ProgressHistoryProps {
+  barId: string;
+  unit?: string | null;
+  unitPosition?: string | null;
+  // Changes whenever the bar is updated so an open timeline reloads
+  refreshKey: number;
+}
+
+function formatTimestamp(date: Date): string {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function ProgressHistory({
+  barId,
+  unit,
+  unitPosition,
+  refreshKey,
+}: ProgressHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<ProgressHistoryEntry[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, startTransition] = useTransition();
+
+  const loadPage = (pageToLoad: number) => {
+    startTransition(async () => {
+      const result = await getProgressHistory(barId, pageToLoad);
+      if (!result.success) {
+        setHasMore(false);
+        return;
+      }
+
+      const { entries: loaded, page: loadedPage, hasMore: more } = result.data;
+      setEntries((previous) =>
+        loadedPage === 0 ? loaded : [...previous, ...loaded],
+      );
+      setPage(loadedPage);
+      setHasMore(more);
+    });
+  };
+
+  // Reload from the first page when opened or when the bar changes
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload only on open/refresh
+  useEffect(() => {
+    if (isOpen) {
+      loadPage(0);
+    }
+  }, [isOpen, refreshKey]);
+
+  return (
+    <div className="mt-3 border-t border-zinc-100 pt-2 dark:border-zinc-800">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="text-xs font-medium text-zinc-500 transition-colors hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+      >
+        {isOpen ? "Hide history" : "Show history"}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2">
+          {entries.length === 0 && !isLoading && (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              No updates recorded yet.
+            </p>
+          )}
+
+          <ol className="space-y-1">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className={`flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400 ${entry.undoneAt ? "line-through opacity-60" : ""}`}
+              >
+                <span>{formatTimestamp(entry.createdAt)}</span>
+                <span>
+                  <span
+                    className={
+                      entry.delta >= 0
+                        ? "font-medium text-green-600 dark:text-green-400"
+                        : "font-medium text-red-600 dark:text-red-400"
+                    }
+                  >
+                    {entry.delta >= 0 ? "+" : "-"}
+                    {formatValue(Math.abs(entry.delta), unit, unitPosition)}
+                  </span>{" "}
+                  ({formatValue(entry.previousValue, unit, unitPosition)} →{" "}
+                  {formatValue(entry.newValue, unit, unitPosition)})
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          {isLoading && (
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Loading history...
+            </p>
+          )}
+
+          {hasMore && !isLoading && (
+            <button
+              type="button"
+              onClick={() => loadPage(page + 1)}
+              className="mt-2 text-xs font-medium text-zinc-500 transition-colors hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
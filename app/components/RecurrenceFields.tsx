@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { MAX_RECURRENCE_DAYS } from "@/lib/recurrence";
+
+const inputClassName =
+  "rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500";
+
+/**
+ * How often a manual bar resets to its start value
+ * The number of days is only asked for custom periods
+ */
+export function RecurrenceFields({
+  defaultRecurrence,
+  defaultDays,
+  errors,
+}: {
+  defaultRecurrence?: string | null;
+  defaultDays?: number | null;
+  errors: Record<string, string>;
+}) {
+  const [recurrence, setRecurrence] = useState(defaultRecurrence ?? "");
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex gap-2">
+        <select
+          name="recurrence"
+          aria-label="Repeats"
+          value={recurrence}
+          onChange={(e) => setRecurrence(e.target.value)}
+          className={`flex-1 ${inputClassName}`}
+        >
+          <option value="">Never resets</option>
+          <option value="daily">Resets daily</option>
+          <option value="weekly">Resets weekly</option>
+          <option value="monthly">Resets monthly</option>
+          <option value="yearly">Resets yearly</option>
+          <option value="custom">Resets every few days</option>
+        </select>
+        {recurrence === "custom" && (
+          <input
+            type="number"
+            name="recurrenceDays"
+            aria-label="Days per period"
+            placeholder="Days"
+            defaultValue={defaultDays ?? ""}
+            min="1"
+            max={MAX_RECURRENCE_DAYS}
+            step="1"
+            required
+            className={`w-24 ${inputClassName}`}
+          />
+        )}
+      </div>
+      {errors.recurrence && (
+        <span className="text-xs text-red-500">{errors.recurrence}</span>
+      )}
+      {errors.recurrenceDays && (
+        <span className="text-xs text-red-500">{errors.recurrenceDays}</span>
+      )}
+    </div>
+  );
+}
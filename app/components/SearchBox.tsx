@@ -0,0 +1,36 @@
+import Link from "next/link";
+
+/**
+ * Search box for the dashboard; it submits to the URL so a search can be
+ * bookmarked or shared like the tag filter
+ */
+export function SearchBox({ query }: { query: string }) {
+  return (
+    <search>
+      <form action="/" className="flex items-center gap-2">
+        <input
+          type="search"
+          name="q"
+          defaultValue={query}
+          aria-label="Search progress bars"
+          placeholder="Search titles and descriptions"
+          className="flex-1 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none transition-colors focus:border-zinc-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:border-zinc-500"
+        />
+        <button
+          type="submit"
+          className="rounded-lg border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-900 transition-colors hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-800"
+        >
+          Search
+        </button>
+        {query && (
+          <Link
+            href="/"
+            className="text-xs text-zinc-500 underline dark:text-zinc-400"
+          >
+            Clear
+          </Link>
+        )}
+      </form>
+    </search>
+  );
+}
@@ -0,0 +1,72 @@
+import Link from "next/link";
+import { getBarPercentage } from "@/lib/categories";
+import type { HighlightSegment, SearchResult } from "@/lib/search";
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  // Segments never move, so where each starts in the text is a stable key
+  let offset = 0;
+
+  return segments.map((segment) => {
+    const key = offset;
+    offset += segment.text.length;
+    return segment.isMatch ? (
+      <mark
+        key={key}
+        className="rounded bg-amber-200 px-0.5 dark:bg-amber-700 dark:text-zinc-100"
+      >
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={key}>{segment.text}</span>
+    );
+  });
+}
+
+/**
+ * Search matches, best first, with the matching words marked
+ * Each result links to its bar on the dashboard
+ */
+export function SearchResults({
+  query,
+  results,
+}: {
+  query: string;
+  results: SearchResult[];
+}) {
+  if (results.length === 0) {
+    return (
+      <p className="text-center text-zinc-500 dark:text-zinc-400">
+        No progress bars match “{query}”.
+      </p>
+    );
+  }
+
+  return (
+    <section aria-label="Search results">
+      <ol className="flex flex-col divide-y divide-zinc-200 rounded-xl border border-zinc-200 bg-white dark:divide-zinc-800 dark:border-zinc-800 dark:bg-zinc-900">
+        {results.map(({ bar, title, description }) => (
+          <li key={bar.id}>
+            <Link
+              href={`/#bar-${bar.id}`}
+              className="flex items-start gap-3 px-4 py-3 transition-colors hover:bg-zinc-50 dark:hover:bg-zinc-800"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                  <Highlighted segments={title} />
+                </p>
+                {description && (
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                    <Highlighted segments={description} />
+                  </p>
+                )}
+              </div>
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                {Math.round(getBarPercentage(bar))}%
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
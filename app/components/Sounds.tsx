@@ -0,0 +1,51 @@
+"use client";
+
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+} from "react";
+import { useVisibilityChange } from "@/lib/hooks/useVisibilityChange";
+import { audioEngine } from "@/lib/services/AudioEngine";
+import type { SoundEffect, SoundPreferences } from "@/lib/sounds";
+
+type PlaySound = (effect: SoundEffect) => void;
+
+const SoundContext = createContext<PlaySound | null>(null);
+
+/**
+ * Play a sound effect at the user's volume
+ * Outside a SoundProvider, e.g. when a card is rendered on its own, the
+ * sound is skipped
+ */
+export function useSound(): PlaySound {
+  return useContext(SoundContext) ?? (() => {});
+}
+
+/**
+ * Applies the user's sound preferences to the audio engine
+ * Sounds are muted while the tab is hidden, so time-based bars completing
+ * in a background tab stay quiet
+ */
+export function SoundProvider({
+  preferences,
+  children,
+}: {
+  preferences: SoundPreferences;
+  children: ReactNode;
+}) {
+  const { isVisible } = useVisibilityChange();
+
+  useEffect(() => {
+    audioEngine.setVolume(preferences.volume);
+    audioEngine.setMuted(preferences.muted || !isVisible);
+  }, [preferences.volume, preferences.muted, isVisible]);
+
+  const play = useCallback<PlaySound>((effect) => {
+    audioEngine.play(effect);
+  }, []);
+
+  return <SoundContext.Provider value={play}>{children}</SoundContext.Provider>;
+}
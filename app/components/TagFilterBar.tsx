@@ -0,0 +1,70 @@
+import Link from "next/link";
+import { getTagFilterHref, type TagFilter, toggleTagFilter } from "@/lib/tags";
+
+const chipClassName =
+  "rounded-full px-2.5 py-0.5 text-xs font-medium transition-colors";
+const activeClassName =
+  "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900";
+const inactiveClassName =
+  "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700";
+
+/**
+ * Tag filter for the dashboard; every choice is a link so the filtered view
+ * lives in the URL
+ */
+export function TagFilterBar({
+  tags,
+  filter,
+}: {
+  tags: string[];
+  filter: TagFilter;
+}) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const isFiltered = filter.tags.length > 0;
+
+  return (
+    <nav aria-label="Filter by tag" className="flex flex-col gap-2">
+      <ul className="flex flex-wrap gap-1.5">
+        {tags.map((tag) => {
+          const isActive = filter.tags.includes(tag);
+          return (
+            <li key={tag}>
+              <Link
+                href={getTagFilterHref(toggleTagFilter(filter, tag))}
+                aria-current={isActive ? "true" : undefined}
+                className={`${chipClassName} ${isActive ? activeClassName : inactiveClassName}`}
+              >
+                #{tag}
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+      {isFiltered && (
+        <div className="flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+          <span>Show bars with</span>
+          <Link
+            href={getTagFilterHref({ ...filter, match: "any" })}
+            aria-current={filter.match === "any" ? "true" : undefined}
+            className={`${chipClassName} ${filter.match === "any" ? activeClassName : inactiveClassName}`}
+          >
+            any tag
+          </Link>
+          <Link
+            href={getTagFilterHref({ ...filter, match: "all" })}
+            aria-current={filter.match === "all" ? "true" : undefined}
+            className={`${chipClassName} ${filter.match === "all" ? activeClassName : inactiveClassName}`}
+          >
+            all tags
+          </Link>
+          <Link href="/" className="ml-auto underline">
+            Clear
+          </Link>
+        </div>
+      )}
+    </nav>
+  );
+}
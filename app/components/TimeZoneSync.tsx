@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect } from "react";
+import { updateTimeZone } from "@/app/actions";
+
+/**
+ * Report the browser's timezone when it differs from the stored one, so
+ * streak days follow the user when they travel
+ * Renders nothing
+ */
+export function TimeZoneSync({ timeZone }: { timeZone: string | null }) {
+  useEffect(() => {
+    const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (browserTimeZone && browserTimeZone !== timeZone) {
+      updateTimeZone(browserTimeZone);
+    }
+  }, [timeZone]);
+
+  return null;
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { UNDO_WINDOW_MS } from "@/lib/undo";
+
+interface UndoToastOptions {
+  message: string;
+  onUndo: () => void;
+  // When the server stops accepting the undo; without it the toast stays
+  // for UNDO_WINDOW_MS
+  expiresAt?: Date;
+}
+
+interface UndoToastState extends UndoToastOptions {
+  id: number;
+}
+
+type ShowUndoToast = (options: UndoToastOptions) => void;
+
+const UndoToastContext = createContext<ShowUndoToast | null>(null);
+
+/**
+ * Show an undo toast for a change that was just made
+ * Outside an UndoToastProvider, e.g. when a card is rendered on its own,
+ * the toast is skipped
+ */
+export function useUndoToast(): ShowUndoToast {
+  return useContext(UndoToastContext) ?? (() => {});
+}
+
+export function UndoToastProvider({ children }: { children: ReactNode }) {
+  const [toast, setToast] = useState<UndoToastState | null>(null);
+
+  // A newer toast replaces the current one; the change it covered stays
+  const showUndoToast = useCallback<ShowUndoToast>((options) => {
+    setToast({ ...options, id: Date.now() });
+  }, []);
+
+  // Hide the toast once the change can no longer be undone
+  useEffect(() => {
+    if (!toast) {
+      return;
+    }
+
+    const remaining = toast.expiresAt
+      ? toast.expiresAt.getTime() - Date.now()
+      : UNDO_WINDOW_MS;
+    const timeout = setTimeout(() => setToast(null), Math.max(remaining, 0));
+    return () => clearTimeout(timeout);
+  }, [toast]);
+
+  const handleUndo = () => {
+    toast?.onUndo();
+    setToast(null);
+  };
+
+  return (
+    <UndoToastContext.Provider value={showUndoToast}>
+      {children}
+      {toast && (
+        <output className="fixed bottom-4 left-1/2 flex -translate-x-1/2 items-center gap-4 rounded-lg bg-zinc-900 px-4 py-2 text-sm text-white shadow-lg dark:bg-zinc-100 dark:text-zinc-900">
+          <span>{toast.message}</span>
+          <button
+            type="button"
+            onClick={handleUndo}
+            className="font-semibold underline-offset-2 hover:underline"
+          >
+            Undo
+          </button>
+        </output>
+      )}
+    </UndoToastContext.Provider>
+  );
+}
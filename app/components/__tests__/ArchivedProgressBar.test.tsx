@@ -0,0 +1,83 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { deleteProgressBar, unarchiveProgressBar } from "@/app/actions";
+import type { ProgressBar as ProgressBarType } from "@/db/schema";
+import { ArchivedProgressBar } from "../ArchivedProgressBar";
+
+// Mock the server actions
+vi.mock("@/app/actions", () => ({
+  deleteProgressBar: vi.fn(),
+  restoreProgressBar: vi.fn(),
+  unarchiveProgressBar: vi.fn(),
+}));
+
+const archivedBar: ProgressBarType = {
+  id: "archived-1",
+  userId: "test-user",
+  title: "Old Goal",
+  description: null,
+  currentValue: 10,
+  targetValue: 10,
+  unit: null,
+  unitPosition: null,
+  direction: "up",
+  startValue: 0,
+  stepSize: 1,
+  allowOverflow: false,
+  targetReachedAt: null,
+  barType: "manual",
+  startDate: null,
+  targetDate: null,
+  timeBasedType: null,
+  isCompleted: true,
+  isOverdue: false,
+  completedAt: null,
+  archivedAt: new Date("2025-05-20T10:00:00"),
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  pinnedAt: null,
+  parentId: null,
+  weight: 1,
+  aggregation: null,
+  recurrence: null,
+  recurrenceDays: null,
+  periodStart: null,
+  position: 0,
+  categoryId: null,
+  deletedAt: null,
+};
+
+describe("ArchivedProgressBar", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(deleteProgressBar).mockResolvedValue({
+      success: true,
+      data: { restorableUntil: new Date() },
+    });
+  });
+
+  it("shows when the bar was archived", () => {
+    render(<ArchivedProgressBar bar={archivedBar} />);
+
+    expect(screen.getByText("Old Goal")).toBeInTheDocument();
+    expect(screen.getByText("Archived May 20, 2025")).toBeInTheDocument();
+  });
+
+  it("restores the bar", () => {
+    render(<ArchivedProgressBar bar={archivedBar} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Restore" }));
+
+    expect(unarchiveProgressBar).toHaveBeenCalledWith("archived-1");
+  });
+
+  it("asks for confirmation before deleting permanently", () => {
+    render(<ArchivedProgressBar bar={archivedBar} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete permanently" }));
+    expect(deleteProgressBar).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole("button", { name: "Confirm delete" }));
+    expect(deleteProgressBar).toHaveBeenCalledWith("archived-1");
+  });
+});
@@ -0,0 +1,32 @@
+import { render, screen, within } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { ACHIEVEMENTS } from "@/lib/achievements";
+import { BadgeGrid } from "../BadgeGrid";
+
+describe("BadgeGrid", () => {
+  const achievements = ACHIEVEMENTS.map((rule) => ({
+    ...rule,
+    unlockedAt:
+      rule.id === "first-bar" ? new Date("2025-06-01T10:00:00") : null,
+  }));
+
+  it("shows every badge with whether it is unlocked", () => {
+    render(<BadgeGrid achievements={achievements} />);
+
+    const badges = within(
+      screen.getByRole("region", { name: "Badges" }),
+    ).getAllByRole("listitem");
+    expect(badges).toHaveLength(ACHIEVEMENTS.length);
+    expect(badges[0]).toHaveTextContent("First Steps");
+    expect(badges[0]).toHaveTextContent("Unlocked Jun 1, 2025");
+    expect(badges[1]).toHaveTextContent("Locked");
+  });
+
+  it("counts the unlocked badges", () => {
+    render(<BadgeGrid achievements={achievements} />);
+
+    expect(
+      screen.getByText(`1 of ${ACHIEVEMENTS.length} badges unlocked`),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,247 @@
+import { act, fireEvent, render, screen, within } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { reorderProgressBars, updateDashboardPreferences } from "@/app/actions";
+import type { ProgressBar as ProgressBarType } from "@/db/schema";
+import { BarList } from "../BarList";
+import { DashboardControls } from "../DashboardControls";
+
+// Mock the server actions
+vi.mock("@/app/actions", () => ({
+  reorderProgressBars: vi.fn(),
+  updateDashboardPreferences: vi.fn(),
+  updateProgress: vi.fn(),
+  reopenProgressBar: vi.fn(),
+  archiveProgressBar: vi.fn(),
+  pinProgressBar: vi.fn(),
+  unpinProgressBar: vi.fn(),
+  unarchiveProgressBar: vi.fn(),
+  undoProgressUpdate: vi.fn(),
+  editProgressBar: vi.fn(),
+  getProgressHistory: vi.fn(),
+  createMilestone: vi.fn(),
+  deleteMilestone: vi.fn(),
+}));
+
+function createTimeBasedBar(
+  id: string,
+  startDate: string,
+  targetDate: string,
+): ProgressBarType & { tags: string[] } {
+  return {
+    id,
+    userId: "test-user",
+    categoryId: null,
+    title: id,
+    description: null,
+    currentValue: 0,
+    targetValue: 0,
+    unit: null,
+    unitPosition: null,
+    direction: "up",
+    startValue: 0,
+    stepSize: 1,
+    allowOverflow: false,
+    targetReachedAt: null,
+    barType: "time-based",
+    startDate: new Date(startDate).toISOString(),
+    targetDate: new Date(targetDate).toISOString(),
+    timeBasedType: "count-up",
+    isCompleted: false,
+    isOverdue: false,
+    completedAt: null,
+    archivedAt: null,
+    deletedAt: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    pinnedAt: null,
+    parentId: null,
+    weight: 1,
+    aggregation: null,
+    recurrence: null,
+    recurrenceDays: null,
+    periodStart: null,
+    position: 0,
+    tags: [],
+  };
+}
+
+const rowTitles = () =>
+  screen.getAllByRole("listitem").map((row) => row.textContent);
+
+describe("BarList", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2025-06-10T23:59:30") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("re-sorts time-based bars when their live progress is recomputed", () => {
+    // The short bar crosses a day boundary within the minute and overtakes
+    // the long one
+    const bars = [
+      createTimeBasedBar("short", "2025-06-09T00:00:00", "2025-06-13T00:00:00"),
+      createTimeBasedBar("long", "2025-06-01T12:00:00", "2025-06-21T12:00:00"),
+    ];
+    render(<BarList bars={bars} sort="progress" view="compact" />);
+
+    expect(rowTitles()).toEqual(["long45%", "short25%"]);
+
+    act(() => {
+      vi.advanceTimersByTime(60_000);
+    });
+
+    expect(rowTitles()).toEqual(["short50%", "long45%"]);
+  });
+
+  it("renders nothing for an empty list", () => {
+    const { container } = render(
+      <BarList bars={[]} sort="created" view="grid" />,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
+
+describe("BarList custom order", () => {
+  const bars = ["A", "B", "C"].map((title) =>
+    createTimeBasedBar(title, "2025-06-01T00:00:00", "2025-07-01T00:00:00"),
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(reorderProgressBars).mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+  });
+
+  it("only shows drag handles in the custom order", () => {
+    const { rerender } = render(
+      <BarList bars={bars} sort="created" view="compact" />,
+    );
+    expect(
+      screen.queryByRole("button", { name: "Reorder A" }),
+    ).not.toBeInTheDocument();
+
+    rerender(<BarList bars={bars} sort="custom" view="compact" />);
+    expect(screen.getByRole("button", { name: "Reorder A" })).toBeVisible();
+  });
+
+  it("moves bars with the arrow keys and keeps focus on the handle", async () => {
+    render(<BarList bars={bars} sort="custom" view="compact" />);
+
+    const handle = screen.getByRole("button", { name: "Reorder A" });
+    handle.focus();
+    fireEvent.keyDown(handle, { key: "ArrowDown" });
+
+    expect(reorderProgressBars).toHaveBeenLastCalledWith(["B", "A", "C"]);
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Moved A to position 2 of 3",
+    );
+    await act(async () => {});
+    expect(screen.getByRole("button", { name: "Reorder A" })).toHaveFocus();
+  });
+
+  it("ignores moves past either end", () => {
+    render(<BarList bars={bars} sort="custom" view="compact" />);
+
+    fireEvent.keyDown(screen.getByRole("button", { name: "Reorder A" }), {
+      key: "ArrowUp",
+    });
+    fireEvent.keyDown(screen.getByRole("button", { name: "Reorder C" }), {
+      key: "ArrowDown",
+    });
+
+    expect(reorderProgressBars).not.toHaveBeenCalled();
+  });
+
+  it("moves a dragged bar to where it is dropped", () => {
+    render(<BarList bars={bars} sort="custom" view="compact" />);
+
+    fireEvent.dragStart(screen.getByRole("button", { name: "Reorder C" }), {
+      dataTransfer: { effectAllowed: "" },
+    });
+    const rows = screen.getAllByRole("listitem");
+    fireEvent.dragOver(rows[0]);
+    fireEvent.drop(rows[0]);
+
+    expect(reorderProgressBars).toHaveBeenLastCalledWith(["C", "A", "B"]);
+  });
+});
+
+describe("BarList composite bars", () => {
+  const parent = {
+    ...createTimeBasedBar("Q4", "2025-06-01T00:00:00", "2025-07-01T00:00:00"),
+    barType: "composite",
+    aggregation: "average",
+    timeBasedType: null,
+    currentValue: 30,
+    targetValue: 100,
+  };
+  const children = ["Books", "Runs"].map((title) => ({
+    ...createTimeBasedBar(title, "2025-06-01T00:00:00", "2025-07-01T00:00:00"),
+    parentId: "Q4",
+  }));
+
+  it("nests child bars under their composite card", () => {
+    render(<BarList bars={[...children, parent]} sort="created" view="grid" />);
+
+    const nested = screen.getByRole("list", { name: "Bars in Q4" });
+    expect(
+      within(nested)
+        .getAllByRole("heading", { level: 3 })
+        .map((heading) => heading.textContent),
+    ).toEqual(["Books", "Runs"]);
+    expect(screen.getByText("Weighted average of 2 bars")).toBeInTheDocument();
+  });
+
+  it("nests child rows under their composite row", () => {
+    render(
+      <BarList bars={[parent, ...children]} sort="created" view="compact" />,
+    );
+
+    const nested = screen.getByRole("list", { name: "Bars in Q4" });
+    expect(within(nested).getAllByRole("listitem")).toHaveLength(2);
+  });
+
+  it("shows children on their own when their composite is not listed", () => {
+    render(<BarList bars={children} sort="created" view="compact" />);
+
+    expect(screen.queryByRole("list", { name: "Bars in Q4" })).toBeNull();
+    expect(screen.getAllByRole("listitem")).toHaveLength(2);
+  });
+});
+
+describe("DashboardControls", () => {
+  beforeEach(() => {
+    vi.mocked(updateDashboardPreferences).mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+  });
+
+  it("saves the picked sort and layout", () => {
+    render(
+      <DashboardControls preferences={{ sort: "created", view: "list" }} />,
+    );
+
+    expect(screen.getByRole("button", { name: "List" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+
+    fireEvent.change(screen.getByLabelText("Sort by"), {
+      target: { value: "deadline" },
+    });
+    expect(updateDashboardPreferences).toHaveBeenLastCalledWith({
+      sort: "deadline",
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Compact" }));
+    expect(updateDashboardPreferences).toHaveBeenLastCalledWith({
+      view: "compact",
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createCategory,
+  deleteCategory,
+  renameCategory,
+  reorderCategories,
+} from "@/app/actions";
+import type { Category } from "@/db/schema";
+import { CategoryManager } from "../CategoryManager";
+import { CategorySection } from "../CategorySection";
+
+// Mock the server actions
+vi.mock("@/app/actions", () => ({
+  createCategory: vi.fn(),
+  deleteCategory: vi.fn(),
+  renameCategory: vi.fn(),
+  reorderCategories: vi.fn(),
+}));
+
+function createCategoryFixture(id: string, name: string): Category {
+  return {
+    id,
+    userId: "test-user",
+    name,
+    position: 0,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+  };
+}
+
+const categories = [
+  createCategoryFixture("health", "Health"),
+  createCategoryFixture("money", "Money"),
+  createCategoryFixture("books", "Books"),
+];
+
+const success = { success: true as const, data: undefined };
+
+describe("CategoryManager", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createCategory).mockResolvedValue(success);
+    vi.mocked(deleteCategory).mockResolvedValue(success);
+    vi.mocked(renameCategory).mockResolvedValue(success);
+    vi.mocked(reorderCategories).mockResolvedValue(success);
+  });
+
+  it("sends the full new order when moving a category", () => {
+    render(<CategoryManager categories={categories} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Move Money up" }));
+    expect(reorderCategories).toHaveBeenLastCalledWith([
+      "money",
+      "health",
+      "books",
+    ]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Move Money down" }));
+    expect(reorderCategories).toHaveBeenLastCalledWith([
+      "health",
+      "books",
+      "money",
+    ]);
+  });
+
+  it("can't move the ends any further", () => {
+    render(<CategoryManager categories={categories} />);
+
+    expect(
+      screen.getByRole("button", { name: "Move Health up" }),
+    ).toBeDisabled();
+    expect(
+      screen.getByRole("button", { name: "Move Books down" }),
+    ).toBeDisabled();
+  });
+
+  it("shows the server error when a name is taken", async () => {
+    vi.mocked(createCategory).mockResolvedValueOnce({
+      success: false,
+      errors: [
+        {
+          field: "name",
+          message: "A category with this name already exists",
+          code: "INVALID_VALUE",
+        },
+      ],
+    });
+    render(<CategoryManager categories={categories} />);
+
+    fireEvent.change(screen.getByLabelText("New category"), {
+      target: { value: "Health" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+
+    expect(
+      await screen.findByText("A category with this name already exists"),
+    ).toBeInTheDocument();
+  });
+
+  it("renames and deletes categories", async () => {
+    render(<CategoryManager categories={categories} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Rename Books" }));
+    fireEvent.change(screen.getByLabelText("Rename Books"), {
+      target: { value: "Reading" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => {
+      expect(renameCategory).toHaveBeenCalledWith(
+        "books",
+        expect.any(FormData),
+      );
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete Health" }));
+    expect(deleteCategory).toHaveBeenCalledWith("health");
+  });
+});
+
+describe("CategorySection", () => {
+  it("shows the aggregate progress and collapses its bars", () => {
+    render(
+      <CategorySection name="Health" barCount={2} aggregateProgress={62.5}>
+        <p>Run a marathon</p>
+      </CategorySection>,
+    );
+
+    const toggle = screen.getByRole("button", { name: /Health/ });
+    expect(screen.getByText("63%")).toBeInTheDocument();
+    expect(screen.getByText("2 bars")).toBeInTheDocument();
+    expect(toggle).toHaveAttribute("aria-expanded", "true");
+    expect(screen.getByText("Run a marathon")).toBeVisible();
+
+    fireEvent.click(toggle);
+
+    expect(toggle).toHaveAttribute("aria-expanded", "false");
+    expect(screen.getByText("Run a marathon")).not.toBeVisible();
+  });
+
+  it("leaves out the progress of an empty category", () => {
+    render(
+      <CategorySection name="Empty" barCount={0} aggregateProgress={null}>
+        {null}
+      </CategorySection>,
+    );
+
+    expect(screen.getByText("0 bars")).toBeInTheDocument();
+    expect(screen.queryByText(/%/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,238 @@
+import { act, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ProgressBar } from "@/db/schema";
+import { CELEBRATION_DURATION_MS } from "@/lib/celebrations";
+import type { LiveProgress } from "@/lib/dashboard";
+import type { ProgressCalculation } from "@/lib/types";
+import { CelebrationProvider, useCelebrations } from "../Celebrations";
+
+const savingsBar: ProgressBar = {
+  id: "bar-1",
+  userId: "user-1",
+  title: "Savings",
+  description: null,
+  currentValue: 20,
+  startValue: 0,
+  direction: "up",
+  targetValue: 100,
+  stepSize: 1,
+  unit: "$",
+  unitPosition: "prefix",
+  barType: "manual",
+  allowOverflow: false,
+  targetReachedAt: null,
+  startDate: null,
+  targetDate: null,
+  timeBasedType: null,
+  isCompleted: false,
+  completedAt: null,
+  isOverdue: false,
+  archivedAt: null,
+  deletedAt: null,
+  categoryId: null,
+  position: 0,
+  pinnedAt: null,
+  recurrence: null,
+  recurrenceDays: null,
+  periodStart: null,
+  parentId: null,
+  aggregation: null,
+  weight: 1,
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+  updatedAt: new Date("2025-01-01T00:00:00Z"),
+};
+
+const trainingBar: ProgressBar = {
+  ...savingsBar,
+  id: "bar-2",
+  title: "Training",
+  unit: null,
+  unitPosition: null,
+  barType: "time-based",
+  currentValue: 0,
+  startDate: "2025-01-01T00:00:00.000Z",
+  targetDate: "2025-01-11T00:00:00.000Z",
+  timeBasedType: "count-up",
+};
+
+const noTime = {
+  years: 0,
+  months: 0,
+  days: 0,
+  hours: 0,
+  minutes: 0,
+  totalDays: 0,
+  totalHours: 0,
+  totalMinutes: 0,
+};
+
+function liveProgress(percentage: number): ProgressCalculation {
+  return {
+    currentValue: percentage / 10,
+    targetValue: 10,
+    percentage,
+    elapsedTime: noTime,
+    remainingTime: noTime,
+    dailyProgressRate: 10,
+    isCompleted: percentage >= 100,
+    isOverdue: false,
+  };
+}
+
+function Bars({
+  bars,
+  live = new Map(),
+}: {
+  bars: ProgressBar[];
+  live?: LiveProgress;
+}) {
+  useCelebrations(bars, live);
+  return null;
+}
+
+function setReducedMotion(matches: boolean) {
+  vi.stubGlobal(
+    "matchMedia",
+    vi.fn().mockReturnValue({
+      matches,
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    }),
+  );
+}
+
+describe("Celebrations", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // jsdom has no canvas; the burst is skipped but still mounted
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+    setReducedMotion(false);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("throws confetti when a bar crosses a threshold, and only once", () => {
+    const { rerender, container } = render(
+      <CelebrationProvider enabled>
+        <Bars bars={[savingsBar]} />
+      </CelebrationProvider>,
+    );
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+
+    const halfway = { ...savingsBar, currentValue: 50 };
+    rerender(
+      <CelebrationProvider enabled>
+        <Bars bars={[halfway]} />
+      </CelebrationProvider>,
+    );
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Savings reached 50%!",
+    );
+    expect(container.querySelector("canvas")).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(CELEBRATION_DURATION_MS);
+    });
+    rerender(
+      <CelebrationProvider enabled>
+        <Bars bars={[{ ...halfway }]} />
+      </CelebrationProvider>,
+    );
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+    expect(container.querySelector("canvas")).not.toBeInTheDocument();
+  });
+
+  it("shows a message without confetti to users who prefer reduced motion", () => {
+    setReducedMotion(true);
+    const { rerender, container } = render(
+      <CelebrationProvider enabled>
+        <Bars bars={[savingsBar]} />
+      </CelebrationProvider>,
+    );
+
+    rerender(
+      <CelebrationProvider enabled>
+        <Bars
+          bars={[{ ...savingsBar, currentValue: 100, isCompleted: true }]}
+        />
+      </CelebrationProvider>,
+    );
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Savings is complete!",
+    );
+    expect(screen.getByRole("status")).not.toHaveClass("sr-only");
+    expect(container.querySelector("canvas")).not.toBeInTheDocument();
+  });
+
+  it("stays quiet when the user turned celebrations off", () => {
+    const { rerender } = render(
+      <CelebrationProvider enabled={false}>
+        <Bars bars={[savingsBar]} />
+      </CelebrationProvider>,
+    );
+
+    rerender(
+      <CelebrationProvider enabled={false}>
+        <Bars bars={[{ ...savingsBar, currentValue: 80 }]} />
+      </CelebrationProvider>,
+    );
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+
+    // Turning them back on doesn't replay what was missed
+    rerender(
+      <CelebrationProvider enabled>
+        <Bars bars={[{ ...savingsBar, currentValue: 80 }]} />
+      </CelebrationProvider>,
+    );
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+
+  it("celebrates a time-based bar completing on a minute tick once", () => {
+    const { rerender } = render(
+      <CelebrationProvider enabled>
+        <Bars bars={[trainingBar]} />
+      </CelebrationProvider>,
+    );
+
+    // Live progress arrives after hydration; the stored 0% is not a jump
+    rerender(
+      <CelebrationProvider enabled>
+        <Bars
+          bars={[trainingBar]}
+          live={new Map([[trainingBar.id, liveProgress(99.9)]])}
+        />
+      </CelebrationProvider>,
+    );
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+
+    rerender(
+      <CelebrationProvider enabled>
+        <Bars
+          bars={[trainingBar]}
+          live={new Map([[trainingBar.id, liveProgress(100)]])}
+        />
+      </CelebrationProvider>,
+    );
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Training is complete!",
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(CELEBRATION_DURATION_MS);
+    });
+    rerender(
+      <CelebrationProvider enabled>
+        <Bars
+          bars={[trainingBar]}
+          live={new Map([[trainingBar.id, liveProgress(100)]])}
+        />
+      </CelebrationProvider>,
+    );
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+});
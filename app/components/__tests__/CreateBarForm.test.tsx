@@ -1,5 +1,6 @@
-import { fireEvent, render, screen } from "@testing-library/react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { describe, expect, it, vi } from "vitest";
+import { createProgressBar } from "@/app/actions";
 import { CreateBarForm } from "../CreateBarForm";
 
 // Mock the server action
@@ -54,6 +55,122 @@ describe("CreateBarForm", () => {
     expect(screen.getByLabelText("Target Date:")).toBeInTheDocument();
   });
 
+  it("offers a category picker once categories exist", () => {
+    const { rerender } = render(<CreateBarForm />);
+    expect(screen.queryByLabelText("Category")).not.toBeInTheDocument();
+
+    rerender(
+      <CreateBarForm
+        categories={[
+          {
+            id: "health",
+            userId: "test-user",
+            name: "Health",
+            position: 0,
+            createdAt: new Date("2025-01-01"),
+            updatedAt: new Date("2025-01-01"),
+          },
+        ]}
+      />,
+    );
+
+    const picker = screen.getByLabelText("Category");
+    expect(picker).toHaveValue("");
+    expect(
+      screen.getByRole("option", { name: "Uncategorized" }),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("option", { name: "Health" })).toBeInTheDocument();
+  });
+
+  it("asks for the number of days only for custom recurrences", () => {
+    render(<CreateBarForm />);
+
+    const repeats = screen.getByLabelText("Repeats");
+    expect(repeats).toHaveValue("");
+    expect(screen.queryByLabelText("Days per period")).not.toBeInTheDocument();
+
+    fireEvent.change(repeats, { target: { value: "custom" } });
+    expect(screen.getByLabelText("Days per period")).toBeRequired();
+
+    fireEvent.change(repeats, { target: { value: "weekly" } });
+    expect(screen.queryByLabelText("Days per period")).not.toBeInTheDocument();
+  });
+
+  describe("Server validation errors", () => {
+    it("renders each server error next to its field", async () => {
+      vi.mocked(createProgressBar).mockResolvedValueOnce({
+        success: false,
+        errors: [
+          {
+            field: "title",
+            message: "Title is required",
+            code: "REQUIRED_FIELD",
+          },
+          {
+            field: "targetValue",
+            message: "Target value must be a positive number",
+            code: "INVALID_VALUE",
+          },
+        ],
+      });
+
+      const { container } = render(<CreateBarForm />);
+      fireEvent.submit(container.querySelector("form") as HTMLFormElement);
+
+      expect(await screen.findByText("Title is required")).toBeInTheDocument();
+      expect(
+        screen.getByText("Target value must be a positive number"),
+      ).toBeInTheDocument();
+    });
+
+    it("renders date errors for time-based bars", async () => {
+      vi.mocked(createProgressBar).mockResolvedValueOnce({
+        success: false,
+        errors: [
+          {
+            field: "startDate",
+            message: "Count-up bars require a start date in the past",
+            code: "FUTURE_START_DATE",
+          },
+          {
+            field: "dateRange",
+            message: "Date range cannot exceed 50 years",
+            code: "INVALID_DATE_RANGE",
+          },
+        ],
+      });
+
+      const { container } = render(<CreateBarForm />);
+      fireEvent.click(screen.getByLabelText(/Time-Based Progress/));
+      fireEvent.submit(container.querySelector("form") as HTMLFormElement);
+
+      expect(
+        await screen.findByText(
+          "Count-up bars require a start date in the past",
+        ),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByText("Date range cannot exceed 50 years"),
+      ).toBeInTheDocument();
+    });
+
+    it("clears the form after a successful submission", async () => {
+      vi.mocked(createProgressBar).mockResolvedValueOnce({
+        success: true,
+        data: undefined,
+      });
+
+      const { container } = render(<CreateBarForm />);
+      const titleInput = screen.getByPlaceholderText(
+        "What are you tracking?",
+      ) as HTMLInputElement;
+      fireEvent.change(titleInput, { target: { value: "Books" } });
+      fireEvent.submit(container.querySelector("form") as HTMLFormElement);
+
+      await waitFor(() => expect(titleInput.value).toBe(""));
+    });
+  });
+
   describe("Date parsing edge cases (Timezone handling)", () => {
     it("should not reject dates at midnight UTC (T00:00:00)", () => {
       // This tests the fix: Date parsing used UTC which caused day shifts
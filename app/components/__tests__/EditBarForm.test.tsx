@@ -0,0 +1,149 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { editProgressBar } from "@/app/actions";
+import type { ProgressBar as ProgressBarType } from "@/db/schema";
+import { EditBarForm } from "../EditBarForm";
+
+// Mock the server action
+vi.mock("@/app/actions", () => ({
+  editProgressBar: vi.fn(),
+}));
+
+const mockEditProgressBar = vi.mocked(editProgressBar);
+
+const manualBar: ProgressBarType = {
+  id: "manual-1",
+  userId: "test-user",
+  title: "Books",
+  description: "Reading list",
+  currentValue: 3,
+  targetValue: 10,
+  unit: "books",
+  unitPosition: "suffix",
+  barType: "manual",
+  startDate: null,
+  targetDate: null,
+  timeBasedType: null,
+  isCompleted: false,
+  isOverdue: false,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  pinnedAt: null,
+  parentId: null,
+  weight: 1,
+  aggregation: null,
+  recurrence: null,
+  recurrenceDays: null,
+  periodStart: null,
+  position: 0,
+  categoryId: null,
+  deletedAt: null,
+  archivedAt: null,
+  completedAt: null,
+  startValue: 0,
+  direction: "up",
+  targetReachedAt: null,
+  allowOverflow: false,
+  stepSize: 1,
+};
+
+const timeBasedBar: ProgressBarType = {
+  ...manualBar,
+  id: "time-1",
+  title: "Trip",
+  unit: null,
+  unitPosition: null,
+  barType: "time-based",
+  startDate: new Date("2025-01-01T00:00:00").toISOString(),
+  targetDate: new Date("2026-06-15T00:00:00").toISOString(),
+  timeBasedType: "arrival-date",
+};
+
+describe("EditBarForm", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("prefills manual bar fields", () => {
+    render(<EditBarForm bar={manualBar} onDone={vi.fn()} />);
+
+    expect(screen.getByLabelText("Title")).toHaveValue("Books");
+    expect(screen.getByLabelText("Description")).toHaveValue("Reading list");
+    expect(screen.getByLabelText("Target")).toHaveValue(10);
+    expect(screen.getByLabelText("Unit")).toHaveValue("books");
+    expect(screen.getByLabelText("Step")).toHaveValue(1);
+    expect(screen.queryByLabelText("Start Date:")).not.toBeInTheDocument();
+  });
+
+  it("prefills time-based bar dates and type", () => {
+    render(<EditBarForm bar={timeBasedBar} onDone={vi.fn()} />);
+
+    expect(screen.getByLabelText("Arrival Date")).toBeChecked();
+    expect(screen.getByLabelText("Start Date:")).toHaveValue("2025-01-01");
+    expect(screen.getByLabelText("Arrival Date:")).toHaveValue("2026-06-15");
+    expect(screen.queryByLabelText("Target")).not.toBeInTheDocument();
+  });
+
+  it("hides the start date when switching to count-down", () => {
+    render(<EditBarForm bar={timeBasedBar} onDone={vi.fn()} />);
+
+    fireEvent.click(screen.getByLabelText("Count-Down"));
+
+    expect(screen.queryByLabelText("Start Date:")).not.toBeInTheDocument();
+    expect(screen.getByLabelText("Target Date:")).toBeInTheDocument();
+  });
+
+  it("saves changes and closes the form", async () => {
+    mockEditProgressBar.mockResolvedValue({ success: true, data: undefined });
+    const onDone = vi.fn();
+    render(<EditBarForm bar={manualBar} onDone={onDone} />);
+
+    fireEvent.change(screen.getByLabelText("Title"), {
+      target: { value: "Novels" },
+    });
+    fireEvent.click(screen.getByText("Save"));
+
+    await waitFor(() => expect(onDone).toHaveBeenCalled());
+    const formData = mockEditProgressBar.mock.calls[0][1];
+    expect(mockEditProgressBar.mock.calls[0][0]).toBe("manual-1");
+    expect(formData.get("title")).toBe("Novels");
+  });
+
+  it("shows errors next to their fields and stays open when saving fails", async () => {
+    mockEditProgressBar.mockResolvedValue({
+      success: false,
+      errors: [
+        {
+          field: "startDate",
+          message: "Date cannot be more than 10 years in the past",
+          code: "HISTORICAL_LIMIT_EXCEEDED",
+        },
+        {
+          field: "targetDate",
+          message: "Date must be in the future",
+          code: "FUTURE_START_DATE",
+        },
+      ],
+    });
+    const onDone = vi.fn();
+    render(<EditBarForm bar={timeBasedBar} onDone={onDone} />);
+
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(
+      await screen.findByText("Date cannot be more than 10 years in the past"),
+    ).toBeInTheDocument();
+    expect(screen.getByText("Date must be in the future")).toBeInTheDocument();
+    expect(onDone).not.toHaveBeenCalled();
+  });
+
+  it("cancels without saving", () => {
+    const onDone = vi.fn();
+    render(<EditBarForm bar={manualBar} onDone={onDone} />);
+
+    fireEvent.click(screen.getByText("Cancel"));
+
+    expect(onDone).toHaveBeenCalled();
+    expect(mockEditProgressBar).not.toHaveBeenCalled();
+  });
+});
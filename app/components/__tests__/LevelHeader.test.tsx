@@ -0,0 +1,24 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { xpCalculator } from "@/lib/services/XpCalculator";
+import { LevelHeader } from "../LevelHeader";
+
+describe("LevelHeader", () => {
+  it("shows the level and the XP towards the next one", () => {
+    render(<LevelHeader progress={xpCalculator.getLevelProgress(450)} />);
+
+    expect(screen.getByText("Level 3")).toBeInTheDocument();
+    expect(screen.getByText("150 / 300 XP")).toBeInTheDocument();
+    expect(
+      screen.getByRole("progressbar", { name: "XP to next level" }),
+    ).toHaveAttribute("aria-valuenow", "150");
+    expect(screen.getByTitle("450 XP in total")).toBeInTheDocument();
+  });
+
+  it("starts at level 1 with an empty bar", () => {
+    render(<LevelHeader progress={xpCalculator.getLevelProgress(0)} />);
+
+    expect(screen.getByText("Level 1")).toBeInTheDocument();
+    expect(screen.getByText("0 / 100 XP")).toBeInTheDocument();
+  });
+});
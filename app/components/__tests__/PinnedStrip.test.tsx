@@ -0,0 +1,95 @@
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { unpinProgressBar } from "@/app/actions";
+import type { ProgressBar } from "@/db/schema";
+import { PinnedStrip } from "../PinnedStrip";
+
+// Mock the server actions
+vi.mock("@/app/actions", () => ({
+  unpinProgressBar: vi.fn(),
+}));
+
+function createPinnedBar(
+  id: string,
+  currentValue: number,
+  overrides: Partial<ProgressBar> = {},
+): ProgressBar {
+  return {
+    id,
+    userId: "test-user",
+    categoryId: null,
+    title: id,
+    description: null,
+    currentValue,
+    targetValue: 10,
+    unit: null,
+    unitPosition: null,
+    direction: "up",
+    startValue: 0,
+    stepSize: 1,
+    allowOverflow: false,
+    targetReachedAt: null,
+    barType: "manual",
+    startDate: null,
+    targetDate: null,
+    timeBasedType: null,
+    isCompleted: false,
+    isOverdue: false,
+    completedAt: null,
+    archivedAt: null,
+    deletedAt: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    pinnedAt: new Date("2025-02-01"),
+    parentId: null,
+    weight: 1,
+    aggregation: null,
+    recurrence: null,
+    recurrenceDays: null,
+    periodStart: null,
+    position: 0,
+    ...overrides,
+  };
+}
+
+describe("PinnedStrip", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(unpinProgressBar).mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+  });
+
+  it("renders nothing without pinned bars", () => {
+    const { container } = render(<PinnedStrip bars={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("shows each pinned bar in the order given with its progress", () => {
+    render(
+      <PinnedStrip
+        bars={[
+          createPinnedBar("Run", 3),
+          createPinnedBar("Save", 20, { allowOverflow: true }),
+        ]}
+      />,
+    );
+
+    const strip = screen.getByRole("region", { name: "Pinned" });
+    const items = within(strip).getAllByRole("listitem");
+    expect(items.map((item) => item.textContent)).toEqual([
+      "Run✕30%",
+      "Save✕100%",
+    ]);
+  });
+
+  it("unpins a bar", () => {
+    render(<PinnedStrip bars={[createPinnedBar("Run", 3)]} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Unpin Run" }));
+
+    expect(unpinProgressBar).toHaveBeenCalledWith("Run");
+  });
+});
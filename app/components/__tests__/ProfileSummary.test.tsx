@@ -0,0 +1,38 @@
+import { render, screen, within } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { xpCalculator } from "@/lib/services/XpCalculator";
+import { ProfileSummary } from "../ProfileSummary";
+
+describe("ProfileSummary", () => {
+  it("shows the level and the overall streaks", () => {
+    render(
+      <ProfileSummary
+        level={xpCalculator.getLevelProgress(1250)}
+        streak={{ current: 1, longest: 21 }}
+      />,
+    );
+
+    const summary = within(screen.getByLabelText("Profile summary"));
+    const items = summary.getAllByRole("definition");
+    expect(summary.getByText("Level")).toBeInTheDocument();
+    expect(items.map((item) => item.textContent)).toEqual([
+      "5",
+      "1,250 XP",
+      "🔥 1",
+      "day",
+      "21",
+      "days",
+    ]);
+  });
+
+  it("shows a broken streak as zero", () => {
+    render(
+      <ProfileSummary
+        level={xpCalculator.getLevelProgress(0)}
+        streak={{ current: 0, longest: 0 }}
+      />,
+    );
+
+    expect(screen.getAllByText("0")).toHaveLength(2);
+  });
+});
@@ -13,8 +13,14 @@ import { ProgressBar } from "../ProgressBar";
 
 // Mock the server actions
 vi.mock("@/app/actions", () => ({
-  deleteProgressBar: vi.fn(),
+  archiveProgressBar: vi.fn(),
+  pinProgressBar: vi.fn(),
+  unpinProgressBar: vi.fn(),
+  getProgressHistory: vi.fn(),
+  reopenProgressBar: vi.fn(),
   updateProgress: vi.fn(),
+  createMilestone: vi.fn(),
+  deleteMilestone: vi.fn(),
 }));
 
 // Mock the hooks to avoid actual timer behavior in tests
@@ -103,6 +109,24 @@ describe("ProgressBar Property-Based Tests", () => {
       isOverdue: false,
       createdAt: new Date(),
       updatedAt: new Date(),
+      pinnedAt: null,
+      parentId: null,
+      weight: 1,
+      aggregation: null,
+      recurrence: null,
+      recurrenceDays: null,
+      periodStart: null,
+      position: 0,
+      categoryId: null,
+      deletedAt: null,
+      archivedAt: null,
+      completedAt: null,
+      startValue: 0,
+      direction: "up",
+      targetReachedAt: null,
+      allowOverflow: false,
+      stepSize: 1,
+      userId: "test-user",
     };
   }
 
@@ -131,6 +155,24 @@ describe("ProgressBar Property-Based Tests", () => {
       isOverdue: false,
       createdAt: new Date(),
       updatedAt: new Date(),
+      pinnedAt: null,
+      parentId: null,
+      weight: 1,
+      aggregation: null,
+      recurrence: null,
+      recurrenceDays: null,
+      periodStart: null,
+      position: 0,
+      categoryId: null,
+      deletedAt: null,
+      archivedAt: null,
+      completedAt: null,
+      startValue: 0,
+      direction: "up",
+      targetReachedAt: null,
+      allowOverflow: false,
+      stepSize: 1,
+      userId: "test-user",
     };
   }
 
@@ -198,8 +240,8 @@ describe("ProgressBar Property-Based Tests", () => {
               screen.getByTestId("progress-statistics"),
             ).toBeInTheDocument();
 
-            // Should have delete button
-            expect(screen.getByLabelText("Delete")).toBeInTheDocument();
+            // Should have archive button
+            expect(screen.getByLabelText("Archive")).toBeInTheDocument();
 
             // Should NOT have increment/decrement buttons (time-based bars don't have manual controls)
             expect(screen.queryByText("+")).not.toBeInTheDocument();
@@ -279,8 +321,8 @@ describe("ProgressBar Property-Based Tests", () => {
             expect(screen.getByText("+")).toBeInTheDocument();
             expect(screen.getByText("-")).toBeInTheDocument();
 
-            // Should have delete button
-            expect(screen.getByLabelText("Delete")).toBeInTheDocument();
+            // Should have archive button
+            expect(screen.getByLabelText("Archive")).toBeInTheDocument();
 
             // Should NOT have time-based badges
             expect(screen.queryByText("Count-Up")).not.toBeInTheDocument();
@@ -392,8 +434,8 @@ describe("ProgressBar Property-Based Tests", () => {
               screen.getByText(barConfig.title.trim()),
             ).toBeInTheDocument();
 
-            // 3. Should have a delete button
-            expect(screen.getByLabelText("Delete")).toBeInTheDocument();
+            // 3. Should have an archive button
+            expect(screen.getByLabelText("Archive")).toBeInTheDocument();
 
             // 4. Should have a progress bar visual element - look for the styled div
             const progressBarContainer = container.querySelector(
@@ -0,0 +1,564 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  archiveProgressBar,
+  createMilestone,
+  deleteMilestone,
+  getBarPeriods,
+  pinProgressBar,
+  reopenProgressBar,
+  unarchiveProgressBar,
+  undoProgressUpdate,
+  unpinProgressBar,
+  updateProgress,
+} from "@/app/actions";
+import type { Milestone, ProgressBar as ProgressBarType } from "@/db/schema";
+import { ProgressBar } from "../ProgressBar";
+import { UndoToastProvider } from "../UndoToast";
+
+// Mock the server actions
+vi.mock("@/app/actions", () => ({
+  updateProgress: vi.fn(),
+  reopenProgressBar: vi.fn(),
+  archiveProgressBar: vi.fn(),
+  pinProgressBar: vi.fn(),
+  unpinProgressBar: vi.fn(),
+  unarchiveProgressBar: vi.fn(),
+  undoProgressUpdate: vi.fn(),
+  editProgressBar: vi.fn(),
+  getProgressHistory: vi.fn(),
+  getBarPeriods: vi.fn(),
+  createMilestone: vi.fn(),
+  deleteMilestone: vi.fn(),
+}));
+
+const mockUpdateProgress = vi.mocked(updateProgress);
+
+const savingsBar: ProgressBarType = {
+  id: "savings-1",
+  userId: "test-user",
+  title: "Savings",
+  description: null,
+  currentValue: 100,
+  targetValue: 1000,
+  unit: "$",
+  unitPosition: "prefix",
+  stepSize: 25,
+  barType: "manual",
+  startDate: null,
+  targetDate: null,
+  timeBasedType: null,
+  isCompleted: false,
+  isOverdue: false,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  pinnedAt: null,
+  parentId: null,
+  weight: 1,
+  aggregation: null,
+  recurrence: null,
+  recurrenceDays: null,
+  periodStart: null,
+  position: 0,
+  categoryId: null,
+  deletedAt: null,
+  archivedAt: null,
+  completedAt: null,
+  startValue: 0,
+  direction: "up",
+  targetReachedAt: null,
+  allowOverflow: false,
+};
+
+describe("ProgressBar tags", () => {
+  it("links each tag chip to the dashboard filtered on it", () => {
+    render(<ProgressBar bar={savingsBar} tags={["money", "long-term"]} />);
+
+    const chips = screen.getByRole("list", { name: "Tags" });
+    expect(chips).toHaveTextContent("#money#long-term");
+    expect(screen.getByRole("link", { name: "#money" })).toHaveAttribute(
+      "href",
+      "/?tag=money",
+    );
+  });
+
+  it("leaves the chips out of untagged bars", () => {
+    render(<ProgressBar bar={savingsBar} />);
+
+    expect(
+      screen.queryByRole("list", { name: "Tags" }),
+    ).not.toBeInTheDocument();
+  });
+});
+
+describe("ProgressBar pinning", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(pinProgressBar).mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+    vi.mocked(unpinProgressBar).mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+  });
+
+  it("pins an unpinned bar and unpins a pinned one", () => {
+    const { rerender } = render(<ProgressBar bar={savingsBar} />);
+
+    const pin = screen.getByRole("button", { name: "Pin" });
+    expect(pin).toHaveAttribute("aria-pressed", "false");
+    fireEvent.click(pin);
+    expect(pinProgressBar).toHaveBeenCalledWith("savings-1");
+
+    rerender(
+      <ProgressBar bar={{ ...savingsBar, pinnedAt: new Date("2025-02-01") }} />,
+    );
+    const unpin = screen.getByRole("button", { name: "Pin" });
+    expect(unpin).toHaveAttribute("aria-pressed", "true");
+    fireEvent.click(unpin);
+    expect(unpinProgressBar).toHaveBeenCalledWith("savings-1");
+  });
+
+  it("only allows unpinning once the pin limit is reached", () => {
+    const { rerender } = render(
+      <ProgressBar bar={savingsBar} canPin={false} />,
+    );
+    expect(screen.getByRole("button", { name: "Pin" })).toBeDisabled();
+
+    rerender(
+      <ProgressBar
+        bar={{ ...savingsBar, pinnedAt: new Date("2025-02-01") }}
+        canPin={false}
+      />,
+    );
+    expect(screen.getByRole("button", { name: "Pin" })).toBeEnabled();
+  });
+});
+
+describe("ProgressBar recurrence", () => {
+  it("shows how often the bar resets and its past periods", async () => {
+    vi.mocked(getBarPeriods).mockResolvedValue({
+      success: true,
+      data: [
+        {
+          id: "period-1",
+          barId: "savings-1",
+          startsAt: new Date(2025, 5, 9),
+          endsAt: new Date(2025, 5, 16),
+          finalValue: 1000,
+          targetValue: 1000,
+          isCompleted: true,
+        },
+      ],
+    });
+    render(
+      <ProgressBar
+        bar={{
+          ...savingsBar,
+          recurrence: "weekly",
+          periodStart: new Date(2025, 5, 16),
+        }}
+      />,
+    );
+
+    expect(screen.getByText("Resets weekly")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Show past periods" }));
+
+    expect(await screen.findByText("Jun 9 – Jun 15")).toBeInTheDocument();
+    expect(screen.getByText("$1,000 / $1,000 ✓")).toBeInTheDocument();
+    expect(getBarPeriods).toHaveBeenCalledWith("savings-1");
+  });
+
+  it("leaves recurrence out of bars that never reset", () => {
+    render(<ProgressBar bar={savingsBar} />);
+
+    expect(screen.queryByText(/^Resets/)).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Show past periods" }),
+    ).not.toBeInTheDocument();
+  });
+});
+
+describe("ProgressBar streaks", () => {
+  it("shows the current and longest streak of a manual bar", () => {
+    render(
+      <ProgressBar bar={savingsBar} streak={{ current: 3, longest: 12 }} />,
+    );
+
+    expect(screen.getByText(/3-day streak/)).toBeInTheDocument();
+    expect(screen.getByText(/Longest 12-day streak/)).toBeInTheDocument();
+  });
+
+  it("shows only the longest streak once the current one has ended", () => {
+    render(
+      <ProgressBar bar={savingsBar} streak={{ current: 0, longest: 4 }} />,
+    );
+
+    expect(screen.getByText("Longest 4-day streak")).toBeInTheDocument();
+    expect(screen.queryByText(/🔥/)).not.toBeInTheDocument();
+  });
+
+  it("leaves the streak out of bars never updated", () => {
+    render(
+      <ProgressBar bar={savingsBar} streak={{ current: 0, longest: 0 }} />,
+    );
+
+    expect(screen.queryByText(/streak/)).not.toBeInTheDocument();
+  });
+});
+
+describe("ProgressBar milestones", () => {
+  const firstHundred: Milestone = {
+    id: "milestone-1",
+    barId: "savings-1",
+    label: "First $100",
+    kind: "value",
+    value: 100,
+    date: null,
+    reachedAt: new Date("2025-02-03T10:00:00"),
+    createdAt: new Date("2025-01-01"),
+  };
+  const halfway: Milestone = {
+    ...firstHundred,
+    id: "milestone-2",
+    label: null,
+    kind: "percentage",
+    value: 50,
+    reachedAt: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createMilestone).mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+    vi.mocked(deleteMilestone).mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+  });
+
+  it("marks each milestone on the track", () => {
+    render(
+      <ProgressBar bar={savingsBar} milestones={[halfway, firstHundred]} />,
+    );
+
+    expect(screen.getByTitle("First $100")).toHaveStyle({ left: "10%" });
+    expect(screen.getByTitle("50%")).toHaveStyle({ left: "50%" });
+  });
+
+  it("lists milestones in track order with when they were reached", () => {
+    render(
+      <ProgressBar bar={savingsBar} milestones={[halfway, firstHundred]} />,
+    );
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Show milestones (2)" }),
+    );
+
+    const items = screen
+      .getAllByRole("listitem")
+      .filter((item) => item.closest("ol[aria-label='Milestones']"));
+    expect(items[0]).toHaveTextContent("First $100 ($100)");
+    expect(items[0]).toHaveTextContent("Reached Feb 3, 2025");
+    expect(items[1]).toHaveTextContent("50%");
+    expect(items[1]).toHaveTextContent("Not reached yet");
+  });
+
+  it("adds and removes milestones", async () => {
+    render(<ProgressBar bar={savingsBar} milestones={[firstHundred]} />);
+    fireEvent.click(
+      screen.getByRole("button", { name: "Show milestones (1)" }),
+    );
+
+    fireEvent.change(screen.getByLabelText("Milestone value"), {
+      target: { value: "50%" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+
+    await waitFor(() => {
+      expect(createMilestone).toHaveBeenCalledWith(
+        "savings-1",
+        expect.any(FormData),
+      );
+    });
+    const formData = vi.mocked(createMilestone).mock.calls[0][1];
+    expect(formData.get("threshold")).toBe("50%");
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Remove milestone First $100" }),
+    );
+    await waitFor(() => {
+      expect(deleteMilestone).toHaveBeenCalledWith("milestone-1");
+    });
+  });
+
+  it("shows why a milestone could not be added", async () => {
+    vi.mocked(createMilestone).mockResolvedValue({
+      success: false,
+      errors: [
+        {
+          field: "threshold",
+          message: "Milestone must be between the start and the target",
+          code: "INVALID_VALUE",
+        },
+      ],
+    });
+    render(<ProgressBar bar={savingsBar} />);
+    fireEvent.click(screen.getByRole("button", { name: "Add milestones" }));
+
+    fireEvent.change(screen.getByLabelText("Milestone value"), {
+      target: { value: "5000" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+
+    expect(
+      await screen.findByText(
+        "Milestone must be between the start and the target",
+      ),
+    ).toBeInTheDocument();
+  });
+});
+
+describe("ProgressBar manual controls", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateProgress.mockResolvedValue({ success: true, data: undefined });
+  });
+
+  it("moves by the bar's step size", () => {
+    render(<ProgressBar bar={savingsBar} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Add $25" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 125);
+
+    fireEvent.click(screen.getByRole("button", { name: "Subtract $25" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 75);
+  });
+
+  it("offers quick-add buttons for multiples of the step", () => {
+    render(<ProgressBar bar={savingsBar} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "+$125" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 225);
+
+    fireEvent.click(screen.getByRole("button", { name: "+$250" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 350);
+  });
+
+  it("clamps steps to the target and to zero", () => {
+    const { rerender } = render(
+      <ProgressBar bar={{ ...savingsBar, currentValue: 990 }} />,
+    );
+    fireEvent.click(screen.getByRole("button", { name: "+$250" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 1000);
+
+    rerender(<ProgressBar bar={{ ...savingsBar, currentValue: 10 }} />);
+    fireEvent.click(screen.getByRole("button", { name: "Subtract $25" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 0);
+  });
+
+  it("does not accumulate floating point noise with fractional steps", () => {
+    render(
+      <ProgressBar
+        bar={{
+          ...savingsBar,
+          unit: "km",
+          unitPosition: "suffix",
+          currentValue: 0.2,
+          targetValue: 5,
+          stepSize: 0.1,
+        }}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Add 0.1 km" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 0.3);
+  });
+
+  it("sets an exact value", async () => {
+    render(<ProgressBar bar={savingsBar} />);
+
+    fireEvent.change(screen.getByLabelText("Set value"), {
+      target: { value: "432.5" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Set" }));
+
+    await waitFor(() => {
+      expect(mockUpdateProgress).toHaveBeenCalledWith("savings-1", 432.5);
+    });
+  });
+
+  it("shows the error returned when setting a value fails", async () => {
+    mockUpdateProgress.mockResolvedValue({
+      success: false,
+      errors: [
+        {
+          field: "currentValue",
+          message: "Progress must be a finite number",
+          code: "INVALID_VALUE",
+        },
+      ],
+    });
+    render(<ProgressBar bar={savingsBar} />);
+
+    fireEvent.change(screen.getByLabelText("Set value"), {
+      target: { value: "5" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Set" }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Progress must be a finite number"),
+      ).toBeInTheDocument();
+    });
+  });
+
+  it("keeps counting past the target when overflow is allowed", () => {
+    render(
+      <ProgressBar
+        bar={{ ...savingsBar, currentValue: 1000, allowOverflow: true }}
+      />,
+    );
+
+    const add = screen.getByRole("button", { name: "Add $25" });
+    expect(add).toBeEnabled();
+    fireEvent.click(add);
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 1025);
+  });
+
+  it("disables adding at the target when overflow is not allowed", () => {
+    render(<ProgressBar bar={{ ...savingsBar, currentValue: 1000 }} />);
+
+    expect(screen.getByRole("button", { name: "Add $25" })).toBeDisabled();
+  });
+
+  it("shows the over-target state and when the target was reached", () => {
+    render(
+      <ProgressBar
+        bar={{
+          ...savingsBar,
+          currentValue: 1200,
+          allowOverflow: true,
+          targetReachedAt: new Date("2025-03-14T12:00:00"),
+        }}
+      />,
+    );
+
+    expect(screen.getByText("120%")).toBeInTheDocument();
+    expect(
+      screen.getByText("Target reached Mar 14, 2025 · $200 over"),
+    ).toBeInTheDocument();
+  });
+
+  it("moves burn-down bars toward their lower target", () => {
+    render(
+      <ProgressBar
+        bar={{
+          ...savingsBar,
+          title: "Debt",
+          direction: "down",
+          startValue: 12000,
+          currentValue: 9000,
+          targetValue: 0,
+          stepSize: 100,
+        }}
+      />,
+    );
+
+    expect(screen.getByText("$9,000 → $0")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "-$500" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 8500);
+
+    fireEvent.click(screen.getByRole("button", { name: "Add $100" }));
+    expect(mockUpdateProgress).toHaveBeenLastCalledWith("savings-1", 9100);
+  });
+
+  it("stops burn-down bars at their target and starting value", () => {
+    const weightBar: ProgressBarType = {
+      ...savingsBar,
+      unit: "kg",
+      unitPosition: "suffix",
+      direction: "down",
+      startValue: 95,
+      targetValue: 80,
+      stepSize: 0.5,
+    };
+
+    const { rerender } = render(
+      <ProgressBar bar={{ ...weightBar, currentValue: 80 }} />,
+    );
+    expect(
+      screen.getByRole("button", { name: "Subtract 0.5 kg" }),
+    ).toBeDisabled();
+
+    rerender(<ProgressBar bar={{ ...weightBar, currentValue: 95 }} />);
+    expect(screen.getByRole("button", { name: "Add 0.5 kg" })).toBeDisabled();
+  });
+
+  it("shows completed bars and lets them be reopened", () => {
+    render(
+      <ProgressBar
+        bar={{
+          ...savingsBar,
+          currentValue: 1000,
+          isCompleted: true,
+          completedAt: new Date("2025-04-02T09:30:00"),
+        }}
+      />,
+    );
+
+    expect(screen.getByText("Completed")).toBeInTheDocument();
+    expect(screen.getByText("Completed Apr 2, 2025")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Reopen" }));
+    expect(reopenProgressBar).toHaveBeenCalledWith("savings-1");
+  });
+
+  it("undoes the last change", async () => {
+    vi.mocked(undoProgressUpdate).mockResolvedValue({
+      success: false,
+      errors: [
+        {
+          field: "currentValue",
+          message: "There is no change to undo",
+          code: "INVALID_VALUE",
+        },
+      ],
+    });
+    render(<ProgressBar bar={savingsBar} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Undo last change" }));
+
+    expect(undoProgressUpdate).toHaveBeenCalledWith("savings-1");
+    await waitFor(() => {
+      expect(
+        screen.getByText("There is no change to undo"),
+      ).toBeInTheDocument();
+    });
+  });
+
+  it("offers to undo archiving", async () => {
+    vi.mocked(archiveProgressBar).mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+    render(
+      <UndoToastProvider>
+        <ProgressBar bar={savingsBar} />
+      </UndoToastProvider>,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Archive" }));
+    await waitFor(() => {
+      expect(screen.getByText('Archived "Savings"')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Undo" }));
+    expect(unarchiveProgressBar).toHaveBeenCalledWith("savings-1");
+  });
+});
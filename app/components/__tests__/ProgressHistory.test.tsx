@@ -0,0 +1,102 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getProgressHistory } from "@/app/actions";
+import type { ProgressHistoryEntry } from "@/db/schema";
+import { ProgressHistory } from "../ProgressHistory";
+
+// Mock the server action
+vi.mock("@/app/actions", () => ({
+  getProgressHistory: vi.fn(),
+}));
+
+const mockGetProgressHistory = vi.mocked(getProgressHistory);
+
+function createEntry(
+  previousValue: number,
+  newValue: number,
+): ProgressHistoryEntry {
+  return {
+    id: `entry-${previousValue}-${newValue}`,
+    barId: "bar-1",
+    previousValue,
+    newValue,
+    delta: newValue - previousValue,
+    source: "manual",
+    createdAt: new Date("2025-06-01T12:00:00"),
+    undoneAt: null,
+  };
+}
+
+describe("ProgressHistory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("does not load history until opened", () => {
+    render(<ProgressHistory barId="bar-1" refreshKey={0} />);
+
+    expect(screen.getByText("Show history")).toBeInTheDocument();
+    expect(mockGetProgressHistory).not.toHaveBeenCalled();
+  });
+
+  it("renders entries with signed deltas and units", async () => {
+    mockGetProgressHistory.mockResolvedValue({
+      success: true,
+      data: {
+        entries: [createEntry(5, 3), createEntry(0, 5)],
+        page: 0,
+        hasMore: false,
+      },
+    });
+
+    render(
+      <ProgressHistory
+        barId="bar-1"
+        unit="$"
+        unitPosition="prefix"
+        refreshKey={0}
+      />,
+    );
+    fireEvent.click(screen.getByText("Show history"));
+
+    expect(await screen.findByText("-$2")).toBeInTheDocument();
+    expect(screen.getByText("+$5")).toBeInTheDocument();
+    expect(mockGetProgressHistory).toHaveBeenCalledWith("bar-1", 0);
+    expect(screen.queryByText("Load more")).not.toBeInTheDocument();
+  });
+
+  it("loads the next page when more entries exist", async () => {
+    mockGetProgressHistory
+      .mockResolvedValueOnce({
+        success: true,
+        data: { entries: [createEntry(1, 2)], page: 0, hasMore: true },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: { entries: [createEntry(0, 1)], page: 1, hasMore: false },
+      });
+
+    render(<ProgressHistory barId="bar-1" refreshKey={0} />);
+    fireEvent.click(screen.getByText("Show history"));
+    fireEvent.click(await screen.findByText("Load more"));
+
+    await waitFor(() => {
+      expect(mockGetProgressHistory).toHaveBeenLastCalledWith("bar-1", 1);
+    });
+    expect(await screen.findAllByText("+1")).toHaveLength(2);
+  });
+
+  it("shows an empty state when no updates were recorded", async () => {
+    mockGetProgressHistory.mockResolvedValue({
+      success: true,
+      data: { entries: [], page: 0, hasMore: false },
+    });
+
+    render(<ProgressHistory barId="bar-1" refreshKey={0} />);
+    fireEvent.click(screen.getByText("Show history"));
+
+    expect(
+      await screen.findByText("No updates recorded yet."),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,101 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import type { ProgressBar } from "@/db/schema";
+import { SearchBox } from "../SearchBox";
+import { SearchResults } from "../SearchResults";
+
+const runBar: ProgressBar = {
+  id: "run-1",
+  userId: "test-user",
+  categoryId: null,
+  title: "Morning run",
+  description: "Run before work",
+  currentValue: 4,
+  targetValue: 10,
+  unit: null,
+  unitPosition: null,
+  direction: "up",
+  startValue: 0,
+  stepSize: 1,
+  allowOverflow: false,
+  targetReachedAt: null,
+  barType: "manual",
+  startDate: null,
+  targetDate: null,
+  timeBasedType: null,
+  isCompleted: false,
+  isOverdue: false,
+  completedAt: null,
+  archivedAt: null,
+  deletedAt: null,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  pinnedAt: null,
+  parentId: null,
+  weight: 1,
+  aggregation: null,
+  recurrence: null,
+  recurrenceDays: null,
+  periodStart: null,
+  position: 0,
+};
+
+describe("SearchResults", () => {
+  it("marks the matching words and links to the bar", () => {
+    render(
+      <SearchResults
+        query="run"
+        results={[
+          {
+            bar: runBar,
+            title: [
+              { text: "Morning ", isMatch: false },
+              { text: "run", isMatch: true },
+            ],
+            description: [
+              { text: "Run", isMatch: true },
+              { text: " before work", isMatch: false },
+            ],
+          },
+        ]}
+      />,
+    );
+
+    const link = screen.getByRole("link");
+    expect(link).toHaveAttribute("href", "/#bar-run-1");
+    expect(link).toHaveTextContent("Morning runRun before work40%");
+    expect(screen.getAllByRole("mark").map((mark) => mark.textContent)).toEqual(
+      ["run", "Run"],
+    );
+  });
+
+  it("says when nothing matches", () => {
+    render(<SearchResults query="swim" results={[]} />);
+
+    expect(
+      screen.getByText("No progress bars match “swim”."),
+    ).toBeInTheDocument();
+  });
+});
+
+describe("SearchBox", () => {
+  it("keeps the current search and offers to clear it", () => {
+    render(<SearchBox query="run" />);
+
+    expect(
+      screen.getByRole("searchbox", { name: "Search progress bars" }),
+    ).toHaveValue("run");
+    expect(screen.getByRole("link", { name: "Clear" })).toHaveAttribute(
+      "href",
+      "/",
+    );
+  });
+
+  it("has nothing to clear without a search", () => {
+    render(<SearchBox query="" />);
+
+    expect(
+      screen.queryByRole("link", { name: "Clear" }),
+    ).not.toBeInTheDocument();
+  });
+});
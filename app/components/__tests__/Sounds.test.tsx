@@ -0,0 +1,143 @@
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { updateProgress } from "@/app/actions";
+import type { ProgressBar as ProgressBarType } from "@/db/schema";
+import { audioEngine } from "@/lib/services/AudioEngine";
+import type { SoundPreferences } from "@/lib/sounds";
+import { CelebrationProvider, useCelebrations } from "../Celebrations";
+import { ProgressBar } from "../ProgressBar";
+import { SoundProvider } from "../Sounds";
+
+vi.mock("@/app/actions", () => ({
+  updateProgress: vi.fn(),
+  getProgressHistory: vi.fn(),
+}));
+
+const mockUpdateProgress = vi.mocked(updateProgress);
+
+const stepsBar: ProgressBarType = {
+  id: "steps-1",
+  userId: "test-user",
+  title: "Steps",
+  description: null,
+  currentValue: 40,
+  targetValue: 100,
+  unit: null,
+  unitPosition: null,
+  stepSize: 10,
+  barType: "manual",
+  startDate: null,
+  targetDate: null,
+  timeBasedType: null,
+  isCompleted: false,
+  isOverdue: false,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  pinnedAt: null,
+  parentId: null,
+  weight: 1,
+  aggregation: null,
+  recurrence: null,
+  recurrenceDays: null,
+  periodStart: null,
+  position: 0,
+  categoryId: null,
+  deletedAt: null,
+  archivedAt: null,
+  completedAt: null,
+  startValue: 0,
+  direction: "up",
+  targetReachedAt: null,
+  allowOverflow: false,
+};
+
+const unmuted: SoundPreferences = { muted: false, volume: 0.8 };
+
+function Bars({ bars }: { bars: ProgressBarType[] }) {
+  useCelebrations(bars, new Map());
+  return null;
+}
+
+describe("Sounds", () => {
+  let mockHidden: boolean;
+
+  beforeEach(() => {
+    mockHidden = false;
+    Object.defineProperty(document, "hidden", {
+      get: () => mockHidden,
+      configurable: true,
+    });
+    mockUpdateProgress.mockResolvedValue({ success: true, data: undefined });
+    vi.spyOn(audioEngine, "play").mockImplementation(() => {});
+    vi.spyOn(audioEngine, "setMuted");
+    vi.spyOn(audioEngine, "setVolume");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("applies the user's volume and mute to the audio engine", () => {
+    const { rerender } = render(
+      <SoundProvider preferences={unmuted}>{null}</SoundProvider>,
+    );
+    expect(audioEngine.setVolume).toHaveBeenLastCalledWith(0.8);
+    expect(audioEngine.setMuted).toHaveBeenLastCalledWith(false);
+
+    rerender(
+      <SoundProvider preferences={{ ...unmuted, muted: true }}>
+        {null}
+      </SoundProvider>,
+    );
+    expect(audioEngine.setMuted).toHaveBeenLastCalledWith(true);
+  });
+
+  it("mutes while the tab is hidden", () => {
+    render(<SoundProvider preferences={unmuted}>{null}</SoundProvider>);
+
+    act(() => {
+      mockHidden = true;
+      document.dispatchEvent(new Event("visibilitychange"));
+    });
+    expect(audioEngine.setMuted).toHaveBeenLastCalledWith(true);
+
+    act(() => {
+      mockHidden = false;
+      document.dispatchEvent(new Event("visibilitychange"));
+    });
+    expect(audioEngine.setMuted).toHaveBeenLastCalledWith(false);
+  });
+
+  it("plays the increment and decrement sounds from a card's buttons", () => {
+    render(
+      <SoundProvider preferences={unmuted}>
+        <ProgressBar bar={stepsBar} />
+      </SoundProvider>,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Add 10 items" }));
+    expect(audioEngine.play).toHaveBeenLastCalledWith("increment");
+
+    fireEvent.click(screen.getByRole("button", { name: "Subtract 10 items" }));
+    expect(audioEngine.play).toHaveBeenLastCalledWith("decrement");
+  });
+
+  it("plays the milestone and completion sounds with celebrations", () => {
+    const renderBars = (bar: ProgressBarType) => (
+      <SoundProvider preferences={unmuted}>
+        <CelebrationProvider enabled={false}>
+          <Bars bars={[bar]} />
+        </CelebrationProvider>
+      </SoundProvider>
+    );
+    const { rerender } = render(renderBars(stepsBar));
+    expect(audioEngine.play).not.toHaveBeenCalled();
+
+    rerender(renderBars({ ...stepsBar, currentValue: 50 }));
+    expect(audioEngine.play).toHaveBeenLastCalledWith("milestone");
+
+    rerender(renderBars({ ...stepsBar, currentValue: 100, isCompleted: true }));
+    expect(audioEngine.play).toHaveBeenLastCalledWith("completion");
+    expect(audioEngine.play).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,62 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { TagFilterBar } from "../TagFilterBar";
+
+describe("TagFilterBar", () => {
+  it("renders nothing without tags", () => {
+    const { container } = render(
+      <TagFilterBar tags={[]} filter={{ tags: [], match: "any" }} />,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("links each tag to the filter with it toggled", () => {
+    render(
+      <TagFilterBar
+        tags={["daily", "health", "money"]}
+        filter={{ tags: ["health"], match: "all" }}
+      />,
+    );
+
+    const health = screen.getByRole("link", { name: "#health" });
+    expect(health).toHaveAttribute("aria-current", "true");
+    expect(health).toHaveAttribute("href", "/");
+    expect(screen.getByRole("link", { name: "#daily" })).toHaveAttribute(
+      "href",
+      "/?tag=health&tag=daily&match=all",
+    );
+  });
+
+  it("switches between matching any and all tags", () => {
+    render(
+      <TagFilterBar
+        tags={["daily", "health"]}
+        filter={{ tags: ["daily", "health"], match: "any" }}
+      />,
+    );
+
+    expect(screen.getByRole("link", { name: "any tag" })).toHaveAttribute(
+      "aria-current",
+      "true",
+    );
+    expect(screen.getByRole("link", { name: "all tags" })).toHaveAttribute(
+      "href",
+      "/?tag=daily&tag=health&match=all",
+    );
+    expect(screen.getByRole("link", { name: "Clear" })).toHaveAttribute(
+      "href",
+      "/",
+    );
+  });
+
+  it("hides the match options until a tag is picked", () => {
+    render(
+      <TagFilterBar tags={["daily"]} filter={{ tags: [], match: "any" }} />,
+    );
+
+    expect(
+      screen.queryByRole("link", { name: "all tags" }),
+    ).not.toBeInTheDocument();
+  });
+});
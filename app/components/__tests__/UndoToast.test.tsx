@@ -0,0 +1,95 @@
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { UNDO_WINDOW_MS } from "@/lib/undo";
+import { UndoToastProvider, useUndoToast } from "../UndoToast";
+
+function TriggerButton({
+  onUndo,
+  expiresAt,
+}: {
+  onUndo: () => void;
+  expiresAt?: Date;
+}) {
+  const showUndoToast = useUndoToast();
+
+  return (
+    <button
+      type="button"
+      onClick={() =>
+        showUndoToast({ message: "Deleted bar", onUndo, expiresAt })
+      }
+    >
+      Delete
+    </button>
+  );
+}
+
+describe("UndoToast", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs the undo callback and hides the toast", () => {
+    const onUndo = vi.fn();
+    render(
+      <UndoToastProvider>
+        <TriggerButton onUndo={onUndo} />
+      </UndoToastProvider>,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+    expect(screen.getByText("Deleted bar")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Undo" }));
+    expect(onUndo).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText("Deleted bar")).not.toBeInTheDocument();
+  });
+
+  it("hides the toast once the undo window has passed", () => {
+    render(
+      <UndoToastProvider>
+        <TriggerButton onUndo={vi.fn()} />
+      </UndoToastProvider>,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+    act(() => {
+      vi.advanceTimersByTime(UNDO_WINDOW_MS);
+    });
+
+    expect(screen.queryByText("Deleted bar")).not.toBeInTheDocument();
+  });
+
+  it("hides the toast when the server stops accepting the undo", () => {
+    // The response took 3 seconds, so 7 are left of the server's window
+    const expiresAt = new Date(Date.now() + UNDO_WINDOW_MS - 3_000);
+    render(
+      <UndoToastProvider>
+        <TriggerButton onUndo={vi.fn()} expiresAt={expiresAt} />
+      </UndoToastProvider>,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+    act(() => {
+      vi.advanceTimersByTime(UNDO_WINDOW_MS - 3_000 - 1);
+    });
+    expect(screen.getByText("Deleted bar")).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(screen.queryByText("Deleted bar")).not.toBeInTheDocument();
+  });
+
+  it("does nothing outside a provider", () => {
+    render(<TriggerButton onUndo={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+    expect(screen.queryByText("Deleted bar")).not.toBeInTheDocument();
+  });
+});
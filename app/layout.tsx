@@ -6,8 +6,11 @@ import {
   SignUpButton,
   UserButton,
 } from "@clerk/nextjs";
+import { auth } from "@clerk/nextjs/server";
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { getXpSummary } from "@/app/actions";
+import { LevelHeader } from "@/app/components/LevelHeader";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -25,6 +28,17 @@ export const metadata: Metadata = {
   description: "Track your progress on anything",
 };
 
+// Level of the signed-in user; signed-out visitors have none
+async function UserLevel() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return null;
+  }
+
+  return <LevelHeader progress={await getXpSummary()} />;
+}
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -58,13 +72,16 @@ export default function RootLayout({
               </div>
             </SignedOut>
             <SignedIn>
-              <UserButton
-                appearance={{
-                  elements: {
-                    avatarBox: "w-10 h-10",
-                  },
-                }}
-              />
+              <div className="flex items-center gap-3">
+                <UserLevel />
+                <UserButton
+                  appearance={{
+                    elements: {
+                      avatarBox: "w-10 h-10",
+                    },
+                  }}
+                />
+              </div>
             </SignedIn>
           </header>
           {children}
@@ -1,29 +1,210 @@
-import { getProgressBars } from "@/app/actions";
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+import {
+  getCategories,
+  getCelebrationsEnabled,
+  getDashboardPreferences,
+  getPinnedBars,
+  getProgressBars,
+  getSoundPreferences,
+  getTags,
+  getTimeZone,
+  searchProgressBars,
+} from "@/app/actions";
+import { ArchivedProgressBar } from "@/app/components/ArchivedProgressBar";
+import { BarList } from "@/app/components/BarList";
+import { CategoryManager } from "@/app/components/CategoryManager";
+import { CategorySection } from "@/app/components/CategorySection";
+import { CelebrationProvider } from "@/app/components/Celebrations";
 import { CreateBarForm } from "@/app/components/CreateBarForm";
-import { ProgressBar } from "@/app/components/ProgressBar";
+import { DashboardControls } from "@/app/components/DashboardControls";
+import { EffectSettings } from "@/app/components/EffectSettings";
+import { PinnedStrip } from "@/app/components/PinnedStrip";
+import { SearchBox } from "@/app/components/SearchBox";
+import { SearchResults } from "@/app/components/SearchResults";
+import { SoundProvider } from "@/app/components/Sounds";
+import { TagFilterBar } from "@/app/components/TagFilterBar";
+import { TimeZoneSync } from "@/app/components/TimeZoneSync";
+import { UndoToastProvider } from "@/app/components/UndoToast";
+import { getAggregateProgress, groupBarsByCategory } from "@/lib/categories";
+import { MAX_PINNED_BARS } from "@/lib/dashboard";
+import { parseTagFilter, type TagFilterParams } from "@/lib/tags";
 
-export default async function Home() {
-  const bars = await getProgressBars();
+function ViewLink({
+  href,
+  isActive,
+  children,
+}: {
+  href: string;
+  isActive: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <Link
+      href={href}
+      aria-current={isActive ? "page" : undefined}
+      className={`rounded-lg px-3 py-1 text-sm font-medium transition-colors ${isActive ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900" : "text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"}`}
+    >
+      {children}
+    </Link>
+  );
+}
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ view?: string; q?: string } & TagFilterParams>;
+}) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return (
+      <div className="flex min-h-screen items-start justify-center bg-zinc-50 py-12 font-sans dark:bg-black">
+        <main className="w-full max-w-xl px-4">
+          <h1 className="mb-8 text-center text-3xl font-bold tracking-tight text-zinc-900 dark:text-zinc-100">
+            Progress Bars
+          </h1>
+          <p className="text-center text-zinc-500 dark:text-zinc-400">
+            Sign in to see and track your progress bars.
+          </p>
+        </main>
+      </div>
+    );
+  }
+
+  const { view, q, ...tagParams } = await searchParams;
+  const showArchived = view === "archived";
+  const query = typeof q === "string" ? q.trim() : "";
+  const tagFilter = parseTagFilter(tagParams);
+  const preferences = await getDashboardPreferences();
+  const [
+    bars,
+    categories,
+    tags,
+    pinnedBars,
+    searchResults,
+    timeZone,
+    celebrationsEnabled,
+    soundPreferences,
+  ] = await Promise.all([
+    getProgressBars({
+      archived: showArchived,
+      tagFilter,
+      sort: preferences.sort,
+    }),
+    getCategories(),
+    getTags(),
+    getPinnedBars(),
+    query && !showArchived ? searchProgressBars(query) : null,
+    getTimeZone(),
+    getCelebrationsEnabled(),
+    getSoundPreferences(),
+  ]);
+  const isFiltered = tagFilter.tags.length > 0;
+  const canPin = pinnedBars.length < MAX_PINNED_BARS;
+  const compositeBars = bars.filter((bar) => bar.barType === "composite");
 
   return (
     <div className="flex min-h-screen items-start justify-center bg-zinc-50 py-12 font-sans dark:bg-black">
-      <main className="w-full max-w-xl px-4">
+      <main
+        className={`w-full px-4 ${preferences.view === "grid" && !showArchived ? "max-w-4xl" : "max-w-xl"}`}
+      >
         <h1 className="mb-8 text-center text-3xl font-bold tracking-tight text-zinc-900 dark:text-zinc-100">
           Progress Bars
         </h1>
 
-        <div className="flex flex-col gap-4">
-          {bars.map((bar) => (
-            <ProgressBar key={bar.id} bar={bar} />
-          ))}
-          <CreateBarForm />
-        </div>
+        <TimeZoneSync timeZone={timeZone} />
+        <UndoToastProvider>
+          <SoundProvider preferences={soundPreferences}>
+            <CelebrationProvider enabled={celebrationsEnabled}>
+              <nav className="mb-4 flex justify-center gap-2">
+                <ViewLink href="/" isActive={!showArchived}>
+                  Active
+                </ViewLink>
+                <ViewLink href="/?view=archived" isActive={showArchived}>
+                  Archived
+                </ViewLink>
+                <ViewLink href="/badges" isActive={false}>
+                  Badges
+                </ViewLink>
+              </nav>
 
-        {bars.length === 0 && (
-          <p className="mt-4 text-center text-zinc-500 dark:text-zinc-400">
-            No progress bars yet. Create one above!
-          </p>
-        )}
+              {showArchived ? (
+                <div className="flex flex-col gap-4">
+                  {bars.map((bar) => (
+                    <ArchivedProgressBar key={bar.id} bar={bar} />
+                  ))}
+                  {bars.length === 0 && (
+                    <p className="text-center text-zinc-500 dark:text-zinc-400">
+                      No archived progress bars.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-col gap-4">
+                    <PinnedStrip bars={pinnedBars} />
+                    <SearchBox query={query} />
+                    {searchResults ? (
+                      <SearchResults query={query} results={searchResults} />
+                    ) : (
+                      <>
+                        <CategoryManager categories={categories} />
+                        <TagFilterBar tags={tags} filter={tagFilter} />
+                        <DashboardControls preferences={preferences} />
+                        <EffectSettings
+                          celebrationsEnabled={celebrationsEnabled}
+                          sound={soundPreferences}
+                        />
+                        {categories.length === 0 ? (
+                          <BarList
+                            bars={bars}
+                            sort={preferences.sort}
+                            view={preferences.view}
+                            parents={compositeBars}
+                            canPin={canPin}
+                          />
+                        ) : (
+                          groupBarsByCategory(categories, bars).map((group) => (
+                            <CategorySection
+                              key={group.category?.id ?? "uncategorized"}
+                              name={group.category?.name ?? "Uncategorized"}
+                              barCount={group.bars.length}
+                              aggregateProgress={getAggregateProgress(
+                                group.bars,
+                              )}
+                            >
+                              <BarList
+                                bars={group.bars}
+                                sort={preferences.sort}
+                                view={preferences.view}
+                                categories={categories}
+                                parents={compositeBars}
+                                canPin={canPin}
+                              />
+                            </CategorySection>
+                          ))
+                        )}
+                      </>
+                    )}
+                    <CreateBarForm
+                      categories={categories}
+                      parents={compositeBars}
+                    />
+                  </div>
+
+                  {bars.length === 0 && !searchResults && (
+                    <p className="mt-4 text-center text-zinc-500 dark:text-zinc-400">
+                      {isFiltered
+                        ? "No progress bars match these tags."
+                        : "No progress bars yet. Create one above!"}
+                    </p>
+                  )}
+                </>
+              )}
+            </CelebrationProvider>
+          </SoundProvider>
+        </UndoToastProvider>
       </main>
     </div>
   );
@@ -1,25 +1,72 @@
 import {
+  type AnySQLiteColumn,
   index,
   integer,
+  primaryKey,
   real,
   sqliteTable,
   text,
+  uniqueIndex,
 } from "drizzle-orm/sqlite-core";
 
+/**
+ * Placeholder owner assigned to bars that predate per-user ownership.
+ * scripts/migrate.ts reassigns them to DEFAULT_USER_ID when it is set.
+ */
+export const UNASSIGNED_USER_ID = "unassigned";
+
+export const categories = sqliteTable(
+  "categories",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user id of the owner
+    name: text("name").notNull(),
+    position: integer("position").notNull(), // Order on the dashboard
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userPositionIdx: index("idx_categories_user_position").on(
+      table.userId,
+      table.position,
+    ),
+    userNameIdx: uniqueIndex("idx_categories_user_name").on(
+      table.userId,
+      table.name,
+    ),
+  }),
+);
+
+// Titles and descriptions are also indexed in the progress_bars_fts FTS5
+// table, which drizzle-kit cannot describe; it and the triggers that keep
+// it in sync are created by the hand-written 0016_bar_search migration
 export const progressBars = sqliteTable(
   "progress_bars",
   {
     id: text("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user id of the owner
+    // Bars without a category are shown as Uncategorized
+    categoryId: text("category_id").references(() => categories.id, {
+      onDelete: "set null",
+    }),
     title: text("title").notNull(),
     description: text("description"),
     currentValue: real("current_value").notNull().default(0),
     targetValue: real("target_value").notNull(),
     unit: text("unit"),
     unitPosition: text("unit_position"),
+    direction: text("direction").notNull().default("up"), // 'up' | 'down' (burn-down)
+    startValue: real("start_value").notNull().default(0), // Where a manual bar starts counting from
+    stepSize: real("step_size").notNull().default(1), // Amount moved by +/- on manual bars
+    allowOverflow: integer("allow_overflow", { mode: "boolean" })
+      .notNull()
+      .default(false), // Manual bars may count past their target
+    // When a manual bar first reached its target
+    targetReachedAt: integer("target_reached_at", { mode: "timestamp_ms" }),
     createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
     updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
     // Time-based fields
-    barType: text("bar_type").notNull().default("manual"),
+    barType: text("bar_type").notNull().default("manual"), // 'manual' | 'time-based' | 'composite'
     startDate: text("start_date"), // ISO 8601 format
     targetDate: text("target_date"), // ISO 8601 format
     timeBasedType: text("time_based_type"), // 'count-up' | 'count-down' | 'arrival-date'
@@ -29,9 +76,44 @@ export const progressBars = sqliteTable(
     isOverdue: integer("is_overdue", { mode: "boolean" })
       .notNull()
       .default(false),
+    // When the bar was last completed; cleared when it is reopened
+    completedAt: integer("completed_at", { mode: "timestamp_ms" }),
+    // Archived bars are hidden from the active view until restored
+    archivedAt: integer("archived_at", { mode: "timestamp_ms" }),
+    // Deleted bars can be restored until the undo window passes
+    deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+    position: integer("position").notNull().default(0), // Custom order on the dashboard
+    // Pinned bars are shown in a strip at the top of the dashboard
+    pinnedAt: integer("pinned_at", { mode: "timestamp_ms" }),
+    // Recurring manual bars reset to their start value at each period boundary
+    recurrence: text("recurrence"), // null | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom'
+    recurrenceDays: integer("recurrence_days"), // Period length of custom recurrences
+    // Start of the period a recurring bar is currently counting
+    periodStart: integer("period_start", { mode: "timestamp_ms" }),
+    // Composite bar this bar counts towards
+    parentId: text("parent_id").references(
+      (): AnySQLiteColumn => progressBars.id,
+      { onDelete: "set null" },
+    ),
+    weight: real("weight").notNull().default(1), // Share of a weighted average parent
+    aggregation: text("aggregation"), // 'average' | 'sum' for composite bars
   },
   (table) => ({
+    userIdx: index("idx_progress_bars_user").on(table.userId),
+    positionIdx: index("idx_progress_bars_position").on(
+      table.userId,
+      table.position,
+    ),
+    archivedIdx: index("idx_progress_bars_archived").on(
+      table.userId,
+      table.archivedAt,
+    ),
     typeIdx: index("idx_progress_bars_type").on(table.barType),
+    parentIdx: index("idx_progress_bars_parent").on(table.parentId),
+    completedIdx: index("idx_progress_bars_completed").on(
+      table.userId,
+      table.isCompleted,
+    ),
     datesIdx: index("idx_progress_bars_dates").on(
       table.startDate,
       table.targetDate,
@@ -39,5 +121,153 @@ export const progressBars = sqliteTable(
   }),
 );
 
+export const progressHistory = sqliteTable(
+  "progress_history",
+  {
+    id: text("id").primaryKey(),
+    barId: text("bar_id")
+      .notNull()
+      .references(() => progressBars.id, { onDelete: "cascade" }),
+    previousValue: real("previous_value").notNull(),
+    newValue: real("new_value").notNull(),
+    delta: real("delta").notNull(),
+    source: text("source").notNull().default("manual"), // 'manual' | 'undo' | 'reset'
+    // Set once the change has been reverted by an undo
+    undoneAt: integer("undone_at", { mode: "timestamp_ms" }),
+    // Millisecond precision keeps rapid successive updates in order
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    barIdx: index("idx_progress_history_bar").on(table.barId, table.createdAt),
+  }),
+);
+
+// Final value of each ended period of a recurring bar
+export const barPeriods = sqliteTable(
+  "bar_periods",
+  {
+    id: text("id").primaryKey(),
+    barId: text("bar_id")
+      .notNull()
+      .references(() => progressBars.id, { onDelete: "cascade" }),
+    startsAt: integer("starts_at", { mode: "timestamp_ms" }).notNull(),
+    endsAt: integer("ends_at", { mode: "timestamp_ms" }).notNull(),
+    finalValue: real("final_value").notNull(),
+    targetValue: real("target_value").notNull(), // Target at the time the period ended
+    isCompleted: integer("is_completed", { mode: "boolean" }).notNull(),
+  },
+  (table) => ({
+    barIdx: index("idx_bar_periods_bar").on(table.barId, table.startsAt),
+  }),
+);
+
+// Intermediate goals on the way to a bar's target
+export const milestones = sqliteTable(
+  "milestones",
+  {
+    id: text("id").primaryKey(),
+    barId: text("bar_id")
+      .notNull()
+      .references(() => progressBars.id, { onDelete: "cascade" }),
+    label: text("label"), // Shown instead of the threshold when set
+    kind: text("kind").notNull(), // 'value' | 'percentage' for manual bars, 'date' for time-based bars
+    value: real("value"), // Value or percentage of the goal to reach
+    date: integer("date", { mode: "timestamp_ms" }), // Day a time-based bar reaches the milestone
+    // When the bar first reached the milestone
+    reachedAt: integer("reached_at", { mode: "timestamp_ms" }),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    barIdx: index("idx_milestones_bar").on(table.barId),
+  }),
+);
+
+// XP awarded to a user, one row per award; rows outlive the bar that
+// earned them so deleting a bar keeps its XP
+export const xpEvents = sqliteTable(
+  "xp_events",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user id of the owner
+    barId: text("bar_id").references(() => progressBars.id, {
+      onDelete: "set null",
+    }),
+    reason: text("reason").notNull(), // 'progress' | 'completion'
+    amount: integer("amount").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    userIdx: index("idx_xp_events_user").on(table.userId),
+    barIdx: index("idx_xp_events_bar").on(table.barId, table.createdAt),
+  }),
+);
+
+// Achievements a user has unlocked; each is unlocked once and kept even if
+// the bars that earned it are gone
+export const achievements = sqliteTable(
+  "achievements",
+  {
+    userId: text("user_id").notNull(), // Clerk user id of the owner
+    achievementId: text("achievement_id").notNull(), // Id of a rule in lib/achievements.ts
+    unlockedAt: integer("unlocked_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.userId, table.achievementId] }),
+  }),
+);
+
+export const tags = sqliteTable(
+  "tags",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user id of the owner
+    name: text("name").notNull(), // Lowercase, without spaces
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userNameIdx: uniqueIndex("idx_tags_user_name").on(table.userId, table.name),
+  }),
+);
+
+export const barTags = sqliteTable(
+  "bar_tags",
+  {
+    barId: text("bar_id")
+      .notNull()
+      .references(() => progressBars.id, { onDelete: "cascade" }),
+    tagId: text("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.barId, table.tagId] }),
+    tagIdx: index("idx_bar_tags_tag").on(table.tagId),
+  }),
+);
+
+export const userPreferences = sqliteTable("user_preferences", {
+  userId: text("user_id").primaryKey(), // Clerk user id
+  dashboardSort: text("dashboard_sort").notNull().default("created"), // 'created' | 'custom' | 'progress' | 'updated' | 'title' | 'deadline'
+  dashboardView: text("dashboard_view").notNull().default("list"), // 'list' | 'grid' | 'compact'
+  timeZone: text("time_zone"), // IANA name reported by the user's browser; streak days are counted in it
+  celebrationsEnabled: integer("celebrations_enabled", { mode: "boolean" })
+    .notNull()
+    .default(true),
+  soundMuted: integer("sound_muted", { mode: "boolean" })
+    .notNull()
+    .default(true), // Sounds are opt-in
+  soundVolume: real("sound_volume").notNull().default(0.5), // 0 to 1
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+});
+
+export type Category = typeof categories.$inferSelect;
+export type NewCategory = typeof categories.$inferInsert;
 export type ProgressBar = typeof progressBars.$inferSelect;
 export type NewProgressBar = typeof progressBars.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type BarPeriod = typeof barPeriods.$inferSelect;
+export type Milestone = typeof milestones.$inferSelect;
+export type XpEvent = typeof xpEvents.$inferSelect;
+export type UnlockedAchievement = typeof achievements.$inferSelect;
+export type ProgressHistoryEntry = typeof progressHistory.$inferSelect;
+export type NewProgressHistoryEntry = typeof progressHistory.$inferInsert;
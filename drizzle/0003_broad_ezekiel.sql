@@ -0,0 +1,27 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_progress_bars` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`title` text NOT NULL,
+	`description` text,
+	`current_value` real DEFAULT 0 NOT NULL,
+	`target_value` real NOT NULL,
+	`unit` text,
+	`unit_position` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`bar_type` text DEFAULT 'manual' NOT NULL,
+	`start_date` text,
+	`target_date` text,
+	`time_based_type` text,
+	`is_completed` integer DEFAULT false NOT NULL,
+	`is_overdue` integer DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_progress_bars`("id", "user_id", "title", "description", "current_value", "target_value", "unit", "unit_position", "created_at", "updated_at", "bar_type", "start_date", "target_date", "time_based_type", "is_completed", "is_overdue") SELECT "id", 'unassigned', "title", "description", "current_value", "target_value", "unit", "unit_position", "created_at", "updated_at", "bar_type", "start_date", "target_date", "time_based_type", "is_completed", "is_overdue" FROM `progress_bars`;--> statement-breakpoint
+DROP TABLE `progress_bars`;--> statement-breakpoint
+ALTER TABLE `__new_progress_bars` RENAME TO `progress_bars`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `idx_progress_bars_user` ON `progress_bars` (`user_id`);--> statement-breakpoint
+CREATE INDEX `idx_progress_bars_type` ON `progress_bars` (`bar_type`);--> statement-breakpoint
+CREATE INDEX `idx_progress_bars_dates` ON `progress_bars` (`start_date`,`target_date`);
@@ -0,0 +1,12 @@
+CREATE TABLE `progress_history` (
+	`id` text PRIMARY KEY NOT NULL,
+	`bar_id` text NOT NULL,
+	`previous_value` real NOT NULL,
+	`new_value` real NOT NULL,
+	`delta` real NOT NULL,
+	`source` text DEFAULT 'manual' NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`bar_id`) REFERENCES `progress_bars`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_progress_history_bar` ON `progress_history` (`bar_id`,`created_at`);
\ No newline at end of file
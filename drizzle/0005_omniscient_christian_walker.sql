@@ -0,0 +1 @@
+ALTER TABLE `progress_bars` ADD `step_size` real DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `progress_bars` ADD `allow_overflow` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `progress_bars` ADD `target_reached_at` integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `progress_bars` ADD `direction` text DEFAULT 'up' NOT NULL;--> statement-breakpoint
+ALTER TABLE `progress_bars` ADD `start_value` real DEFAULT 0 NOT NULL;
\ No newline at end of file
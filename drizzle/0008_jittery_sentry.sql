@@ -0,0 +1,2 @@
+ALTER TABLE `progress_bars` ADD `completed_at` integer;--> statement-breakpoint
+CREATE INDEX `idx_progress_bars_completed` ON `progress_bars` (`user_id`,`is_completed`);
\ No newline at end of file
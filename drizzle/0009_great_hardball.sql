@@ -0,0 +1,2 @@
+ALTER TABLE `progress_bars` ADD `archived_at` integer;--> statement-breakpoint
+CREATE INDEX `idx_progress_bars_archived` ON `progress_bars` (`user_id`,`archived_at`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `progress_bars` ADD `deleted_at` integer;--> statement-breakpoint
+ALTER TABLE `progress_history` ADD `undone_at` integer;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `categories` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`position` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_categories_user_position` ON `categories` (`user_id`,`position`);--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_categories_user_name` ON `categories` (`user_id`,`name`);--> statement-breakpoint
+ALTER TABLE `progress_bars` ADD `category_id` text REFERENCES categories(id) ON DELETE set null;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `bar_tags` (
+	`bar_id` text NOT NULL,
+	`tag_id` text NOT NULL,
+	PRIMARY KEY(`bar_id`, `tag_id`),
+	FOREIGN KEY (`bar_id`) REFERENCES `progress_bars`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tag_id`) REFERENCES `tags`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_bar_tags_tag` ON `bar_tags` (`tag_id`);--> statement-breakpoint
+CREATE TABLE `tags` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_tags_user_name` ON `tags` (`user_id`,`name`);
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `user_preferences` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`dashboard_sort` text DEFAULT 'created' NOT NULL,
+	`dashboard_view` text DEFAULT 'list' NOT NULL,
+	`updated_at` integer NOT NULL
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `progress_bars` ADD `position` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_progress_bars_position` ON `progress_bars` (`user_id`,`position`);
\ No newline at end of file
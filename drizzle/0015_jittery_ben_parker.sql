@@ -0,0 +1 @@
+ALTER TABLE `progress_bars` ADD `pinned_at` integer;
\ No newline at end of file
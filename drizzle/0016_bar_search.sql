@@ -0,0 +1,21 @@
+-- Full-text index of bar titles and descriptions, kept in sync by triggers.
+-- Rows are keyed by bar id rather than rowid, which SQLite may renumber.
+CREATE VIRTUAL TABLE `progress_bars_fts` USING fts5(
+	`bar_id` UNINDEXED,
+	`title`,
+	`description`,
+	tokenize = 'unicode61 remove_diacritics 2'
+);--> statement-breakpoint
+INSERT INTO `progress_bars_fts` (`bar_id`, `title`, `description`)
+	SELECT `id`, `title`, `description` FROM `progress_bars`;--> statement-breakpoint
+CREATE TRIGGER `progress_bars_fts_insert` AFTER INSERT ON `progress_bars` BEGIN
+	INSERT INTO `progress_bars_fts` (`bar_id`, `title`, `description`)
+		VALUES (new.`id`, new.`title`, new.`description`);
+END;--> statement-breakpoint
+CREATE TRIGGER `progress_bars_fts_update` AFTER UPDATE OF `title`, `description` ON `progress_bars` BEGIN
+	UPDATE `progress_bars_fts` SET `title` = new.`title`, `description` = new.`description`
+		WHERE `bar_id` = old.`id`;
+END;--> statement-breakpoint
+CREATE TRIGGER `progress_bars_fts_delete` AFTER DELETE ON `progress_bars` BEGIN
+	DELETE FROM `progress_bars_fts` WHERE `bar_id` = old.`id`;
+END;
@@ -0,0 +1,15 @@
+CREATE TABLE `bar_periods` (
+	`id` text PRIMARY KEY NOT NULL,
+	`bar_id` text NOT NULL,
+	`starts_at` integer NOT NULL,
+	`ends_at` integer NOT NULL,
+	`final_value` real NOT NULL,
+	`target_value` real NOT NULL,
+	`is_completed` integer NOT NULL,
+	FOREIGN KEY (`bar_id`) REFERENCES `progress_bars`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_bar_periods_bar` ON `bar_periods` (`bar_id`,`starts_at`);--> statement-breakpoint
+ALTER TABLE `progress_bars` ADD `recurrence` text;--> statement-breakpoint
+ALTER TABLE `progress_bars` ADD `recurrence_days` integer;--> statement-breakpoint
+ALTER TABLE `progress_bars` ADD `period_start` integer;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `milestones` (
+	`id` text PRIMARY KEY NOT NULL,
+	`bar_id` text NOT NULL,
+	`label` text,
+	`kind` text NOT NULL,
+	`value` real,
+	`date` integer,
+	`reached_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`bar_id`) REFERENCES `progress_bars`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_milestones_bar` ON `milestones` (`bar_id`);
\ No newline at end of file
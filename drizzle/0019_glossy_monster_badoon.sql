@@ -0,0 +1,4 @@
+ALTER TABLE `progress_bars` ADD `parent_id` text REFERENCES progress_bars(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `progress_bars` ADD `weight` real DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `progress_bars` ADD `aggregation` text;--> statement-breakpoint
+CREATE INDEX `idx_progress_bars_parent` ON `progress_bars` (`parent_id`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `xp_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`bar_id` text,
+	`reason` text NOT NULL,
+	`amount` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`bar_id`) REFERENCES `progress_bars`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_xp_events_user` ON `xp_events` (`user_id`);--> statement-breakpoint
+CREATE INDEX `idx_xp_events_bar` ON `xp_events` (`bar_id`,`created_at`);
\ No newline at end of file
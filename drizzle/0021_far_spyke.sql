@@ -0,0 +1,6 @@
+CREATE TABLE `achievements` (
+	`user_id` text NOT NULL,
+	`achievement_id` text NOT NULL,
+	`unlocked_at` integer NOT NULL,
+	PRIMARY KEY(`user_id`, `achievement_id`)
+);
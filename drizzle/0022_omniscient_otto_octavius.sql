@@ -0,0 +1 @@
+ALTER TABLE `user_preferences` ADD `time_zone` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `user_preferences` ADD `celebrations_enabled` integer DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `user_preferences` ADD `sound_muted` integer DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE `user_preferences` ADD `sound_volume` real DEFAULT 0.5 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * Unit tests for achievements
+ * Tests the rule registry
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  ACHIEVEMENTS,
+  type AchievementStats,
+  getEarnedAchievements,
+} from "../achievements";
+
+const noStats: AchievementStats = {
+  barsCreated: 0,
+  completions: 0,
+  longestStreak: 0,
+  countDownsFinished: 0,
+  longestCountUpYears: 0,
+};
+
+describe("achievements", () => {
+  it("should give every rule its own id", () => {
+    const ids = ACHIEVEMENTS.map((rule) => rule.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  describe("getEarnedAchievements", () => {
+    it("should earn nothing without any stats", () => {
+      expect(getEarnedAchievements(noStats)).toEqual([]);
+    });
+
+    it("should earn rules whose thresholds are reached", () => {
+      const earned = getEarnedAchievements({
+        ...noStats,
+        barsCreated: 3,
+        completions: 10,
+        longestCountUpYears: 9,
+      });
+
+      expect(earned.map((rule) => rule.id)).toEqual([
+        "first-bar",
+        "first-completion",
+        "ten-completions",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for category grouping
+ * Tests bar grouping order, the Uncategorized group and aggregate progress
+ */
+
+import { describe, expect, it } from "vitest";
+import type { Category, ProgressBar } from "@/db/schema";
+import {
+  getAggregateProgress,
+  getBarPercentage,
+  groupBarsByCategory,
+} from "../categories";
+
+function createCategory(id: string, name: string): Category {
+  return {
+    id,
+    userId: "test-user",
+    name,
+    position: 0,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+  };
+}
+
+function createBar(overrides: Partial<ProgressBar> = {}): ProgressBar {
+  return {
+    id: "bar",
+    userId: "test-user",
+    categoryId: null,
+    title: "Bar",
+    description: null,
+    currentValue: 0,
+    targetValue: 10,
+    unit: null,
+    unitPosition: null,
+    direction: "up",
+    startValue: 0,
+    stepSize: 1,
+    allowOverflow: false,
+    targetReachedAt: null,
+    barType: "manual",
+    startDate: null,
+    targetDate: null,
+    timeBasedType: null,
+    isCompleted: false,
+    isOverdue: false,
+    completedAt: null,
+    archivedAt: null,
+    deletedAt: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    pinnedAt: null,
+    parentId: null,
+    weight: 1,
+    aggregation: null,
+    recurrence: null,
+    recurrenceDays: null,
+    periodStart: null,
+    position: 0,
+    ...overrides,
+  };
+}
+
+const health = createCategory("health", "Health");
+const money = createCategory("money", "Money");
+
+describe("categories", () => {
+  describe("groupBarsByCategory", () => {
+    it("should keep category order and list empty categories", () => {
+      const run = createBar({ id: "run", categoryId: "health" });
+      const groups = groupBarsByCategory([money, health], [run]);
+
+      expect(groups).toEqual([
+        { category: money, bars: [] },
+        { category: health, bars: [run] },
+      ]);
+    });
+
+    it("should put bars without a known category last as Uncategorized", () => {
+      const loose = createBar({ id: "loose" });
+      const orphan = createBar({ id: "orphan", categoryId: "gone" });
+      const groups = groupBarsByCategory([health], [loose, orphan]);
+
+      expect(groups).toEqual([
+        { category: health, bars: [] },
+        { category: null, bars: [loose, orphan] },
+      ]);
+    });
+  });
+
+  describe("getBarPercentage", () => {
+    it("should cap overshot manual bars at 100", () => {
+      expect(getBarPercentage(createBar({ currentValue: 4 }))).toBe(40);
+      expect(
+        getBarPercentage(createBar({ currentValue: 15, allowOverflow: true })),
+      ).toBe(100);
+    });
+
+    it("should measure burn-down bars from their start", () => {
+      expect(
+        getBarPercentage(
+          createBar({
+            direction: "down",
+            startValue: 100,
+            targetValue: 0,
+            currentValue: 75,
+          }),
+        ),
+      ).toBe(25);
+    });
+
+    it("should use the stored day counts of time-based bars without dates", () => {
+      const timeBased = { barType: "time-based" as const };
+
+      expect(
+        getBarPercentage(
+          createBar({ ...timeBased, currentValue: 3, targetValue: 12 }),
+        ),
+      ).toBe(25);
+      expect(
+        getBarPercentage(
+          createBar({ ...timeBased, currentValue: 0, targetValue: 0 }),
+        ),
+      ).toBe(0);
+      expect(
+        getBarPercentage(
+          createBar({
+            ...timeBased,
+            currentValue: 0,
+            targetValue: 0,
+            isCompleted: true,
+          }),
+        ),
+      ).toBe(100);
+    });
+  });
+
+  describe("time-based bars", () => {
+    // 3 of 12 days gone by
+    const now = new Date("2025-06-04T00:00:00");
+    const dates = {
+      barType: "time-based" as const,
+      startDate: new Date("2025-06-01T00:00:00").toISOString(),
+      targetDate: new Date("2025-06-13T00:00:00").toISOString(),
+    };
+
+    it("should measure time-based bars at the given time", () => {
+      // Stored when the bar was created and never written since
+      const countUp = createBar({
+        ...dates,
+        timeBasedType: "count-up",
+        currentValue: 0,
+        targetValue: 12,
+      });
+
+      expect(getBarPercentage(countUp, now)).toBe(25);
+      expect(getBarPercentage(countUp, new Date("2025-06-20"))).toBe(100);
+    });
+
+    it("should count a count-down's days gone by, not the days left", () => {
+      // A count-down stores the days left as its current value
+      const countDown = createBar({
+        ...dates,
+        timeBasedType: "count-down",
+        currentValue: 12,
+        targetValue: 12,
+      });
+
+      expect(getBarPercentage(countDown, now)).toBe(25);
+      expect(
+        getAggregateProgress([countDown, createBar({ currentValue: 5 })], now),
+      ).toBe(37.5);
+    });
+  });
+
+  describe("getAggregateProgress", () => {
+    it("should average the capped percentage of each bar", () => {
+      expect(
+        getAggregateProgress([
+          createBar({ currentValue: 5 }),
+          createBar({ currentValue: 20, allowOverflow: true }),
+        ]),
+      ).toBe(75);
+    });
+
+    it("should be null for an empty group", () => {
+      expect(getAggregateProgress([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Property-Based Tests for celebrations
+ * However a bar's progress moves, and however often the same progress is
+ * seen again, each upward crossing of a threshold is celebrated once and
+ * completing a bar is celebrated once per completion
+ */
+
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  CELEBRATION_THRESHOLDS,
+  type CelebrationProgress,
+  CelebrationTracker,
+  getCrossedThresholds,
+} from "../celebrations";
+
+describe("celebrations Property-Based Tests", () => {
+  const percentageArb = fc.double({ min: 0, max: 100, noNaN: true });
+
+  // Progress over time, with each value possibly seen several times as
+  // re-renders and minute ticks would
+  const historyArb = fc
+    .array(
+      fc.record({
+        percentage: percentageArb,
+        repeats: fc.integer({ min: 1, max: 3 }),
+      }),
+      { minLength: 1, maxLength: 30 },
+    )
+    .map((steps) =>
+      steps.flatMap(({ percentage, repeats }) =>
+        Array.from(
+          { length: repeats },
+          (): CelebrationProgress => ({
+            barId: "bar-1",
+            percentage,
+            isCompleted: percentage >= 100,
+          }),
+        ),
+      ),
+    );
+
+  it("never celebrates progress that is seen again unchanged", () => {
+    fc.assert(
+      fc.property(historyArb, (history) => {
+        const tracker = new CelebrationTracker();
+        for (const progress of history) {
+          tracker.observe(progress);
+          expect(tracker.observe(progress)).toBeNull();
+        }
+      }),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("celebrates once for each change that crosses a threshold", () => {
+    fc.assert(
+      fc.property(historyArb, (history) => {
+        const tracker = new CelebrationTracker();
+        const celebrations = history
+          .map((progress) => tracker.observe(progress))
+          .filter((celebration) => celebration !== null);
+
+        const expected = history
+          .slice(1)
+          .filter(
+            (progress, i) =>
+              getCrossedThresholds(history[i].percentage, progress.percentage)
+                .length > 0,
+          );
+
+        expect(celebrations).toHaveLength(expected.length);
+      }),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("only celebrates thresholds between the previous and new progress", () => {
+    fc.assert(
+      fc.property(percentageArb, percentageArb, (previous, next) => {
+        const tracker = new CelebrationTracker();
+        tracker.observe({
+          barId: "bar-1",
+          percentage: previous,
+          isCompleted: false,
+        });
+        const celebration = tracker.observe({
+          barId: "bar-1",
+          percentage: next,
+          isCompleted: false,
+        });
+
+        if (celebration?.kind === "threshold") {
+          expect(CELEBRATION_THRESHOLDS).toContain(celebration.threshold);
+          expect(celebration.threshold).toBeGreaterThan(previous);
+          expect(celebration.threshold).toBeLessThanOrEqual(next);
+        } else {
+          expect(celebration).toBeNull();
+          expect(getCrossedThresholds(previous, next)).toEqual([]);
+        }
+      }),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for celebrations
+ * Tests which thresholds a change crosses, what the tracker celebrates and
+ * how confetti moves
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  CelebrationTracker,
+  createConfetti,
+  formatCelebration,
+  getCrossedThresholds,
+  stepConfetti,
+} from "../celebrations";
+
+describe("celebrations", () => {
+  describe("getCrossedThresholds", () => {
+    it("should list the thresholds moved past, lowest first", () => {
+      expect(getCrossedThresholds(10, 80)).toEqual([25, 50, 75]);
+    });
+
+    it("should count landing exactly on a threshold", () => {
+      expect(getCrossedThresholds(49, 50)).toEqual([50]);
+      expect(getCrossedThresholds(50, 60)).toEqual([]);
+    });
+
+    it("should not count moving down", () => {
+      expect(getCrossedThresholds(80, 10)).toEqual([]);
+    });
+  });
+
+  describe("CelebrationTracker", () => {
+    const seen = (percentage: number, isCompleted = false) => ({
+      barId: "bar-1",
+      percentage,
+      isCompleted,
+    });
+
+    it("should not celebrate a bar the first time it is seen", () => {
+      const tracker = new CelebrationTracker();
+
+      expect(tracker.observe(seen(100, true))).toBeNull();
+    });
+
+    it("should celebrate the highest threshold crossed", () => {
+      const tracker = new CelebrationTracker();
+      tracker.observe(seen(20));
+
+      expect(tracker.observe(seen(60))).toEqual({
+        barId: "bar-1",
+        kind: "threshold",
+        threshold: 50,
+      });
+    });
+
+    it("should celebrate a crossing once however often it is seen", () => {
+      const tracker = new CelebrationTracker();
+      tracker.observe(seen(20));
+      tracker.observe(seen(30));
+
+      expect(tracker.observe(seen(30))).toBeNull();
+      expect(tracker.observe(seen(31))).toBeNull();
+    });
+
+    it("should celebrate completion over the thresholds crossed with it", () => {
+      const tracker = new CelebrationTracker();
+      tracker.observe(seen(90));
+
+      expect(tracker.observe(seen(100, true))).toEqual({
+        barId: "bar-1",
+        kind: "completion",
+      });
+      expect(tracker.observe(seen(100, true))).toBeNull();
+    });
+
+    it("should celebrate again after a bar drops back below a threshold", () => {
+      const tracker = new CelebrationTracker();
+      tracker.observe(seen(30));
+      tracker.observe(seen(20));
+
+      expect(tracker.observe(seen(25))).toMatchObject({ threshold: 25 });
+    });
+
+    it("should track each bar on its own", () => {
+      const tracker = new CelebrationTracker();
+      tracker.observe(seen(20));
+
+      expect(
+        tracker.observe({ barId: "bar-2", percentage: 60, isCompleted: false }),
+      ).toBeNull();
+      expect(tracker.observe(seen(60))).toMatchObject({ barId: "bar-1" });
+    });
+  });
+
+  describe("formatCelebration", () => {
+    it("should describe thresholds and completions", () => {
+      expect(
+        formatCelebration(
+          { barId: "bar-1", kind: "threshold", threshold: 75 },
+          "Savings",
+        ),
+      ).toBe("Savings reached 75%!");
+      expect(
+        formatCelebration({ barId: "bar-1", kind: "completion" }, "Savings"),
+      ).toBe("Savings is complete!");
+    });
+  });
+
+  describe("confetti", () => {
+    it("should throw every particle upwards from the origin", () => {
+      let seed = 0;
+      const random = () => {
+        seed = (seed + 0.37) % 1;
+        return seed;
+      };
+
+      const particles = createConfetti(20, 100, 200, random);
+
+      expect(particles).toHaveLength(20);
+      for (const particle of particles) {
+        expect(particle).toMatchObject({ x: 100, y: 200 });
+        expect(particle.vy).toBeLessThan(0);
+      }
+    });
+
+    it("should move particles and pull them down over time", () => {
+      const [particle] = createConfetti(1, 0, 0, () => 0.5);
+      const [later] = stepConfetti([particle], 500);
+
+      expect(later.y).toBeLessThan(particle.y);
+      expect(later.vy).toBeGreaterThan(particle.vy);
+    });
+
+    it("should leave particles where they are when no time has passed", () => {
+      const particles = createConfetti(5, 10, 10, () => 0.25);
+
+      expect(stepConfetti(particles, 0)).toEqual(particles);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for composite bars
+ * Tests how children combine into a composite and that bars can't end up
+ * inside themselves
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ProgressBar } from "@/db/schema";
+import {
+  formatAggregation,
+  getCompositeValues,
+  wouldCreateCycle,
+} from "../composite";
+
+function createBar(overrides: Partial<ProgressBar> = {}): ProgressBar {
+  return {
+    id: "bar",
+    userId: "test-user",
+    categoryId: null,
+    title: "Bar",
+    description: null,
+    currentValue: 0,
+    targetValue: 10,
+    unit: null,
+    unitPosition: null,
+    direction: "up",
+    startValue: 0,
+    stepSize: 1,
+    allowOverflow: false,
+    targetReachedAt: null,
+    barType: "manual",
+    startDate: null,
+    targetDate: null,
+    timeBasedType: null,
+    isCompleted: false,
+    isOverdue: false,
+    completedAt: null,
+    archivedAt: null,
+    deletedAt: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    pinnedAt: null,
+    parentId: null,
+    weight: 1,
+    aggregation: null,
+    recurrence: null,
+    recurrenceDays: null,
+    periodStart: null,
+    position: 0,
+    ...overrides,
+  };
+}
+
+describe("composite", () => {
+  describe("getCompositeValues", () => {
+    const now = new Date("2025-06-11T00:00:00");
+
+    it("should average the progress of children by weight", () => {
+      const children = [
+        createBar({ currentValue: 10, weight: 3 }),
+        createBar({ currentValue: 0, weight: 1 }),
+      ];
+
+      expect(getCompositeValues("average", children, now)).toEqual({
+        currentValue: 75,
+        targetValue: 100,
+      });
+    });
+
+    it("should cap overshot children in an average", () => {
+      const children = [
+        createBar({ currentValue: 30, allowOverflow: true }),
+        createBar({ currentValue: 0 }),
+      ];
+
+      expect(getCompositeValues("average", children, now).currentValue).toBe(
+        50,
+      );
+    });
+
+    it("should count nested composites and undated bars by their stored values", () => {
+      const children = [
+        createBar({
+          barType: "composite",
+          aggregation: "average",
+          currentValue: 40,
+          targetValue: 100,
+        }),
+        createBar({ barType: "time-based", currentValue: 6, targetValue: 30 }),
+      ];
+
+      expect(getCompositeValues("average", children, now).currentValue).toBe(
+        30,
+      );
+    });
+
+    it("should count time-based children at the given time", () => {
+      // 10 of 20 days gone, whatever was stored when the bar was last written
+      const timeBased = createBar({
+        barType: "time-based",
+        timeBasedType: "count-down",
+        startDate: new Date("2025-06-01T00:00:00").toISOString(),
+        targetDate: new Date("2025-06-21T00:00:00").toISOString(),
+        currentValue: 20,
+        targetValue: 20,
+      });
+      const children = [timeBased, createBar({ currentValue: 0 })];
+
+      expect(getCompositeValues("average", children, now).currentValue).toBe(
+        25,
+      );
+      expect(getCompositeValues("sum", children, now)).toEqual({
+        currentValue: 10,
+        targetValue: 30,
+      });
+      expect(
+        getCompositeValues("average", children, new Date("2025-07-01"))
+          .currentValue,
+      ).toBe(50);
+    });
+
+    it("should add up how far children have come against their combined targets", () => {
+      const children = [
+        createBar({ currentValue: 300, targetValue: 1000 }),
+        createBar({ currentValue: 50, targetValue: 500 }),
+        createBar({
+          direction: "down",
+          startValue: 200,
+          currentValue: 150,
+          targetValue: 0,
+        }),
+      ];
+
+      expect(getCompositeValues("sum", children, now)).toEqual({
+        currentValue: 400,
+        targetValue: 1700,
+      });
+    });
+
+    it("should have nothing to show without children", () => {
+      expect(getCompositeValues("average", [], now)).toEqual({
+        currentValue: 0,
+        targetValue: 100,
+      });
+      expect(getCompositeValues("sum", [], now)).toEqual({
+        currentValue: 0,
+        targetValue: 0,
+      });
+    });
+  });
+
+  describe("wouldCreateCycle", () => {
+    const parentIds = new Map<string, string | null>([
+      ["year", null],
+      ["q4", "year"],
+      ["october", "q4"],
+      ["savings", "october"],
+    ]);
+
+    it("should allow moving a bar into a bar outside it", () => {
+      expect(wouldCreateCycle("savings", "q4", parentIds)).toBe(false);
+      expect(wouldCreateCycle("october", "year", parentIds)).toBe(false);
+    });
+
+    it("should refuse to put a bar inside itself or its descendants", () => {
+      expect(wouldCreateCycle("q4", "q4", parentIds)).toBe(true);
+      expect(wouldCreateCycle("year", "october", parentIds)).toBe(true);
+      expect(wouldCreateCycle("q4", "savings", parentIds)).toBe(true);
+    });
+
+    it("should stop at a loop that is already there", () => {
+      const looped = new Map<string, string | null>([
+        ["a", "b"],
+        ["b", "a"],
+      ]);
+
+      expect(wouldCreateCycle("c", "a", looped)).toBe(true);
+    });
+  });
+
+  describe("formatAggregation", () => {
+    it("should describe how children are combined", () => {
+      expect(formatAggregation("average", 3)).toBe(
+        "Weighted average of 3 bars",
+      );
+      expect(formatAggregation("sum", 1)).toBe("Sum of 1 bar");
+    });
+  });
+});
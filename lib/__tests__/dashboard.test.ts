@@ -0,0 +1,226 @@
+/**
+ * Unit tests for dashboard sorting
+ * Tests each sort option and that live progress decides time-based order
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ProgressBar } from "@/db/schema";
+import { applyPartialOrder, moveItem, sortBars } from "../dashboard";
+import { dateCalculator } from "../services/DateCalculator";
+import type { ProgressCalculation, TimeBasedProgressBar } from "../types";
+
+function createBar(overrides: Partial<ProgressBar> = {}): ProgressBar {
+  return {
+    id: "bar",
+    userId: "test-user",
+    categoryId: null,
+    title: "Bar",
+    description: null,
+    currentValue: 0,
+    targetValue: 10,
+    unit: null,
+    unitPosition: null,
+    direction: "up",
+    startValue: 0,
+    stepSize: 1,
+    allowOverflow: false,
+    targetReachedAt: null,
+    barType: "manual",
+    startDate: null,
+    targetDate: null,
+    timeBasedType: null,
+    isCompleted: false,
+    isOverdue: false,
+    completedAt: null,
+    archivedAt: null,
+    deletedAt: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    pinnedAt: null,
+    parentId: null,
+    weight: 1,
+    aggregation: null,
+    recurrence: null,
+    recurrenceDays: null,
+    periodStart: null,
+    position: 0,
+    ...overrides,
+  };
+}
+
+function createTimeBasedBar(
+  id: string,
+  startDate: string,
+  targetDate: string,
+): ProgressBar {
+  return createBar({
+    id,
+    title: id,
+    barType: "time-based",
+    timeBasedType: "count-up",
+    startDate: new Date(startDate).toISOString(),
+    targetDate: new Date(targetDate).toISOString(),
+  });
+}
+
+function liveProgressAt(bars: ProgressBar[], now: Date) {
+  const progress = new Map<string, ProgressCalculation>();
+  for (const bar of bars) {
+    const timeBased = {
+      ...bar,
+      startDate: new Date(bar.startDate ?? ""),
+      targetDate: new Date(bar.targetDate ?? ""),
+    } as TimeBasedProgressBar;
+    progress.set(bar.id, dateCalculator.calculateProgress(timeBased, now));
+  }
+  return progress;
+}
+
+const ids = (bars: ProgressBar[]) => bars.map((bar) => bar.id);
+
+describe("dashboard", () => {
+  describe("sortBars", () => {
+    const first = createBar({
+      id: "first",
+      title: "walk",
+      currentValue: 2,
+      createdAt: new Date("2025-01-01"),
+      updatedAt: new Date("2025-03-01"),
+    });
+    const second = createBar({
+      id: "second",
+      title: "Read",
+      currentValue: 8,
+      createdAt: new Date("2025-01-02"),
+      updatedAt: new Date("2025-02-01"),
+    });
+    const third = createBar({
+      id: "third",
+      title: "apples",
+      currentValue: 5,
+      createdAt: new Date("2025-01-03"),
+      updatedAt: new Date("2025-04-01"),
+    });
+    const bars = [third, first, second];
+
+    it("should sort by creation, progress, update time and title", () => {
+      expect(ids(sortBars(bars, "created"))).toEqual([
+        "first",
+        "second",
+        "third",
+      ]);
+      expect(ids(sortBars(bars, "progress"))).toEqual([
+        "second",
+        "third",
+        "first",
+      ]);
+      expect(ids(sortBars(bars, "updated"))).toEqual([
+        "third",
+        "first",
+        "second",
+      ]);
+      expect(ids(sortBars(bars, "title"))).toEqual([
+        "third",
+        "second",
+        "first",
+      ]);
+    });
+
+    it("should keep the given order for the custom order", () => {
+      expect(ids(sortBars(bars, "custom"))).toEqual([
+        "third",
+        "first",
+        "second",
+      ]);
+    });
+
+    it("should not change the given array", () => {
+      sortBars(bars, "title");
+
+      expect(ids(bars)).toEqual(["third", "first", "second"]);
+    });
+
+    it("should put bars without a deadline last", () => {
+      const now = new Date("2025-06-01T00:00:00");
+      const soon = createTimeBasedBar("soon", "2025-05-01", "2025-06-10");
+      const later = createTimeBasedBar("later", "2025-01-01", "2025-12-31");
+
+      expect(
+        ids(sortBars([first, later, soon], "deadline", new Map(), now)),
+      ).toEqual(["soon", "later", "first"]);
+    });
+
+    it("should follow live progress as time passes", () => {
+      // A short bar crosses a day boundary a minute later and overtakes a
+      // long bar whose progress stays put
+      const short = createTimeBasedBar(
+        "short",
+        "2025-06-09T00:00:00",
+        "2025-06-13T00:00:00",
+      );
+      const long = createTimeBasedBar(
+        "long",
+        "2025-06-01T12:00:00",
+        "2025-06-21T12:00:00",
+      );
+      const before = new Date("2025-06-10T23:59:30");
+      const after = new Date("2025-06-11T00:00:30");
+
+      expect(
+        ids(
+          sortBars(
+            [short, long],
+            "progress",
+            liveProgressAt([short, long], before),
+          ),
+        ),
+      ).toEqual(["long", "short"]);
+      expect(
+        ids(
+          sortBars(
+            [short, long],
+            "progress",
+            liveProgressAt([short, long], after),
+          ),
+        ),
+      ).toEqual(["short", "long"]);
+    });
+  });
+
+  describe("moveItem", () => {
+    it("should move an item up or down the list", () => {
+      expect(moveItem(["a", "b", "c", "d"], 3, 1)).toEqual([
+        "a",
+        "d",
+        "b",
+        "c",
+      ]);
+      expect(moveItem(["a", "b", "c", "d"], 0, 2)).toEqual([
+        "b",
+        "c",
+        "a",
+        "d",
+      ]);
+    });
+  });
+
+  describe("applyPartialOrder", () => {
+    it("should reorder the given ids within the places they held", () => {
+      expect(applyPartialOrder(["a", "b", "c", "d", "e"], ["d", "b"])).toEqual([
+        "a",
+        "d",
+        "c",
+        "b",
+        "e",
+      ]);
+    });
+
+    it("should take a full order as is", () => {
+      expect(applyPartialOrder(["a", "b", "c"], ["c", "a", "b"])).toEqual([
+        "c",
+        "a",
+        "b",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for manual bar progress rules
+ * Tests count-up and burn-down percentages, target checks and value ranges
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  clampManualValue,
+  getManualPercentage,
+  getManualValueRange,
+  hasReachedTarget,
+  isPastTarget,
+  type ManualProgressBar,
+} from "../manualProgress";
+
+const books: ManualProgressBar = {
+  direction: "up",
+  startValue: 0,
+  targetValue: 10,
+  allowOverflow: false,
+};
+
+const debt: ManualProgressBar = {
+  direction: "down",
+  startValue: 12000,
+  targetValue: 0,
+  allowOverflow: false,
+};
+
+const weight: ManualProgressBar = {
+  direction: "down",
+  startValue: 95,
+  targetValue: 80,
+  allowOverflow: true,
+};
+
+describe("manualProgress", () => {
+  describe("getManualPercentage", () => {
+    it("should measure count-up bars from zero", () => {
+      expect(getManualPercentage(books, 0)).toBe(0);
+      expect(getManualPercentage(books, 4)).toBe(40);
+      expect(getManualPercentage(books, 12)).toBe(120);
+    });
+
+    it("should measure the distance covered by burn-down bars", () => {
+      expect(getManualPercentage(debt, 12000)).toBe(0);
+      expect(getManualPercentage(debt, 9000)).toBe(25);
+      expect(getManualPercentage(debt, 0)).toBe(100);
+      expect(getManualPercentage(weight, 87.5)).toBe(50);
+      expect(getManualPercentage(weight, 77)).toBeCloseTo(120);
+    });
+
+    it("should never be negative", () => {
+      expect(getManualPercentage(weight, 100)).toBe(0);
+    });
+  });
+
+  describe("target checks", () => {
+    it("should compare in the bar's direction", () => {
+      expect(hasReachedTarget(books, 10)).toBe(true);
+      expect(hasReachedTarget(books, 9)).toBe(false);
+      expect(hasReachedTarget(debt, 0)).toBe(true);
+      expect(hasReachedTarget(debt, 1)).toBe(false);
+
+      expect(isPastTarget(books, 10)).toBe(false);
+      expect(isPastTarget(books, 11)).toBe(true);
+      expect(isPastTarget(weight, 80)).toBe(false);
+      expect(isPastTarget(weight, 79)).toBe(true);
+    });
+  });
+
+  describe("getManualValueRange", () => {
+    it("should run between the start and the target", () => {
+      expect(getManualValueRange(books)).toEqual({ min: 0, max: 10 });
+      expect(getManualValueRange(debt)).toEqual({ min: 0, max: 12000 });
+    });
+
+    it("should extend past the target when overflow is allowed", () => {
+      expect(getManualValueRange({ ...books, allowOverflow: true })).toEqual({
+        min: 0,
+        max: Number.POSITIVE_INFINITY,
+      });
+      expect(getManualValueRange(weight)).toEqual({ min: 0, max: 95 });
+      expect(getManualValueRange({ ...weight, allowOverflow: false })).toEqual({
+        min: 80,
+        max: 95,
+      });
+    });
+  });
+
+  describe("clampManualValue", () => {
+    it("should clamp to the range and round off floating point noise", () => {
+      expect(clampManualValue(books, 0.1 + 0.2)).toBe(0.3);
+      expect(clampManualValue(books, 11)).toBe(10);
+      expect(clampManualValue(debt, -50)).toBe(0);
+      expect(clampManualValue({ ...weight, allowOverflow: false }, 79)).toBe(
+        80,
+      );
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Unit tests for milestones
+ * Tests where milestones sit on the track, when they are reached and how
+ * they are named
+ */
+
+import { describe, expect, it } from "vitest";
+import type { Milestone, ProgressBar } from "@/db/schema";
+import {
+  formatMilestoneThreshold,
+  getMilestoneName,
+  getMilestonePosition,
+  getMilestoneTicks,
+  isMilestoneReached,
+} from "../milestones";
+
+function createBar(overrides: Partial<ProgressBar> = {}): ProgressBar {
+  return {
+    id: "bar",
+    userId: "test-user",
+    categoryId: null,
+    title: "Bar",
+    description: null,
+    currentValue: 0,
+    targetValue: 200,
+    unit: "$",
+    unitPosition: "prefix",
+    direction: "up",
+    startValue: 0,
+    stepSize: 1,
+    allowOverflow: false,
+    targetReachedAt: null,
+    barType: "manual",
+    startDate: null,
+    targetDate: null,
+    timeBasedType: null,
+    isCompleted: false,
+    isOverdue: false,
+    completedAt: null,
+    archivedAt: null,
+    deletedAt: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    pinnedAt: null,
+    parentId: null,
+    weight: 1,
+    aggregation: null,
+    recurrence: null,
+    recurrenceDays: null,
+    periodStart: null,
+    position: 0,
+    ...overrides,
+  };
+}
+
+function createMilestone(overrides: Partial<Milestone> = {}): Milestone {
+  return {
+    id: "milestone",
+    barId: "bar",
+    label: null,
+    kind: "value",
+    value: 50,
+    date: null,
+    reachedAt: null,
+    createdAt: new Date("2025-01-01"),
+    ...overrides,
+  };
+}
+
+const trip = createBar({
+  barType: "time-based",
+  timeBasedType: "arrival-date",
+  startDate: new Date("2025-01-01T00:00:00").toISOString(),
+  targetDate: new Date("2025-01-11T00:00:00").toISOString(),
+});
+
+describe("milestones", () => {
+  describe("getMilestonePosition", () => {
+    it("should place value milestones by the share of the goal they cover", () => {
+      expect(getMilestonePosition(createBar(), createMilestone())).toBe(25);
+    });
+
+    it("should measure burn-down value milestones from the start", () => {
+      const debt = createBar({
+        direction: "down",
+        startValue: 1000,
+        targetValue: 0,
+      });
+
+      expect(getMilestonePosition(debt, createMilestone({ value: 750 }))).toBe(
+        25,
+      );
+    });
+
+    it("should place percentage milestones at their percentage", () => {
+      expect(
+        getMilestonePosition(
+          createBar(),
+          createMilestone({ kind: "percentage", value: 60 }),
+        ),
+      ).toBe(60);
+    });
+
+    it("should place date milestones by the days since the start date", () => {
+      expect(
+        getMilestonePosition(
+          trip,
+          createMilestone({
+            kind: "date",
+            value: null,
+            date: new Date("2025-01-04T00:00:00"),
+          }),
+        ),
+      ).toBe(30);
+    });
+
+    it("should keep milestones on the track after the bar changes", () => {
+      expect(
+        getMilestonePosition(
+          createBar({ targetValue: 40 }),
+          createMilestone({ value: 50 }),
+        ),
+      ).toBe(100);
+      expect(
+        getMilestonePosition(
+          trip,
+          createMilestone({
+            kind: "date",
+            value: null,
+            date: new Date("2024-12-01T00:00:00"),
+          }),
+        ),
+      ).toBe(0);
+    });
+  });
+
+  describe("getMilestoneTicks", () => {
+    it("should order milestones by where they sit on the track", () => {
+      const half = createMilestone({ id: "half", kind: "percentage" });
+      const first = createMilestone({ id: "first", value: 20 });
+
+      expect(getMilestoneTicks(createBar(), [half, first])).toEqual([
+        { milestone: first, position: 10 },
+        { milestone: half, position: 50 },
+      ]);
+    });
+  });
+
+  describe("isMilestoneReached", () => {
+    const now = new Date("2025-01-05T12:00:00");
+
+    it("should reach value milestones in the bar's direction", () => {
+      const debt = createBar({
+        direction: "down",
+        startValue: 1000,
+        targetValue: 0,
+      });
+      const milestone = createMilestone({ value: 150 });
+
+      expect(isMilestoneReached(createBar(), milestone, 150, now)).toBe(true);
+      expect(isMilestoneReached(createBar(), milestone, 149, now)).toBe(false);
+      expect(isMilestoneReached(debt, milestone, 150, now)).toBe(true);
+      expect(isMilestoneReached(debt, milestone, 151, now)).toBe(false);
+    });
+
+    it("should reach percentage milestones at their share of the goal", () => {
+      const milestone = createMilestone({ kind: "percentage", value: 50 });
+
+      expect(isMilestoneReached(createBar(), milestone, 100, now)).toBe(true);
+      expect(isMilestoneReached(createBar(), milestone, 99, now)).toBe(false);
+    });
+
+    it("should reach date milestones once their day has started", () => {
+      const milestone = (date: string) =>
+        createMilestone({ kind: "date", value: null, date: new Date(date) });
+
+      expect(
+        isMilestoneReached(trip, milestone("2025-01-05T00:00:00"), 0, now),
+      ).toBe(true);
+      expect(
+        isMilestoneReached(trip, milestone("2025-01-06T00:00:00"), 0, now),
+      ).toBe(false);
+    });
+  });
+
+  describe("getMilestoneName", () => {
+    it("should use the label when there is one", () => {
+      expect(
+        getMilestoneName(
+          createBar(),
+          createMilestone({ label: "First $1,000", value: 1000 }),
+        ),
+      ).toBe("First $1,000");
+    });
+
+    it("should describe the threshold otherwise", () => {
+      const bar = createBar();
+
+      expect(getMilestoneName(bar, createMilestone({ value: 1000 }))).toBe(
+        "$1,000",
+      );
+      expect(
+        formatMilestoneThreshold(
+          bar,
+          createMilestone({ kind: "percentage", value: 25 }),
+        ),
+      ).toBe("25%");
+      expect(
+        formatMilestoneThreshold(
+          trip,
+          createMilestone({
+            kind: "date",
+            value: null,
+            date: new Date("2025-06-09T00:00:00"),
+          }),
+        ),
+      ).toBe("Jun 9, 2025");
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Property-Based Tests for recurring bar periods
+ * Periods must tile time without gaps or overlaps, start at local midnight
+ * (including across daylight saving changes) and roll over the same way
+ * however often the clock is checked
+ */
+
+import { addMinutes } from "date-fns";
+import * as fc from "fast-check";
+import { describe, it } from "vitest";
+import {
+  getNextPeriodStart,
+  getPeriodRollover,
+  getPeriodStart,
+  type RecurrenceRule,
+} from "../recurrence";
+
+describe("recurrence Property-Based Tests", () => {
+  const ruleArb: fc.Arbitrary<RecurrenceRule> = fc.oneof(
+    fc.constantFrom<RecurrenceRule>(
+      { recurrence: "daily", days: null },
+      { recurrence: "weekly", days: null },
+      { recurrence: "monthly", days: null },
+      { recurrence: "yearly", days: null },
+    ),
+    fc
+      .integer({ min: 1, max: 365 })
+      .map((days): RecurrenceRule => ({ recurrence: "custom", days })),
+  );
+
+  // Local times, so the periods cross whatever daylight saving changes the
+  // machine's time zone has
+  const dateArb = fc
+    .record({
+      year: fc.integer({ min: 2000, max: 2040 }),
+      month: fc.integer({ min: 0, max: 11 }),
+      day: fc.integer({ min: 1, max: 28 }),
+      minute: fc.integer({ min: 0, max: 24 * 60 - 1 }),
+    })
+    .map(({ year, month, day, minute }) =>
+      addMinutes(new Date(year, month, day), minute),
+    );
+
+  const isLocalMidnight = (date: Date) =>
+    date.getHours() === 0 &&
+    date.getMinutes() === 0 &&
+    date.getSeconds() === 0 &&
+    date.getMilliseconds() === 0;
+
+  it("puts every date inside the period that starts before it", () => {
+    fc.assert(
+      fc.property(ruleArb, dateArb, (rule, date) => {
+        const start = getPeriodStart(rule, date);
+        const next = getNextPeriodStart(rule, start);
+
+        return (
+          isLocalMidnight(start) &&
+          start.getTime() <= date.getTime() &&
+          date.getTime() < next.getTime()
+        );
+      }),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("tiles the time between the stored start and now with periods", () => {
+    fc.assert(
+      fc.property(
+        ruleArb,
+        dateArb,
+        fc.integer({ min: 0, max: 3 * 366 * 24 * 60 }),
+        (rule, createdAt, minutesLater) => {
+          const periodStart = getPeriodStart(rule, createdAt);
+          const now = addMinutes(createdAt, minutesLater);
+          const { ended, currentStart } = getPeriodRollover(
+            rule,
+            periodStart,
+            now,
+          );
+
+          let expectedStart = periodStart;
+          for (const period of ended) {
+            if (
+              period.start.getTime() !== expectedStart.getTime() ||
+              period.end.getTime() <= period.start.getTime() ||
+              period.end.getTime() > now.getTime() ||
+              !isLocalMidnight(period.end)
+            ) {
+              return false;
+            }
+            expectedStart = period.end;
+          }
+
+          return (
+            currentStart.getTime() === expectedStart.getTime() &&
+            currentStart.getTime() <= now.getTime() &&
+            now.getTime() < getNextPeriodStart(rule, currentStart).getTime()
+          );
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("rolls over the same whether the clock is checked once or twice", () => {
+    fc.assert(
+      fc.property(
+        ruleArb,
+        dateArb,
+        fc.integer({ min: 0, max: 400 * 24 * 60 }),
+        fc.integer({ min: 0, max: 400 * 24 * 60 }),
+        (rule, createdAt, firstCheck, secondCheck) => {
+          const periodStart = getPeriodStart(rule, createdAt);
+          const middle = addMinutes(createdAt, firstCheck);
+          const end = addMinutes(middle, secondCheck);
+
+          const once = getPeriodRollover(rule, periodStart, end);
+          const first = getPeriodRollover(rule, periodStart, middle);
+          const second = getPeriodRollover(rule, first.currentStart, end);
+
+          return (
+            JSON.stringify([...first.ended, ...second.ended]) ===
+              JSON.stringify(once.ended) &&
+            second.currentStart.getTime() === once.currentStart.getTime()
+          );
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+});
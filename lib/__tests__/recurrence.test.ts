@@ -0,0 +1,114 @@
+/**
+ * Unit tests for recurring bar periods
+ * Tests calendar period boundaries, custom periods and rollovers
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  formatRecurrence,
+  getNextPeriodStart,
+  getPeriodRollover,
+  getPeriodStart,
+  getRecurrenceRule,
+  type RecurrenceRule,
+} from "../recurrence";
+
+const daily: RecurrenceRule = { recurrence: "daily", days: null };
+const weekly: RecurrenceRule = { recurrence: "weekly", days: null };
+const monthly: RecurrenceRule = { recurrence: "monthly", days: null };
+const yearly: RecurrenceRule = { recurrence: "yearly", days: null };
+const everyTenDays: RecurrenceRule = { recurrence: "custom", days: 10 };
+
+describe("recurrence", () => {
+  describe("getPeriodStart", () => {
+    // Wednesday afternoon
+    const date = new Date(2025, 5, 11, 15, 30);
+
+    it("should start calendar periods at local midnight", () => {
+      expect(getPeriodStart(daily, date)).toEqual(new Date(2025, 5, 11));
+      expect(getPeriodStart(weekly, date)).toEqual(new Date(2025, 5, 9));
+      expect(getPeriodStart(monthly, date)).toEqual(new Date(2025, 5, 1));
+      expect(getPeriodStart(yearly, date)).toEqual(new Date(2025, 0, 1));
+    });
+
+    it("should start custom periods on the day the bar starts repeating", () => {
+      expect(getPeriodStart(everyTenDays, date)).toEqual(new Date(2025, 5, 11));
+    });
+  });
+
+  describe("getNextPeriodStart", () => {
+    it("should move by one period", () => {
+      const start = new Date(2025, 0, 31);
+
+      expect(getNextPeriodStart(daily, start)).toEqual(new Date(2025, 1, 1));
+      expect(getNextPeriodStart(weekly, start)).toEqual(new Date(2025, 1, 7));
+      expect(getNextPeriodStart(everyTenDays, start)).toEqual(
+        new Date(2025, 1, 10),
+      );
+      expect(getNextPeriodStart(monthly, new Date(2025, 0, 1))).toEqual(
+        new Date(2025, 1, 1),
+      );
+      expect(getNextPeriodStart(yearly, new Date(2024, 0, 1))).toEqual(
+        new Date(2025, 0, 1),
+      );
+    });
+  });
+
+  describe("getPeriodRollover", () => {
+    it("should not roll over before the period ends", () => {
+      const start = new Date(2025, 5, 1);
+
+      expect(
+        getPeriodRollover(monthly, start, new Date(2025, 5, 30, 23, 59)),
+      ).toEqual({ ended: [], currentStart: start });
+    });
+
+    it("should end the period exactly at the boundary", () => {
+      const start = new Date(2025, 5, 1);
+      const boundary = new Date(2025, 6, 1);
+
+      expect(getPeriodRollover(monthly, start, boundary)).toEqual({
+        ended: [{ start, end: boundary }],
+        currentStart: boundary,
+      });
+    });
+
+    it("should list every period that passed, oldest first", () => {
+      const { ended, currentStart } = getPeriodRollover(
+        weekly,
+        new Date(2025, 5, 2),
+        new Date(2025, 5, 20, 9),
+      );
+
+      expect(ended).toEqual([
+        { start: new Date(2025, 5, 2), end: new Date(2025, 5, 9) },
+        { start: new Date(2025, 5, 9), end: new Date(2025, 5, 16) },
+      ]);
+      expect(currentStart).toEqual(new Date(2025, 5, 16));
+    });
+  });
+
+  describe("getRecurrenceRule", () => {
+    it("should read the rule stored on a bar", () => {
+      expect(
+        getRecurrenceRule({ recurrence: "custom", recurrenceDays: 3 }),
+      ).toEqual({ recurrence: "custom", days: 3 });
+      expect(
+        getRecurrenceRule({ recurrence: null, recurrenceDays: null }),
+      ).toBeNull();
+      expect(
+        getRecurrenceRule({ recurrence: "hourly", recurrenceDays: null }),
+      ).toBeNull();
+    });
+  });
+
+  describe("formatRecurrence", () => {
+    it("should describe how often the bar resets", () => {
+      expect(formatRecurrence(weekly)).toBe("Resets weekly");
+      expect(formatRecurrence(everyTenDays)).toBe("Resets every 10 days");
+      expect(formatRecurrence({ recurrence: "custom", days: 1 })).toBe(
+        "Resets daily",
+      );
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for full-text search helpers
+ * Tests query escaping and splitting highlighted text into segments
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  parseHighlight,
+  toSearchQuery,
+} from "../search";
+
+const mark = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+
+describe("search", () => {
+  describe("toSearchQuery", () => {
+    it("should match the start of every word", () => {
+      expect(toSearchQuery("  morning   run ")).toBe('"morning"* "run"*');
+    });
+
+    it("should quote FTS5 syntax so it is searched for as text", () => {
+      expect(toSearchQuery('say "hi" OR bye*')).toBe(
+        '"say"* """hi"""* "OR"* "bye*"*',
+      );
+    });
+
+    it("should be null when there is nothing to search for", () => {
+      expect(toSearchQuery("")).toBeNull();
+      expect(toSearchQuery(" \t ")).toBeNull();
+      expect(toSearchQuery(HIGHLIGHT_START)).toBeNull();
+    });
+  });
+
+  describe("parseHighlight", () => {
+    it("should split out matches", () => {
+      expect(
+        parseHighlight(`Morning ${mark("run")} and ${mark("Run")}`),
+      ).toEqual([
+        { text: "Morning ", isMatch: false },
+        { text: "run", isMatch: true },
+        { text: " and ", isMatch: false },
+        { text: "Run", isMatch: true },
+      ]);
+    });
+
+    it("should return text without matches as one plain segment", () => {
+      expect(parseHighlight("Savings")).toEqual([
+        { text: "Savings", isMatch: false },
+      ]);
+      expect(parseHighlight("")).toEqual([]);
+    });
+
+    it("should treat an unclosed match as plain text", () => {
+      expect(parseHighlight(`a ${HIGHLIGHT_START}b`)).toEqual([
+        { text: `a ${HIGHLIGHT_START}b`, isMatch: false },
+      ]);
+    });
+  });
+});
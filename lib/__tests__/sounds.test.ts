@@ -0,0 +1,60 @@
+/**
+ * Unit tests for sounds
+ * Tests the sound effect definitions and the volume check
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  isSoundVolume,
+  SOUND_EFFECTS,
+  SOUND_TONES,
+  type SoundEffect,
+} from "../sounds";
+
+// How long a sound effect plays, until its last tone ends
+function getSoundDuration(effect: SoundEffect): number {
+  return Math.max(
+    ...SOUND_TONES[effect].map((tone) => tone.startMs + tone.durationMs),
+  );
+}
+
+describe("sounds", () => {
+  describe("SOUND_TONES", () => {
+    it.each(SOUND_EFFECTS)("should give %s audible, short tones", (effect) => {
+      const tones = SOUND_TONES[effect];
+
+      expect(tones.length).toBeGreaterThan(0);
+      for (const tone of tones) {
+        expect(tone.frequency).toBeGreaterThanOrEqual(20);
+        expect(tone.frequency).toBeLessThanOrEqual(20_000);
+        expect(tone.startMs).toBeGreaterThanOrEqual(0);
+        expect(tone.durationMs).toBeGreaterThan(0);
+      }
+      expect(getSoundDuration(effect)).toBeLessThanOrEqual(1_000);
+    });
+
+    it("should keep button clicks shorter than celebrations", () => {
+      expect(getSoundDuration("increment")).toBeLessThan(
+        getSoundDuration("milestone"),
+      );
+      expect(getSoundDuration("milestone")).toBeLessThan(
+        getSoundDuration("completion"),
+      );
+    });
+  });
+
+  describe("isSoundVolume", () => {
+    it("should accept volumes from 0 to 1", () => {
+      expect(isSoundVolume(0)).toBe(true);
+      expect(isSoundVolume(0.35)).toBe(true);
+      expect(isSoundVolume(1)).toBe(true);
+    });
+
+    it("should reject anything else", () => {
+      expect(isSoundVolume(-0.1)).toBe(false);
+      expect(isSoundVolume(1.5)).toBe(false);
+      expect(isSoundVolume(Number.NaN)).toBe(false);
+      expect(isSoundVolume("0.5")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Property-Based Tests for streaks
+ * Streaks must stay within the number of days updated, not depend on the
+ * order of updates, survive daylight saving changes and follow the user's
+ * timezone
+ */
+
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { getDayNumber, getStreak } from "../streaks";
+
+// Moment a wall clock in a timezone shows a local date and time
+function zonedTime(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute = 0,
+): Date {
+  const wanted = Date.UTC(year, month - 1, day, hour, minute);
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  });
+
+  // Walk the guess until the wall clock shows the wanted time
+  let guess = wanted;
+  for (let i = 0; i < 3; i++) {
+    const parts = format.formatToParts(new Date(guess));
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((p) => p.type === type)?.value);
+    const shown = Date.UTC(
+      part("year"),
+      part("month") - 1,
+      part("day"),
+      part("hour"),
+      part("minute"),
+    );
+    guess += wanted - shown;
+  }
+  return new Date(guess);
+}
+
+describe("streaks Property-Based Tests", () => {
+  const DST_TIME_ZONES = [
+    "America/New_York",
+    "Europe/London",
+    "Europe/Berlin",
+    "Australia/Sydney",
+    "America/Santiago",
+  ];
+
+  const timeArb = fc
+    .integer({
+      min: Date.UTC(2020, 0, 1),
+      max: Date.UTC(2030, 11, 31),
+    })
+    .map((ms) => new Date(ms));
+
+  // Runs of local days starting anywhere in the decade, so they cross
+  // every daylight saving change in it
+  const localDaysArb = fc.record({
+    timeZone: fc.constantFrom(...DST_TIME_ZONES),
+    start: fc.record({
+      year: fc.integer({ min: 2020, max: 2030 }),
+      month: fc.integer({ min: 1, max: 12 }),
+      day: fc.integer({ min: 1, max: 28 }),
+    }),
+    // Local time of the update on each day, in minutes after midnight
+    minutes: fc.array(fc.integer({ min: 0, max: 24 * 60 - 1 }), {
+      minLength: 1,
+      maxLength: 40,
+    }),
+  });
+
+  function localUpdates({
+    timeZone,
+    start,
+    minutes,
+  }: {
+    timeZone: string;
+    start: { year: number; month: number; day: number };
+    minutes: number[];
+  }) {
+    return minutes.map((minute, i) =>
+      zonedTime(
+        timeZone,
+        start.year,
+        start.month,
+        start.day + i,
+        Math.floor(minute / 60),
+        minute % 60,
+      ),
+    );
+  }
+
+  it("keeps current within longest within the number of days", () => {
+    fc.assert(
+      fc.property(
+        fc.array(timeArb, { maxLength: 60 }),
+        timeArb,
+        fc.constantFrom("UTC", ...DST_TIME_ZONES),
+        (times, now, timeZone) => {
+          const { current, longest } = getStreak(times, timeZone, now);
+          const today = getDayNumber(now, timeZone);
+          const days = new Set(
+            times
+              .map((time) => getDayNumber(time, timeZone))
+              .filter((day) => day <= today),
+          );
+
+          expect(current).toBeGreaterThanOrEqual(0);
+          expect(current).toBeLessThanOrEqual(longest);
+          expect(longest).toBeLessThanOrEqual(days.size);
+          expect(longest === 0).toBe(days.size === 0);
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("does not depend on the order or repetition of updates", () => {
+    fc.assert(
+      fc.property(
+        fc.array(timeArb, { maxLength: 40 }),
+        timeArb,
+        (times, now) => {
+          const shuffled = [...times].reverse().concat(times.slice(0, 5));
+
+          expect(getStreak(shuffled, "Europe/Berlin", now)).toEqual(
+            getStreak(times, "Europe/Berlin", now),
+          );
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("counts one update a local day as an unbroken streak across DST transitions", () => {
+    fc.assert(
+      fc.property(localDaysArb, (run) => {
+        const times = localUpdates(run);
+        const streak = getStreak(times, run.timeZone, times[times.length - 1]);
+
+        expect(streak).toEqual({
+          current: times.length,
+          longest: times.length,
+        });
+      }),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("breaks the streak on a day without an update across DST transitions", () => {
+    fc.assert(
+      fc.property(
+        localDaysArb.filter((run) => run.minutes.length >= 3),
+        fc.nat(),
+        (run, skip) => {
+          const times = localUpdates(run);
+          const skipped = 1 + (skip % (times.length - 2));
+          const kept = times.filter((_, i) => i !== skipped);
+
+          expect(
+            getStreak(kept, run.timeZone, times[times.length - 1]),
+          ).toEqual({
+            current: times.length - skipped - 1,
+            longest: Math.max(skipped, times.length - skipped - 1),
+          });
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("counts the same streak in any timezone as in UTC shifted by its offset", () => {
+    // Etc/GMT-N is N hours ahead of UTC; the sign is inverted by POSIX
+    fc.assert(
+      fc.property(
+        fc.array(timeArb, { maxLength: 40 }),
+        timeArb,
+        fc.integer({ min: -12, max: 14 }),
+        (times, now, offset) => {
+          const timeZone =
+            offset === 0
+              ? "Etc/GMT"
+              : `Etc/GMT${offset > 0 ? "-" : "+"}${Math.abs(offset)}`;
+          const shift = (time: Date) =>
+            new Date(time.getTime() + offset * 60 * 60 * 1000);
+
+          expect(getStreak(times, timeZone, now)).toEqual(
+            getStreak(times.map(shift), "UTC", shift(now)),
+          );
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("agrees between timezones when every update is at midday in both", () => {
+    // Midday UTC is the same calendar day from UTC-11 to UTC+11, so a
+    // user moving between such timezones keeps their streak
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc
+            .integer({ min: 0, max: 3650 })
+            .map((day) => new Date(Date.UTC(2020, 0, 1 + day, 12))),
+          { maxLength: 40 },
+        ),
+        fc.constantFrom(
+          "America/New_York",
+          "Europe/Berlin",
+          "Asia/Tokyo",
+          "America/Los_Angeles",
+        ),
+        (times, timeZone) => {
+          const now = new Date(Date.UTC(2030, 0, 1, 12));
+
+          expect(getStreak(times, timeZone, now)).toEqual(
+            getStreak(times, "UTC", now),
+          );
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+});
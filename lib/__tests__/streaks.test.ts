@@ -0,0 +1,249 @@
+/**
+ * Unit tests for streaks
+ * Tests that streak days are counted in the user's timezone:
+ * 1. Days follow the user's wall clock, not the server's or UTC
+ * 2. Daylight saving changes (23 and 25 hour days) neither break nor
+ *    double count a day
+ * 3. Changing timezone recounts the same updates in the new one
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TIME_ZONE,
+  formatStreak,
+  getDayNumber,
+  getStreak,
+  isTimeZone,
+} from "../streaks";
+
+// Moment a wall clock in a timezone shows a local date and time
+function zonedTime(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute = 0,
+): Date {
+  const wanted = Date.UTC(year, month - 1, day, hour, minute);
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  });
+
+  // Walk the guess until the wall clock shows the wanted time
+  let guess = wanted;
+  for (let i = 0; i < 3; i++) {
+    const parts = format.formatToParts(new Date(guess));
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((p) => p.type === type)?.value);
+    const shown = Date.UTC(
+      part("year"),
+      part("month") - 1,
+      part("day"),
+      part("hour"),
+      part("minute"),
+    );
+    guess += wanted - shown;
+  }
+  return new Date(guess);
+}
+
+describe("streaks", () => {
+  describe("getStreak", () => {
+    const now = new Date("2025-06-15T12:00:00Z");
+    const utcDay = (day: number, hour = 12) =>
+      new Date(Date.UTC(2025, 5, day, hour));
+
+    it("should have no streak without updates", () => {
+      expect(getStreak([], "UTC", now)).toEqual({ current: 0, longest: 0 });
+    });
+
+    it("should count consecutive days up to today", () => {
+      const times = [utcDay(13), utcDay(14), utcDay(15)];
+
+      expect(getStreak(times, "UTC", now)).toEqual({ current: 3, longest: 3 });
+    });
+
+    it("should keep the streak alive until today has passed without an update", () => {
+      const times = [utcDay(13), utcDay(14)];
+
+      expect(getStreak(times, "UTC", now)).toEqual({ current: 2, longest: 2 });
+    });
+
+    it("should end the streak after a whole day without an update", () => {
+      const times = [utcDay(11), utcDay(12), utcDay(13)];
+
+      expect(getStreak(times, "UTC", now)).toEqual({ current: 0, longest: 3 });
+    });
+
+    it("should count several updates on one day once", () => {
+      const times = [utcDay(15, 1), utcDay(15, 9), utcDay(15, 23)];
+
+      expect(getStreak(times, "UTC", now)).toEqual({ current: 1, longest: 1 });
+    });
+
+    it("should keep the longest of several runs", () => {
+      const times = [1, 2, 3, 4, 8, 9, 14, 15].map((day) => utcDay(day));
+
+      expect(getStreak(times, "UTC", now)).toEqual({ current: 2, longest: 4 });
+    });
+
+    it("should ignore updates on days after today", () => {
+      const times = [utcDay(15), utcDay(16), utcDay(17)];
+
+      expect(getStreak(times, "UTC", now)).toEqual({ current: 1, longest: 1 });
+    });
+
+    it("should not depend on the order of updates", () => {
+      const times = [utcDay(15), utcDay(13), utcDay(14)];
+
+      expect(getStreak(times, "UTC", now).current).toBe(3);
+    });
+  });
+
+  describe("Days follow the user's wall clock", () => {
+    // 23:30 and 00:30 UTC are the same evening in New York
+    const lateEvening = new Date("2025-06-10T23:30:00Z");
+    const pastMidnight = new Date("2025-06-11T00:30:00Z");
+    const now = new Date("2025-06-11T01:00:00Z");
+
+    it("should count two UTC days as one day in New York", () => {
+      expect(getStreak([lateEvening, pastMidnight], "UTC", now).longest).toBe(
+        2,
+      );
+      expect(
+        getStreak([lateEvening, pastMidnight], "America/New_York", now).longest,
+      ).toBe(1);
+    });
+
+    it("should split one UTC day into two days in Tokyo", () => {
+      const morning = new Date("2025-06-10T10:00:00Z");
+      const evening = new Date("2025-06-10T16:00:00Z");
+
+      expect(getStreak([morning, evening], "UTC", evening).longest).toBe(1);
+      expect(getStreak([morning, evening], "Asia/Tokyo", evening).longest).toBe(
+        2,
+      );
+    });
+
+    it("should decide whether today has passed in the user's timezone", () => {
+      // An update on the morning of the 10th; late on the 11th in Los
+      // Angeles is already the 12th in UTC
+      const times = [zonedTime("America/Los_Angeles", 2025, 6, 10, 10)];
+      const lateNextDay = zonedTime("America/Los_Angeles", 2025, 6, 11, 22);
+
+      expect(getStreak(times, "America/Los_Angeles", lateNextDay).current).toBe(
+        1,
+      );
+      expect(getStreak(times, "UTC", lateNextDay).current).toBe(0);
+    });
+  });
+
+  describe("Daylight saving changes", () => {
+    it.each([
+      // Spring forward: 23-hour days
+      ["America/New_York", 2025, 3, 9],
+      ["Europe/London", 2025, 3, 30],
+      ["Australia/Sydney", 2025, 10, 5],
+      // Fall back: 25-hour days
+      ["America/New_York", 2025, 11, 2],
+      ["Europe/London", 2025, 10, 26],
+      ["Australia/Sydney", 2025, 4, 6],
+    ])(
+      "should count a week of late-night updates around %s %i-%i-%i",
+      (timeZone, year, month, day) => {
+        for (const hour of [0, 23]) {
+          const times = Array.from({ length: 7 }, (_, i) =>
+            zonedTime(timeZone, year, month, day - 3 + i, hour, 30),
+          );
+
+          expect(getStreak(times, timeZone, times[6])).toEqual({
+            current: 7,
+            longest: 7,
+          });
+        }
+      },
+    );
+
+    it("should give consecutive day numbers across a 25-hour day", () => {
+      const before = zonedTime("America/New_York", 2025, 11, 1, 12);
+      const fallBack = zonedTime("America/New_York", 2025, 11, 2, 12);
+      const after = zonedTime("America/New_York", 2025, 11, 3, 12);
+
+      expect(getDayNumber(fallBack, "America/New_York")).toBe(
+        getDayNumber(before, "America/New_York") + 1,
+      );
+      expect(getDayNumber(after, "America/New_York")).toBe(
+        getDayNumber(fallBack, "America/New_York") + 1,
+      );
+    });
+
+    it("should not skip a day when midnight is less than 24 hours away", () => {
+      // 23:59 before the clocks go forward and 00:01 the day after
+      const times = [
+        zonedTime("Europe/London", 2025, 3, 29, 23, 59),
+        zonedTime("Europe/London", 2025, 3, 30, 0, 1),
+        zonedTime("Europe/London", 2025, 3, 31, 0, 1),
+      ];
+
+      expect(getStreak(times, "Europe/London", times[2]).longest).toBe(3);
+    });
+  });
+
+  describe("Timezone changes", () => {
+    it("should keep a daily habit going when the user moves timezone", () => {
+      // Every morning at 08:00 in Tokyo is the previous evening in Los
+      // Angeles; both are still one update a day
+      const times = [10, 11, 12, 13].map((day) =>
+        zonedTime("Asia/Tokyo", 2025, 6, day, 8),
+      );
+
+      expect(getStreak(times, "Asia/Tokyo", times[3])).toEqual({
+        current: 4,
+        longest: 4,
+      });
+      expect(getStreak(times, "America/Los_Angeles", times[3])).toEqual({
+        current: 4,
+        longest: 4,
+      });
+    });
+
+    it("should recount updates near midnight in the new timezone", () => {
+      // Just before and after midnight in Berlin, which is the same
+      // evening in New York
+      const times = [
+        zonedTime("Europe/Berlin", 2025, 6, 10, 23, 50),
+        zonedTime("Europe/Berlin", 2025, 6, 11, 0, 10),
+      ];
+
+      expect(getStreak(times, "Europe/Berlin", times[1]).longest).toBe(2);
+      expect(getStreak(times, "America/New_York", times[1]).longest).toBe(1);
+    });
+  });
+
+  describe("isTimeZone", () => {
+    it("should accept IANA timezone names", () => {
+      expect(isTimeZone("Europe/Berlin")).toBe(true);
+      expect(isTimeZone(DEFAULT_TIME_ZONE)).toBe(true);
+    });
+
+    it("should reject anything else", () => {
+      expect(isTimeZone("Mars/Olympus_Mons")).toBe(false);
+      expect(isTimeZone("")).toBe(false);
+      expect(isTimeZone(5)).toBe(false);
+    });
+  });
+
+  describe("formatStreak", () => {
+    it("should describe a streak in days", () => {
+      expect(formatStreak(1)).toBe("1-day streak");
+      expect(formatStreak(30)).toBe("30-day streak");
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for tag names and the dashboard tag filter
+ * Tests that filters survive a round trip through the URL
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  getTagFilterHref,
+  normalizeTagName,
+  parseTagFilter,
+  toggleTagFilter,
+} from "../tags";
+
+describe("tags", () => {
+  describe("normalizeTagName", () => {
+    it("should lowercase names and replace spaces with dashes", () => {
+      expect(normalizeTagName("  Deep   Work ")).toBe("deep-work");
+      expect(normalizeTagName("Health")).toBe("health");
+    });
+  });
+
+  describe("parseTagFilter", () => {
+    it("should accept one or many tags", () => {
+      expect(parseTagFilter({ tag: "health" })).toEqual({
+        tags: ["health"],
+        match: "any",
+      });
+      expect(
+        parseTagFilter({
+          tag: ["Health", "health", "daily", ""],
+          match: "all",
+        }),
+      ).toEqual({ tags: ["health", "daily"], match: "all" });
+    });
+
+    it("should match any tag unless all are asked for", () => {
+      expect(parseTagFilter({}).match).toBe("any");
+      expect(parseTagFilter({ tag: "a", match: "every" }).match).toBe("any");
+    });
+  });
+
+  describe("toggleTagFilter", () => {
+    it("should add missing tags and remove present ones", () => {
+      const filter = { tags: ["health"], match: "all" as const };
+
+      expect(toggleTagFilter(filter, "daily")).toEqual({
+        tags: ["health", "daily"],
+        match: "all",
+      });
+      expect(toggleTagFilter(filter, "health")).toEqual({
+        tags: [],
+        match: "all",
+      });
+    });
+  });
+
+  describe("getTagFilterHref", () => {
+    it("should build bookmarkable URLs that parse back to the filter", () => {
+      const filter = { tags: ["health", "deep-work"], match: "all" as const };
+      const href = getTagFilterHref(filter);
+      const params = new URLSearchParams(href.slice(2));
+
+      expect(href).toBe("/?tag=health&tag=deep-work&match=all");
+      expect(
+        parseTagFilter({
+          tag: params.getAll("tag"),
+          match: params.get("match") ?? undefined,
+        }),
+      ).toEqual(filter);
+    });
+
+    it("should leave defaults out of the URL", () => {
+      expect(getTagFilterHref({ tags: ["health"], match: "any" })).toBe(
+        "/?tag=health",
+      );
+      expect(getTagFilterHref({ tags: [], match: "all" })).toBe("/");
+    });
+  });
+});
@@ -0,0 +1,495 @@
+/**
+ * Unit tests for form input parsing
+ * Tests that untrusted FormData is turned into typed input or field errors
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ProgressBar } from "@/db/schema";
+import {
+  groupErrorsByField,
+  parseCategoryForm,
+  parseCompositeBarForm,
+  parseDateInput,
+  parseManualBarForm,
+  parseMilestoneForm,
+  parseParentFields,
+  parseTagList,
+  parseTimeBasedBarForm,
+} from "../validation";
+
+function createForm(fields: Record<string, string>) {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.set(name, value);
+  }
+  return formData;
+}
+
+describe("validation", () => {
+  describe("parseManualBarForm", () => {
+    it("should parse valid manual bar input", () => {
+      const result = parseManualBarForm(
+        createForm({
+          title: "  Savings  ",
+          description: "",
+          targetValue: "1500.50",
+          unit: "$",
+          unitPosition: "prefix",
+        }),
+      );
+
+      expect(result).toEqual({
+        isValid: true,
+        input: {
+          title: "Savings",
+          description: null,
+          targetValue: 1500.5,
+          unit: "$",
+          unitPosition: "prefix",
+          direction: "up",
+          startValue: 0,
+          stepSize: 1,
+          allowOverflow: false,
+          recurrence: null,
+          recurrenceDays: null,
+        },
+      });
+    });
+
+    it("should parse burn-down bars with a start above the target", () => {
+      const result = parseManualBarForm(
+        createForm({
+          title: "Debt",
+          direction: "down",
+          startValue: "12000",
+          targetValue: "0",
+        }),
+      );
+
+      expect(result).toMatchObject({
+        isValid: true,
+        input: { direction: "down", startValue: 12000, targetValue: 0 },
+      });
+    });
+
+    it("should require burn-down bars to start above the target", () => {
+      for (const startValue of ["", "80", "70", "abc"]) {
+        const result = parseManualBarForm(
+          createForm({
+            title: "Weight",
+            direction: "down",
+            startValue,
+            targetValue: "80",
+          }),
+        );
+
+        expect(result.isValid).toBe(false);
+        if (result.isValid) continue;
+        expect(result.errors).toEqual([
+          expect.objectContaining({ field: "startValue" }),
+        ]);
+      }
+    });
+
+    it("should reject a negative burn-down target and unknown directions", () => {
+      const negative = parseManualBarForm(
+        createForm({
+          title: "Debt",
+          direction: "down",
+          startValue: "100",
+          targetValue: "-1",
+        }),
+      );
+      const unknown = parseManualBarForm(
+        createForm({ title: "Bar", direction: "sideways", targetValue: "5" }),
+      );
+
+      expect(!negative.isValid && negative.errors[0].field).toBe("targetValue");
+      expect(!unknown.isValid && unknown.errors[0].field).toBe("direction");
+    });
+
+    it("should read the allow overflow checkbox", () => {
+      const result = parseManualBarForm(
+        createForm({ title: "Books", targetValue: "10", allowOverflow: "on" }),
+      );
+
+      expect(result.isValid && result.input.allowOverflow).toBe(true);
+    });
+
+    it("should parse a custom step size", () => {
+      const result = parseManualBarForm(
+        createForm({ title: "Run", targetValue: "42.2", stepSize: "0.5" }),
+      );
+
+      expect(result.isValid && result.input.stepSize).toBe(0.5);
+    });
+
+    it("should reject zero, negative and non-numeric step sizes", () => {
+      for (const stepSize of ["0", "-1", "abc", "Infinity"]) {
+        const result = parseManualBarForm(
+          createForm({ title: "Bar", targetValue: "10", stepSize }),
+        );
+
+        expect(result.isValid).toBe(false);
+        if (result.isValid) continue;
+        expect(result.errors).toEqual([
+          expect.objectContaining({ field: "stepSize", code: "INVALID_VALUE" }),
+        ]);
+      }
+    });
+
+    it("should parse how often the bar resets", () => {
+      const weekly = parseManualBarForm(
+        createForm({ title: "Run", targetValue: "3", recurrence: "weekly" }),
+      );
+      const custom = parseManualBarForm(
+        createForm({
+          title: "Run",
+          targetValue: "3",
+          recurrence: "custom",
+          recurrenceDays: "10",
+        }),
+      );
+
+      expect(weekly).toMatchObject({
+        isValid: true,
+        input: { recurrence: "weekly", recurrenceDays: null },
+      });
+      expect(custom).toMatchObject({
+        isValid: true,
+        input: { recurrence: "custom", recurrenceDays: 10 },
+      });
+    });
+
+    it("should reject unknown recurrences and invalid custom periods", () => {
+      const unknown = parseManualBarForm(
+        createForm({ title: "Run", targetValue: "3", recurrence: "hourly" }),
+      );
+      expect(!unknown.isValid && unknown.errors[0].field).toBe("recurrence");
+
+      for (const recurrenceDays of ["", "0", "1.5", "366"]) {
+        const result = parseManualBarForm(
+          createForm({
+            title: "Run",
+            targetValue: "3",
+            recurrence: "custom",
+            recurrenceDays,
+          }),
+        );
+
+        expect(!result.isValid && result.errors[0].field).toBe(
+          "recurrenceDays",
+        );
+      }
+    });
+
+    it("should reject non-numeric, zero and infinite targets", () => {
+      for (const targetValue of ["abc", "0", "-5", "Infinity", "1e400"]) {
+        const result = parseManualBarForm(
+          createForm({ title: "Bar", targetValue }),
+        );
+
+        expect(result.isValid).toBe(false);
+        if (result.isValid) continue;
+        expect(result.errors).toEqual([
+          expect.objectContaining({
+            field: "targetValue",
+            code: "INVALID_VALUE",
+          }),
+        ]);
+      }
+    });
+
+    it("should report every invalid field at once", () => {
+      const result = parseManualBarForm(
+        createForm({
+          title: "",
+          targetValue: "",
+          unitPosition: "middle",
+        }),
+      );
+
+      expect(result.isValid).toBe(false);
+      if (result.isValid) return;
+      expect(result.errors.map((e) => e.field)).toEqual([
+        "title",
+        "targetValue",
+        "unitPosition",
+      ]);
+    });
+  });
+
+  describe("parseTimeBasedBarForm", () => {
+    const countDownStart = new Date("2025-06-01T12:00:00");
+
+    it("should parse dates as local midnight", () => {
+      const result = parseTimeBasedBarForm(
+        createForm({
+          title: "Trip",
+          timeBasedType: "arrival-date",
+          startDate: "2025-01-01",
+          targetDate: "2025-12-31",
+        }),
+        () => countDownStart,
+      );
+
+      expect(result.isValid).toBe(true);
+      if (!result.isValid) return;
+      expect(result.input.startDate).toEqual(new Date("2025-01-01T00:00:00"));
+      expect(result.input.targetDate).toEqual(new Date("2025-12-31T00:00:00"));
+    });
+
+    it("should use the provided start for count-down bars", () => {
+      const result = parseTimeBasedBarForm(
+        createForm({
+          title: "Launch",
+          timeBasedType: "count-down",
+          targetDate: "2026-01-01",
+        }),
+        () => countDownStart,
+      );
+
+      expect(result.isValid).toBe(true);
+      if (!result.isValid) return;
+      expect(result.input.startDate).toBe(countDownStart);
+    });
+
+    it("should reject unknown types and malformed dates", () => {
+      const result = parseTimeBasedBarForm(
+        createForm({
+          title: "Bad",
+          timeBasedType: "sideways",
+          startDate: "2025-02-30x",
+          targetDate: "not-a-date",
+        }),
+        () => countDownStart,
+      );
+
+      expect(result.isValid).toBe(false);
+      if (result.isValid) return;
+      expect(result.errors.map((e) => e.code)).toEqual([
+        "INVALID_VALUE",
+        "INVALID_DATE_FORMAT",
+        "INVALID_DATE_FORMAT",
+      ]);
+    });
+  });
+
+  describe("parseCategoryForm", () => {
+    it("should trim the name and reject blank or long names", () => {
+      expect(parseCategoryForm(createForm({ name: "  Health " }))).toEqual({
+        isValid: true,
+        input: { name: "Health" },
+      });
+
+      const blank = parseCategoryForm(createForm({ name: " " }));
+      const long = parseCategoryForm(createForm({ name: "x".repeat(51) }));
+      expect(!blank.isValid && blank.errors[0].code).toBe("REQUIRED_FIELD");
+      expect(!long.isValid && long.errors[0].code).toBe("INVALID_VALUE");
+    });
+  });
+
+  describe("parseTagList", () => {
+    it("should split, normalize and dedupe tags", () => {
+      expect(
+        parseTagList(createForm({ tags: "Health, deep work,,health " })),
+      ).toEqual({ isValid: true, input: ["health", "deep-work"] });
+      expect(parseTagList(createForm({ tags: "" }))).toEqual({
+        isValid: true,
+        input: [],
+      });
+    });
+
+    it("should leave tags alone when the form has no tags field", () => {
+      expect(parseTagList(createForm({}))).toEqual({
+        isValid: true,
+        input: undefined,
+      });
+    });
+
+    it("should reject long tags and too many tags", () => {
+      const long = parseTagList(createForm({ tags: "x".repeat(31) }));
+      const many = parseTagList(
+        createForm({
+          tags: Array.from({ length: 11 }, (_, i) => `t${i}`).join(","),
+        }),
+      );
+
+      expect(!long.isValid && long.errors[0].field).toBe("tags");
+      expect(!many.isValid && many.errors[0].field).toBe("tags");
+    });
+  });
+
+  describe("parseCompositeBarForm", () => {
+    it("should parse a composite bar, averaging by default", () => {
+      expect(parseCompositeBarForm(createForm({ title: "Q4 goals" }))).toEqual({
+        isValid: true,
+        input: { title: "Q4 goals", description: null, aggregation: "average" },
+      });
+      expect(
+        parseCompositeBarForm(
+          createForm({ title: "Savings", aggregation: "sum" }),
+        ),
+      ).toMatchObject({ isValid: true, input: { aggregation: "sum" } });
+    });
+
+    it("should reject unknown aggregations", () => {
+      const result = parseCompositeBarForm(
+        createForm({ title: "Q4 goals", aggregation: "median" }),
+      );
+
+      expect(result.isValid).toBe(false);
+      if (!result.isValid) {
+        expect(result.errors[0].field).toBe("aggregation");
+      }
+    });
+  });
+
+  describe("parseParentFields", () => {
+    it("should leave the parent alone when the form has no picker", () => {
+      expect(parseParentFields(createForm({}))).toEqual({
+        isValid: true,
+        input: undefined,
+      });
+    });
+
+    it("should parse the parent and weight, with an empty choice meaning none", () => {
+      expect(
+        parseParentFields(createForm({ parentId: "q4", weight: "2.5" })),
+      ).toEqual({ isValid: true, input: { parentId: "q4", weight: 2.5 } });
+      expect(parseParentFields(createForm({ parentId: "" }))).toEqual({
+        isValid: true,
+        input: { parentId: null, weight: 1 },
+      });
+    });
+
+    it("should reject weights that are not positive or too large", () => {
+      for (const weight of ["0", "-1", "101", "heavy"]) {
+        expect(
+          parseParentFields(createForm({ parentId: "q4", weight })).isValid,
+        ).toBe(false);
+      }
+    });
+  });
+
+  describe("parseMilestoneForm", () => {
+    const savings = {
+      barType: "manual",
+      direction: "up",
+      startValue: 0,
+      targetValue: 5000,
+    } as ProgressBar;
+    const trip = {
+      barType: "time-based",
+      startDate: new Date("2025-01-01T00:00:00").toISOString(),
+      targetDate: new Date("2025-03-01T00:00:00").toISOString(),
+    } as ProgressBar;
+
+    it("should parse values and percentages for manual bars", () => {
+      expect(
+        parseMilestoneForm(
+          createForm({ label: " First $1,000 ", threshold: "1000" }),
+          savings,
+        ),
+      ).toEqual({
+        isValid: true,
+        input: {
+          label: "First $1,000",
+          kind: "value",
+          value: 1000,
+          date: null,
+        },
+      });
+      expect(
+        parseMilestoneForm(createForm({ threshold: "25 %" }), savings),
+      ).toEqual({
+        isValid: true,
+        input: { label: null, kind: "percentage", value: 25, date: null },
+      });
+    });
+
+    it("should reject milestones outside the bar's range", () => {
+      for (const threshold of ["0", "5000", "6000", "0%", "100%", "abc", ""]) {
+        const result = parseMilestoneForm(createForm({ threshold }), savings);
+        expect(result.isValid).toBe(false);
+      }
+    });
+
+    it("should accept values between the start and target of burn-down bars", () => {
+      const debt = {
+        ...savings,
+        direction: "down",
+        startValue: 1000,
+        targetValue: 0,
+      } as ProgressBar;
+
+      expect(
+        parseMilestoneForm(createForm({ threshold: "500" }), debt).isValid,
+      ).toBe(true);
+      expect(
+        parseMilestoneForm(createForm({ threshold: "1500" }), debt).isValid,
+      ).toBe(false);
+    });
+
+    it("should parse dates between the start and target of time-based bars", () => {
+      expect(
+        parseMilestoneForm(createForm({ date: "2025-02-01" }), trip),
+      ).toEqual({
+        isValid: true,
+        input: {
+          label: null,
+          kind: "date",
+          value: null,
+          date: new Date("2025-02-01T00:00:00"),
+        },
+      });
+
+      const outside = parseMilestoneForm(
+        createForm({ date: "2025-03-01" }),
+        trip,
+      );
+      expect(outside.isValid).toBe(false);
+      if (!outside.isValid) {
+        expect(outside.errors[0]).toMatchObject({
+          field: "date",
+          code: "INVALID_DATE_RANGE",
+        });
+      }
+    });
+
+    it("should limit the length of labels", () => {
+      const result = parseMilestoneForm(
+        createForm({ label: "x".repeat(51), threshold: "10" }),
+        savings,
+      );
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe("parseDateInput", () => {
+    it("should only accept yyyy-MM-dd values", () => {
+      expect(parseDateInput("2024-02-29")).toEqual(
+        new Date("2024-02-29T00:00:00"),
+      );
+      expect(parseDateInput("02/29/2024")).toBeNull();
+      expect(parseDateInput("")).toBeNull();
+    });
+  });
+
+  describe("groupErrorsByField", () => {
+    it("should keep the first message for each field", () => {
+      expect(
+        groupErrorsByField([
+          { field: "startDate", message: "First", code: "FUTURE_START_DATE" },
+          {
+            field: "startDate",
+            message: "Second",
+            code: "HISTORICAL_LIMIT_EXCEEDED",
+          },
+          { field: "targetDate", message: "Third", code: "INVALID_DATE_RANGE" },
+        ]),
+      ).toEqual({ startDate: "First", targetDate: "Third" });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Achievements users unlock by using their bars
+ * Every achievement is a declarative rule: it is unlocked once one of the
+ * user's stats reaches its threshold. Adding an achievement means adding a
+ * rule here and, if it needs a new stat, counting that stat in
+ * AchievementEngine
+ */
+
+/**
+ * What the rules are checked against, counted over all of a user's bars
+ */
+export interface AchievementStats {
+  barsCreated: number;
+  // Completed bars plus completed periods of recurring bars
+  completions: number;
+  // Most days in a row with a progress update, in the user's timezone
+  longestStreak: number;
+  // Completed time-based count-down bars
+  countDownsFinished: number;
+  // Longest span of a time-based count-up bar, in whole years
+  longestCountUpYears: number;
+}
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  stat: keyof AchievementStats;
+  threshold: number;
+}
+
+/**
+ * A rule and when the user unlocked it, or null while it is locked
+ */
+export interface AchievementStatus extends AchievementRule {
+  unlockedAt: Date | null;
+}
+
+// Ids are stored with each unlock, so they must never change
+export const ACHIEVEMENTS = [
+  {
+    id: "first-bar",
+    name: "First Steps",
+    description: "Create your first progress bar",
+    icon: "🌱",
+    stat: "barsCreated",
+    threshold: 1,
+  },
+  {
+    id: "first-completion",
+    name: "Finisher",
+    description: "Complete a progress bar",
+    icon: "🏁",
+    stat: "completions",
+    threshold: 1,
+  },
+  {
+    id: "ten-completions",
+    name: "Closer",
+    description: "Complete 10 progress bars",
+    icon: "🏆",
+    stat: "completions",
+    threshold: 10,
+  },
+  {
+    id: "thirty-day-streak",
+    name: "Unbroken",
+    description: "Update your progress 30 days in a row",
+    icon: "🔥",
+    stat: "longestStreak",
+    threshold: 30,
+  },
+  {
+    id: "count-down-zero",
+    name: "Liftoff",
+    description: "See a count-down bar reach zero",
+    icon: "🚀",
+    stat: "countDownsFinished",
+    threshold: 1,
+  },
+  {
+    id: "ten-year-count-up",
+    name: "The Long Game",
+    description: "Track a count-up bar spanning 10 years or more",
+    icon: "🗿",
+    stat: "longestCountUpYears",
+    threshold: 10,
+  },
+] as const satisfies readonly AchievementRule[];
+
+/**
+ * Rules whose thresholds the stats reach
+ */
+export function getEarnedAchievements(
+  stats: AchievementStats,
+): AchievementRule[] {
+  return ACHIEVEMENTS.filter((rule) => stats[rule.stat] >= rule.threshold);
+}
@@ -0,0 +1,23 @@
+/**
+ * Authentication helpers for server-side code
+ * Resolves the signed-in Clerk user so queries can be scoped to their owner
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { UnauthenticatedError } from "./errors";
+
+/**
+ * Get the Clerk user id for the current request
+ *
+ * @returns The signed-in user's id
+ * @throws UnauthenticatedError if no user is signed in
+ */
+export async function requireUserId(): Promise<string> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new UnauthenticatedError();
+  }
+
+  return userId;
+}
@@ -0,0 +1,119 @@
+/**
+ * Grouping of progress bars into categories on the dashboard
+ */
+
+import type { Category, ProgressBar } from "@/db/schema";
+import { getManualPercentage } from "./manualProgress";
+import { dateCalculator } from "./services/DateCalculator";
+import type { ProgressCalculation, TimeBasedProgressBar } from "./types";
+
+export interface CategoryGroup<T> {
+  // Null for the Uncategorized group
+  category: Category | null;
+  bars: T[];
+}
+
+/**
+ * Group bars under their categories
+ * Categories keep their given order and are listed even when empty; bars
+ * without a category, or whose category is missing, go into a trailing
+ * Uncategorized group that is only listed when it has bars
+ *
+ * @param categories - The user's categories in display order
+ * @param bars - Bars to group, in display order
+ * @returns One group per category followed by the Uncategorized group
+ */
+export function groupBarsByCategory<T extends Pick<ProgressBar, "categoryId">>(
+  categories: Category[],
+  bars: T[],
+): CategoryGroup<T>[] {
+  const groups = new Map<string, CategoryGroup<T>>(
+    categories.map((category) => [category.id, { category, bars: [] }]),
+  );
+  const uncategorized: CategoryGroup<T> = { category: null, bars: [] };
+
+  for (const bar of bars) {
+    const group = bar.categoryId ? groups.get(bar.categoryId) : undefined;
+    (group ?? uncategorized).bars.push(bar);
+  }
+
+  return uncategorized.bars.length > 0
+    ? [...groups.values(), uncategorized]
+    : [...groups.values()];
+}
+
+/**
+ * Progress of a time-based bar at a time, or null for other bars and
+ * time-based bars without dates
+ * The day counts stored on a time-based bar are only as current as its last
+ * write, and count-down bars store the days left rather than gone by
+ */
+export function getTimeBasedProgress(
+  bar: ProgressBar,
+  now: Date,
+): ProgressCalculation | null {
+  if (
+    bar.barType !== "time-based" ||
+    !bar.startDate ||
+    !bar.targetDate ||
+    !bar.timeBasedType
+  ) {
+    return null;
+  }
+
+  return dateCalculator.calculateProgress(
+    {
+      ...bar,
+      barType: "time-based",
+      startDate: new Date(bar.startDate),
+      targetDate: new Date(bar.targetDate),
+      timeBasedType: bar.timeBasedType as TimeBasedProgressBar["timeBasedType"],
+    },
+    now,
+  );
+}
+
+/**
+ * Percentage of a bar's goal covered, capped at 100
+ * Time-based bars are measured at the given time; composites use the values
+ * stored when their children last changed
+ */
+export function getBarPercentage(
+  bar: ProgressBar,
+  now: Date = new Date(),
+): number {
+  if (bar.barType === "manual") {
+    return Math.min(getManualPercentage(bar, bar.currentValue), 100);
+  }
+
+  const progress = getTimeBasedProgress(bar, now);
+  if (progress) {
+    return progress.percentage;
+  }
+
+  if (bar.targetValue <= 0) {
+    return bar.isCompleted ? 100 : 0;
+  }
+
+  return Math.min(Math.max((bar.currentValue / bar.targetValue) * 100, 0), 100);
+}
+
+/**
+ * Average progress of a group of bars
+ * Each bar counts equally so an overshot bar can't make up for others
+ *
+ * @param bars - Bars in the group
+ * @param now - Time to measure time-based bars at
+ * @returns Average percentage from 0 to 100, or null for an empty group
+ */
+export function getAggregateProgress(
+  bars: ProgressBar[],
+  now: Date = new Date(),
+): number | null {
+  if (bars.length === 0) {
+    return null;
+  }
+
+  const total = bars.reduce((sum, bar) => sum + getBarPercentage(bar, now), 0);
+  return total / bars.length;
+}
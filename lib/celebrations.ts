@@ -0,0 +1,176 @@
+/**
+ * Celebrations for progress crossing a quarter of the way to its target
+ * or a bar being completed
+ * The tracker compares each bar with the last time it was seen, so a
+ * crossing is celebrated once however often the same values are seen
+ * again: on re-renders, on the minute ticks of time-based bars, or by two
+ * lists showing the same bar
+ *
+ * The confetti is plain data stepped by the clock it is given; drawing it
+ * is up to the caller
+ */
+
+// Percentages celebrated when a bar's progress moves past them
+export const CELEBRATION_THRESHOLDS = [25, 50, 75, 100] as const;
+
+// How long a burst of confetti, or the message shown instead, stays up
+export const CELEBRATION_DURATION_MS = 2_500;
+
+export type CelebrationThreshold = (typeof CELEBRATION_THRESHOLDS)[number];
+
+export type Celebration =
+  | { barId: string; kind: "threshold"; threshold: CelebrationThreshold }
+  | { barId: string; kind: "completion" };
+
+/**
+ * Where a bar's progress is when it is seen
+ */
+export interface CelebrationProgress {
+  barId: string;
+  // Percentage of the goal covered, from 0 to 100
+  percentage: number;
+  isCompleted: boolean;
+}
+
+export interface ConfettiParticle {
+  x: number;
+  y: number;
+  // Pixels per second
+  vx: number;
+  vy: number;
+  rotation: number;
+  // Radians per second
+  spin: number;
+  size: number;
+  color: string;
+}
+
+const CONFETTI_COLORS = [
+  "#ec4899",
+  "#8b5cf6",
+  "#06b6d4",
+  "#22c55e",
+  "#eab308",
+  "#f97316",
+];
+
+// Pixels per second squared
+const GRAVITY = 900;
+
+// Share of a particle's speed kept each second against the air
+const DRAG_PER_SECOND = 0.3;
+
+/**
+ * Thresholds a bar's progress moved past, lowest first
+ * Only moving up crosses a threshold; landing exactly on one counts
+ */
+export function getCrossedThresholds(
+  previous: number,
+  next: number,
+): CelebrationThreshold[] {
+  return CELEBRATION_THRESHOLDS.filter(
+    (threshold) => previous < threshold && next >= threshold,
+  );
+}
+
+/**
+ * Remembers where each bar was last seen and tells what to celebrate
+ */
+export class CelebrationTracker {
+  private lastSeen = new Map<string, CelebrationProgress>();
+
+  /**
+   * Record where a bar is now
+   * The first time a bar is seen only sets where it starts from, so bars
+   * that were already past a threshold when the page loaded are quiet
+   *
+   * @returns The biggest thing to celebrate since the bar was last seen,
+   * or null; completing a bar outranks every threshold it crossed
+   */
+  observe(progress: CelebrationProgress): Celebration | null {
+    const previous = this.lastSeen.get(progress.barId);
+    this.lastSeen.set(progress.barId, progress);
+
+    if (!previous) {
+      return null;
+    }
+
+    if (progress.isCompleted && !previous.isCompleted) {
+      return { barId: progress.barId, kind: "completion" };
+    }
+
+    const threshold = getCrossedThresholds(
+      previous.percentage,
+      progress.percentage,
+    ).at(-1);
+    return threshold === undefined
+      ? null
+      : { barId: progress.barId, kind: "threshold", threshold };
+  }
+}
+
+/**
+ * What a celebration says, e.g. "Savings reached 50%!"
+ */
+export function formatCelebration(
+  celebration: Celebration,
+  title: string,
+): string {
+  return celebration.kind === "completion"
+    ? `${title} is complete!`
+    : `${title} reached ${celebration.threshold}%!`;
+}
+
+/**
+ * Confetti thrown up and outwards from a point
+ *
+ * @param count - Number of particles
+ * @param originX - Where the burst starts, in pixels
+ * @param originY - Where the burst starts, in pixels
+ * @param random - Source of numbers from 0 to 1, e.g. Math.random
+ */
+export function createConfetti(
+  count: number,
+  originX: number,
+  originY: number,
+  random: () => number,
+): ConfettiParticle[] {
+  return Array.from({ length: count }, () => {
+    // Mostly upwards, fanning out up to 60 degrees either side
+    const angle = -Math.PI / 2 + (random() - 0.5) * ((2 * Math.PI) / 3);
+    const speed = 400 + random() * 500;
+    return {
+      x: originX,
+      y: originY,
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+      rotation: random() * 2 * Math.PI,
+      spin: (random() - 0.5) * 4 * Math.PI,
+      size: 6 + random() * 6,
+      color: CONFETTI_COLORS[Math.floor(random() * CONFETTI_COLORS.length)],
+    };
+  });
+}
+
+/**
+ * Where confetti is after some time has passed
+ *
+ * @param particles - Confetti as it was
+ * @param elapsedMs - Time since then
+ */
+export function stepConfetti(
+  particles: readonly ConfettiParticle[],
+  elapsedMs: number,
+): ConfettiParticle[] {
+  const seconds = elapsedMs / 1000;
+  const drag = DRAG_PER_SECOND ** seconds;
+
+  return particles.map((particle) => ({
+    ...particle,
+    x: particle.x + particle.vx * seconds,
+    y: particle.y + particle.vy * seconds,
+    vx: particle.vx * drag,
+    vy: particle.vy * drag + GRAVITY * seconds,
+    rotation: particle.rotation + particle.spin * seconds,
+  }));
+}
@@ -0,0 +1,135 @@
+/**
+ * Composite bars, whose progress is made up of other bars
+ * A composite either averages the progress of its child bars, weighted by
+ * each child's weight, or adds up how far each child has come against the
+ * combined distance to their targets. Composites can be nested, but a bar
+ * can never end up inside itself. Time-based children move with the clock,
+ * so they are counted at a given time rather than by their stored values
+ */
+
+import type { ProgressBar } from "@/db/schema";
+import { getBarPercentage, getTimeBasedProgress } from "./categories";
+
+export const AGGREGATIONS = ["average", "sum"] as const;
+
+// Largest weight a child bar can carry in its parent's average
+export const MAX_WEIGHT = 100;
+
+export type Aggregation = (typeof AGGREGATIONS)[number];
+
+/**
+ * Values stored on a composite bar; an average runs to 100, a sum to the
+ * combined distance of its children
+ */
+export interface CompositeValues {
+  currentValue: number;
+  targetValue: number;
+}
+
+export function isAggregation(value: unknown): value is Aggregation {
+  return AGGREGATIONS.some((aggregation) => aggregation === value);
+}
+
+// Distance a child has covered and the distance to its target; manual bars
+// count from their start value in their direction, time-based bars count
+// the days gone by, and composites store theirs
+function getChildDistances(bar: ProgressBar, now: Date): CompositeValues {
+  const progress = getTimeBasedProgress(bar, now);
+  if (progress) {
+    return {
+      currentValue: (progress.percentage / 100) * progress.targetValue,
+      targetValue: progress.targetValue,
+    };
+  }
+
+  if (bar.barType !== "manual") {
+    return { currentValue: bar.currentValue, targetValue: bar.targetValue };
+  }
+
+  const sign = bar.direction === "down" ? -1 : 1;
+  return {
+    currentValue: Math.max((bar.currentValue - bar.startValue) * sign, 0),
+    targetValue: Math.abs(bar.targetValue - bar.startValue),
+  };
+}
+
+/**
+ * Compute a composite bar's values from its children
+ * Averages cap each child at 100% so an overshot child can't make up for
+ * the others; sums let it, as the total is what counts
+ *
+ * @param aggregation - How the composite combines its children
+ * @param children - Child bars to count; archived and deleted ones should
+ *   be left out by the caller
+ * @param now - Time to count time-based children at
+ * @returns The values to store on the composite
+ */
+export function getCompositeValues(
+  aggregation: Aggregation,
+  children: readonly ProgressBar[],
+  now: Date,
+): CompositeValues {
+  if (aggregation === "sum") {
+    return children
+      .map((child) => getChildDistances(child, now))
+      .reduce(
+        (total, child) => ({
+          currentValue: total.currentValue + child.currentValue,
+          targetValue: total.targetValue + child.targetValue,
+        }),
+        { currentValue: 0, targetValue: 0 },
+      );
+  }
+
+  const totalWeight = children.reduce((sum, child) => sum + child.weight, 0);
+  if (totalWeight <= 0) {
+    return { currentValue: 0, targetValue: 100 };
+  }
+
+  const weighted = children.reduce(
+    (sum, child) => sum + getBarPercentage(child, now) * child.weight,
+    0,
+  );
+  return { currentValue: weighted / totalWeight, targetValue: 100 };
+}
+
+/**
+ * Whether putting a bar inside a parent would put it inside itself
+ *
+ * @param barId - Bar being moved
+ * @param parentId - Composite bar it would become part of
+ * @param parentIds - Current parent of every bar, by id
+ * @returns True if the parent is the bar itself or one of its descendants
+ */
+export function wouldCreateCycle(
+  barId: string,
+  parentId: string,
+  parentIds: ReadonlyMap<string, string | null>,
+): boolean {
+  const visited = new Set<string>();
+  let current: string | null = parentId;
+
+  while (current !== null) {
+    // Refuse to build on an existing loop too, rather than walking it forever
+    if (current === barId || visited.has(current)) {
+      return true;
+    }
+    visited.add(current);
+    current = parentIds.get(current) ?? null;
+  }
+
+  return false;
+}
+
+/**
+ * How a composite combines its children, e.g. "Weighted average of 3 bars"
+ */
+export function formatAggregation(
+  aggregation: Aggregation,
+  childCount: number,
+): string {
+  const bars = `${childCount} ${childCount === 1 ? "bar" : "bars"}`;
+  return aggregation === "sum"
+    ? `Sum of ${bars}`
+    : `Weighted average of ${bars}`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Sorting and layout options for the dashboard
+ * Time-based bars are sorted by their live progress, which the caller
+ * recomputes as time passes, so the order follows the clock; the custom
+ * order is the one the user dragged the bars into
+ */
+
+import type { ProgressBar } from "@/db/schema";
+import { getBarPercentage } from "./categories";
+import type { ProgressCalculation } from "./types";
+
+export const DASHBOARD_SORTS = [
+  "created",
+  "custom",
+  "progress",
+  "updated",
+  "title",
+  "deadline",
+] as const;
+export const DASHBOARD_VIEWS = ["list", "grid", "compact"] as const;
+
+// Pinned bars sit in a strip above the dashboard, so only a few fit
+export const MAX_PINNED_BARS = 5;
+
+export type DashboardSort = (typeof DASHBOARD_SORTS)[number];
+export type DashboardView = (typeof DASHBOARD_VIEWS)[number];
+
+export interface DashboardPreferences {
+  sort: DashboardSort;
+  view: DashboardView;
+}
+
+export const DEFAULT_DASHBOARD_PREFERENCES: DashboardPreferences = {
+  sort: "created",
+  view: "list",
+};
+
+export function isDashboardSort(value: unknown): value is DashboardSort {
+  return DASHBOARD_SORTS.some((sort) => sort === value);
+}
+
+export function isDashboardView(value: unknown): value is DashboardView {
+  return DASHBOARD_VIEWS.some((view) => view === value);
+}
+
+/**
+ * Live progress of time-based bars by id; bars without an entry fall back
+ * to the values stored when they were last updated
+ */
+export type LiveProgress = ReadonlyMap<string, ProgressCalculation>;
+
+/**
+ * Percentage of a bar's goal covered, using live progress when there is some
+ * and measuring time-based bars at the given time otherwise
+ */
+export function getLivePercentage(
+  bar: ProgressBar,
+  liveProgress: LiveProgress,
+  now: Date = new Date(),
+): number {
+  return liveProgress.get(bar.id)?.percentage ?? getBarPercentage(bar, now);
+}
+
+// Minutes until a time-based bar's target date, or null for bars without one
+function getMinutesToDeadline(
+  bar: ProgressBar,
+  liveProgress: LiveProgress,
+  now: Date,
+): number | null {
+  const live = liveProgress.get(bar.id);
+  if (live) {
+    return live.remainingTime.totalMinutes;
+  }
+
+  if (bar.barType !== "time-based" || !bar.targetDate) {
+    return null;
+  }
+
+  return Math.max(
+    (new Date(bar.targetDate).getTime() - now.getTime()) / 60_000,
+    0,
+  );
+}
+
+/**
+ * Sort bars for display without changing the given array
+ * The custom order is the order the bars are given in; otherwise ties, and
+ * bars without a deadline when sorting by deadline, keep the order they
+ * were created in
+ *
+ * @param bars - Bars to sort
+ * @param sort - Sort option picked by the user
+ * @param liveProgress - Current progress of time-based bars
+ * @param now - Time to measure deadlines from when there is no live progress
+ * @returns A new, sorted array
+ */
+export function sortBars<T extends ProgressBar>(
+  bars: readonly T[],
+  sort: DashboardSort,
+  liveProgress: LiveProgress = new Map(),
+  now: Date = new Date(),
+): T[] {
+  if (sort === "custom") {
+    return [...bars];
+  }
+
+  const byCreation = (a: T, b: T) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+  const compare = (a: T, b: T): number => {
+    switch (sort) {
+      case "progress":
+        return (
+          getLivePercentage(b, liveProgress, now) -
+          getLivePercentage(a, liveProgress, now)
+        );
+      case "updated":
+        return (
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        );
+      case "title":
+        return a.title.localeCompare(b.title, undefined, {
+          sensitivity: "base",
+        });
+      case "deadline": {
+        const aMinutes = getMinutesToDeadline(a, liveProgress, now);
+        const bMinutes = getMinutesToDeadline(b, liveProgress, now);
+        if (aMinutes === null || bMinutes === null) {
+          return (aMinutes === null ? 1 : 0) - (bMinutes === null ? 1 : 0);
+        }
+        return aMinutes - bMinutes;
+      }
+      case "created":
+        return 0;
+    }
+  };
+
+  return [...bars].sort((a, b) => compare(a, b) || byCreation(a, b));
+}
+
+/**
+ * Move one item of a list to another index without changing the given array
+ */
+export function moveItem<T>(
+  items: readonly T[],
+  fromIndex: number,
+  toIndex: number,
+): T[] {
+  const moved = [...items];
+  const [item] = moved.splice(fromIndex, 1);
+  moved.splice(toIndex, 0, item);
+  return moved;
+}
+
+/**
+ * Apply a new order for some of the ids to the full order
+ * The reordered ids take over the places they held between them, so bars
+ * hidden by a filter or shown in another category keep their place
+ *
+ * @param allIds - Every id in its current order
+ * @param reorderedIds - Some of the ids in their new order
+ * @returns The full order with the reordered ids in their new order
+ */
+export function applyPartialOrder<T>(
+  allIds: readonly T[],
+  reorderedIds: readonly T[],
+): T[] {
+  const reordered = new Set(reorderedIds);
+  let next = 0;
+  return allIds.map((id) => (reordered.has(id) ? reorderedIds[next++] : id));
+}
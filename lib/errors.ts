@@ -0,0 +1,29 @@
+/**
+ * Typed errors raised by server actions and services
+ * Lets callers distinguish expected failures from unexpected ones
+ */
+
+import type { ValidationError } from "./types";
+
+/**
+ * Raised when an action that requires a signed-in user is called anonymously
+ */
+export class UnauthenticatedError extends Error {
+  constructor(message = "You must be signed in to manage progress bars") {
+    super(message);
+    this.name = "UnauthenticatedError";
+  }
+}
+
+/**
+ * Raised when a service rejects input, carrying the individual field errors
+ */
+export class BarValidationError extends Error {
+  readonly errors: ValidationError[];
+
+  constructor(errors: ValidationError[]) {
+    super(`Validation failed: ${errors.map((e) => e.message).join(", ")}`);
+    this.name = "BarValidationError";
+    this.errors = errors;
+  }
+}
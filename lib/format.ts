@@ -0,0 +1,25 @@
+/**
+ * Display formatting helpers shared by progress bar components
+ */
+
+/**
+ * Format a numeric value with an optional unit
+ *
+ * @param value - The value to format
+ * @param unit - Unit label, e.g. "$" or "books"
+ * @param position - "prefix" places the unit before the number, otherwise after
+ * @returns Localized value with its unit
+ */
+export function formatValue(
+  value: number,
+  unit?: string | null,
+  position?: string | null,
+) {
+  const num = value.toLocaleString();
+  if (!unit) return num;
+  if (position !== "prefix") return `${num} ${unit}`;
+
+  // Keep the sign ahead of a prefix unit: -$25 rather than $-25
+  const sign = value < 0 ? "-" : "";
+  return `${sign}${unit}${Math.abs(value).toLocaleString()}`;
+}
@@ -0,0 +1,66 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { usePrefersReducedMotion } from "../usePrefersReducedMotion";
+
+describe("usePrefersReducedMotion", () => {
+  let matches: boolean;
+  let changeListeners: (() => void)[];
+
+  beforeEach(() => {
+    matches = false;
+    changeListeners = [];
+
+    vi.stubGlobal(
+      "matchMedia",
+      vi.fn((query: string) => ({
+        media: query,
+        get matches() {
+          return matches;
+        },
+        addEventListener: (_event: string, listener: () => void) => {
+          changeListeners.push(listener);
+        },
+        removeEventListener: (_event: string, listener: () => void) => {
+          changeListeners = changeListeners.filter((l) => l !== listener);
+        },
+      })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should follow the system setting", () => {
+    matches = true;
+    const { result } = renderHook(() => usePrefersReducedMotion());
+
+    expect(result.current).toBe(true);
+    expect(window.matchMedia).toHaveBeenCalledWith(
+      "(prefers-reduced-motion: reduce)",
+    );
+  });
+
+  it("should update when the system setting changes", () => {
+    const { result } = renderHook(() => usePrefersReducedMotion());
+    expect(result.current).toBe(false);
+
+    act(() => {
+      matches = true;
+      for (const listener of changeListeners) {
+        listener();
+      }
+    });
+
+    expect(result.current).toBe(true);
+  });
+
+  it("should stop listening on unmount", () => {
+    const { unmount } = renderHook(() => usePrefersReducedMotion());
+    expect(changeListeners).toHaveLength(1);
+
+    unmount();
+
+    expect(changeListeners).toHaveLength(0);
+  });
+});
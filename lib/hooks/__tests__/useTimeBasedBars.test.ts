@@ -77,6 +77,24 @@ describe("useTimeBasedBars", () => {
     isOverdue: false,
     createdAt: new Date("2024-01-01"),
     updatedAt: new Date("2024-01-01"),
+    pinnedAt: null,
+    parentId: null,
+    weight: 1,
+    aggregation: null,
+    recurrence: null,
+    recurrenceDays: null,
+    periodStart: null,
+    position: 0,
+    categoryId: null,
+    deletedAt: null,
+    archivedAt: null,
+    completedAt: null,
+    startValue: 0,
+    direction: "up",
+    targetReachedAt: null,
+    allowOverflow: false,
+    stepSize: 1,
+    userId: "test-user",
   });
 
   it("handles empty bars array", () => {
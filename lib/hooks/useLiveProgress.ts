@@ -0,0 +1,37 @@
+import type { ProgressBar } from "@/db/schema";
+import type { LiveProgress } from "@/lib/dashboard";
+import type { TimeBasedProgressBar } from "@/lib/types";
+import { useTimeBasedBars } from "./useTimeBasedBars";
+
+function toTimeBasedBar(bar: ProgressBar): TimeBasedProgressBar | null {
+  if (
+    bar.barType !== "time-based" ||
+    !bar.startDate ||
+    !bar.targetDate ||
+    !bar.timeBasedType
+  ) {
+    return null;
+  }
+
+  return {
+    ...bar,
+    barType: "time-based",
+    startDate: new Date(bar.startDate),
+    targetDate: new Date(bar.targetDate),
+    timeBasedType: bar.timeBasedType as TimeBasedProgressBar["timeBasedType"],
+  };
+}
+
+/**
+ * Hook for the live progress of the time-based bars in a mixed list
+ * Manual bars are skipped; their stored values are already current
+ *
+ * @param bars - Bars of any type as loaded from the database
+ * @returns Live progress of the time-based bars by id
+ */
+export function useLiveProgress(bars: ProgressBar[]): LiveProgress {
+  const timeBasedBars = bars
+    .map(toTimeBasedBar)
+    .filter((bar): bar is TimeBasedProgressBar => bar !== null);
+  return useTimeBasedBars(timeBasedBars).progressMap;
+}
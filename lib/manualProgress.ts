@@ -0,0 +1,113 @@
+/**
+ * Progress rules for manual bars
+ * Manual bars either count up from their start value to a higher target or
+ * burn down from their start value to a lower one (debt payoff, weight loss)
+ */
+
+import type { ProgressBar } from "@/db/schema";
+
+export type ManualProgressBar = Pick<
+  ProgressBar,
+  "direction" | "startValue" | "targetValue" | "allowOverflow"
+>;
+
+// Values are rounded to this many decimals so fractional steps such as 0.1
+// don't accumulate floating point noise
+const VALUE_PRECISION = 1e6;
+
+export function isBurnDown(bar: Pick<ProgressBar, "direction">): boolean {
+  return bar.direction === "down";
+}
+
+/**
+ * Fraction of the distance from start to target covered by a value
+ *
+ * @param bar - The manual bar
+ * @param value - Current value of the bar
+ * @returns Percentage covered; above 100 once the target is overshot and
+ *   never below 0
+ */
+export function getManualPercentage(
+  bar: ManualProgressBar,
+  value: number,
+): number {
+  const distance = bar.targetValue - bar.startValue;
+  if (distance === 0) {
+    return 100;
+  }
+
+  return Math.max(((value - bar.startValue) / distance) * 100, 0);
+}
+
+/**
+ * Whether a value meets or passes the bar's target in its direction
+ */
+export function hasReachedTarget(
+  bar: ManualProgressBar,
+  value: number,
+): boolean {
+  return isBurnDown(bar) ? value <= bar.targetValue : value >= bar.targetValue;
+}
+
+/**
+ * Whether a value goes beyond the bar's target in its direction
+ */
+export function isPastTarget(bar: ManualProgressBar, value: number): boolean {
+  return isBurnDown(bar) ? value < bar.targetValue : value > bar.targetValue;
+}
+
+/**
+ * Range a manual bar's value can be moved within
+ * The start value bounds one end; the target bounds the other unless the
+ * bar allows overflow, in which case values can go on to 0 or without limit
+ */
+export function getManualValueRange(bar: ManualProgressBar): {
+  min: number;
+  max: number;
+} {
+  if (isBurnDown(bar)) {
+    return {
+      min: bar.allowOverflow ? 0 : bar.targetValue,
+      max: bar.startValue,
+    };
+  }
+
+  return {
+    min: bar.startValue,
+    max: bar.allowOverflow ? Number.POSITIVE_INFINITY : bar.targetValue,
+  };
+}
+
+/**
+ * Round a value and clamp it to the bar's allowed range
+ */
+export function clampManualValue(
+  bar: ManualProgressBar,
+  value: number,
+): number {
+  const { min, max } = getManualValueRange(bar);
+  const rounded = Math.round(value * VALUE_PRECISION) / VALUE_PRECISION;
+  return Math.min(Math.max(rounded, min), max);
+}
+
+/**
+ * Completion fields to store when a manual bar's target check changes
+ * A bar completes when it newly reaches its target and reopens when it
+ * falls short again; a bar reopened while at its target stays open
+ *
+ * @param wasReached - Whether the bar met its target before the change
+ * @param isReached - Whether the bar meets its target after the change
+ * @param now - Time of the change
+ * @returns Fields to store, or null to leave completion as it is
+ */
+export function getCompletionChange(
+  wasReached: boolean,
+  isReached: boolean,
+  now: Date,
+): Pick<ProgressBar, "isCompleted" | "completedAt"> | null {
+  if (!isReached) {
+    return { isCompleted: false, completedAt: null };
+  }
+
+  return wasReached ? null : { isCompleted: true, completedAt: now };
+}
@@ -0,0 +1,181 @@
+/**
+ * Milestones along a bar's track
+ * Manual bars have milestones at a value ("first $1,000") or at a percentage
+ * of the way to their target; time-based bars have them on dates between
+ * their start and target dates. Milestones sit on the track where the bar's
+ * fill will be when they are reached
+ */
+
+import { format } from "date-fns";
+import type { Milestone, ProgressBar } from "@/db/schema";
+import { formatValue } from "./format";
+import {
+  getManualPercentage,
+  hasReachedTarget,
+  isBurnDown,
+} from "./manualProgress";
+import { dateCalculator } from "./services/DateCalculator";
+
+export const MILESTONE_KINDS = ["value", "percentage", "date"] as const;
+
+// Every milestone gets a tick on the track, so only a few fit
+export const MAX_MILESTONES_PER_BAR = 10;
+
+export type MilestoneKind = (typeof MILESTONE_KINDS)[number];
+
+type MilestoneThreshold = Pick<Milestone, "kind" | "value" | "date">;
+
+// Fields of a bar that decide where its milestones can go
+export type MilestoneRange = Pick<
+  ProgressBar,
+  "direction" | "startValue" | "targetValue" | "startDate" | "targetDate"
+>;
+
+export interface MilestoneTick<T extends MilestoneThreshold> {
+  milestone: T;
+  // Distance along the track, from 0 to 100
+  position: number;
+}
+
+/**
+ * Where a milestone sits on a bar's track
+ * Date milestones count whole days from the start date, the same way
+ * DateCalculator measures the progress of time-based bars
+ *
+ * @param bar - The bar the milestone belongs to
+ * @param milestone - The milestone to place
+ * @returns Percentage of the track before the milestone, from 0 to 100
+ */
+export function getMilestonePosition(
+  bar: ProgressBar,
+  milestone: MilestoneThreshold,
+): number {
+  let position = 0;
+
+  if (milestone.kind === "percentage") {
+    position = milestone.value ?? 0;
+  } else if (milestone.kind === "value") {
+    position = getManualPercentage(bar, milestone.value ?? bar.startValue);
+  } else if (milestone.date && bar.startDate && bar.targetDate) {
+    const startDate = new Date(bar.startDate);
+    const totalDays = dateCalculator.getDurationInDays(
+      startDate,
+      new Date(bar.targetDate),
+    );
+    position =
+      totalDays > 0
+        ? (dateCalculator.getElapsedDays(startDate, milestone.date) /
+            totalDays) *
+          100
+        : 0;
+  }
+
+  return Math.min(Math.max(position, 0), 100);
+}
+
+/**
+ * Milestones with their place on the track, in the order they are reached
+ */
+export function getMilestoneTicks<T extends MilestoneThreshold>(
+  bar: ProgressBar,
+  milestones: readonly T[],
+): MilestoneTick<T>[] {
+  return milestones
+    .map((milestone) => ({
+      milestone,
+      position: getMilestonePosition(bar, milestone),
+    }))
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Whether a bar at a value has reached a milestone
+ * Value milestones follow the bar's direction, so a burn-down bar reaches
+ * one by going down to it; date milestones are reached once the day starts
+ *
+ * @param bar - The bar the milestone belongs to
+ * @param milestone - The milestone to check
+ * @param value - Value of a manual bar
+ * @param now - Current time, for date milestones
+ */
+export function isMilestoneReached(
+  bar: ProgressBar,
+  milestone: MilestoneThreshold,
+  value: number,
+  now: Date,
+): boolean {
+  switch (milestone.kind) {
+    case "percentage":
+      return getManualPercentage(bar, value) >= (milestone.value ?? 0);
+    case "value":
+      return hasReachedTarget(
+        { ...bar, targetValue: milestone.value ?? bar.targetValue },
+        value,
+      );
+    default:
+      return milestone.date !== null && milestone.date <= now;
+  }
+}
+
+/**
+ * Whether a milestone lies between a bar's start and its target
+ * Percentage milestones move with the bar, so they always fit; value and date
+ * milestones can be left outside when the bar's range or dates change
+ *
+ * @param bar - The bar the milestone belongs to, or its edited fields
+ * @param milestone - The milestone to check
+ */
+export function isMilestoneInRange(
+  bar: MilestoneRange,
+  milestone: MilestoneThreshold,
+): boolean {
+  switch (milestone.kind) {
+    case "percentage":
+      return true;
+    case "value": {
+      const [low, high] = isBurnDown(bar)
+        ? [bar.targetValue, bar.startValue]
+        : [bar.startValue, bar.targetValue];
+      return (
+        milestone.value !== null &&
+        milestone.value > low &&
+        milestone.value < high
+      );
+    }
+    default:
+      return (
+        milestone.date !== null &&
+        bar.startDate !== null &&
+        bar.targetDate !== null &&
+        milestone.date > new Date(bar.startDate) &&
+        milestone.date < new Date(bar.targetDate)
+      );
+  }
+}
+
+/**
+ * Where a milestone is, e.g. "25%", "$1,000" or "Jun 9, 2026"
+ */
+export function formatMilestoneThreshold(
+  bar: Pick<ProgressBar, "unit" | "unitPosition">,
+  milestone: MilestoneThreshold,
+): string {
+  switch (milestone.kind) {
+    case "percentage":
+      return `${(milestone.value ?? 0).toLocaleString()}%`;
+    case "value":
+      return formatValue(milestone.value ?? 0, bar.unit, bar.unitPosition);
+    default:
+      return milestone.date ? format(milestone.date, "MMM d, yyyy") : "";
+  }
+}
+
+/**
+ * Name shown for a milestone; its threshold unless it has a label
+ */
+export function getMilestoneName(
+  bar: Pick<ProgressBar, "unit" | "unitPosition">,
+  milestone: MilestoneThreshold & Pick<Milestone, "label">,
+): string {
+  return milestone.label ?? formatMilestoneThreshold(bar, milestone);
+}
@@ -0,0 +1,148 @@
+/**
+ * Periods of recurring manual bars
+ * A recurring bar resets to its start value at each period boundary, e.g.
+ * "10 workouts this month"; calendar periods begin at local midnight on the
+ * first day of the day, week (Monday), month or year, and custom periods
+ * every N days from the day the bar started repeating
+ *
+ * Everything here is computed from the clock it is given, so the same
+ * inputs always give the same periods
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import type { ProgressBar } from "@/db/schema";
+
+export const RECURRENCES = [
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+  "custom",
+] as const;
+
+// Longest period a custom recurrence may have
+export const MAX_RECURRENCE_DAYS = 365;
+
+export type Recurrence = (typeof RECURRENCES)[number];
+
+export interface RecurrenceRule {
+  recurrence: Recurrence;
+  // Period length of custom recurrences; ignored by the calendar ones
+  days: number | null;
+}
+
+export interface Period {
+  start: Date;
+  // Start of the next period
+  end: Date;
+}
+
+export interface PeriodRollover {
+  // Periods that ended since the stored period start, oldest first
+  ended: Period[];
+  // Start of the period the clock is in
+  currentStart: Date;
+}
+
+export function isRecurrence(value: unknown): value is Recurrence {
+  return RECURRENCES.some((recurrence) => recurrence === value);
+}
+
+/**
+ * Start of the first period of a bar that starts repeating at a given time
+ * Custom periods start at midnight of that day
+ */
+export function getPeriodStart(rule: RecurrenceRule, date: Date): Date {
+  switch (rule.recurrence) {
+    case "daily":
+    case "custom":
+      return startOfDay(date);
+    case "weekly":
+      return startOfWeek(date, { weekStartsOn: 1 });
+    case "monthly":
+      return startOfMonth(date);
+    case "yearly":
+      return startOfYear(date);
+  }
+}
+
+/**
+ * Start of the period after the one starting at periodStart
+ * Days are calendar days, so periods keep starting at midnight across
+ * daylight saving changes
+ */
+export function getNextPeriodStart(
+  rule: RecurrenceRule,
+  periodStart: Date,
+): Date {
+  switch (rule.recurrence) {
+    case "daily":
+      return addDays(periodStart, 1);
+    case "weekly":
+      return addWeeks(periodStart, 1);
+    case "monthly":
+      return addMonths(periodStart, 1);
+    case "yearly":
+      return addYears(periodStart, 1);
+    case "custom":
+      return addDays(periodStart, Math.max(rule.days ?? 1, 1));
+  }
+}
+
+/**
+ * Find the periods that ended between a bar's stored period start and now
+ *
+ * @param rule - How often the bar repeats
+ * @param periodStart - Start of the period the bar was last in
+ * @param now - Current time
+ * @returns The ended periods and the start of the current one; nothing has
+ *   ended while now is before the end of the stored period
+ */
+export function getPeriodRollover(
+  rule: RecurrenceRule,
+  periodStart: Date,
+  now: Date,
+): PeriodRollover {
+  const ended: Period[] = [];
+  let start = periodStart;
+  let end = getNextPeriodStart(rule, start);
+
+  while (end.getTime() <= now.getTime()) {
+    ended.push({ start, end });
+    start = end;
+    end = getNextPeriodStart(rule, start);
+  }
+
+  return { ended, currentStart: start };
+}
+
+/**
+ * Short description of how often a bar resets, e.g. "Resets weekly"
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  if (rule.recurrence === "custom") {
+    const days = rule.days ?? 1;
+    return days === 1 ? "Resets daily" : `Resets every ${days} days`;
+  }
+  return `Resets ${rule.recurrence}`;
+}
+
+/**
+ * How often a bar resets, or null for bars that never do
+ */
+export function getRecurrenceRule(
+  bar: Pick<ProgressBar, "recurrence" | "recurrenceDays">,
+): RecurrenceRule | null {
+  return isRecurrence(bar.recurrence)
+    ? { recurrence: bar.recurrence, days: bar.recurrenceDays }
+    : null;
+}
@@ -0,0 +1,74 @@
+/**
+ * Full-text search of bar titles and descriptions
+ * User input is turned into a safe FTS5 query, and the matches SQLite marks
+ * in its highlighted text are split out so they can be rendered without HTML
+ */
+
+import type { ProgressBar } from "@/db/schema";
+
+// Characters FTS5 wraps matches in; they cannot be typed into a form field,
+// so they never clash with a bar's own text
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface SearchResult {
+  bar: ProgressBar;
+  title: HighlightSegment[];
+  // Null for bars without a description
+  description: HighlightSegment[] | null;
+}
+
+/**
+ * Turn what the user typed into an FTS5 query
+ * Every word must appear, as a whole word or the start of one; words are
+ * quoted so FTS5 operators and punctuation are searched for as plain text
+ *
+ * @param input - Search box contents
+ * @returns The FTS5 query, or null when there is nothing to search for
+ */
+export function toSearchQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map((term) =>
+      term.replaceAll(HIGHLIGHT_START, "").replaceAll(HIGHLIGHT_END, ""),
+    )
+    .filter(Boolean);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `"${term.replaceAll('"', '""')}"*`).join(" ");
+}
+
+/**
+ * Split text highlighted by FTS5 into plain and matching segments
+ * Empty segments are left out
+ */
+export function parseHighlight(highlighted: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = highlighted;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(HIGHLIGHT_END, start);
+    if (start === -1 || end === -1) {
+      segments.push({ text: rest, isMatch: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), isMatch: false });
+    }
+    if (end > start + 1) {
+      segments.push({ text: rest.slice(start + 1, end), isMatch: true });
+    }
+    rest = rest.slice(end + 1);
+  }
+
+  return segments;
+}
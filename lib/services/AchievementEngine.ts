@@ -0,0 +1,181 @@
+/**
+ * AchievementEngine Service
+ * Counts the stats achievement rules are checked against and records the
+ * achievements a user unlocks
+ */
+
+import { differenceInYears } from "date-fns";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { db } from "@/db";
+import type { ProgressBar, UnlockedAchievement } from "@/db/schema";
+import {
+  achievements,
+  barPeriods,
+  progressBars,
+  progressHistory,
+  userPreferences,
+} from "@/db/schema";
+import {
+  type AchievementStats,
+  getEarnedAchievements,
+} from "@/lib/achievements";
+import { DEFAULT_TIME_ZONE, getStreak } from "@/lib/streaks";
+import type { TimeBasedProgressBar } from "@/lib/types";
+import { dateCalculator } from "./DateCalculator";
+
+// Whether a bar is complete at a time; the stored flag of a time-based bar
+// only changes when the bar is edited or refreshed
+function isCompletedAt(bar: ProgressBar, now: Date): boolean {
+  if (
+    bar.barType !== "time-based" ||
+    !bar.startDate ||
+    !bar.targetDate ||
+    !bar.timeBasedType
+  ) {
+    return bar.isCompleted;
+  }
+
+  return dateCalculator.calculateProgress(
+    {
+      ...bar,
+      barType: "time-based",
+      startDate: new Date(bar.startDate),
+      targetDate: new Date(bar.targetDate),
+      timeBasedType: bar.timeBasedType as TimeBasedProgressBar["timeBasedType"],
+    },
+    now,
+  ).isCompleted;
+}
+
+/**
+ * AchievementEngine class evaluates the achievement rules for a user
+ *
+ * Evaluating is idempotent: an achievement is unlocked once, at the time it
+ * was first evaluated as earned, and stays unlocked
+ */
+export class AchievementEngine {
+  /**
+   * Count a user's stats over all of their bars, archived and deleted ones
+   * included
+   *
+   * Time-based bars are complete once their target date has passed, whether
+   * or not that has been stored yet
+   *
+   * @param userId - Clerk user id of the owner
+   * @param now - Time to count streaks and time-based bars at
+   * @returns The stats achievement rules are checked against
+   */
+  async getStats(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<AchievementStats> {
+    const stored = await db
+      .select()
+      .from(progressBars)
+      .where(eq(progressBars.userId, userId));
+    const bars = stored.map((bar) => ({
+      ...bar,
+      isCompleted: isCompletedAt(bar, now),
+    }));
+
+    const periods = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(barPeriods)
+      .innerJoin(progressBars, eq(barPeriods.barId, progressBars.id))
+      .where(
+        and(eq(progressBars.userId, userId), eq(barPeriods.isCompleted, true)),
+      )
+      .get();
+
+    const updates = await db
+      .select({ createdAt: progressHistory.createdAt })
+      .from(progressHistory)
+      .innerJoin(progressBars, eq(progressHistory.barId, progressBars.id))
+      .where(
+        and(
+          eq(progressBars.userId, userId),
+          eq(progressHistory.source, "manual"),
+          isNull(progressHistory.undoneAt),
+        ),
+      );
+
+    const preferences = await db
+      .select({ timeZone: userPreferences.timeZone })
+      .from(userPreferences)
+      .where(eq(userPreferences.userId, userId))
+      .get();
+
+    const timeBased = bars.filter(
+      (bar) => bar.barType === "time-based" && bar.startDate && bar.targetDate,
+    );
+
+    return {
+      barsCreated: bars.length,
+      completions:
+        bars.filter((bar) => bar.isCompleted).length + (periods?.count ?? 0),
+      longestStreak: getStreak(
+        updates.map((update) => update.createdAt),
+        preferences?.timeZone ?? DEFAULT_TIME_ZONE,
+        now,
+      ).longest,
+      countDownsFinished: timeBased.filter(
+        (bar) => bar.timeBasedType === "count-down" && bar.isCompleted,
+      ).length,
+      longestCountUpYears: Math.max(
+        0,
+        ...timeBased
+          .filter((bar) => bar.timeBasedType === "count-up")
+          .map((bar) =>
+            differenceInYears(
+              new Date(bar.targetDate ?? ""),
+              new Date(bar.startDate ?? ""),
+            ),
+          ),
+      ),
+    };
+  }
+
+  /**
+   * Unlock the achievements a user has earned and not unlocked yet
+   *
+   * @param userId - Clerk user id of the owner
+   * @param now - Time recorded for new unlocks
+   * @returns Ids of the achievements unlocked by this evaluation
+   */
+  async evaluate(userId: string, now: Date = new Date()): Promise<string[]> {
+    const earned = getEarnedAchievements(await this.getStats(userId, now));
+    if (earned.length === 0) {
+      return [];
+    }
+
+    const unlocked = await db
+      .insert(achievements)
+      .values(
+        earned.map((rule) => ({
+          userId,
+          achievementId: rule.id,
+          unlockedAt: now,
+        })),
+      )
+      .onConflictDoNothing()
+      .returning({ achievementId: achievements.achievementId });
+
+    return unlocked.map((row) => row.achievementId);
+  }
+
+  /**
+   * Achievements a user has unlocked, in the order they were unlocked
+   *
+   * @param userId - Clerk user id of the owner
+   */
+  async getUnlocked(userId: string): Promise<UnlockedAchievement[]> {
+    return db
+      .select()
+      .from(achievements)
+      .where(eq(achievements.userId, userId))
+      .orderBy(achievements.unlockedAt);
+  }
+}
+
+// Export singleton instance for convenience
+export const achievementEngine = new AchievementEngine();
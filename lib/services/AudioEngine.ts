@@ -0,0 +1,132 @@
+/**
+ * AudioEngine Service
+ * Plays the sound effects through the Web Audio API, with a master volume
+ * and mute in front of every sound
+ *
+ * Browsers only let audio start after the user has interacted with the
+ * page, so the audio context is created on the first sound played while
+ * unmuted rather than when the page loads
+ */
+
+import {
+  DEFAULT_SOUND_PREFERENCES,
+  SOUND_TONES,
+  type SoundEffect,
+} from "@/lib/sounds";
+
+// Each tone fades in and out over this long so it doesn't click
+const FADE_SECONDS = 0.01;
+
+// Level of a single tone at full master volume
+const TONE_GAIN = 0.3;
+
+function createBrowserAudioContext(): AudioContext | null {
+  if (typeof window === "undefined" || !window.AudioContext) {
+    return null;
+  }
+  return new window.AudioContext();
+}
+
+/**
+ * AudioEngine class synthesises the sound effects
+ *
+ * Without Web Audio support, e.g. on the server, playing does nothing
+ */
+export class AudioEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private volume = DEFAULT_SOUND_PREFERENCES.volume;
+  private muted = DEFAULT_SOUND_PREFERENCES.muted;
+
+  /**
+   * @param createContext - Makes the audio context on first use
+   */
+  constructor(
+    private readonly createContext: () => AudioContext | null = createBrowserAudioContext,
+  ) {}
+
+  /**
+   * @param volume - Master volume, from 0 to 1
+   */
+  setVolume(volume: number): void {
+    this.volume = Math.min(Math.max(volume, 0), 1);
+    this.applyGain();
+  }
+
+  /**
+   * Silence every sound, including ones already playing
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyGain();
+  }
+
+  isAudible(): boolean {
+    return !this.muted && this.volume > 0;
+  }
+
+  /**
+   * Play a sound effect at the master volume
+   * Muted sounds are skipped rather than played silently
+   */
+  play(effect: SoundEffect): void {
+    if (!this.isAudible()) {
+      return;
+    }
+
+    const context = this.getContext();
+    if (!context || !this.master) {
+      return;
+    }
+
+    // A context made before the user interacted starts out suspended; if
+    // the browser still refuses to resume it, the sound is just not heard
+    if (context.state === "suspended") {
+      context.resume().catch(() => {});
+    }
+
+    const now = context.currentTime;
+    for (const tone of SOUND_TONES[effect]) {
+      const start = now + tone.startMs / 1000;
+      const end = start + tone.durationMs / 1000;
+
+      const oscillator = context.createOscillator();
+      oscillator.type = tone.waveform;
+      oscillator.frequency.setValueAtTime(tone.frequency, start);
+
+      const envelope = context.createGain();
+      envelope.gain.setValueAtTime(0, start);
+      envelope.gain.linearRampToValueAtTime(TONE_GAIN, start + FADE_SECONDS);
+      envelope.gain.linearRampToValueAtTime(0, end);
+
+      oscillator.connect(envelope);
+      envelope.connect(this.master);
+      oscillator.start(start);
+      oscillator.stop(end);
+    }
+  }
+
+  private getContext(): AudioContext | null {
+    if (!this.context) {
+      this.context = this.createContext();
+      if (this.context) {
+        this.master = this.context.createGain();
+        this.master.connect(this.context.destination);
+        this.applyGain();
+      }
+    }
+    return this.context;
+  }
+
+  private applyGain(): void {
+    if (this.context && this.master) {
+      this.master.gain.setValueAtTime(
+        this.muted ? 0 : this.volume,
+        this.context.currentTime,
+      );
+    }
+  }
+}
+
+// Export singleton instance for convenience
+export const audioEngine = new AudioEngine();
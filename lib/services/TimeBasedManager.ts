@@ -5,16 +5,19 @@
  */
 
 import { isValid } from "date-fns";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { db } from "@/db";
 import type { ProgressBar } from "@/db/schema";
 import { progressBars } from "@/db/schema";
+import { BarValidationError } from "@/lib/errors";
 import type {
   ProgressCalculation,
   TimeBasedBarConfig,
   TimeBasedProgressBar,
+  ValidationError,
   ValidationResult,
 } from "@/lib/types";
+import { achievementEngine } from "./AchievementEngine";
 import { DateCalculator } from "./DateCalculator";
 
 /**
@@ -32,18 +35,19 @@ export class TimeBasedManager {
    * Requirements: 2.5
    *
    * @param config - Configuration for the time-based bar
+   * @param userId - Clerk user id of the bar's owner
    * @returns The created time-based progress bar
-   * @throws Error if validation fails
+   * @throws BarValidationError if validation fails
    */
   async createTimeBasedBar(
     config: TimeBasedBarConfig,
+    userId: string,
   ): Promise<TimeBasedProgressBar> {
     // Validate dates based on bar type
     const validation = this.validateBarConfig(config);
 
     if (!validation.isValid) {
-      const errorMessages = validation.errors.map((e) => e.message).join(", ");
-      throw new Error(`Validation failed: ${errorMessages}`);
+      throw new BarValidationError(validation.errors);
     }
 
     // Generate unique ID
@@ -54,6 +58,8 @@ export class TimeBasedManager {
     const initialProgress = this.dateCalculator.calculateProgress(
       {
         id,
+        userId,
+        categoryId: config.categoryId ?? null,
         title: config.title,
         description: config.description || null,
         barType: "time-based",
@@ -62,10 +68,26 @@ export class TimeBasedManager {
         timeBasedType: config.timeBasedType,
         isCompleted: false,
         isOverdue: false,
+        completedAt: null,
+        archivedAt: null,
+        deletedAt: null,
+        position: config.position ?? 0,
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
         currentValue: 0,
         targetValue: 0,
         unit: null,
         unitPosition: null,
+        direction: "up",
+        startValue: 0,
+        stepSize: 1,
+        allowOverflow: false,
+        targetReachedAt: null,
         createdAt: now,
         updatedAt: now,
       },
@@ -75,6 +97,9 @@ export class TimeBasedManager {
     // Insert into database
     await db.insert(progressBars).values({
       id,
+      userId,
+      categoryId: config.categoryId ?? null,
+      position: config.position ?? 0,
       title: config.title,
       description: config.description || null,
       currentValue: initialProgress.currentValue,
@@ -87,6 +112,7 @@ export class TimeBasedManager {
       timeBasedType: config.timeBasedType,
       isCompleted: initialProgress.isCompleted,
       isOverdue: initialProgress.isOverdue,
+      completedAt: initialProgress.isCompleted ? now : null,
       createdAt: now,
       updatedAt: now,
     });
@@ -94,38 +120,150 @@ export class TimeBasedManager {
     // Return the created bar
     return {
       id,
+      userId,
+      categoryId: config.categoryId ?? null,
       title: config.title,
       description: config.description || null,
       currentValue: initialProgress.currentValue,
       targetValue: initialProgress.targetValue,
       unit: null,
       unitPosition: null,
+      direction: "up",
+      startValue: 0,
+      stepSize: 1,
+      allowOverflow: false,
+      targetReachedAt: null,
       barType: "time-based",
       startDate: config.startDate,
       targetDate: config.targetDate,
       timeBasedType: config.timeBasedType,
       isCompleted: initialProgress.isCompleted,
       isOverdue: initialProgress.isOverdue,
+      completedAt: initialProgress.isCompleted ? now : null,
+      archivedAt: null,
+      deletedAt: null,
+      position: config.position ?? 0,
+      pinnedAt: null,
+      parentId: null,
+      weight: 1,
+      aggregation: null,
+      recurrence: null,
+      recurrenceDays: null,
+      periodStart: null,
       createdAt: now,
       updatedAt: now,
     };
   }
 
+  /**
+   * Update an existing time-based bar with new details
+   * Date and type changes are validated with the same rules as creation
+   * and completion status is recomputed from the new schedule
+   * Requirements: 2.5, 3.4
+   *
+   * @param bar - The stored bar being edited
+   * @param config - New configuration for the bar
+   * @returns The updated progress bar
+   * @throws Error if the bar is not time-based
+   * @throws BarValidationError if validation fails
+   */
+  async updateTimeBasedBar(
+    bar: ProgressBar,
+    config: TimeBasedBarConfig,
+  ): Promise<ProgressBar> {
+    const existing = this.toTimeBasedProgressBar(bar);
+
+    if (!existing) {
+      throw new Error("Bar is not a time-based progress bar");
+    }
+
+    const now = new Date();
+    const scheduleChanged =
+      config.timeBasedType !== existing.timeBasedType ||
+      config.startDate.getTime() !== existing.startDate.getTime() ||
+      config.targetDate.getTime() !== existing.targetDate.getTime();
+
+    let updatedBar: ProgressBar = {
+      ...bar,
+      ...(config.categoryId !== undefined && { categoryId: config.categoryId }),
+      title: config.title,
+      description: config.description || null,
+      updatedAt: now,
+    };
+
+    // Only re-run date rules when the schedule itself changed, so renaming
+    // a bar whose target has already passed is still allowed
+    if (scheduleChanged) {
+      const validation = this.validateBarConfig(config);
+
+      if (!validation.isValid) {
+        throw new BarValidationError(validation.errors);
+      }
+
+      const progress = this.dateCalculator.calculateProgress(
+        {
+          ...existing,
+          startDate: config.startDate,
+          targetDate: config.targetDate,
+          timeBasedType: config.timeBasedType,
+        },
+        now,
+      );
+
+      updatedBar = {
+        ...updatedBar,
+        startDate: config.startDate.toISOString(),
+        targetDate: config.targetDate.toISOString(),
+        timeBasedType: config.timeBasedType,
+        currentValue: progress.currentValue,
+        targetValue: progress.targetValue,
+        isCompleted: progress.isCompleted,
+        isOverdue: progress.isOverdue,
+        completedAt: progress.isCompleted
+          ? (existing.completedAt ?? now)
+          : null,
+      };
+    }
+
+    await db
+      .update(progressBars)
+      .set({
+        categoryId: updatedBar.categoryId,
+        title: updatedBar.title,
+        description: updatedBar.description,
+        startDate: updatedBar.startDate,
+        targetDate: updatedBar.targetDate,
+        timeBasedType: updatedBar.timeBasedType,
+        currentValue: updatedBar.currentValue,
+        targetValue: updatedBar.targetValue,
+        isCompleted: updatedBar.isCompleted,
+        isOverdue: updatedBar.isOverdue,
+        completedAt: updatedBar.completedAt,
+        updatedAt: updatedBar.updatedAt,
+      })
+      .where(
+        and(eq(progressBars.id, bar.id), eq(progressBars.userId, bar.userId)),
+      );
+
+    return updatedBar;
+  }
+
   /**
    * Validate time-based bar configuration
+   * Errors are reported against the form field they belong to
    *
    * @param config - Configuration to validate
    * @returns ValidationResult with any errors
    */
   private validateBarConfig(config: TimeBasedBarConfig): ValidationResult {
-    const errors = [];
+    const errors: ValidationError[] = [];
 
     // Bug 5 fix: Early isValid() checks to prevent .toISOString() errors on invalid dates
     if (!isValid(config.startDate)) {
       errors.push({
         field: "startDate",
         message: "Start date is not a valid date",
-        code: "INVALID_DATE_FORMAT" as const,
+        code: "INVALID_DATE_FORMAT",
       });
     }
 
@@ -133,7 +271,7 @@ export class TimeBasedManager {
       errors.push({
         field: "targetDate",
         message: "Target date is not a valid date",
-        code: "INVALID_DATE_FORMAT" as const,
+        code: "INVALID_DATE_FORMAT",
       });
     }
 
@@ -165,7 +303,7 @@ export class TimeBasedManager {
           errors.push({
             field: "startDate",
             message: "Count-up bars require a start date in the past",
-            code: "FUTURE_START_DATE" as const,
+            code: "FUTURE_START_DATE",
           });
         }
 
@@ -174,13 +312,23 @@ export class TimeBasedManager {
           config.startDate,
           10,
         );
-        errors.push(...historicalValidation.errors);
+        errors.push(
+          ...historicalValidation.errors.map((e) => ({
+            ...e,
+            field: "startDate",
+          })),
+        );
 
         // Bug 4 fix: Target date must be in the future for count-up bars (Req 1.2)
         const targetFutureValidation = this.dateCalculator.validateFutureDate(
           config.targetDate,
         );
-        errors.push(...targetFutureValidation.errors);
+        errors.push(
+          ...targetFutureValidation.errors.map((e) => ({
+            ...e,
+            field: "targetDate",
+          })),
+        );
         break;
       }
 
@@ -189,7 +337,12 @@ export class TimeBasedManager {
         const futureValidation = this.dateCalculator.validateFutureDate(
           config.targetDate,
         );
-        errors.push(...futureValidation.errors);
+        errors.push(
+          ...futureValidation.errors.map((e) => ({
+            ...e,
+            field: "targetDate",
+          })),
+        );
         break;
       }
 
@@ -272,25 +425,37 @@ export class TimeBasedManager {
       progress.isCompleted !== bar.isCompleted ||
       progress.isOverdue !== bar.isOverdue
     ) {
+      const now = new Date();
+      const completedAt = progress.isCompleted
+        ? (bar.completedAt ?? now)
+        : null;
+
       await db
         .update(progressBars)
         .set({
           isCompleted: progress.isCompleted,
           isOverdue: progress.isOverdue,
+          completedAt,
           currentValue: progress.currentValue,
           targetValue: progress.targetValue,
-          updatedAt: new Date(),
+          updatedAt: now,
         })
         .where(eq(progressBars.id, bar.id));
 
+      // Reaching the target date can unlock achievements
+      if (progress.isCompleted && !bar.isCompleted) {
+        await achievementEngine.evaluate(bar.userId, now);
+      }
+
       // Return updated bar
       return {
         ...bar,
         isCompleted: progress.isCompleted,
         isOverdue: progress.isOverdue,
+        completedAt,
         currentValue: progress.currentValue,
         targetValue: progress.targetValue,
-        updatedAt: new Date(),
+        updatedAt: now,
       };
     }
 
@@ -298,16 +463,30 @@ export class TimeBasedManager {
   }
 
   /**
-   * Get all time-based progress bars from database
+   * Get all time-based progress bars owned by a user
+   * Deleted bars are always left out and archived bars unless asked for
    * Requirements: 2.5, 3.5
    *
-   * @returns Array of time-based progress bars
+   * @param userId - Clerk user id of the owner
+   * @param options - Set includeArchived to also return archived bars
+   * @returns Array of the user's time-based progress bars
    */
-  async getAllTimeBasedBars(): Promise<ProgressBar[]> {
-    const allBars = await db.select().from(progressBars).all();
-
-    // Filter only time-based bars
-    return allBars.filter((bar) => bar.barType === "time-based");
+  async getAllTimeBasedBars(
+    userId: string,
+    { includeArchived = false }: { includeArchived?: boolean } = {},
+  ): Promise<ProgressBar[]> {
+    return db
+      .select()
+      .from(progressBars)
+      .where(
+        and(
+          eq(progressBars.userId, userId),
+          eq(progressBars.barType, "time-based"),
+          isNull(progressBars.deletedAt),
+          includeArchived ? undefined : isNull(progressBars.archivedAt),
+        ),
+      )
+      .all();
   }
 
   /**
@@ -0,0 +1,143 @@
+/**
+ * XpCalculator Service
+ * Handles the XP earned by updating manual progress bars and the levels it
+ * adds up to
+ *
+ * Progress XP is measured in fractions of a bar's target rather than in its
+ * units, so a bar counting dollars earns no more than one counting books.
+ * Each stretch of a bar's track earns XP once: going back and forth over
+ * the same values, or past the target, earns nothing more
+ */
+
+import {
+  getManualPercentage,
+  hasReachedTarget,
+  type ManualProgressBar,
+} from "@/lib/manualProgress";
+
+// XP for covering the whole distance from a bar's start to its target
+export const XP_PER_TARGET = 100;
+
+// Extra XP for reaching a bar's target
+export const COMPLETION_BONUS_XP = 50;
+
+// Each level takes this much more XP than the one before it
+export const XP_PER_LEVEL_STEP = 100;
+
+// Keeps fractions such as 0.29 * 100 = 28.999999999999996 from losing a point
+const XP_EPSILON = 1e-9;
+
+/**
+ * Where a user's total XP puts them on the level curve
+ */
+export interface LevelProgress {
+  level: number;
+  totalXp: number;
+  // XP earned since reaching the current level
+  levelXp: number;
+  // XP between the current level and the next
+  levelSpan: number;
+}
+
+/**
+ * XpCalculator class provides the XP rules and the level curve
+ *
+ * Every method is pure, so the same inputs always give the same XP
+ */
+export class XpCalculator {
+  /**
+   * Fraction of a bar's target covered by a value, from 0 to 1
+   * Overshooting the target counts as covering it
+   */
+  getCoveredFraction(bar: ManualProgressBar, value: number): number {
+    return Math.min(getManualPercentage(bar, value), 100) / 100;
+  }
+
+  /**
+   * XP earned by moving a manual bar to a value
+   *
+   * @param bar - The manual bar
+   * @param value - The bar's new value
+   * @param awardedXp - Progress XP the bar has already earned in its current
+   *   period
+   * @returns XP for the part of the track covered for the first time; never
+   *   negative, and never more than XP_PER_TARGET together with awardedXp
+   */
+  getProgressXp(
+    bar: ManualProgressBar,
+    value: number,
+    awardedXp: number,
+  ): number {
+    const earned = Math.floor(
+      this.getCoveredFraction(bar, value) * XP_PER_TARGET + XP_EPSILON,
+    );
+    return Math.max(earned - awardedXp, 0);
+  }
+
+  /**
+   * Bonus XP for a manual bar reaching its target
+   *
+   * @param bar - The manual bar
+   * @param value - The bar's new value
+   * @param isBonusAwarded - Whether the bar already earned the bonus in its
+   *   current period
+   * @returns COMPLETION_BONUS_XP the first time the target is reached, else 0
+   */
+  getCompletionXp(
+    bar: ManualProgressBar,
+    value: number,
+    isBonusAwarded: boolean,
+  ): number {
+    return !isBonusAwarded && hasReachedTarget(bar, value)
+      ? COMPLETION_BONUS_XP
+      : 0;
+  }
+
+  /**
+   * Total XP needed to reach a level
+   * Level 1 needs none, level 2 needs 100, level 3 300, level 4 600, ...
+   */
+  getLevelThreshold(level: number): number {
+    const steps = Math.max(Math.floor(level), 1) - 1;
+    return (XP_PER_LEVEL_STEP * steps * (steps + 1)) / 2;
+  }
+
+  /**
+   * Level reached with a total amount of XP, starting at 1
+   */
+  getLevel(totalXp: number): number {
+    const xp = Math.max(totalXp, 0);
+    // Invert the threshold formula, then correct for floating point error
+    let level = Math.floor(
+      (1 + Math.sqrt(1 + (8 * xp) / XP_PER_LEVEL_STEP)) / 2,
+    );
+
+    while (level > 1 && this.getLevelThreshold(level) > xp) {
+      level--;
+    }
+    while (this.getLevelThreshold(level + 1) <= xp) {
+      level++;
+    }
+
+    return level;
+  }
+
+  /**
+   * Level and progress towards the next level for a total amount of XP
+   */
+  getLevelProgress(totalXp: number): LevelProgress {
+    const xp = Math.max(totalXp, 0);
+    const level = this.getLevel(xp);
+    const threshold = this.getLevelThreshold(level);
+
+    return {
+      level,
+      totalXp: xp,
+      levelXp: xp - threshold,
+      levelSpan: this.getLevelThreshold(level + 1) - threshold,
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const xpCalculator = new XpCalculator();
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for AudioEngine
+ * Tests that sounds are synthesised at the master volume, and that muting
+ * silences them without creating an audio context
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import { SOUND_TONES } from "@/lib/sounds";
+import { AudioEngine } from "../AudioEngine";
+
+function createParam() {
+  return {
+    value: 0,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+  };
+}
+
+function createFakeContext(state: AudioContextState = "running") {
+  const gains: { gain: ReturnType<typeof createParam>; connect: unknown }[] =
+    [];
+  const oscillators: {
+    type: string;
+    frequency: ReturnType<typeof createParam>;
+    start: ReturnType<typeof vi.fn>;
+    stop: ReturnType<typeof vi.fn>;
+  }[] = [];
+
+  const context = {
+    state,
+    currentTime: 10,
+    destination: {},
+    resume: vi.fn().mockResolvedValue(undefined),
+    createGain: vi.fn(() => {
+      const gain = { gain: createParam(), connect: vi.fn() };
+      gains.push(gain);
+      return gain;
+    }),
+    createOscillator: vi.fn(() => {
+      const oscillator = {
+        type: "sine",
+        frequency: createParam(),
+        connect: vi.fn(),
+        start: vi.fn(),
+        stop: vi.fn(),
+      };
+      oscillators.push(oscillator);
+      return oscillator;
+    }),
+  };
+
+  return {
+    context: context as unknown as AudioContext,
+    resume: context.resume,
+    gains,
+    oscillators,
+  };
+}
+
+describe("AudioEngine", () => {
+  it("should not create an audio context while muted", () => {
+    const createContext = vi.fn(() => createFakeContext().context);
+    const engine = new AudioEngine(createContext);
+
+    engine.setMuted(true);
+    engine.play("increment");
+
+    expect(createContext).not.toHaveBeenCalled();
+  });
+
+  it("should play one oscillator per tone of the sound", () => {
+    const fake = createFakeContext();
+    const engine = new AudioEngine(() => fake.context);
+
+    engine.setMuted(false);
+    engine.play("completion");
+
+    const tones = SOUND_TONES.completion;
+    expect(fake.oscillators).toHaveLength(tones.length);
+    fake.oscillators.forEach((oscillator, i) => {
+      expect(oscillator.frequency.setValueAtTime).toHaveBeenCalledWith(
+        tones[i].frequency,
+        10 + tones[i].startMs / 1000,
+      );
+      expect(oscillator.start).toHaveBeenCalledWith(
+        10 + tones[i].startMs / 1000,
+      );
+      expect(oscillator.stop.mock.calls[0][0]).toBeCloseTo(
+        10 + (tones[i].startMs + tones[i].durationMs) / 1000,
+      );
+    });
+  });
+
+  it("should set the master gain to the volume, and to 0 when muted", () => {
+    const fake = createFakeContext();
+    const engine = new AudioEngine(() => fake.context);
+    engine.setMuted(false);
+    engine.setVolume(0.4);
+    engine.play("increment");
+
+    // The first gain node is the master in front of every sound
+    const master = fake.gains[0].gain;
+    expect(master.setValueAtTime).toHaveBeenLastCalledWith(0.4, 10);
+
+    engine.setMuted(true);
+    expect(master.setValueAtTime).toHaveBeenLastCalledWith(0, 10);
+    engine.play("increment");
+    expect(fake.oscillators).toHaveLength(1);
+  });
+
+  it("should clamp the volume from 0 to 1", () => {
+    const engine = new AudioEngine(() => null);
+    engine.setMuted(false);
+
+    engine.setVolume(-1);
+    expect(engine.isAudible()).toBe(false);
+    engine.setVolume(3);
+    expect(engine.isAudible()).toBe(true);
+  });
+
+  it("should resume a context the browser suspended", () => {
+    const fake = createFakeContext("suspended");
+    const engine = new AudioEngine(() => fake.context);
+
+    engine.setMuted(false);
+    engine.play("decrement");
+
+    expect(fake.resume).toHaveBeenCalled();
+  });
+
+  it("should not reject when the browser refuses to resume", async () => {
+    const fake = createFakeContext("suspended");
+    // A plain function: a mock would handle the rejection by recording it
+    let isResumed = false;
+    Object.assign(fake.context, {
+      resume: () => {
+        isResumed = true;
+        return Promise.reject(new Error("Not allowed to start audio"));
+      },
+    });
+    const engine = new AudioEngine(() => fake.context);
+
+    engine.setMuted(false);
+
+    expect(() => engine.play("decrement")).not.toThrow();
+    // Let the rejection settle; an unhandled rejection fails the run
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(isResumed).toBe(true);
+  });
+
+  it("should do nothing without Web Audio support", () => {
+    const engine = new AudioEngine(() => null);
+    engine.setMuted(false);
+
+    expect(() => engine.play("milestone")).not.toThrow();
+  });
+});
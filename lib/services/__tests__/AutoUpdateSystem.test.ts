@@ -47,6 +47,24 @@ describe("AutoUpdateSystem", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         },
       ];
 
@@ -74,6 +92,24 @@ describe("AutoUpdateSystem", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         },
         {
           id: "2",
@@ -91,6 +127,24 @@ describe("AutoUpdateSystem", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         },
       ];
 
@@ -117,6 +171,24 @@ describe("AutoUpdateSystem", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         },
       ];
 
@@ -150,6 +222,24 @@ describe("AutoUpdateSystem", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         },
       ];
 
@@ -187,6 +277,24 @@ describe("AutoUpdateSystem", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       autoUpdateSystem.startUpdating([]);
@@ -212,6 +320,24 @@ describe("AutoUpdateSystem", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       autoUpdateSystem.startUpdating([]);
@@ -239,6 +365,24 @@ describe("AutoUpdateSystem", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       autoUpdateSystem.startUpdating([bar]);
@@ -267,6 +411,24 @@ describe("AutoUpdateSystem", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       autoUpdateSystem.startUpdating([bar]);
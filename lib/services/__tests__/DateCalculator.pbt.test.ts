@@ -49,6 +49,24 @@ describe("DateCalculator Property-Based Tests", () => {
       isOverdue: false,
       createdAt: startDate,
       updatedAt: startDate,
+      pinnedAt: null,
+      parentId: null,
+      weight: 1,
+      aggregation: null,
+      recurrence: null,
+      recurrenceDays: null,
+      periodStart: null,
+      position: 0,
+      categoryId: null,
+      deletedAt: null,
+      archivedAt: null,
+      completedAt: null,
+      startValue: 0,
+      direction: "up",
+      targetReachedAt: null,
+      allowOverflow: false,
+      stepSize: 1,
+      userId: "test-user",
     };
   }
 
@@ -112,6 +112,24 @@ describe("DateCalculator", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       const currentDate = new Date("2024-07-01");
@@ -141,6 +159,24 @@ describe("DateCalculator", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       const currentDate = new Date("2024-07-01");
@@ -168,6 +204,24 @@ describe("DateCalculator", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       const currentDate = new Date("2024-07-01");
@@ -194,6 +248,24 @@ describe("DateCalculator", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       const currentDate = new Date("2026-06-15");
@@ -230,6 +302,24 @@ describe("DateCalculator", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       // At exact start date
@@ -263,6 +353,24 @@ describe("DateCalculator", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       const currentDate = new Date("2026-06-15");
@@ -292,6 +400,24 @@ describe("DateCalculator", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       const currentDate = new Date("2026-06-15");
@@ -323,6 +449,24 @@ describe("DateCalculator", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       // 6am on start day (before noon start time)
@@ -547,6 +691,24 @@ describe("DateCalculator", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         };
 
         const currentDate = new Date("2025-01-01");
@@ -574,6 +736,24 @@ describe("DateCalculator", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         };
 
         const currentDate = new Date("2012-07-01");
@@ -602,6 +782,24 @@ describe("DateCalculator", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         };
 
         const currentDate = new Date("2025-01-01");
@@ -682,6 +880,24 @@ describe("DateCalculator", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         };
 
         const currentDate = new Date("2010-01-01");
@@ -712,6 +928,24 @@ describe("DateCalculator", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         };
 
         const currentDate = new Date("2010-06-15");
@@ -758,6 +992,24 @@ describe("DateCalculator", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         };
 
         const currentDate = new Date("2000-01-01");
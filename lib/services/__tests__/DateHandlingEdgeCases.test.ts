@@ -263,6 +263,24 @@ describe("Date Handling Edge Cases (Bug Fix Verification)", () => {
           isOverdue: false,
           createdAt: new Date(),
           updatedAt: new Date(),
+          pinnedAt: null,
+          parentId: null,
+          weight: 1,
+          aggregation: null,
+          recurrence: null,
+          recurrenceDays: null,
+          periodStart: null,
+          position: 0,
+          categoryId: null,
+          deletedAt: null,
+          archivedAt: null,
+          completedAt: null,
+          startValue: 0,
+          direction: "up",
+          targetReachedAt: null,
+          allowOverflow: false,
+          stepSize: 1,
+          userId: "test-user",
         };
 
         const currentDate = new Date("2024-09-15");
@@ -315,6 +333,24 @@ describe("Date Handling Edge Cases (Bug Fix Verification)", () => {
         isOverdue: false,
         createdAt: new Date("2024-01-01"),
         updatedAt: new Date("2024-01-01"),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       // Test that dates are stable (Fix #1)
@@ -9,6 +9,8 @@ import { db } from "@/db";
 import { progressBars } from "@/db/schema";
 import { TimeBasedManager } from "../TimeBasedManager";
 
+const TEST_USER_ID = "test-user";
+
 describe("TimeBasedManager", () => {
   let manager: TimeBasedManager;
   const createdIds: string[] = [];
@@ -30,13 +32,16 @@ describe("TimeBasedManager", () => {
       const startDate = new Date("2024-01-01");
       const targetDate = new Date("2027-12-31");
 
-      const bar = await manager.createTimeBasedBar({
-        title: "Test Count-Up Bar",
-        description: "Test description",
-        timeBasedType: "count-up",
-        startDate,
-        targetDate,
-      });
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Test Count-Up Bar",
+          description: "Test description",
+          timeBasedType: "count-up",
+          startDate,
+          targetDate,
+        },
+        TEST_USER_ID,
+      );
 
       createdIds.push(bar.id);
 
@@ -51,12 +56,15 @@ describe("TimeBasedManager", () => {
       const startDate = new Date();
       const targetDate = new Date("2027-12-31");
 
-      const bar = await manager.createTimeBasedBar({
-        title: "Test Count-Down Bar",
-        timeBasedType: "count-down",
-        startDate,
-        targetDate,
-      });
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Test Count-Down Bar",
+          timeBasedType: "count-down",
+          startDate,
+          targetDate,
+        },
+        TEST_USER_ID,
+      );
 
       createdIds.push(bar.id);
 
@@ -69,12 +77,15 @@ describe("TimeBasedManager", () => {
       const startDate = new Date("2025-01-01");
       const targetDate = new Date("2025-12-31");
 
-      const bar = await manager.createTimeBasedBar({
-        title: "Test Arrival Date Bar",
-        timeBasedType: "arrival-date",
-        startDate,
-        targetDate,
-      });
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Test Arrival Date Bar",
+          timeBasedType: "arrival-date",
+          startDate,
+          targetDate,
+        },
+        TEST_USER_ID,
+      );
 
       createdIds.push(bar.id);
 
@@ -87,12 +98,15 @@ describe("TimeBasedManager", () => {
       const targetDate = new Date("2025-01-01");
 
       await expect(
-        manager.createTimeBasedBar({
-          title: "Invalid Bar",
-          timeBasedType: "count-up",
-          startDate,
-          targetDate,
-        }),
+        manager.createTimeBasedBar(
+          {
+            title: "Invalid Bar",
+            timeBasedType: "count-up",
+            startDate,
+            targetDate,
+          },
+          TEST_USER_ID,
+        ),
       ).rejects.toThrow("Validation failed");
     });
 
@@ -101,12 +115,15 @@ describe("TimeBasedManager", () => {
       const targetDate = new Date("2031-01-01");
 
       await expect(
-        manager.createTimeBasedBar({
-          title: "Invalid Count-Up",
-          timeBasedType: "count-up",
-          startDate,
-          targetDate,
-        }),
+        manager.createTimeBasedBar(
+          {
+            title: "Invalid Count-Up",
+            timeBasedType: "count-up",
+            startDate,
+            targetDate,
+          },
+          TEST_USER_ID,
+        ),
       ).rejects.toThrow("Validation failed");
     });
   });
@@ -116,12 +133,15 @@ describe("TimeBasedManager", () => {
       const startDate = new Date("2024-01-01");
       const targetDate = new Date("2027-12-31");
 
-      const bar = await manager.createTimeBasedBar({
-        title: "Progress Test Bar",
-        timeBasedType: "count-up",
-        startDate,
-        targetDate,
-      });
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Progress Test Bar",
+          timeBasedType: "count-up",
+          startDate,
+          targetDate,
+        },
+        TEST_USER_ID,
+      );
 
       createdIds.push(bar.id);
 
@@ -160,6 +180,24 @@ describe("TimeBasedManager", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       expect(() => manager.calculateCurrentProgress(manualBar)).toThrow(
@@ -171,20 +209,80 @@ describe("TimeBasedManager", () => {
   describe("getAllTimeBasedBars", () => {
     it("should retrieve only time-based bars", async () => {
       // Create a time-based bar
-      const bar = await manager.createTimeBasedBar({
-        title: "Time-Based Bar",
-        timeBasedType: "count-down",
-        startDate: new Date(),
-        targetDate: new Date("2027-12-31"),
-      });
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Time-Based Bar",
+          timeBasedType: "count-down",
+          startDate: new Date(),
+          targetDate: new Date("2027-12-31"),
+        },
+        TEST_USER_ID,
+      );
 
       createdIds.push(bar.id);
 
-      const timeBasedBars = await manager.getAllTimeBasedBars();
+      const timeBasedBars = await manager.getAllTimeBasedBars(TEST_USER_ID);
 
       expect(timeBasedBars.length).toBeGreaterThan(0);
       expect(timeBasedBars.every((b) => b.barType === "time-based")).toBe(true);
     });
+
+    it("should only retrieve bars owned by the given user", async () => {
+      const ownBar = await manager.createTimeBasedBar(
+        {
+          title: "Own Bar",
+          timeBasedType: "count-down",
+          startDate: new Date(),
+          targetDate: new Date("2027-12-31"),
+        },
+        TEST_USER_ID,
+      );
+      const otherBar = await manager.createTimeBasedBar(
+        {
+          title: "Other User's Bar",
+          timeBasedType: "count-down",
+          startDate: new Date(),
+          targetDate: new Date("2027-12-31"),
+        },
+        "other-user",
+      );
+
+      createdIds.push(ownBar.id, otherBar.id);
+
+      const timeBasedBars = await manager.getAllTimeBasedBars(TEST_USER_ID);
+      const ids = timeBasedBars.map((b) => b.id);
+
+      expect(ids).toContain(ownBar.id);
+      expect(ids).not.toContain(otherBar.id);
+      expect(timeBasedBars.every((b) => b.userId === TEST_USER_ID)).toBe(true);
+    });
+
+    it("should leave out archived bars unless asked for", async () => {
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Archived Bar",
+          timeBasedType: "count-down",
+          startDate: new Date(),
+          targetDate: new Date("2027-12-31"),
+        },
+        TEST_USER_ID,
+      );
+
+      createdIds.push(bar.id);
+
+      await db
+        .update(progressBars)
+        .set({ archivedAt: new Date() })
+        .where(eq(progressBars.id, bar.id));
+
+      const active = await manager.getAllTimeBasedBars(TEST_USER_ID);
+      const all = await manager.getAllTimeBasedBars(TEST_USER_ID, {
+        includeArchived: true,
+      });
+
+      expect(active.map((b) => b.id)).not.toContain(bar.id);
+      expect(all.map((b) => b.id)).toContain(bar.id);
+    });
   });
 
   describe("updateCompletionStatus", () => {
@@ -194,12 +292,15 @@ describe("TimeBasedManager", () => {
       const startDate = new Date("2020-01-01");
       const targetDate = new Date("2021-01-01");
 
-      const bar = await manager.createTimeBasedBar({
-        title: "Completed Bar",
-        timeBasedType: "arrival-date",
-        startDate,
-        targetDate,
-      });
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Completed Bar",
+          timeBasedType: "arrival-date",
+          startDate,
+          targetDate,
+        },
+        TEST_USER_ID,
+      );
 
       createdIds.push(bar.id);
 
@@ -217,6 +318,200 @@ describe("TimeBasedManager", () => {
 
       expect(updatedBar.isCompleted).toBe(true);
     });
+
+    it("should record and clear the completion timestamp", async () => {
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Past Arrival",
+          timeBasedType: "arrival-date",
+          startDate: new Date("2020-01-01"),
+          targetDate: new Date("2021-01-01"),
+        },
+        TEST_USER_ID,
+      );
+
+      createdIds.push(bar.id);
+      expect(bar.completedAt).toBeInstanceOf(Date);
+
+      const dbBar = await db
+        .select()
+        .from(progressBars)
+        .where(eq(progressBars.id, bar.id))
+        .get();
+
+      expect(dbBar).toBeDefined();
+      if (!dbBar) return;
+
+      // Moving the target into the future reopens the bar
+      const reopened = await manager.updateTimeBasedBar(dbBar, {
+        title: dbBar.title,
+        timeBasedType: "arrival-date",
+        startDate: new Date("2020-01-01"),
+        targetDate: new Date("2060-01-01"),
+      });
+
+      expect(reopened.isCompleted).toBe(false);
+      expect(reopened.completedAt).toBeNull();
+    });
+  });
+
+  describe("updateTimeBasedBar", () => {
+    it("should update the schedule and recompute completion status", async () => {
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Arrival",
+          timeBasedType: "arrival-date",
+          startDate: new Date("2025-01-01"),
+          targetDate: new Date("2027-12-31"),
+        },
+        TEST_USER_ID,
+      );
+
+      createdIds.push(bar.id);
+
+      const dbBar = await db
+        .select()
+        .from(progressBars)
+        .where(eq(progressBars.id, bar.id))
+        .get();
+
+      expect(dbBar).toBeDefined();
+      if (!dbBar) return;
+
+      const updatedBar = await manager.updateTimeBasedBar(dbBar, {
+        title: "Arrived",
+        timeBasedType: "arrival-date",
+        startDate: new Date("2020-01-01"),
+        targetDate: new Date("2021-01-01"),
+      });
+
+      expect(updatedBar.title).toBe("Arrived");
+      expect(updatedBar.isCompleted).toBe(true);
+      expect(updatedBar.isOverdue).toBe(true);
+
+      const storedBar = await db
+        .select()
+        .from(progressBars)
+        .where(eq(progressBars.id, bar.id))
+        .get();
+
+      expect(storedBar?.startDate).toBe(new Date("2020-01-01").toISOString());
+      expect(storedBar?.isCompleted).toBe(true);
+    });
+
+    it("should reject schedule changes that fail date validation", async () => {
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Count-Up",
+          timeBasedType: "count-up",
+          startDate: new Date("2024-01-01"),
+          targetDate: new Date("2027-12-31"),
+        },
+        TEST_USER_ID,
+      );
+
+      createdIds.push(bar.id);
+
+      const dbBar = await db
+        .select()
+        .from(progressBars)
+        .where(eq(progressBars.id, bar.id))
+        .get();
+
+      expect(dbBar).toBeDefined();
+      if (!dbBar) return;
+
+      await expect(
+        manager.updateTimeBasedBar(dbBar, {
+          title: "Count-Up",
+          timeBasedType: "count-up",
+          startDate: new Date("2030-01-01"),
+          targetDate: new Date("2031-01-01"),
+        }),
+      ).rejects.toThrow("Validation failed");
+    });
+
+    it("should allow renaming without revalidating an unchanged schedule", async () => {
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Past Arrival",
+          timeBasedType: "arrival-date",
+          startDate: new Date("2020-01-01"),
+          targetDate: new Date("2021-01-01"),
+        },
+        TEST_USER_ID,
+      );
+
+      createdIds.push(bar.id);
+
+      const dbBar = await db
+        .select()
+        .from(progressBars)
+        .where(eq(progressBars.id, bar.id))
+        .get();
+
+      expect(dbBar).toBeDefined();
+      if (!dbBar) return;
+
+      const updatedBar = await manager.updateTimeBasedBar(
+        { ...dbBar, timeBasedType: "count-up" },
+        {
+          title: "Renamed",
+          timeBasedType: "count-up",
+          startDate: new Date("2020-01-01"),
+          targetDate: new Date("2021-01-01"),
+        },
+      );
+
+      expect(updatedBar.title).toBe("Renamed");
+    });
+
+    it("should throw error for non-time-based bar", async () => {
+      const manualBar = {
+        id: "test-id",
+        title: "Manual Bar",
+        description: null,
+        currentValue: 50,
+        targetValue: 100,
+        unit: null,
+        unitPosition: null,
+        barType: "manual" as const,
+        startDate: null,
+        targetDate: null,
+        timeBasedType: null,
+        isCompleted: false,
+        isOverdue: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
+      };
+
+      await expect(
+        manager.updateTimeBasedBar(manualBar, {
+          title: "Manual Bar",
+          timeBasedType: "count-up",
+          startDate: new Date("2024-01-01"),
+          targetDate: new Date("2027-12-31"),
+        }),
+      ).rejects.toThrow("Bar is not a time-based progress bar");
+    });
   });
 
   describe("toTimeBasedProgressBar", () => {
@@ -224,12 +519,15 @@ describe("TimeBasedManager", () => {
       const startDate = new Date("2024-01-01");
       const targetDate = new Date("2027-12-31");
 
-      const bar = await manager.createTimeBasedBar({
-        title: "Conversion Test",
-        timeBasedType: "count-up",
-        startDate,
-        targetDate,
-      });
+      const bar = await manager.createTimeBasedBar(
+        {
+          title: "Conversion Test",
+          timeBasedType: "count-up",
+          startDate,
+          targetDate,
+        },
+        TEST_USER_ID,
+      );
 
       createdIds.push(bar.id);
 
@@ -268,6 +566,24 @@ describe("TimeBasedManager", () => {
         isOverdue: false,
         createdAt: new Date(),
         updatedAt: new Date(),
+        pinnedAt: null,
+        parentId: null,
+        weight: 1,
+        aggregation: null,
+        recurrence: null,
+        recurrenceDays: null,
+        periodStart: null,
+        position: 0,
+        categoryId: null,
+        deletedAt: null,
+        archivedAt: null,
+        completedAt: null,
+        startValue: 0,
+        direction: "up",
+        targetReachedAt: null,
+        allowOverflow: false,
+        stepSize: 1,
+        userId: "test-user",
       };
 
       const result = manager.toTimeBasedProgressBar(manualBar);
@@ -0,0 +1,200 @@
+/**
+ * Property-Based Tests for XpCalculator
+ * Property 1: A bar can't be farmed for XP
+ * Property 2: XP doesn't depend on a bar's units
+ * Property 3: Levels follow the level curve
+ */
+
+import * as fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { hasReachedTarget, type ManualProgressBar } from "@/lib/manualProgress";
+import {
+  COMPLETION_BONUS_XP,
+  XP_PER_TARGET,
+  XpCalculator,
+} from "../XpCalculator";
+
+describe("XpCalculator Property-Based Tests", () => {
+  const calculator = new XpCalculator();
+
+  const barArb = fc
+    .record({
+      direction: fc.constantFrom("up", "down"),
+      startValue: fc.integer({ min: 0, max: 10000 }),
+      distance: fc.integer({ min: 1, max: 100000 }),
+      allowOverflow: fc.boolean(),
+    })
+    .map(
+      ({
+        direction,
+        startValue,
+        distance,
+        allowOverflow,
+      }): ManualProgressBar =>
+        direction === "up"
+          ? {
+              direction,
+              startValue,
+              targetValue: startValue + distance,
+              allowOverflow,
+            }
+          : {
+              direction,
+              startValue: startValue + distance,
+              targetValue: startValue,
+              allowOverflow,
+            },
+    );
+
+  // Values anywhere around a bar's range, including past either end
+  const valuesArb = (bar: ManualProgressBar) => {
+    const low = Math.min(bar.startValue, bar.targetValue);
+    const high = Math.max(bar.startValue, bar.targetValue);
+    const span = high - low;
+    return fc.array(
+      fc.double({
+        min: Math.max(low - span, 0),
+        max: high + span,
+        noNaN: true,
+      }),
+      { minLength: 1, maxLength: 50 },
+    );
+  };
+
+  // Total XP a bar earns from a sequence of updates, as the ledger adds it up
+  function playUpdates(bar: ManualProgressBar, values: number[]) {
+    let progressXp = 0;
+    let bonusXp = 0;
+    const awards: number[] = [];
+
+    for (const value of values) {
+      const progress = calculator.getProgressXp(bar, value, progressXp);
+      const bonus = calculator.getCompletionXp(bar, value, bonusXp > 0);
+      progressXp += progress;
+      bonusXp += bonus;
+      awards.push(progress, bonus);
+    }
+
+    return { total: progressXp + bonusXp, awards };
+  }
+
+  /**
+   * Property 1: Anti-farming
+   * However often a bar is moved back and forth, it earns at most the XP for
+   * covering its target once plus one completion bonus
+   */
+  it("never awards more than one target's worth of XP per bar", () => {
+    fc.assert(
+      fc.property(
+        barArb.chain((bar) => fc.tuple(fc.constant(bar), valuesArb(bar))),
+        ([bar, values]) => {
+          const { total, awards } = playUpdates(bar, values);
+
+          expect(total).toBeLessThanOrEqual(
+            XP_PER_TARGET + COMPLETION_BONUS_XP,
+          );
+          for (const award of awards) {
+            expect(Number.isInteger(award)).toBe(true);
+            expect(award).toBeGreaterThanOrEqual(0);
+          }
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("awards the same XP for a sequence as for its furthest value", () => {
+    fc.assert(
+      fc.property(
+        barArb.chain((bar) => fc.tuple(fc.constant(bar), valuesArb(bar))),
+        ([bar, values]) => {
+          // Values past the target all cover the whole bar, and one just
+          // short of it can round up to the whole bar too; only a value that
+          // reaches the target earns the completion bonus
+          const furthest = values.reduce((best, value) => {
+            const covered = calculator.getCoveredFraction(bar, value);
+            const bestCovered = calculator.getCoveredFraction(bar, best);
+            if (covered !== bestCovered) {
+              return covered > bestCovered ? value : best;
+            }
+            return hasReachedTarget(bar, value) ? value : best;
+          });
+
+          expect(playUpdates(bar, values).total).toBe(
+            playUpdates(bar, [furthest]).total,
+          );
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  /**
+   * Property 2: Unit independence
+   * Scaling a bar and its values, e.g. counting cents instead of dollars,
+   * earns the same XP
+   */
+  it("awards the same XP whatever unit a bar counts in", () => {
+    fc.assert(
+      fc.property(
+        barArb,
+        fc.double({ min: 0, max: 1.5, noNaN: true }),
+        fc.integer({ min: 2, max: 1000 }),
+        fc.integer({ min: 0, max: XP_PER_TARGET }),
+        (bar, fraction, scale, awardedXp) => {
+          const value =
+            bar.startValue + (bar.targetValue - bar.startValue) * fraction;
+          const scaled: ManualProgressBar = {
+            ...bar,
+            startValue: bar.startValue * scale,
+            targetValue: bar.targetValue * scale,
+          };
+
+          // Scaling can tip a fraction across a whole point either way
+          expect(
+            Math.abs(
+              calculator.getProgressXp(scaled, value * scale, awardedXp) -
+                calculator.getProgressXp(bar, value, awardedXp),
+            ),
+          ).toBeLessThanOrEqual(1);
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  /**
+   * Property 3: Level curve
+   * Every amount of XP falls between its level's threshold and the next
+   */
+  it("places every amount of XP between its level's thresholds", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 10_000_000 }), (xp) => {
+        const level = calculator.getLevel(xp);
+        const progress = calculator.getLevelProgress(xp);
+
+        expect(level).toBeGreaterThanOrEqual(1);
+        expect(calculator.getLevelThreshold(level)).toBeLessThanOrEqual(xp);
+        expect(calculator.getLevelThreshold(level + 1)).toBeGreaterThan(xp);
+        expect(progress.levelXp).toBeGreaterThanOrEqual(0);
+        expect(progress.levelXp).toBeLessThan(progress.levelSpan);
+      }),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+
+  it("never lowers the level as XP grows", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 1_000_000 }),
+        fc.integer({ min: 0, max: 1_000_000 }),
+        (xp, gain) => {
+          expect(calculator.getLevel(xp + gain)).toBeGreaterThanOrEqual(
+            calculator.getLevel(xp),
+          );
+        },
+      ),
+      { numRuns: 100, timeout: 5000, verbose: true },
+    );
+  }, 10000);
+});
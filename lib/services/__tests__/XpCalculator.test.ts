@@ -0,0 +1,91 @@
+/**
+ * Unit tests for XpCalculator
+ * Tests the XP awarded for progress and the level curve
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ManualProgressBar } from "@/lib/manualProgress";
+import {
+  COMPLETION_BONUS_XP,
+  XP_PER_TARGET,
+  XpCalculator,
+} from "../XpCalculator";
+
+describe("XpCalculator", () => {
+  const calculator = new XpCalculator();
+
+  const savings: ManualProgressBar = {
+    direction: "up",
+    startValue: 0,
+    targetValue: 5000,
+    allowOverflow: true,
+  };
+  const debt: ManualProgressBar = {
+    direction: "down",
+    startValue: 1000,
+    targetValue: 200,
+    allowOverflow: false,
+  };
+
+  describe("getProgressXp", () => {
+    it("should award XP by the fraction of the target covered", () => {
+      expect(calculator.getProgressXp(savings, 1250, 0)).toBe(25);
+      expect(calculator.getProgressXp(debt, 600, 0)).toBe(50);
+    });
+
+    it("should only award the part not earned before", () => {
+      expect(calculator.getProgressXp(savings, 2500, 25)).toBe(25);
+      expect(calculator.getProgressXp(savings, 1000, 25)).toBe(0);
+    });
+
+    it("should stop at the target", () => {
+      expect(calculator.getProgressXp(savings, 50000, 0)).toBe(XP_PER_TARGET);
+      expect(calculator.getProgressXp(savings, 50000, XP_PER_TARGET)).toBe(0);
+    });
+
+    it("should award nothing for moving away from the target", () => {
+      expect(calculator.getProgressXp(debt, 1500, 0)).toBe(0);
+    });
+
+    it("should not lose a point to floating point error", () => {
+      const bar: ManualProgressBar = { ...savings, targetValue: 1 };
+
+      expect(calculator.getProgressXp(bar, 0.29, 0)).toBe(29);
+    });
+  });
+
+  describe("getCompletionXp", () => {
+    it("should give the bonus the first time the target is reached", () => {
+      expect(calculator.getCompletionXp(debt, 200, false)).toBe(
+        COMPLETION_BONUS_XP,
+      );
+      expect(calculator.getCompletionXp(debt, 200, true)).toBe(0);
+      expect(calculator.getCompletionXp(debt, 201, false)).toBe(0);
+    });
+  });
+
+  describe("levels", () => {
+    it("should need a growing amount of XP for each level", () => {
+      expect(
+        [1, 2, 3, 4, 5].map((level) => calculator.getLevelThreshold(level)),
+      ).toEqual([0, 100, 300, 600, 1000]);
+    });
+
+    it("should find the level for an amount of XP", () => {
+      expect(calculator.getLevel(0)).toBe(1);
+      expect(calculator.getLevel(99)).toBe(1);
+      expect(calculator.getLevel(100)).toBe(2);
+      expect(calculator.getLevel(599)).toBe(3);
+      expect(calculator.getLevel(600)).toBe(4);
+    });
+
+    it("should report progress towards the next level", () => {
+      expect(calculator.getLevelProgress(450)).toEqual({
+        level: 3,
+        totalXp: 450,
+        levelXp: 150,
+        levelSpan: 300,
+      });
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Sound effects for changes to bars
+ * Every sound is a few short tones synthesised in the browser, so there are
+ * no audio files to download. Sounds are off until the user turns them on
+ */
+
+export const SOUND_EFFECTS = [
+  "increment",
+  "decrement",
+  "milestone",
+  "completion",
+] as const;
+
+export type SoundEffect = (typeof SOUND_EFFECTS)[number];
+
+/**
+ * One note of a sound effect
+ */
+export interface Tone {
+  // Hertz
+  frequency: number;
+  // Delay from the start of the sound
+  startMs: number;
+  durationMs: number;
+  waveform: OscillatorType;
+}
+
+export interface SoundPreferences {
+  muted: boolean;
+  // Master volume, from 0 to 1
+  volume: number;
+}
+
+export const DEFAULT_SOUND_PREFERENCES: SoundPreferences = {
+  muted: true,
+  volume: 0.5,
+};
+
+// C major notes, so the sounds agree with each other
+const C5 = 523.25;
+const E5 = 659.25;
+const G5 = 783.99;
+const C6 = 1046.5;
+
+export const SOUND_TONES: Record<SoundEffect, readonly Tone[]> = {
+  // A short blip up, and the same blip down
+  increment: [{ frequency: G5, startMs: 0, durationMs: 80, waveform: "sine" }],
+  decrement: [{ frequency: E5, startMs: 0, durationMs: 80, waveform: "sine" }],
+  milestone: [
+    { frequency: C5, startMs: 0, durationMs: 120, waveform: "triangle" },
+    { frequency: E5, startMs: 90, durationMs: 120, waveform: "triangle" },
+    { frequency: G5, startMs: 180, durationMs: 200, waveform: "triangle" },
+  ],
+  completion: [
+    { frequency: C5, startMs: 0, durationMs: 150, waveform: "triangle" },
+    { frequency: E5, startMs: 120, durationMs: 150, waveform: "triangle" },
+    { frequency: G5, startMs: 240, durationMs: 150, waveform: "triangle" },
+    { frequency: C6, startMs: 360, durationMs: 450, waveform: "triangle" },
+  ],
+};
+
+export function isSoundVolume(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= 0 &&
+    value <= 1
+  );
+}
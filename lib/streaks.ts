@@ -0,0 +1,106 @@
+/**
+ * Daily update streaks
+ * A streak is a run of consecutive calendar days with at least one progress
+ * update. Days are counted in the user's timezone, so an update at 23:30 and
+ * one at 00:30 the next evening are on different days wherever the server
+ * runs, and days stay days across daylight saving changes (23 or 25 hours)
+ *
+ * Everything here is computed from the clock it is given, so the same
+ * inputs always give the same streaks
+ */
+
+// Timezone used until the user's browser reports theirs
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface Streak {
+  // Days in the run that ends today, or yesterday while today has no
+  // update yet; 0 once a whole day passes without one
+  current: number;
+  longest: number;
+}
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getDayFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    });
+    dayFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a value is an IANA timezone name the runtime knows, e.g.
+ * "Europe/Berlin"
+ */
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || value === "") {
+    return false;
+  }
+
+  try {
+    getDayFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar day a moment falls on in a timezone, as a count of days since
+ * 1970-01-01; consecutive days always differ by exactly 1
+ */
+export function getDayNumber(time: Date, timeZone: string): number {
+  const parts = getDayFormatter(timeZone).formatToParts(time);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return Date.UTC(part("year"), part("month") - 1, part("day")) / MS_PER_DAY;
+}
+
+/**
+ * Current and longest streak of days with updates
+ *
+ * @param times - When updates were made, in any order
+ * @param timeZone - IANA timezone the days are counted in
+ * @param now - Current time; updates on later days are ignored
+ * @returns Both streaks, 0 without any updates
+ */
+export function getStreak(
+  times: readonly Date[],
+  timeZone: string,
+  now: Date,
+): Streak {
+  const today = getDayNumber(now, timeZone);
+  const days = [...new Set(times.map((time) => getDayNumber(time, timeZone)))]
+    .filter((day) => day <= today)
+    .sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && day - days[index - 1] === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // The last run only counts as current while it reaches today or yesterday
+  const lastDay = days.at(-1);
+  const current = lastDay !== undefined && today - lastDay <= 1 ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Short description of a streak, e.g. "3-day streak"
+ */
+export function formatStreak(days: number): string {
+  return `${days}-day streak`;
+}
@@ -0,0 +1,67 @@
+/**
+ * Tag names and the tag filter of the dashboard URL
+ * Filters are kept in the search params, e.g. ?tag=health&tag=daily&match=all,
+ * so filtered views can be bookmarked
+ */
+
+export type TagMatch = "all" | "any";
+
+export interface TagFilter {
+  tags: string[];
+  // Whether bars need every tag or at least one of them
+  match: TagMatch;
+}
+
+export interface TagFilterParams {
+  tag?: string | string[];
+  match?: string;
+}
+
+/**
+ * Normalize a tag name so "Health" and " health" are the same tag
+ * Tags are lowercase and use dashes instead of spaces
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Read the tag filter from the dashboard's search params
+ * Unknown match values fall back to matching any tag
+ */
+export function parseTagFilter(params: TagFilterParams): TagFilter {
+  const raw =
+    typeof params.tag === "string" ? [params.tag] : (params.tag ?? []);
+  const tags = [...new Set(raw.map(normalizeTagName).filter(Boolean))];
+
+  return { tags, match: params.match === "all" ? "all" : "any" };
+}
+
+/**
+ * Add a tag to the filter, or remove it if it is already filtered on
+ */
+export function toggleTagFilter(filter: TagFilter, tag: string): TagFilter {
+  return {
+    ...filter,
+    tags: filter.tags.includes(tag)
+      ? filter.tags.filter((t) => t !== tag)
+      : [...filter.tags, tag],
+  };
+}
+
+/**
+ * Dashboard URL showing the bars that match a tag filter
+ */
+export function getTagFilterHref(filter: TagFilter): string {
+  const params = new URLSearchParams();
+  for (const tag of filter.tags) {
+    params.append("tag", tag);
+  }
+  // Matching any tag is the default, so it is left out of the URL
+  if (filter.match === "all" && filter.tags.length > 0) {
+    params.set("match", "all");
+  }
+
+  const query = params.toString();
+  return query ? `/?${query}` : "/";
+}
@@ -3,7 +3,10 @@
  * Requirement 8.2: TypeScript data models for time-based progress tracking
  */
 
-import type { ProgressBar } from "@/db/schema";
+import type { ProgressBar, ProgressHistoryEntry } from "@/db/schema";
+import type { Aggregation } from "./composite";
+import type { MilestoneKind } from "./milestones";
+import type { Recurrence } from "./recurrence";
 
 /**
  * Time-based progress bar with parsed date fields
@@ -73,16 +76,23 @@ export interface TimeBasedBarConfig {
   timeBasedType: "count-up" | "count-down" | "arrival-date";
   startDate: Date;
   targetDate: Date;
+  // Left out to keep a bar's current category when editing
+  categoryId?: string | null;
+  // Place in the custom dashboard order; only used when creating
+  position?: number;
 }
 
 /**
- * Validation error codes for date validation
+ * Validation error codes for date and form input validation
  */
 export type ValidationErrorCode =
   | "INVALID_DATE_RANGE"
   | "HISTORICAL_LIMIT_EXCEEDED"
   | "FUTURE_START_DATE"
-  | "INVALID_DATE_FORMAT";
+  | "INVALID_DATE_FORMAT"
+  | "REQUIRED_FIELD"
+  | "INVALID_VALUE"
+  | "NOT_FOUND";
 
 /**
  * Validation error with field and message
@@ -100,3 +110,88 @@ export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
 }
+
+/**
+ * Untrusted input parsed into a typed value, or the errors that prevented it
+ */
+export type ParsedInput<T> =
+  | { isValid: true; input: T }
+  | { isValid: false; errors: ValidationError[] };
+
+/**
+ * Result returned by server actions
+ * Expected failures are reported as errors instead of being thrown
+ */
+export type ActionResult<T = undefined> =
+  | { success: true; data: T }
+  | { success: false; errors: ValidationError[] };
+
+/**
+ * Validated fields for a manual progress bar
+ */
+export interface ManualBarInput {
+  title: string;
+  description: string | null;
+  targetValue: number;
+  unit: string | null;
+  unitPosition: "prefix" | "suffix" | null;
+  direction: "up" | "down";
+  startValue: number;
+  stepSize: number;
+  allowOverflow: boolean;
+  // Null for bars that never reset
+  recurrence: Recurrence | null;
+  // Period length of custom recurrences
+  recurrenceDays: number | null;
+}
+
+/**
+ * Validated fields for a composite bar
+ */
+export interface CompositeBarInput {
+  title: string;
+  description: string | null;
+  aggregation: Aggregation;
+}
+
+/**
+ * Validated choice of the composite bar a bar counts towards
+ */
+export interface ParentInput {
+  // Null takes the bar out of its parent
+  parentId: string | null;
+  weight: number;
+}
+
+/**
+ * Validated fields for a milestone
+ */
+export interface MilestoneInput {
+  label: string | null;
+  kind: MilestoneKind;
+  // Value or percentage of value and percentage milestones
+  value: number | null;
+  // Day of date milestones
+  date: Date | null;
+}
+
+/**
+ * Validated fields for a category of progress bars
+ */
+export interface CategoryInput {
+  name: string;
+}
+
+/**
+ * Origin of a recorded progress change
+ */
+export type ProgressUpdateSource = "manual" | "undo" | "reset";
+
+/**
+ * One page of a bar's progress history, newest entries first
+ */
+export interface ProgressHistoryPage {
+  entries: ProgressHistoryEntry[];
+  page: number;
+  hasMore: boolean;
+}
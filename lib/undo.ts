@@ -0,0 +1,9 @@
+/**
+ * Limits shared by the undo toast and the undo server actions
+ */
+
+// How long a deleted bar can be restored before it is removed for good
+export const UNDO_WINDOW_MS = 10_000;
+
+// How many of a bar's most recent value changes can be undone
+export const UNDO_DEPTH = 10;
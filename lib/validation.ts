@@ -0,0 +1,636 @@
+/**
+ * Form input parsing for progress bar server actions
+ * Turns untrusted FormData into typed input with field-level errors
+ */
+
+import type { ProgressBar } from "@/db/schema";
+import { isAggregation, MAX_WEIGHT } from "./composite";
+import { isMilestoneInRange } from "./milestones";
+import { isRecurrence, MAX_RECURRENCE_DAYS } from "./recurrence";
+import { normalizeTagName } from "./tags";
+import type {
+  CategoryInput,
+  CompositeBarInput,
+  ManualBarInput,
+  MilestoneInput,
+  ParentInput,
+  ParsedInput,
+  TimeBasedBarConfig,
+  ValidationError,
+} from "./types";
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_UNIT_LENGTH = 20;
+const MAX_CATEGORY_NAME_LENGTH = 50;
+const MAX_TAG_LENGTH = 30;
+const MAX_TAGS_PER_BAR = 10;
+const MAX_MILESTONE_LABEL_LENGTH = 50;
+
+const DATE_INPUT_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_BASED_TYPES = ["count-up", "count-down", "arrival-date"] as const;
+const UNIT_POSITIONS = ["prefix", "suffix"] as const;
+const DIRECTIONS = ["up", "down"] as const;
+
+type TimeBasedType = (typeof TIME_BASED_TYPES)[number];
+
+function getString(formData: FormData, name: string): string {
+  const value = formData.get(name);
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseTitle(formData: FormData, errors: ValidationError[]): string {
+  const title = getString(formData, "title");
+
+  if (!title) {
+    errors.push({
+      field: "title",
+      message: "Title is required",
+      code: "REQUIRED_FIELD",
+    });
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.push({
+      field: "title",
+      message: `Title cannot be longer than ${MAX_TITLE_LENGTH} characters`,
+      code: "INVALID_VALUE",
+    });
+  }
+
+  return title;
+}
+
+function parseDescription(
+  formData: FormData,
+  errors: ValidationError[],
+): string | null {
+  const description = getString(formData, "description");
+
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push({
+      field: "description",
+      message: `Description cannot be longer than ${MAX_DESCRIPTION_LENGTH} characters`,
+      code: "INVALID_VALUE",
+    });
+  }
+
+  return description || null;
+}
+
+/**
+ * Parse a yyyy-MM-dd date input as local midnight
+ *
+ * @param value - Raw value from a date input
+ * @returns The parsed date, or null if the value is not a real calendar date
+ */
+export function parseDateInput(value: string): Date | null {
+  if (!DATE_INPUT_PATTERN.test(value)) {
+    return null;
+  }
+
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseDateField(
+  formData: FormData,
+  field: "startDate" | "targetDate",
+  errors: ValidationError[],
+): Date | null {
+  const value = getString(formData, field);
+  const label = field === "startDate" ? "Start date" : "Target date";
+
+  if (!value) {
+    errors.push({
+      field,
+      message: `${label} is required`,
+      code: "REQUIRED_FIELD",
+    });
+    return null;
+  }
+
+  const date = parseDateInput(value);
+  if (!date) {
+    errors.push({
+      field,
+      message: `${label} is not a valid date`,
+      code: "INVALID_DATE_FORMAT",
+    });
+  }
+
+  return date;
+}
+
+/**
+ * Parse the fields of a manual progress bar
+ *
+ * @param formData - Submitted form data
+ * @returns Parsed input or field errors
+ */
+export function parseManualBarForm(
+  formData: FormData,
+): ParsedInput<ManualBarInput> {
+  const errors: ValidationError[] = [];
+  const title = parseTitle(formData, errors);
+  const description = parseDescription(formData, errors);
+
+  const rawDirection = getString(formData, "direction") || "up";
+  const direction = DIRECTIONS.find((d) => d === rawDirection) ?? "up";
+  if (rawDirection !== direction) {
+    errors.push({
+      field: "direction",
+      message: "Choose counting up or burning down",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  // Burn-down bars may aim for zero, e.g. paying a debt off completely
+  const rawTarget = getString(formData, "targetValue");
+  const targetValue = Number(rawTarget);
+  if (!rawTarget) {
+    errors.push({
+      field: "targetValue",
+      message: "Target value is required",
+      code: "REQUIRED_FIELD",
+    });
+  } else if (
+    !Number.isFinite(targetValue) ||
+    targetValue < 0 ||
+    (direction === "up" && targetValue === 0)
+  ) {
+    errors.push({
+      field: "targetValue",
+      message:
+        direction === "up"
+          ? "Target value must be a positive number"
+          : "Target value cannot be negative",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  // Count-up bars always start from zero
+  let startValue = 0;
+  if (direction === "down") {
+    const rawStart = getString(formData, "startValue");
+    startValue = Number(rawStart);
+    if (!rawStart) {
+      errors.push({
+        field: "startValue",
+        message: "Starting value is required",
+        code: "REQUIRED_FIELD",
+      });
+    } else if (!Number.isFinite(startValue) || startValue <= targetValue) {
+      errors.push({
+        field: "startValue",
+        message: "Starting value must be above the target",
+        code: "INVALID_VALUE",
+      });
+    }
+  }
+
+  // Step size is optional and defaults to moving one unit at a time
+  const rawStep = getString(formData, "stepSize");
+  const stepSize = rawStep ? Number(rawStep) : 1;
+  if (!Number.isFinite(stepSize) || stepSize <= 0) {
+    errors.push({
+      field: "stepSize",
+      message: "Step size must be a positive number",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const unit = getString(formData, "unit");
+  if (unit.length > MAX_UNIT_LENGTH) {
+    errors.push({
+      field: "unit",
+      message: `Unit cannot be longer than ${MAX_UNIT_LENGTH} characters`,
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const rawPosition = getString(formData, "unitPosition");
+  const unitPosition = UNIT_POSITIONS.find((p) => p === rawPosition) ?? null;
+  if (rawPosition && !unitPosition) {
+    errors.push({
+      field: "unitPosition",
+      message: "Unit position must be before or after the value",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  // Unchecked checkboxes are not submitted at all
+  const allowOverflow = getString(formData, "allowOverflow") === "on";
+
+  // An empty choice means the bar never resets
+  const rawRecurrence = getString(formData, "recurrence");
+  const recurrence = isRecurrence(rawRecurrence) ? rawRecurrence : null;
+  if (rawRecurrence && !recurrence) {
+    errors.push({
+      field: "recurrence",
+      message: "Choose how often the bar resets",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  let recurrenceDays: number | null = null;
+  if (recurrence === "custom") {
+    const rawDays = getString(formData, "recurrenceDays");
+    recurrenceDays = Number(rawDays);
+    if (!rawDays) {
+      errors.push({
+        field: "recurrenceDays",
+        message: "Number of days is required",
+        code: "REQUIRED_FIELD",
+      });
+    } else if (
+      !Number.isInteger(recurrenceDays) ||
+      recurrenceDays < 1 ||
+      recurrenceDays > MAX_RECURRENCE_DAYS
+    ) {
+      errors.push({
+        field: "recurrenceDays",
+        message: `Number of days must be a whole number from 1 to ${MAX_RECURRENCE_DAYS}`,
+        code: "INVALID_VALUE",
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    input: {
+      title,
+      description,
+      targetValue,
+      unit: unit || null,
+      unitPosition,
+      direction,
+      startValue,
+      stepSize,
+      allowOverflow,
+      recurrence,
+      recurrenceDays,
+    },
+  };
+}
+
+/**
+ * Parse the fields of a time-based progress bar
+ * Only checks that the values are well formed; the date rules for each
+ * bar type are applied by TimeBasedManager.validateBarConfig
+ *
+ * @param formData - Submitted form data
+ * @param getCountDownStart - Start date to use for count-down bars, which
+ *   have no start date input
+ * @returns Parsed configuration or field errors
+ */
+export function parseTimeBasedBarForm(
+  formData: FormData,
+  getCountDownStart: () => Date,
+): ParsedInput<TimeBasedBarConfig> {
+  const errors: ValidationError[] = [];
+  const title = parseTitle(formData, errors);
+  const description = parseDescription(formData, errors);
+
+  const rawType = getString(formData, "timeBasedType");
+  const timeBasedType: TimeBasedType | undefined = TIME_BASED_TYPES.find(
+    (t) => t === rawType,
+  );
+  if (!timeBasedType) {
+    errors.push({
+      field: "timeBasedType",
+      message: "Choose count-up, count-down or arrival date",
+      code: "INVALID_VALUE",
+    });
+  }
+
+  const startDate =
+    timeBasedType === "count-down"
+      ? getCountDownStart()
+      : parseDateField(formData, "startDate", errors);
+  const targetDate = parseDateField(formData, "targetDate", errors);
+
+  if (errors.length > 0 || !timeBasedType || !startDate || !targetDate) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    input: {
+      title,
+      description: description ?? undefined,
+      timeBasedType,
+      startDate,
+      targetDate,
+    },
+  };
+}
+
+/**
+ * Parse the fields of a composite bar
+ *
+ * @param formData - Submitted form data
+ * @returns Parsed input or field errors
+ */
+export function parseCompositeBarForm(
+  formData: FormData,
+): ParsedInput<CompositeBarInput> {
+  const errors: ValidationError[] = [];
+  const title = parseTitle(formData, errors);
+  const description = parseDescription(formData, errors);
+
+  const aggregation = getString(formData, "aggregation") || "average";
+  if (!isAggregation(aggregation)) {
+    errors.push({
+      field: "aggregation",
+      message: "Choose a weighted average or a sum",
+      code: "INVALID_VALUE",
+    });
+    return { isValid: false, errors };
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  return { isValid: true, input: { title, description, aggregation } };
+}
+
+/**
+ * Parse the composite bar a bar counts towards and its weight there
+ * Whether the parent exists and can hold the bar is checked by the caller
+ *
+ * @param formData - Submitted form data
+ * @returns Parsed input, undefined if the form has no parent picker, or
+ *   field errors
+ */
+export function parseParentFields(
+  formData: FormData,
+): ParsedInput<ParentInput | undefined> {
+  const parentId = formData.get("parentId");
+  if (parentId === null) {
+    return { isValid: true, input: undefined };
+  }
+
+  const rawWeight = getString(formData, "weight");
+  const weight = rawWeight ? Number(rawWeight) : 1;
+  if (!Number.isFinite(weight) || weight <= 0 || weight > MAX_WEIGHT) {
+    return {
+      isValid: false,
+      errors: [
+        {
+          field: "weight",
+          message: `Weight must be above 0 and at most ${MAX_WEIGHT}`,
+          code: "INVALID_VALUE",
+        },
+      ],
+    };
+  }
+
+  return {
+    isValid: true,
+    input: {
+      parentId: typeof parentId === "string" && parentId ? parentId : null,
+      weight,
+    },
+  };
+}
+
+/**
+ * Parse the fields of a category
+ *
+ * @param formData - Submitted form data
+ * @returns Parsed input or field errors
+ */
+export function parseCategoryForm(
+  formData: FormData,
+): ParsedInput<CategoryInput> {
+  const name = getString(formData, "name");
+
+  if (!name) {
+    return {
+      isValid: false,
+      errors: [
+        { field: "name", message: "Name is required", code: "REQUIRED_FIELD" },
+      ],
+    };
+  }
+
+  if (name.length > MAX_CATEGORY_NAME_LENGTH) {
+    return {
+      isValid: false,
+      errors: [
+        {
+          field: "name",
+          message: `Name cannot be longer than ${MAX_CATEGORY_NAME_LENGTH} characters`,
+          code: "INVALID_VALUE",
+        },
+      ],
+    };
+  }
+
+  return { isValid: true, input: { name } };
+}
+
+/**
+ * Parse the comma-separated tags of a bar
+ * Names are normalized and duplicates dropped
+ *
+ * @param formData - Submitted form data
+ * @returns Parsed tag names, undefined if the form has no tags field, or
+ *   field errors
+ */
+export function parseTagList(
+  formData: FormData,
+): ParsedInput<string[] | undefined> {
+  const raw = formData.get("tags");
+  if (raw === null) {
+    return { isValid: true, input: undefined };
+  }
+
+  const names = [
+    ...new Set(
+      (typeof raw === "string" ? raw : "")
+        .split(",")
+        .map(normalizeTagName)
+        .filter(Boolean),
+    ),
+  ];
+
+  if (names.some((name) => name.length > MAX_TAG_LENGTH)) {
+    return {
+      isValid: false,
+      errors: [
+        {
+          field: "tags",
+          message: `Tags cannot be longer than ${MAX_TAG_LENGTH} characters`,
+          code: "INVALID_VALUE",
+        },
+      ],
+    };
+  }
+
+  if (names.length > MAX_TAGS_PER_BAR) {
+    return {
+      isValid: false,
+      errors: [
+        {
+          field: "tags",
+          message: `A bar can have at most ${MAX_TAGS_PER_BAR} tags`,
+          code: "INVALID_VALUE",
+        },
+      ],
+    };
+  }
+
+  return { isValid: true, input: names };
+}
+
+// A milestone on a manual bar is a value, or a percentage of the goal when
+// it ends in %; either has to lie between the start and the target
+function parseMilestoneThreshold(
+  formData: FormData,
+  bar: ProgressBar,
+  errors: ValidationError[],
+): Pick<MilestoneInput, "kind" | "value"> | null {
+  const raw = getString(formData, "threshold");
+  if (!raw) {
+    errors.push({
+      field: "threshold",
+      message: "Milestone is required",
+      code: "REQUIRED_FIELD",
+    });
+    return null;
+  }
+
+  if (raw.endsWith("%")) {
+    const percentage = Number(raw.slice(0, -1).trim());
+    if (!Number.isFinite(percentage) || percentage <= 0 || percentage >= 100) {
+      errors.push({
+        field: "threshold",
+        message: "Percentage must be between 0% and 100%",
+        code: "INVALID_VALUE",
+      });
+      return null;
+    }
+    return { kind: "percentage", value: percentage };
+  }
+
+  const value = Number(raw);
+  if (
+    !Number.isFinite(value) ||
+    !isMilestoneInRange(bar, { kind: "value", value, date: null })
+  ) {
+    errors.push({
+      field: "threshold",
+      message: "Milestone must be between the start and the target",
+      code: "INVALID_VALUE",
+    });
+    return null;
+  }
+  return { kind: "value", value };
+}
+
+// A milestone on a time-based bar is a day after its start date and before
+// its target date
+function parseMilestoneDate(
+  formData: FormData,
+  bar: ProgressBar,
+  errors: ValidationError[],
+): Date | null {
+  const raw = getString(formData, "date");
+  if (!raw) {
+    errors.push({
+      field: "date",
+      message: "Date is required",
+      code: "REQUIRED_FIELD",
+    });
+    return null;
+  }
+
+  const date = parseDateInput(raw);
+  if (!date) {
+    errors.push({
+      field: "date",
+      message: "Date is not a valid date",
+      code: "INVALID_DATE_FORMAT",
+    });
+    return null;
+  }
+
+  if (!isMilestoneInRange(bar, { kind: "date", value: null, date })) {
+    errors.push({
+      field: "date",
+      message: "Date must be between the start and target dates",
+      code: "INVALID_DATE_RANGE",
+    });
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Parse the fields of a milestone on a bar
+ * Manual bars take a value or percentage, time-based bars a date
+ *
+ * @param formData - Submitted form data
+ * @param bar - The bar the milestone is for
+ * @returns Parsed input or field errors
+ */
+export function parseMilestoneForm(
+  formData: FormData,
+  bar: ProgressBar,
+): ParsedInput<MilestoneInput> {
+  const errors: ValidationError[] = [];
+
+  const label = getString(formData, "label");
+  if (label.length > MAX_MILESTONE_LABEL_LENGTH) {
+    errors.push({
+      field: "label",
+      message: `Label cannot be longer than ${MAX_MILESTONE_LABEL_LENGTH} characters`,
+      code: "INVALID_VALUE",
+    });
+  }
+
+  if (bar.barType === "time-based") {
+    const date = parseMilestoneDate(formData, bar, errors);
+    if (errors.length > 0 || !date) {
+      return { isValid: false, errors };
+    }
+    return {
+      isValid: true,
+      input: { label: label || null, kind: "date", value: null, date },
+    };
+  }
+
+  const threshold = parseMilestoneThreshold(formData, bar, errors);
+  if (errors.length > 0 || !threshold) {
+    return { isValid: false, errors };
+  }
+  return {
+    isValid: true,
+    input: { label: label || null, ...threshold, date: null },
+  };
+}
+
+/**
+ * Group validation errors by field for display next to form inputs
+ * Keeps the first message reported for each field
+ *
+ * @param errors - Validation errors to group
+ * @returns Map of field name to error message
+ */
+export function groupErrorsByField(
+  errors: ValidationError[],
+): Record<string, string> {
+  const grouped: Record<string, string> = {};
+
+  for (const error of errors) {
+    grouped[error.field] ??= error.message;
+  }
+
+  return grouped;
+}
@@ -1,7 +1,9 @@
 import path from "node:path";
 import Database from "better-sqlite3";
+import { eq } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/better-sqlite3";
 import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { progressBars, UNASSIGNED_USER_ID } from "../db/schema";
 
 const dbPath = path.join(process.cwd(), "sqlite.db");
 const sqlite = new Database(dbPath);
@@ -11,4 +13,18 @@ console.log("Running migrations...");
 migrate(db, { migrationsFolder: "./drizzle" });
 console.log("Migrations completed successfully!");
 
+// Bars created before ownership existed are parked under a placeholder owner
+// by migration 0003. Hand them to DEFAULT_USER_ID (a Clerk user id) if set.
+const defaultUserId = process.env.DEFAULT_USER_ID;
+if (defaultUserId) {
+  const result = db
+    .update(progressBars)
+    .set({ userId: defaultUserId })
+    .where(eq(progressBars.userId, UNASSIGNED_USER_ID))
+    .run();
+  console.log(
+    `Assigned ${result.changes} unowned progress bar(s) to ${defaultUserId}`,
+  );
+}
+
 sqlite.close();